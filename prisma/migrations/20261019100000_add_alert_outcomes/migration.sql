@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN     "resolvedAt" TIMESTAMP(3),
+ADD COLUMN     "resolvedOutcome" TEXT;
+
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN     "outcome" TEXT,
+ADD COLUMN     "realizedPnl" DOUBLE PRECISION,
+ADD COLUMN     "realizedReturn" DOUBLE PRECISION,
+ADD COLUMN     "resolutionPrice" DOUBLE PRECISION,
+ADD COLUMN     "resolvedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "markets_resolvedOutcome_idx" ON "markets"("resolvedOutcome");
+
+-- CreateIndex
+CREATE INDEX "alerts_outcome_idx" ON "alerts"("outcome");
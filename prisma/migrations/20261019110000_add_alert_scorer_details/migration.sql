@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN     "clusterBonus" INTEGER,
+ADD COLUMN     "contrarianBonus" INTEGER,
+ADD COLUMN     "impactMethod" TEXT,
+ADD COLUMN     "resolutionProximityBonus" INTEGER,
+ADD COLUMN     "scorerVersion" TEXT,
+ADD COLUMN     "walletDormancyBonus" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "alerts_scorerVersion_idx" ON "alerts"("scorerVersion");
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN     "walletFreshFatBet" BOOLEAN,
+ADD COLUMN     "walletHighConcentration" BOOLEAN,
+ADD COLUMN     "walletLowDiversification" BOOLEAN,
+ADD COLUMN     "walletLowTradeCount" BOOLEAN,
+ADD COLUMN     "walletLowVolume" BOOLEAN,
+ADD COLUMN     "walletYoungAccount" BOOLEAN;
+
+-- CreateTable
+CREATE TABLE "alert_labels" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "labeledBy" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "alert_labels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_labels_alertId_createdAt_idx" ON "alert_labels"("alertId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "alert_labels_label_idx" ON "alert_labels"("label");
+
+-- CreateIndex
+CREATE INDEX "alert_labels_createdAt_idx" ON "alert_labels"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "alert_labels" ADD CONSTRAINT "alert_labels_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "alerts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN     "modelProbability" DOUBLE PRECISION,
+ADD COLUMN     "modelVersion" TEXT,
+ADD COLUMN     "ruleScore" INTEGER,
+ADD COLUMN     "scoreFeatures" JSONB;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "shadow_scores" (
+    "id" TEXT NOT NULL,
+    "tradeId" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "productionVersion" TEXT NOT NULL,
+    "productionScore" INTEGER NOT NULL,
+    "productionClassification" TEXT NOT NULL,
+    "productionFiltersPassed" BOOLEAN NOT NULL,
+    "shadowVersion" TEXT NOT NULL,
+    "shadowScore" INTEGER NOT NULL,
+    "shadowClassification" TEXT NOT NULL,
+    "shadowFiltersPassed" BOOLEAN NOT NULL,
+    "shadowFilterReason" TEXT,
+    "shadowBreakdown" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shadow_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shadow_scores_shadowVersion_createdAt_idx" ON "shadow_scores"("shadowVersion", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "shadow_scores_tradeId_idx" ON "shadow_scores"("tradeId");
+
+-- CreateIndex
+CREATE INDEX "shadow_scores_createdAt_idx" ON "shadow_scores"("createdAt");
@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "trade_decisions" (
+    "id" TEXT NOT NULL,
+    "tradeId" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "tradeTimestamp" TIMESTAMP(3) NOT NULL,
+    "tradeUsdValue" DOUBLE PRECISION NOT NULL,
+    "stage" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "value" DOUBLE PRECISION,
+    "threshold" DOUBLE PRECISION,
+    "thresholdRatio" DOUBLE PRECISION,
+    "score" INTEGER,
+    "classification" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trade_decisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "trade_decisions_createdAt_idx" ON "trade_decisions"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "trade_decisions_stage_reason_createdAt_idx" ON "trade_decisions"("stage", "reason", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "trade_decisions_marketId_createdAt_idx" ON "trade_decisions"("marketId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "trade_decisions_walletAddress_createdAt_idx" ON "trade_decisions"("walletAddress", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "trade_decisions_tradeId_idx" ON "trade_decisions"("tradeId");
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "alert_budget_adjustments" (
+    "id" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "windowDays" INTEGER NOT NULL,
+    "alertsInWindow" INTEGER NOT NULL,
+    "alertsPerMonth" DOUBLE PRECISION NOT NULL,
+    "budgetMin" DOUBLE PRECISION NOT NULL,
+    "budgetMax" DOUBLE PRECISION NOT NULL,
+    "previousAlertThreshold" DOUBLE PRECISION NOT NULL,
+    "alertThreshold" DOUBLE PRECISION NOT NULL,
+    "previousMinWalletScore" DOUBLE PRECISION NOT NULL,
+    "minWalletScore" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+    "decidedBy" TEXT,
+
+    CONSTRAINT "alert_budget_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_budget_adjustments_status_createdAt_idx" ON "alert_budget_adjustments"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "alert_budget_adjustments_createdAt_idx" ON "alert_budget_adjustments"("createdAt");
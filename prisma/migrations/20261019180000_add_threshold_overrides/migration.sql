@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "threshold_overrides" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "threshold_overrides_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "threshold_changes" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "previousValue" JSONB NOT NULL,
+    "newValue" JSONB NOT NULL,
+    "cleared" BOOLEAN NOT NULL DEFAULT false,
+    "changedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "threshold_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "threshold_changes_key_createdAt_idx" ON "threshold_changes"("key", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "threshold_changes_createdAt_idx" ON "threshold_changes"("createdAt");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "scoped_threshold_overrides" (
+    "id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "scopeValue" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "updatedBy" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scoped_threshold_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "threshold_changes" ADD COLUMN "scope" TEXT,
+ADD COLUMN "scopeValue" TEXT,
+ALTER COLUMN "previousValue" DROP NOT NULL,
+ALTER COLUMN "newValue" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoped_threshold_overrides_scope_scopeValue_key_key" ON "scoped_threshold_overrides"("scope", "scopeValue", "key");
+
+-- CreateIndex
+CREATE INDEX "threshold_changes_scope_scopeValue_createdAt_idx" ON "threshold_changes"("scope", "scopeValue", "createdAt");
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "thresholdProfile" TEXT;
+
+-- CreateTable
+CREATE TABLE "threshold_profiles" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "description" TEXT,
+    "thresholds" JSONB NOT NULL,
+    "scorer" JSONB NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "threshold_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "threshold_profile_activations" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "activatedBy" TEXT NOT NULL,
+    "activatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "revertToId" TEXT,
+    "endedAt" TIMESTAMP(3),
+    "endedBy" TEXT,
+    "endReason" TEXT,
+
+    CONSTRAINT "threshold_profile_activations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "threshold_profiles_name_version_key" ON "threshold_profiles"("name", "version");
+
+-- CreateIndex
+CREATE INDEX "threshold_profile_activations_endedAt_activatedAt_idx" ON "threshold_profile_activations"("endedAt", "activatedAt");
+
+-- CreateIndex
+CREATE INDEX "threshold_profile_activations_activatedAt_idx" ON "threshold_profile_activations"("activatedAt");
+
+-- AddForeignKey
+ALTER TABLE "threshold_profile_activations" ADD CONSTRAINT "threshold_profile_activations_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "threshold_profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
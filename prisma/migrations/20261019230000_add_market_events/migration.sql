@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "catalystProximityBonus" INTEGER,
+ADD COLUMN "catalystEventId" TEXT;
+
+-- CreateTable
+CREATE TABLE "market_events" (
+    "id" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "eventType" TEXT NOT NULL,
+    "scheduledAt" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "externalId" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "market_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "market_events_marketId_externalId_key" ON "market_events"("marketId", "externalId");
+
+-- CreateIndex
+CREATE INDEX "market_events_marketId_scheduledAt_idx" ON "market_events"("marketId", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "market_events_scheduledAt_idx" ON "market_events"("scheduledAt");
+
+-- AddForeignKey
+ALTER TABLE "market_events" ADD CONSTRAINT "market_events_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
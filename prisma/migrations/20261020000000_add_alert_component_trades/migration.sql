@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "componentTradeIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "markets" ADD COLUMN "gammaEventId" TEXT,
+ADD COLUMN "gammaEventSlug" TEXT,
+ADD COLUMN "gammaEventTitle" TEXT;
+
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "eventPatternBonus" INTEGER,
+ADD COLUMN "eventPattern" JSONB;
+
+-- CreateIndex
+CREATE INDEX "markets_gammaEventId_idx" ON "markets"("gammaEventId");
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "who_knew_reports" (
+    "id" TEXT NOT NULL,
+    "marketId" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "moveAt" TIMESTAMP(3) NOT NULL,
+    "priceBefore" DOUBLE PRECISION,
+    "priceAfter" DOUBLE PRECISION,
+    "lookbackHours" DOUBLE PRECISION NOT NULL,
+    "maxEntryPrice" DOUBLE PRECISION NOT NULL,
+    "tradesScanned" INTEGER NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "who_knew_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "who_knew_wallets" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "proxyAddress" TEXT NOT NULL,
+    "positionUsd" DOUBLE PRECISION NOT NULL,
+    "shares" DOUBLE PRECISION NOT NULL,
+    "avgEntryPrice" DOUBLE PRECISION NOT NULL,
+    "potentialProfit" DOUBLE PRECISION NOT NULL,
+    "tradeCount" INTEGER NOT NULL,
+    "tradeIds" TEXT[],
+    "firstTradeAt" TIMESTAMP(3) NOT NULL,
+    "hoursBeforeMove" DOUBLE PRECISION NOT NULL,
+    "isSuspicious" BOOLEAN,
+    "fingerprint" JSONB,
+    "alertId" TEXT,
+
+    CONSTRAINT "who_knew_wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "who_knew_reports_createdAt_idx" ON "who_knew_reports"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "who_knew_reports_marketId_trigger_moveAt_key" ON "who_knew_reports"("marketId", "trigger", "moveAt");
+
+-- CreateIndex
+CREATE INDEX "who_knew_wallets_reportId_idx" ON "who_knew_wallets"("reportId");
+
+-- CreateIndex
+CREATE INDEX "who_knew_wallets_walletAddress_idx" ON "who_knew_wallets"("walletAddress");
+
+-- AddForeignKey
+ALTER TABLE "who_knew_reports" ADD CONSTRAINT "who_knew_reports_marketId_fkey" FOREIGN KEY ("marketId") REFERENCES "markets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "who_knew_wallets" ADD CONSTRAINT "who_knew_wallets_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "who_knew_reports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "watched_wallets" (
+    "id" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "proxyAddress" TEXT,
+    "label" TEXT,
+    "source" TEXT NOT NULL,
+    "alertId" TEXT,
+    "addedBy" TEXT NOT NULL,
+    "lastActivityAt" TIMESTAMP(3),
+    "lastMarket" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "watched_wallets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "watched_wallets_address_key" ON "watched_wallets"("address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "watched_wallets_proxyAddress_key" ON "watched_wallets"("proxyAddress");
+
+-- CreateIndex
+CREATE INDEX "watched_wallets_createdAt_idx" ON "watched_wallets"("createdAt");
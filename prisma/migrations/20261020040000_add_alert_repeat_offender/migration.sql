@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "repeatOffenderBonus" INTEGER,
+ADD COLUMN "priorAlertCount" INTEGER;
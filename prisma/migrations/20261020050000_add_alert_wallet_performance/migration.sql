@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "alerts" ADD COLUMN "walletHighWinRate" BOOLEAN,
+ADD COLUMN "walletLowOddsWinner" BOOLEAN,
+ADD COLUMN "walletWinRate" DOUBLE PRECISION,
+ADD COLUMN "walletRealizedPnl" DOUBLE PRECISION,
+ADD COLUMN "walletAvgWinningEntry" DOUBLE PRECISION;
@@ -0,0 +1,215 @@
+import type { FastifyInstance } from 'fastify';
+
+import {
+  alertLabels,
+  ALERT_LABELS,
+  isAlertLabel,
+} from '../services/alerts/alert-labels.js';
+import { alertPersistence } from '../services/alerts/alert-persistence.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+import { parseDateParam } from './params.js';
+
+interface AlertParams {
+  alertId: string;
+}
+
+interface AddLabelBody {
+  label: string;
+  labeledBy?: string;
+  notes?: string;
+}
+
+interface LabelExportQuery {
+  format?: string;
+  from?: string;
+  to?: string;
+  label?: string;
+  includeHistory?: string;
+}
+
+/**
+ * Register alert feedback routes
+ */
+export async function registerAlertRoutes(app: FastifyInstance): Promise<void> {
+  // Label an alert
+  app.post<{ Params: AlertParams; Body: AddLabelBody | null | undefined }>(
+    '/api/alerts/:alertId/labels',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { alertId } = request.params;
+      if (request.body === null || typeof request.body !== 'object') {
+        return reply.code(400).send({
+          success: false,
+          error: 'Request body must be a JSON object',
+        });
+      }
+      const { label, labeledBy, notes } = request.body;
+
+      if (typeof label !== 'string' || !isAlertLabel(label)) {
+        return reply.code(400).send({
+          success: false,
+          error: `Invalid label - must be one of: ${ALERT_LABELS.join(', ')}`,
+        });
+      }
+      if (labeledBy !== undefined && typeof labeledBy !== 'string') {
+        return reply.code(400).send({
+          success: false,
+          error: 'labeledBy must be a string',
+        });
+      }
+      if (notes !== undefined && typeof notes !== 'string') {
+        return reply.code(400).send({
+          success: false,
+          error: 'notes must be a string',
+        });
+      }
+
+      try {
+        const record = await alertLabels.addLabel({
+          alertId,
+          label,
+          labeledBy: labeledBy ?? 'api',
+          source: 'api',
+          ...(notes !== undefined && { notes }),
+        });
+
+        if (record === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Alert not found',
+          });
+        }
+
+        return reply.code(201).send({ success: true, label: record });
+      } catch (error) {
+        logger.error({ error, alertId }, 'Failed to label alert');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to label alert',
+        });
+      }
+    }
+  );
+
+  // Label history for an alert
+  app.get<{ Params: AlertParams }>(
+    '/api/alerts/:alertId/labels',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const labels = await alertLabels.getLabels(request.params.alertId);
+        return reply.code(200).send({
+          success: true,
+          count: labels.length,
+          labels,
+        });
+      } catch (error) {
+        logger.error(
+          { error, alertId: request.params.alertId },
+          'Failed to fetch alert labels'
+        );
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to fetch alert labels',
+        });
+      }
+    }
+  );
+
+  // Full scoring snapshot (input, score, settings in force)
+  app.get<{ Params: AlertParams }>(
+    '/api/alerts/:alertId/score',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const result = await alertPersistence.getScoreSnapshot(
+          request.params.alertId
+        );
+        if (result === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Alert not found',
+          });
+        }
+        return reply.code(200).send({ success: true, ...result });
+      } catch (error) {
+        logger.error(
+          { error, alertId: request.params.alertId },
+          'Failed to fetch alert score snapshot'
+        );
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to fetch alert score snapshot',
+        });
+      }
+    }
+  );
+
+  // Labeled dataset export (labels joined with score breakdown and wallet flags)
+  app.get<{ Querystring: LabelExportQuery }>(
+    '/api/labels/export',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const format = request.query.format ?? 'jsonl';
+      if (format !== 'jsonl' && format !== 'csv') {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid format - use jsonl or csv',
+        });
+      }
+
+      const from = parseDateParam(request.query.from);
+      const to = parseDateParam(request.query.to);
+      if (from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid date - use ISO 8601 format for from/to',
+        });
+      }
+
+      const label = request.query.label;
+      if (label !== undefined && !isAlertLabel(label)) {
+        return reply.code(400).send({
+          success: false,
+          error: `Invalid label - must be one of: ${ALERT_LABELS.join(', ')}`,
+        });
+      }
+
+      try {
+        const rows = await alertLabels.exportDataset({
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+          ...(label !== undefined && { label }),
+          includeHistory: request.query.includeHistory === 'true',
+        });
+
+        if (format === 'csv') {
+          return reply
+            .code(200)
+            .header('Content-Type', 'text/csv; charset=utf-8')
+            .header(
+              'Content-Disposition',
+              'attachment; filename="alert-labels.csv"'
+            )
+            .send(alertLabels.toCsv(rows));
+        }
+
+        return reply
+          .code(200)
+          .header('Content-Type', 'application/x-ndjson; charset=utf-8')
+          .header(
+            'Content-Disposition',
+            'attachment; filename="alert-labels.jsonl"'
+          )
+          .send(alertLabels.toJsonl(rows));
+      } catch (error) {
+        logger.error({ error }, 'Failed to export labeled dataset');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to export labeled dataset',
+        });
+      }
+    }
+  );
+}
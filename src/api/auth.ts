@@ -0,0 +1,67 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { timingSafeEqual } from 'crypto';
+
+import { logger } from '../utils/logger.js';
+import { getEnv } from '../config/env.js';
+
+/**
+ * Bearer token authentication middleware
+ * Checks for Authorization header with token from API_SECRET_TOKEN env var
+ */
+export function authenticateRequest(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  done: (err?: Error) => void
+): void {
+  const env = getEnv();
+  const secretToken = env.API_SECRET_TOKEN;
+
+  // If no token is configured, reject all authenticated requests
+  if (!secretToken) {
+    logger.warn(
+      'API_SECRET_TOKEN not configured - rejecting authenticated request'
+    );
+    void reply.code(401).send({
+      success: false,
+      error: 'API authentication not configured',
+    });
+    return;
+  }
+
+  const authHeader = request.headers.authorization;
+
+  if (!authHeader) {
+    void reply.code(401).send({
+      success: false,
+      error: 'Missing Authorization header',
+    });
+    return;
+  }
+
+  // Expect "Bearer <token>" format
+  const parts = authHeader.split(' ');
+  if (parts.length !== 2 || parts[0] !== 'Bearer') {
+    void reply.code(401).send({
+      success: false,
+      error: 'Invalid Authorization header format. Expected: Bearer <token>',
+    });
+    return;
+  }
+
+  const providedToken = parts[1];
+
+  // Use timing-safe comparison to prevent timing attacks
+  if (
+    !providedToken ||
+    !timingSafeEqual(Buffer.from(providedToken), Buffer.from(secretToken))
+  ) {
+    logger.warn({ ip: request.ip }, 'Invalid API token provided');
+    void reply.code(403).send({
+      success: false,
+      error: 'Invalid API token',
+    });
+    return;
+  }
+
+  done();
+}
@@ -0,0 +1,115 @@
+import type { FastifyInstance } from 'fastify';
+
+import { alertBudgetController } from '../services/alerts/alert-budget.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+
+interface BudgetStatusQuery {
+  limit?: string;
+}
+
+interface DecisionParams {
+  adjustmentId: string;
+}
+
+interface DecisionBody {
+  decidedBy?: string;
+}
+
+/**
+ * Register alert budget controller routes
+ */
+export async function registerBudgetRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Alert rate vs budget, current thresholds and adjustment history
+  app.get<{ Querystring: BudgetStatusQuery }>(
+    '/api/budget',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const limit =
+        request.query.limit !== undefined ? Number(request.query.limit) : 20;
+      if (!Number.isInteger(limit) || limit < 0 || limit > 500) {
+        return reply.code(400).send({
+          success: false,
+          error: 'limit must be an integer between 0 and 500',
+        });
+      }
+
+      try {
+        const status = await alertBudgetController.getStatus(limit);
+        return reply.code(200).send({ success: true, status });
+      } catch (error) {
+        logger.error({ error }, 'Failed to get alert budget status');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get alert budget status',
+        });
+      }
+    }
+  );
+
+  // Run the budget check now (proposes or applies per ALERT_BUDGET_MODE)
+  app.post(
+    '/api/budget/evaluate',
+    { preHandler: authenticateRequest },
+    async (_request, reply) => {
+      try {
+        const evaluation = await alertBudgetController.evaluate();
+        return reply.code(200).send({ success: true, evaluation });
+      } catch (error) {
+        logger.error({ error }, 'Failed to evaluate alert budget');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to evaluate alert budget',
+        });
+      }
+    }
+  );
+
+  // Approve or reject a pending adjustment
+  for (const action of ['approve', 'reject'] as const) {
+    app.post<{ Params: DecisionParams; Body: DecisionBody | undefined }>(
+      `/api/budget/adjustments/:adjustmentId/${action}`,
+      { preHandler: authenticateRequest },
+      async (request, reply) => {
+        const { adjustmentId } = request.params;
+        const decidedBy = `api:${request.body?.decidedBy ?? 'unknown'}`;
+
+        try {
+          const result =
+            action === 'approve'
+              ? await alertBudgetController.approve(adjustmentId, decidedBy)
+              : await alertBudgetController.reject(adjustmentId, decidedBy);
+
+          if (result === null) {
+            return reply.code(404).send({
+              success: false,
+              error: 'Adjustment not found',
+            });
+          }
+          if (!result.success) {
+            return reply.code(409).send({
+              success: false,
+              error: result.error,
+            });
+          }
+
+          return reply.code(200).send({
+            success: true,
+            adjustment: result.data,
+          });
+        } catch (error) {
+          logger.error(
+            { error, adjustmentId, action },
+            'Failed to decide alert budget adjustment'
+          );
+          return reply.code(500).send({
+            success: false,
+            error: `Failed to ${action} adjustment`,
+          });
+        }
+      }
+    );
+  }
+}
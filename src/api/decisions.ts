@@ -0,0 +1,154 @@
+import type { FastifyInstance } from 'fastify';
+
+import {
+  DECISION_STAGES,
+  NEAR_MISS_RATIO,
+  tradeDecisionLog,
+  type DecisionStage,
+} from '../services/signals/trade-decision-log.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+import { parseDateParam, parseNumberParam } from './params.js';
+
+interface DecisionQuery {
+  from?: string;
+  to?: string;
+  stage?: string;
+  reason?: string;
+  marketId?: string;
+  wallet?: string;
+  minRatio?: string;
+  maxRatio?: string;
+  nearMiss?: string;
+  limit?: string;
+  offset?: string;
+}
+
+interface DecisionSummaryQuery {
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Register trade decision log routes
+ */
+export async function registerDecisionRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Per-trade pipeline decisions (near-misses, missed insiders)
+  app.get<{ Querystring: DecisionQuery }>(
+    '/api/decisions',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { query } = request;
+      const from = parseDateParam(query.from);
+      const to = parseDateParam(query.to);
+
+      if (from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid date - use ISO 8601 format for from/to',
+        });
+      }
+
+      if (
+        query.stage !== undefined &&
+        !DECISION_STAGES.includes(query.stage as DecisionStage)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: `stage must be one of: ${DECISION_STAGES.join(', ')}`,
+        });
+      }
+
+      // nearMiss=true is shorthand for NEAR_MISS_RATIO <= ratio < 1
+      const nearMiss = query.nearMiss === 'true';
+      const minRatio = nearMiss
+        ? NEAR_MISS_RATIO
+        : parseNumberParam(query.minRatio);
+      const maxRatio = nearMiss ? 1 : parseNumberParam(query.maxRatio);
+      if (minRatio === null || maxRatio === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'minRatio/maxRatio must be numbers',
+        });
+      }
+
+      const limit = query.limit !== undefined ? Number(query.limit) : 100;
+      const offset = query.offset !== undefined ? Number(query.offset) : 0;
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        return reply.code(400).send({
+          success: false,
+          error: 'limit must be an integer between 1 and 500',
+        });
+      }
+      if (!Number.isInteger(offset) || offset < 0) {
+        return reply.code(400).send({
+          success: false,
+          error: 'offset must be a non-negative integer',
+        });
+      }
+
+      try {
+        const { decisions, total } = await tradeDecisionLog.query({
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+          ...(query.stage !== undefined && {
+            stage: query.stage as DecisionStage,
+          }),
+          ...(query.reason !== undefined && { reason: query.reason }),
+          ...(query.marketId !== undefined && { marketId: query.marketId }),
+          ...(query.wallet !== undefined && {
+            walletAddress: query.wallet.toLowerCase(),
+          }),
+          ...(minRatio !== undefined && { minRatio }),
+          ...(maxRatio !== undefined && { maxRatio }),
+          limit,
+          offset,
+        });
+
+        return reply
+          .code(200)
+          .send({ success: true, decisions, total, limit, offset });
+      } catch (error) {
+        logger.error({ error }, 'Failed to query trade decisions');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to query trade decisions',
+        });
+      }
+    }
+  );
+
+  // Decision counts per stage and reason
+  app.get<{ Querystring: DecisionSummaryQuery }>(
+    '/api/decisions/summary',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const from = parseDateParam(request.query.from);
+      const to = parseDateParam(request.query.to);
+
+      if (from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid date - use ISO 8601 format for from/to',
+        });
+      }
+
+      try {
+        const summary = await tradeDecisionLog.getSummary({
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+        });
+
+        return reply.code(200).send({ success: true, summary });
+      } catch (error) {
+        logger.error({ error }, 'Failed to build trade decision summary');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to build trade decision summary',
+        });
+      }
+    }
+  );
+}
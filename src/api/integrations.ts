@@ -0,0 +1,290 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import axios from 'axios';
+import {
+  createHmac,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type KeyObject,
+} from 'crypto';
+
+import { getEnv } from '../config/env.js';
+import {
+  alertLabels,
+  decodeLabelAction,
+} from '../services/alerts/alert-labels.js';
+import { logger } from '../utils/logger.js';
+
+interface SlackActionPayload {
+  type: string;
+  user?: { id: string; username?: string; name?: string };
+  actions?: Array<{ action_id: string; value?: string }>;
+  response_url?: string;
+}
+
+interface DiscordUser {
+  id: string;
+  username: string;
+}
+
+interface DiscordInteraction {
+  type: number;
+  data?: { custom_id?: string };
+  member?: { user?: DiscordUser };
+  user?: DiscordUser;
+}
+
+// Discord interaction types / callback types
+const DISCORD_PING = 1;
+const DISCORD_MESSAGE_COMPONENT = 3;
+const DISCORD_PONG = 1;
+const DISCORD_CHANNEL_MESSAGE = 4;
+const DISCORD_EPHEMERAL_FLAG = 64;
+
+// Reject Slack requests older than this (replay protection)
+const SLACK_MAX_REQUEST_AGE_SECONDS = 5 * 60;
+
+/**
+ * Read a single header value
+ */
+function headerValue(request: FastifyRequest, name: string): string | null {
+  const value = request.headers[name];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Verify a Slack request signature (v0 HMAC-SHA256 of timestamp and raw body)
+ */
+function verifySlackSignature(
+  request: FastifyRequest,
+  rawBody: string,
+  signingSecret: string
+): boolean {
+  const timestamp = headerValue(request, 'x-slack-request-timestamp');
+  const signature = headerValue(request, 'x-slack-signature');
+  if (timestamp === null || signature === null) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SLACK_MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected =
+    'v0=' +
+    createHmac('sha256', signingSecret)
+      .update(`v0:${timestamp}:${rawBody}`)
+      .digest('hex');
+
+  return (
+    signature.length === expected.length &&
+    timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+/**
+ * Verify a Discord interaction signature (Ed25519 over timestamp and raw body)
+ */
+function verifyDiscordSignature(
+  request: FastifyRequest,
+  rawBody: string,
+  publicKey: KeyObject
+): boolean {
+  const timestamp = headerValue(request, 'x-signature-timestamp');
+  const signature = headerValue(request, 'x-signature-ed25519');
+  if (timestamp === null || signature === null) return false;
+
+  try {
+    return verify(
+      null,
+      Buffer.from(timestamp + rawBody),
+      publicKey,
+      Buffer.from(signature, 'hex')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register chat integration callbacks (label buttons on alert notifications)
+ *
+ * Both platforms sign the raw request body, so these routes are registered in
+ * their own scope with body parsing replaced by a raw string parser.
+ */
+export async function registerIntegrationRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  const env = getEnv();
+  const slackSigningSecret = env.SLACK_SIGNING_SECRET ?? null;
+  const discordPublicKey =
+    env.DISCORD_PUBLIC_KEY !== undefined
+      ? createPublicKey({
+          key: {
+            kty: 'OKP',
+            crv: 'Ed25519',
+            x: Buffer.from(env.DISCORD_PUBLIC_KEY, 'hex').toString('base64url'),
+          },
+          format: 'jwk',
+        })
+      : null;
+
+  await app.register(async (scope) => {
+    scope.removeAllContentTypeParsers();
+    scope.addContentTypeParser(
+      '*',
+      { parseAs: 'string' },
+      (_request, body, done) => {
+        done(null, body);
+      }
+    );
+
+    // Slack interactivity request URL
+    scope.post('/api/integrations/slack/actions', async (request, reply) => {
+      if (slackSigningSecret === null) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Slack interactivity not configured',
+        });
+      }
+
+      const rawBody = typeof request.body === 'string' ? request.body : '';
+      if (!verifySlackSignature(request, rawBody, slackSigningSecret)) {
+        logger.warn({ ip: request.ip }, 'Invalid Slack request signature');
+        return reply.code(401).send({
+          success: false,
+          error: 'Invalid signature',
+        });
+      }
+
+      let payload: SlackActionPayload;
+      try {
+        const form = new URLSearchParams(rawBody);
+        payload = JSON.parse(form.get('payload') ?? '') as SlackActionPayload;
+      } catch {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid payload',
+        });
+      }
+
+      const action = payload.actions?.[0];
+      const decoded =
+        action?.value !== undefined ? decodeLabelAction(action.value) : null;
+      if (payload.type !== 'block_actions' || decoded === null) {
+        // Not one of our buttons - acknowledge so Slack doesn't retry
+        return reply.code(200).send();
+      }
+
+      const user = payload.user;
+      const labeledBy = `slack:${user?.username ?? user?.name ?? user?.id ?? 'unknown'}`;
+
+      try {
+        const record = await alertLabels.addLabel({
+          alertId: decoded.alertId,
+          label: decoded.label,
+          labeledBy,
+          source: 'slack',
+        });
+
+        if (payload.response_url !== undefined) {
+          await axios.post(
+            payload.response_url,
+            {
+              response_type: 'in_channel',
+              replace_original: false,
+              text:
+                record !== null
+                  ? `🏷️ ${labeledBy} labeled alert \`${decoded.alertId}\` as *${decoded.label}*`
+                  : `❌ Alert not found: \`${decoded.alertId}\``,
+            },
+            { timeout: 10000 }
+          );
+        }
+      } catch (error) {
+        logger.error(
+          { error, alertId: decoded.alertId },
+          'Failed to handle Slack label action'
+        );
+      }
+
+      return reply.code(200).send();
+    });
+
+    // Discord interactions endpoint URL
+    scope.post(
+      '/api/integrations/discord/interactions',
+      async (request, reply) => {
+        if (discordPublicKey === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Discord interactions not configured',
+          });
+        }
+
+        const rawBody = typeof request.body === 'string' ? request.body : '';
+        if (!verifyDiscordSignature(request, rawBody, discordPublicKey)) {
+          logger.warn({ ip: request.ip }, 'Invalid Discord request signature');
+          return reply.code(401).send({
+            success: false,
+            error: 'Invalid signature',
+          });
+        }
+
+        let interaction: DiscordInteraction;
+        try {
+          interaction = JSON.parse(rawBody) as DiscordInteraction;
+        } catch {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid payload',
+          });
+        }
+
+        if (interaction.type === DISCORD_PING) {
+          return reply.code(200).send({ type: DISCORD_PONG });
+        }
+
+        const customId = interaction.data?.custom_id;
+        const decoded =
+          interaction.type === DISCORD_MESSAGE_COMPONENT &&
+          customId !== undefined
+            ? decodeLabelAction(customId)
+            : null;
+        if (decoded === null) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Unsupported interaction',
+          });
+        }
+
+        const user = interaction.member?.user ?? interaction.user;
+        const labeledBy = `discord:${user?.username ?? 'unknown'}`;
+
+        let content: string;
+        try {
+          const record = await alertLabels.addLabel({
+            alertId: decoded.alertId,
+            label: decoded.label,
+            labeledBy,
+            source: 'discord',
+          });
+          content =
+            record !== null
+              ? `🏷️ Labeled alert \`${decoded.alertId}\` as **${decoded.label}**`
+              : `❌ Alert not found: \`${decoded.alertId}\``;
+        } catch (error) {
+          logger.error(
+            { error, alertId: decoded.alertId },
+            'Failed to handle Discord label action'
+          );
+          content = '❌ Failed to label alert';
+        }
+
+        return reply.code(200).send({
+          type: DISCORD_CHANNEL_MESSAGE,
+          data: { content, flags: DISCORD_EPHEMERAL_FLAG },
+        });
+      }
+    );
+  });
+}
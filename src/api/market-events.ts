@@ -0,0 +1,260 @@
+import type { FastifyInstance } from 'fastify';
+
+import {
+  marketEventService,
+  parseEventsIcs,
+  parseEventsJson,
+  type MarketEventInput,
+} from '../services/polymarket/market-event-service.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+
+interface MarketParams {
+  market: string; // Market id or slug
+}
+
+interface EventParams extends MarketParams {
+  eventId: string;
+}
+
+interface ListEventsQuery {
+  upcoming?: string; // 'true' hides past events
+}
+
+interface EventBody extends Partial<MarketEventInput> {
+  changedBy?: string;
+}
+
+interface ImportEventsBody {
+  format?: string; // json, ics
+  content?: string; // File contents
+  market?: string; // Required for ics; default market for json entries
+  changedBy?: string;
+}
+
+/**
+ * Register scheduled market event (catalyst calendar) routes
+ */
+export async function registerMarketEventRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Scheduled events for a market, soonest first
+  app.get<{ Params: MarketParams; Querystring: ListEventsQuery }>(
+    '/api/markets/:market/events',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const marketId = await marketEventService.resolveMarketId(
+          request.params.market
+        );
+        if (marketId === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Market not found',
+          });
+        }
+
+        const events = await marketEventService.list(marketId, {
+          upcomingOnly: request.query.upcoming === 'true',
+        });
+        return reply.code(200).send({ success: true, marketId, events });
+      } catch (error) {
+        logger.error({ error }, 'Failed to list market events');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to list market events',
+        });
+      }
+    }
+  );
+
+  // Schedule an event
+  app.post<{ Params: MarketParams; Body: EventBody | undefined }>(
+    '/api/markets/:market/events',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const body = request.body ?? {};
+      if (
+        typeof body.title !== 'string' ||
+        typeof body.scheduledAt !== 'string'
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Missing required fields: title, scheduledAt',
+        });
+      }
+
+      try {
+        const marketId = await marketEventService.resolveMarketId(
+          request.params.market
+        );
+        if (marketId === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Market not found',
+          });
+        }
+
+        const result = await marketEventService.create(
+          marketId,
+          {
+            title: body.title,
+            scheduledAt: body.scheduledAt,
+            ...(body.eventType !== undefined && { eventType: body.eventType }),
+            ...(body.notes !== undefined && { notes: body.notes }),
+          },
+          `api:${body.changedBy ?? 'unknown'}`
+        );
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+        return reply.code(201).send({ success: true, event: result.data });
+      } catch (error) {
+        logger.error({ error }, 'Failed to create market event');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to create market event',
+        });
+      }
+    }
+  );
+
+  // Change an event's title, type, time or notes
+  app.patch<{ Params: EventParams; Body: EventBody | undefined }>(
+    '/api/markets/:market/events/:eventId',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { changedBy, ...changes } = request.body ?? {};
+      const badField = (['title', 'eventType', 'scheduledAt'] as const).find(
+        (field) =>
+          changes[field] !== undefined && typeof changes[field] !== 'string'
+      );
+      if (badField !== undefined) {
+        return reply.code(400).send({
+          success: false,
+          error: `${badField} must be a string`,
+        });
+      }
+
+      try {
+        const marketId = await marketEventService.resolveMarketId(
+          request.params.market
+        );
+        const existing = await marketEventService.get(request.params.eventId);
+        if (existing === null || existing.marketId !== marketId) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Event not found',
+          });
+        }
+
+        const result = await marketEventService.update(
+          existing.id,
+          changes,
+          `api:${changedBy ?? 'unknown'}`
+        );
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+        return reply.code(200).send({ success: true, event: result.data });
+      } catch (error) {
+        logger.error({ error }, 'Failed to update market event');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to update market event',
+        });
+      }
+    }
+  );
+
+  // Delete an event
+  app.delete<{ Params: EventParams; Body: EventBody | undefined }>(
+    '/api/markets/:market/events/:eventId',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const marketId = await marketEventService.resolveMarketId(
+          request.params.market
+        );
+        const existing = await marketEventService.get(request.params.eventId);
+        if (existing === null || existing.marketId !== marketId) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Event not found',
+          });
+        }
+
+        await marketEventService.delete(
+          existing.id,
+          `api:${request.body?.changedBy ?? 'unknown'}`
+        );
+        return reply.code(200).send({
+          success: true,
+          message: 'Event deleted',
+        });
+      } catch (error) {
+        logger.error({ error }, 'Failed to delete market event');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to delete market event',
+        });
+      }
+    }
+  );
+
+  // Bulk import from a JSON or ICS file
+  app.post<{ Body: ImportEventsBody | undefined }>(
+    '/api/markets/events/import',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { format, content, market, changedBy } = request.body ?? {};
+      if (
+        (format !== 'json' && format !== 'ics') ||
+        typeof content !== 'string'
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Body must contain format (json or ics) and content',
+        });
+      }
+      if (format === 'ics' && market === undefined) {
+        return reply.code(400).send({
+          success: false,
+          error: 'market is required for ics imports',
+        });
+      }
+
+      const parsed =
+        format === 'ics'
+          ? parseEventsIcs(content, market ?? '')
+          : parseEventsJson(content, market);
+      if (!parsed.success) {
+        return reply.code(400).send({
+          success: false,
+          error: parsed.error,
+        });
+      }
+
+      try {
+        const result = await marketEventService.importEvents(
+          parsed.data,
+          format,
+          `api:${changedBy ?? 'unknown'}`
+        );
+        return reply.code(200).send({ success: true, ...result });
+      } catch (error) {
+        logger.error({ error }, 'Failed to import market events');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to import market events',
+        });
+      }
+    }
+  );
+}
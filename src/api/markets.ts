@@ -1,73 +1,16 @@
 import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
-import { timingSafeEqual } from 'crypto';
 import axios from 'axios';
 
 import { db } from '../services/database/prisma.js';
 import { marketService } from '../services/polymarket/market-service.js';
+import { alertScorer } from '../services/alerts/alert-scorer.js';
+import {
+  thresholdManager,
+  THRESHOLD_SCOPES,
+  type ThresholdScope,
+} from '../services/config/threshold-manager.js';
 import { logger } from '../utils/logger.js';
-import { getEnv } from '../config/env.js';
-
-/**
- * Bearer token authentication middleware
- * Checks for Authorization header with token from API_SECRET_TOKEN env var
- */
-function authenticateRequest(
-  request: FastifyRequest,
-  reply: FastifyReply,
-  done: (err?: Error) => void
-): void {
-  const env = getEnv();
-  const secretToken = env.API_SECRET_TOKEN;
-
-  // If no token is configured, reject all authenticated requests
-  if (!secretToken) {
-    logger.warn(
-      'API_SECRET_TOKEN not configured - rejecting authenticated request'
-    );
-    void reply.code(401).send({
-      success: false,
-      error: 'API authentication not configured',
-    });
-    return;
-  }
-
-  const authHeader = request.headers.authorization;
-
-  if (!authHeader) {
-    void reply.code(401).send({
-      success: false,
-      error: 'Missing Authorization header',
-    });
-    return;
-  }
-
-  // Expect "Bearer <token>" format
-  const parts = authHeader.split(' ');
-  if (parts.length !== 2 || parts[0] !== 'Bearer') {
-    void reply.code(401).send({
-      success: false,
-      error: 'Invalid Authorization header format. Expected: Bearer <token>',
-    });
-    return;
-  }
-
-  const providedToken = parts[1];
-
-  // Use timing-safe comparison to prevent timing attacks
-  if (
-    !providedToken ||
-    !timingSafeEqual(Buffer.from(providedToken), Buffer.from(secretToken))
-  ) {
-    logger.warn({ ip: request.ip }, 'Invalid API token provided');
-    void reply.code(403).send({
-      success: false,
-      error: 'Invalid API token',
-    });
-    return;
-  }
-
-  done();
-}
+import { authenticateRequest } from './auth.js';
 
 interface AddMarketBody {
   slug: string;
@@ -75,6 +18,16 @@ interface AddMarketBody {
   category?: 'politics' | 'corporate' | 'sports' | 'misc';
 }
 
+interface ScopedThresholdsQuery {
+  scope?: string;
+  scopeValue?: string;
+}
+
+interface ScopedThresholdsBody {
+  thresholds?: Record<string, unknown>; // null clears an override
+  changedBy?: string;
+}
+
 interface GammaMarket {
   id: string;
   question: string;
@@ -165,6 +118,14 @@ export async function registerMarketRoutes(
 
         const prisma = db.getClient();
         const addedMarkets = [];
+        let grouped = 0;
+
+        // Event grouping, so cross-market positions can be detected
+        const gammaEvent = {
+          gammaEventId: event.id,
+          gammaEventSlug: event.slug,
+          gammaEventTitle: event.title,
+        };
 
         // Add each market from the event
         for (const market of event.markets) {
@@ -175,6 +136,14 @@ export async function registerMarketRoutes(
 
           if (existing) {
             logger.info({ marketId: market.id }, 'Market already exists');
+            // Markets added before event grouping was stored
+            if (existing.gammaEventId === null) {
+              await prisma.market.update({
+                where: { id: market.id },
+                data: gammaEvent,
+              });
+              grouped++;
+            }
             continue;
           }
 
@@ -200,6 +169,7 @@ export async function registerMarketRoutes(
               enabled: true,
               category,
               tier,
+              ...gammaEvent,
             },
           });
 
@@ -211,13 +181,19 @@ export async function registerMarketRoutes(
         }
 
         // Reload markets to pick up new ones
-        if (addedMarkets.length > 0) {
+        if (addedMarkets.length > 0 || grouped > 0) {
           await marketService.reloadMarkets();
         }
 
         return reply.code(201).send({
           success: true,
           message: `Added ${addedMarkets.length} market(s)`,
+          event: {
+            id: event.id,
+            slug: event.slug,
+            title: event.title,
+            marketCount: event.markets.length,
+          },
           markets: addedMarkets.map((m) => ({
             id: m.id,
             question: m.question,
@@ -302,4 +278,120 @@ export async function registerMarketRoutes(
       }
     }
   );
+
+  // Scoped threshold overrides (market, category, tier)
+  app.get<{ Querystring: ScopedThresholdsQuery }>(
+    '/api/markets/thresholds',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { scope, scopeValue } = request.query;
+      if (
+        scope !== undefined &&
+        !THRESHOLD_SCOPES.includes(scope as ThresholdScope)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: `scope must be one of: ${THRESHOLD_SCOPES.join(', ')}`,
+        });
+      }
+
+      try {
+        const overrides = await thresholdManager.getScopedOverrides({
+          ...(scope !== undefined && { scope: scope as ThresholdScope }),
+          ...(scopeValue !== undefined && { scopeValue }),
+        });
+        return reply.code(200).send({ success: true, overrides });
+      } catch (error) {
+        logger.error({ error }, 'Failed to list scoped thresholds');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to list scoped thresholds',
+        });
+      }
+    }
+  );
+
+  // Effective thresholds for a monitored market
+  app.get<{ Params: { marketId: string } }>(
+    '/api/markets/:marketId/thresholds',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const resolution = thresholdManager.getMarketResolution(
+        request.params.marketId,
+        alertScorer.getConfig()
+      );
+      if (resolution === null) {
+        return reply.code(404).send({
+          success: false,
+          error: 'Market not monitored',
+        });
+      }
+      return reply.code(200).send({ success: true, ...resolution });
+    }
+  );
+
+  // Set or clear scoped overrides - applied live on every instance
+  const scopedRoutes: Array<{ scope: ThresholdScope; path: string }> = [
+    { scope: 'market', path: '/api/markets/:scopeValue/thresholds' },
+    {
+      scope: 'category',
+      path: '/api/markets/categories/:scopeValue/thresholds',
+    },
+    { scope: 'tier', path: '/api/markets/tiers/:scopeValue/thresholds' },
+  ];
+  for (const { scope, path } of scopedRoutes) {
+    app.patch<{
+      Params: { scopeValue: string };
+      Body: ScopedThresholdsBody | undefined;
+    }>(path, { preHandler: authenticateRequest }, async (request, reply) => {
+      const { scopeValue } = request.params;
+      const updates = request.body?.thresholds;
+      if (
+        updates === undefined ||
+        typeof updates !== 'object' ||
+        Array.isArray(updates)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Body must contain a thresholds object',
+        });
+      }
+
+      const changedBy = `api:${request.body?.changedBy ?? 'unknown'}`;
+
+      try {
+        const result = await thresholdManager.updateScoped(
+          scope,
+          scopeValue,
+          updates,
+          changedBy
+        );
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+
+        const overrides = await thresholdManager.getScopedOverrides({
+          scope,
+          scopeValue,
+        });
+        return reply.code(200).send({
+          success: true,
+          changes: result.data,
+          overrides,
+        });
+      } catch (error) {
+        logger.error(
+          { error, scope, scopeValue },
+          'Failed to update scoped thresholds'
+        );
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to update scoped thresholds',
+        });
+      }
+    });
+  }
 }
@@ -0,0 +1,23 @@
+/**
+ * Parse an optional ISO date query parameter
+ * Returns undefined when absent, null when invalid
+ */
+export function parseDateParam(
+  value: string | undefined
+): Date | null | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse an optional numeric query parameter
+ * Returns undefined when absent, null when invalid
+ */
+export function parseNumberParam(
+  value: string | undefined
+): number | null | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return value.trim() === '' || !isFinite(parsed) ? null : parsed;
+}
@@ -0,0 +1,304 @@
+import type { FastifyInstance } from 'fastify';
+
+import { performanceReport } from '../services/reports/performance-report.js';
+import { shadowReport } from '../services/reports/shadow-report.js';
+import {
+  whoKnewReport,
+  type WhoKnewSide,
+} from '../services/reports/who-knew-report.js';
+import { marketEventService } from '../services/polymarket/market-event-service.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+import { parseDateParam, parseNumberParam } from './params.js';
+
+interface PerformanceQuery {
+  from?: string;
+  to?: string;
+  scorerVersion?: string;
+  includeDismissed?: string;
+}
+
+interface ShadowQuery {
+  from?: string;
+  to?: string;
+  shadowVersion?: string;
+  limit?: string;
+}
+
+interface WhoKnewListQuery {
+  market?: string; // Market id or slug
+  limit?: string;
+}
+
+interface WhoKnewParams {
+  id: string;
+}
+
+interface WhoKnewBody {
+  market?: string; // Market id or slug
+  side?: string; // yes, no - with moveAt, skips move detection
+  moveAt?: string;
+  lookbackHours?: number;
+  maxEntryPrice?: number;
+  changedBy?: string;
+}
+
+/**
+ * Register reporting routes
+ */
+export async function registerReportRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Alert performance against resolved market outcomes
+  app.get<{ Querystring: PerformanceQuery }>(
+    '/api/reports/performance',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const from = parseDateParam(request.query.from);
+      const to = parseDateParam(request.query.to);
+
+      if (from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid date - use ISO 8601 format for from/to',
+        });
+      }
+
+      try {
+        const report = await performanceReport.getPerformanceReport({
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+          ...(request.query.scorerVersion !== undefined && {
+            scorerVersion: request.query.scorerVersion,
+          }),
+          includeDismissed: request.query.includeDismissed === 'true',
+        });
+
+        return reply.code(200).send({ success: true, report });
+      } catch (error) {
+        logger.error({ error }, 'Failed to build performance report');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to build performance report',
+        });
+      }
+    }
+  );
+  // Production vs shadow scorer classifications
+  app.get<{ Querystring: ShadowQuery }>(
+    '/api/reports/shadow',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const from = parseDateParam(request.query.from);
+      const to = parseDateParam(request.query.to);
+
+      if (from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid date - use ISO 8601 format for from/to',
+        });
+      }
+
+      const limit =
+        request.query.limit !== undefined ? Number(request.query.limit) : 50;
+      if (!Number.isInteger(limit) || limit < 0 || limit > 500) {
+        return reply.code(400).send({
+          success: false,
+          error: 'limit must be an integer between 0 and 500',
+        });
+      }
+
+      try {
+        const report = await shadowReport.getComparisonReport({
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+          ...(request.query.shadowVersion !== undefined && {
+            shadowVersion: request.query.shadowVersion,
+          }),
+          disagreementLimit: limit,
+        });
+
+        return reply.code(200).send({ success: true, report });
+      } catch (error) {
+        logger.error({ error }, 'Failed to build shadow comparison report');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to build shadow comparison report',
+        });
+      }
+    }
+  );
+
+  // Recent who-knew reports, newest first
+  app.get<{ Querystring: WhoKnewListQuery }>(
+    '/api/reports/who-knew',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const limit = parseNumberParam(request.query.limit);
+      if (
+        limit === null ||
+        (limit !== undefined &&
+          (!Number.isInteger(limit) || limit < 1 || limit > 100))
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'limit must be an integer between 1 and 100',
+        });
+      }
+
+      try {
+        let marketId: string | undefined;
+        if (request.query.market !== undefined) {
+          const resolved = await marketEventService.resolveMarketId(
+            request.query.market
+          );
+          if (resolved === null) {
+            return reply.code(404).send({
+              success: false,
+              error: 'Market not found',
+            });
+          }
+          marketId = resolved;
+        }
+
+        const reports = await whoKnewReport.listReports({
+          ...(marketId !== undefined && { marketId }),
+          ...(limit !== undefined && { limit }),
+        });
+        return reply.code(200).send({ success: true, reports });
+      } catch (error) {
+        logger.error({ error }, 'Failed to list who-knew reports');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to list who-knew reports',
+        });
+      }
+    }
+  );
+
+  // One who-knew report with its ranked wallets
+  app.get<{ Params: WhoKnewParams }>(
+    '/api/reports/who-knew/:id',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const report = await whoKnewReport.getReport(request.params.id);
+        if (report === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Report not found',
+          });
+        }
+        return reply.code(200).send({ success: true, report });
+      } catch (error) {
+        logger.error({ error }, 'Failed to load who-knew report');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to load who-knew report',
+        });
+      }
+    }
+  );
+
+  // Build a who-knew report for a market, either for a given move (side +
+  // moveAt) or for the detected upset resolution / latest price jump
+  app.post<{ Body: WhoKnewBody | undefined }>(
+    '/api/reports/who-knew',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const body = request.body ?? {};
+      if (typeof body.market !== 'string') {
+        return reply.code(400).send({
+          success: false,
+          error: 'Missing required field: market',
+        });
+      }
+      if ((body.side === undefined) !== (body.moveAt === undefined)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'side and moveAt must be given together',
+        });
+      }
+      if (
+        body.side !== undefined &&
+        body.side !== 'yes' &&
+        body.side !== 'no'
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'side must be yes or no',
+        });
+      }
+      const moveAt = parseDateParam(body.moveAt);
+      if (moveAt === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid moveAt - use ISO 8601 format',
+        });
+      }
+      if (
+        body.lookbackHours !== undefined &&
+        (typeof body.lookbackHours !== 'number' || body.lookbackHours <= 0)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'lookbackHours must be a positive number',
+        });
+      }
+      if (
+        body.maxEntryPrice !== undefined &&
+        (typeof body.maxEntryPrice !== 'number' ||
+          body.maxEntryPrice <= 0 ||
+          body.maxEntryPrice >= 1)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'maxEntryPrice must be between 0 and 1',
+        });
+      }
+
+      try {
+        const marketId = await marketEventService.resolveMarketId(body.market);
+        if (marketId === null) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Market not found',
+          });
+        }
+
+        const createdBy = `api:${body.changedBy ?? 'unknown'}`;
+        if (moveAt !== undefined) {
+          const report = await whoKnewReport.buildReport({
+            marketId,
+            side: body.side as WhoKnewSide,
+            moveAt,
+            trigger: 'manual',
+            createdBy,
+            ...(body.lookbackHours !== undefined && {
+              lookbackHours: body.lookbackHours,
+            }),
+            ...(body.maxEntryPrice !== undefined && {
+              maxEntryPrice: body.maxEntryPrice,
+            }),
+          });
+          return reply.code(201).send({ success: true, report });
+        }
+
+        const result = await whoKnewReport.reportForMarket(marketId, createdBy);
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+        return reply.code(201).send({ success: true, report: result.data });
+      } catch (error) {
+        logger.error({ error }, 'Failed to build who-knew report');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to build who-knew report',
+        });
+      }
+    }
+  );
+}
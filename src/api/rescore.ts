@@ -0,0 +1,124 @@
+import type { FastifyInstance } from 'fastify';
+
+import {
+  MAX_BULK_RESCORE,
+  rescoreService,
+} from '../services/alerts/rescore-service.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+import { parseDateParam } from './params.js';
+
+interface RescoreBody {
+  alertId?: string;
+  tradeId?: string;
+}
+
+interface BulkRescoreBody {
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Register rescore routes (re-run stored trades against current settings)
+ */
+export async function registerRescoreRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Rescore one alert or trade, side by side with the original score
+  app.post<{ Body: RescoreBody | undefined }>(
+    '/api/rescore',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const alertId = request.body?.alertId;
+      const tradeId = request.body?.tradeId;
+
+      if ((alertId === undefined) === (tradeId === undefined)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Provide exactly one of alertId or tradeId',
+        });
+      }
+      if (
+        alertId !== undefined &&
+        (typeof alertId !== 'string' || alertId === '')
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'alertId must be a non-empty string',
+        });
+      }
+      if (
+        tradeId !== undefined &&
+        (typeof tradeId !== 'string' || tradeId === '')
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'tradeId must be a non-empty string',
+        });
+      }
+
+      try {
+        const result =
+          alertId !== undefined
+            ? await rescoreService.rescoreAlert(alertId)
+            : await rescoreService.rescoreTrade(tradeId ?? '');
+
+        if (result === null) {
+          return reply.code(404).send({
+            success: false,
+            error:
+              alertId !== undefined ? 'Alert not found' : 'Trade not found',
+          });
+        }
+
+        return reply.code(200).send({ success: true, result });
+      } catch (error) {
+        logger.error({ error, alertId, tradeId }, 'Failed to rescore');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to rescore',
+        });
+      }
+    }
+  );
+
+  // Rescore every alert in a date range
+  app.post<{ Body: BulkRescoreBody | undefined }>(
+    '/api/rescore/bulk',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const from = parseDateParam(request.body?.from);
+      const to = parseDateParam(request.body?.to);
+      const limit = request.body?.limit ?? MAX_BULK_RESCORE;
+
+      if (from === undefined || from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'from is required - use ISO 8601 format for from/to',
+        });
+      }
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BULK_RESCORE) {
+        return reply.code(400).send({
+          success: false,
+          error: `limit must be an integer between 1 and ${MAX_BULK_RESCORE}`,
+        });
+      }
+
+      try {
+        const summary = await rescoreService.rescoreRange(
+          from,
+          to ?? new Date(),
+          limit
+        );
+        return reply.code(200).send({ success: true, summary });
+      } catch (error) {
+        logger.error({ error }, 'Failed to bulk rescore');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to bulk rescore',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,329 @@
+import type { FastifyInstance } from 'fastify';
+
+import {
+  thresholdManager,
+  THRESHOLD_SCOPES,
+  type ThresholdScope,
+} from '../services/config/threshold-manager.js';
+import {
+  parseProfileWindow,
+  thresholdProfiles,
+} from '../services/config/threshold-profiles.js';
+import type { ScorerConfigOverrides } from '../services/alerts/scorer-config.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+
+interface ThresholdHistoryQuery {
+  key?: string;
+  scope?: string;
+  scopeValue?: string;
+  limit?: string;
+}
+
+interface ThresholdUpdateBody {
+  thresholds?: Record<string, unknown>; // null clears an override
+  changedBy?: string;
+}
+
+interface ProfileParams {
+  name: string;
+}
+
+interface ProfileSaveBody {
+  thresholds?: Record<string, unknown>; // Changes vs the latest version
+  scorer?: ScorerConfigOverrides;
+  description?: string;
+  changedBy?: string;
+}
+
+interface ProfileActivateBody {
+  version?: number; // Defaults to the latest version
+  until?: string; // ISO date or duration ("48h", "3d"); omit = until replaced
+  changedBy?: string;
+}
+
+function isPlainObject(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Register runtime threshold management routes
+ */
+export async function registerThresholdRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Effective thresholds, env values, overrides and bounds
+  app.get(
+    '/api/thresholds',
+    { preHandler: authenticateRequest },
+    async (_request, reply) => {
+      try {
+        const state = await thresholdManager.getState();
+        return reply.code(200).send({ success: true, ...state });
+      } catch (error) {
+        logger.error({ error }, 'Failed to get thresholds');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get thresholds',
+        });
+      }
+    }
+  );
+
+  // Set or clear overrides - applied live on every instance
+  app.patch<{ Body: ThresholdUpdateBody | undefined }>(
+    '/api/thresholds',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const updates = request.body?.thresholds;
+      if (
+        updates === undefined ||
+        typeof updates !== 'object' ||
+        Array.isArray(updates)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Body must contain a thresholds object',
+        });
+      }
+
+      const changedBy = `api:${request.body?.changedBy ?? 'unknown'}`;
+
+      try {
+        const result = await thresholdManager.update(updates, changedBy);
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+
+        const state = await thresholdManager.getState();
+        return reply.code(200).send({
+          success: true,
+          changes: result.data,
+          thresholds: state.thresholds,
+        });
+      } catch (error) {
+        logger.error({ error }, 'Failed to update thresholds');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to update thresholds',
+        });
+      }
+    }
+  );
+
+  // Audit trail of threshold changes
+  app.get<{ Querystring: ThresholdHistoryQuery }>(
+    '/api/thresholds/history',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { query } = request;
+      const limit = query.limit !== undefined ? Number(query.limit) : 50;
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        return reply.code(400).send({
+          success: false,
+          error: 'limit must be an integer between 1 and 500',
+        });
+      }
+
+      if (
+        query.scope !== undefined &&
+        query.scope !== 'global' &&
+        !THRESHOLD_SCOPES.includes(query.scope as ThresholdScope)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: `scope must be one of: global, ${THRESHOLD_SCOPES.join(', ')}`,
+        });
+      }
+
+      try {
+        const changes = await thresholdManager.getHistory(limit, {
+          ...(query.key !== undefined && { key: query.key }),
+          ...(query.scope !== undefined && {
+            scope: query.scope as ThresholdScope | 'global',
+          }),
+          ...(query.scopeValue !== undefined && {
+            scopeValue: query.scopeValue,
+          }),
+        });
+        return reply.code(200).send({ success: true, changes });
+      } catch (error) {
+        logger.error({ error }, 'Failed to get threshold history');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get threshold history',
+        });
+      }
+    }
+  );
+
+  // Saved profiles, the active one and recent activations
+  app.get(
+    '/api/thresholds/profiles',
+    { preHandler: authenticateRequest },
+    async (_request, reply) => {
+      try {
+        const [profiles, activations] = await Promise.all([
+          thresholdProfiles.listProfiles(),
+          thresholdProfiles.getActivationHistory(20),
+        ]);
+        return reply.code(200).send({
+          success: true,
+          active: thresholdProfiles.getActive(),
+          profiles,
+          activations,
+        });
+      } catch (error) {
+        logger.error({ error }, 'Failed to get threshold profiles');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get threshold profiles',
+        });
+      }
+    }
+  );
+
+  // Every version of one profile, newest first
+  app.get<{ Params: ProfileParams }>(
+    '/api/thresholds/profiles/:name',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const versions = await thresholdProfiles.getProfileVersions(
+          request.params.name
+        );
+        if (versions.length === 0) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Profile not found',
+          });
+        }
+        return reply.code(200).send({ success: true, versions });
+      } catch (error) {
+        logger.error({ error }, 'Failed to get threshold profile');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to get threshold profile',
+        });
+      }
+    }
+  );
+
+  // Save a new version (starts from the latest, or the values in force)
+  app.post<{ Params: ProfileParams; Body: ProfileSaveBody | undefined }>(
+    '/api/thresholds/profiles/:name',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const body = request.body ?? {};
+      if (
+        (body.thresholds !== undefined && !isPlainObject(body.thresholds)) ||
+        (body.scorer !== undefined && !isPlainObject(body.scorer))
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'thresholds and scorer must be objects',
+        });
+      }
+
+      try {
+        const result = await thresholdProfiles.saveProfile(
+          request.params.name,
+          {
+            ...(body.thresholds !== undefined && {
+              thresholds: body.thresholds,
+            }),
+            ...(body.scorer !== undefined && { scorer: body.scorer }),
+            ...(body.description !== undefined && {
+              description: body.description,
+            }),
+          },
+          `api:${body.changedBy ?? 'unknown'}`
+        );
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+        return reply.code(201).send({ success: true, profile: result.data });
+      } catch (error) {
+        logger.error({ error }, 'Failed to save threshold profile');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to save threshold profile',
+        });
+      }
+    }
+  );
+
+  // Activate a profile everywhere, optionally until a given time
+  app.post<{ Params: ProfileParams; Body: ProfileActivateBody | undefined }>(
+    '/api/thresholds/profiles/:name/activate',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const body = request.body ?? {};
+      if (body.version !== undefined && !Number.isInteger(body.version)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'version must be an integer',
+        });
+      }
+
+      const expiresAt =
+        body.until !== undefined ? parseProfileWindow(body.until) : undefined;
+      if (expiresAt === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'until must be an ISO date or a duration like 48h or 3d',
+        });
+      }
+
+      try {
+        const result = await thresholdProfiles.activate(
+          request.params.name,
+          {
+            ...(body.version !== undefined && { version: body.version }),
+            ...(expiresAt !== undefined && { expiresAt }),
+          },
+          `api:${body.changedBy ?? 'unknown'}`
+        );
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+        return reply.code(200).send({ success: true, activation: result.data });
+      } catch (error) {
+        logger.error({ error }, 'Failed to activate threshold profile');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to activate threshold profile',
+        });
+      }
+    }
+  );
+
+  // End the active profile - env thresholds apply again
+  app.delete<{ Body: { changedBy?: string } | undefined }>(
+    '/api/thresholds/profiles/active',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const ended = await thresholdProfiles.deactivate(
+          `api:${request.body?.changedBy ?? 'unknown'}`
+        );
+        return reply.code(200).send({ success: true, ended });
+      } catch (error) {
+        logger.error({ error }, 'Failed to deactivate threshold profile');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to deactivate threshold profile',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,109 @@
+import type { FastifyInstance } from 'fastify';
+
+import {
+  LEADERBOARD_SORTS,
+  walletLeaderboard,
+  type LeaderboardSort,
+} from '../services/reports/wallet-leaderboard.js';
+import {
+  MARKET_CATEGORIES,
+  type MarketCategory,
+} from '../services/alerts/scorer-config.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+import { parseDateParam, parseNumberParam } from './params.js';
+
+interface LeaderboardQuery {
+  from?: string;
+  to?: string;
+  category?: string;
+  sort?: string;
+  minAlerts?: string;
+  limit?: string;
+}
+
+/**
+ * Register wallet routes
+ */
+export async function registerWalletRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Most suspicious wallets by their alerts
+  app.get<{ Querystring: LeaderboardQuery }>(
+    '/api/wallets/leaderboard',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { category, sort } = request.query;
+      const from = parseDateParam(request.query.from);
+      const to = parseDateParam(request.query.to);
+      const minAlerts = parseNumberParam(request.query.minAlerts);
+      const limit = parseNumberParam(request.query.limit);
+
+      if (from === null || to === null) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid date - use ISO 8601 format for from/to',
+        });
+      }
+      if (
+        category !== undefined &&
+        !MARKET_CATEGORIES.includes(category as MarketCategory)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: `category must be one of: ${MARKET_CATEGORIES.join(', ')}`,
+        });
+      }
+      if (
+        sort !== undefined &&
+        !LEADERBOARD_SORTS.includes(sort as LeaderboardSort)
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: `sort must be one of: ${LEADERBOARD_SORTS.join(', ')}`,
+        });
+      }
+      if (
+        minAlerts === null ||
+        (minAlerts !== undefined &&
+          (!Number.isInteger(minAlerts) || minAlerts < 1))
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'minAlerts must be a positive integer',
+        });
+      }
+      if (
+        limit === null ||
+        (limit !== undefined &&
+          (!Number.isInteger(limit) || limit < 1 || limit > 100))
+      ) {
+        return reply.code(400).send({
+          success: false,
+          error: 'limit must be an integer between 1 and 100',
+        });
+      }
+
+      try {
+        const leaderboard = await walletLeaderboard.getLeaderboard({
+          ...(from !== undefined && { from }),
+          ...(to !== undefined && { to }),
+          ...(category !== undefined && {
+            category: category as MarketCategory,
+          }),
+          ...(sort !== undefined && { sort: sort as LeaderboardSort }),
+          ...(minAlerts !== undefined && { minAlerts }),
+          ...(limit !== undefined && { limit }),
+        });
+
+        return reply.code(200).send({ success: true, leaderboard });
+      } catch (error) {
+        logger.error({ error }, 'Failed to build wallet leaderboard');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to build wallet leaderboard',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,122 @@
+import type { FastifyInstance } from 'fastify';
+
+import { walletWatchlist } from '../services/signals/wallet-watchlist.js';
+import { logger } from '../utils/logger.js';
+import { authenticateRequest } from './auth.js';
+
+interface WatchParams {
+  address: string;
+}
+
+interface WatchBody {
+  address?: string;
+  label?: string;
+  changedBy?: string;
+}
+
+interface UnwatchBody {
+  changedBy?: string;
+}
+
+/**
+ * Register wallet watchlist routes
+ */
+export async function registerWatchlistRoutes(
+  app: FastifyInstance
+): Promise<void> {
+  // Watched wallets, most recently added first
+  app.get(
+    '/api/watchlist',
+    { preHandler: authenticateRequest },
+    async (_request, reply) => {
+      try {
+        const wallets = await walletWatchlist.list();
+        return reply.code(200).send({ success: true, wallets });
+      } catch (error) {
+        logger.error({ error }, 'Failed to list watched wallets');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to list watched wallets',
+        });
+      }
+    }
+  );
+
+  // Watch a wallet (signer or proxy address), or change its label
+  app.post<{ Body: WatchBody | undefined }>(
+    '/api/watchlist',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      const { address, label, changedBy } = request.body ?? {};
+      if (typeof address !== 'string') {
+        return reply.code(400).send({
+          success: false,
+          error: 'Missing required field: address',
+        });
+      }
+      if (label !== undefined && typeof label !== 'string') {
+        return reply.code(400).send({
+          success: false,
+          error: 'label must be a string',
+        });
+      }
+
+      try {
+        const result = await walletWatchlist.add({
+          address,
+          ...(label !== undefined && { label }),
+          source: 'manual',
+          addedBy: `api:${changedBy ?? 'unknown'}`,
+        });
+        if (!result.success) {
+          return reply.code(400).send({
+            success: false,
+            error: result.error,
+          });
+        }
+        return reply.code(201).send({ success: true, wallet: result.data });
+      } catch (error) {
+        logger.error({ error }, 'Failed to watch wallet');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to watch wallet',
+        });
+      }
+    }
+  );
+
+  // Stop watching a wallet
+  app.delete<{ Params: WatchParams; Body: UnwatchBody | undefined }>(
+    '/api/watchlist/:address',
+    { preHandler: authenticateRequest },
+    async (request, reply) => {
+      try {
+        const removed = await walletWatchlist.remove(request.params.address);
+        if (!removed) {
+          return reply.code(404).send({
+            success: false,
+            error: 'Wallet not watched',
+          });
+        }
+
+        logger.info(
+          {
+            address: request.params.address,
+            changedBy: request.body?.changedBy ?? 'unknown',
+          },
+          'Wallet unwatched via API'
+        );
+        return reply.code(200).send({
+          success: true,
+          message: 'Wallet removed from watchlist',
+        });
+      } catch (error) {
+        logger.error({ error }, 'Failed to unwatch wallet');
+        return reply.code(500).send({
+          success: false,
+          error: 'Failed to unwatch wallet',
+        });
+      }
+    }
+  );
+}
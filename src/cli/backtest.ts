@@ -0,0 +1,163 @@
+import 'dotenv/config';
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+
+import {
+  getThresholds,
+  type DetectionThresholds,
+} from '../config/thresholds.js';
+import { db } from '../services/database/prisma.js';
+import { walletForensicsService } from '../services/blockchain/wallet-forensics.js';
+import {
+  backtestService,
+  type BacktestReport,
+} from '../services/backtest/backtest-service.js';
+import { formatUsd } from '../utils/decimals.js';
+
+/* eslint-disable no-console */
+
+const USAGE = `Usage: npm run backtest -- [options]
+
+Replays historical trades through the scoring pipeline without notifying.
+
+Options:
+  --from <date>          Start of replay window (ISO, default: 7 days ago)
+  --to <date>            End of replay window (ISO, default: now)
+  --input <file.jsonl>   Read trades from a JSONL export instead of the database
+  --thresholds <file>    JSON file with DetectionThresholds overrides
+  --warmup-hours <n>     Trade history before --from used for wallet state (default: 168)
+  --output <file>        Write the full JSON report to a file
+  --top <n>              Number of would-be alerts to print (default: 20)
+  --help                 Show this message`;
+
+/**
+ * Load a partial thresholds file and merge it over the current thresholds
+ */
+async function loadThresholds(path: string): Promise<DetectionThresholds> {
+  const base = getThresholds();
+  const overrides = JSON.parse(await readFile(path, 'utf8')) as Record<
+    string,
+    unknown
+  >;
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in base)) {
+      throw new Error(`Unknown threshold "${key}" in ${path}`);
+    }
+    const current = base[key as keyof DetectionThresholds];
+    if (typeof value !== typeof current) {
+      throw new Error(
+        `Threshold "${key}" must be a ${typeof current}, got ${typeof value}`
+      );
+    }
+  }
+
+  return { ...base, ...overrides } as DetectionThresholds;
+}
+
+/**
+ * Parse a date argument, failing loudly on invalid input
+ */
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Print a human-readable summary of the report
+ */
+function printReport(report: BacktestReport, top: number): void {
+  console.log('\n⏪ Backtest report');
+  console.log(`  Window:   ${report.range.from} → ${report.range.to}`);
+  console.log(`  Source:   ${report.source}`);
+  console.log(
+    `  Trades:   ${report.tradesReplayed} replayed (${report.warmupTrades} warm-up)`
+  );
+
+  console.log('\n🔻 Filter funnel');
+  for (const [stage, count] of Object.entries(report.funnel).sort(
+    (a, b) => b[1] - a[1]
+  )) {
+    console.log(`  ${stage.padEnd(32)} ${count}`);
+  }
+
+  console.log('\n🏷️  Classifications');
+  for (const [classification, count] of Object.entries(
+    report.classificationCounts
+  )) {
+    console.log(`  ${classification.padEnd(32)} ${count}`);
+  }
+
+  console.log(`\n🚨 Would-be alerts: ${report.wouldBeAlerts.length}`);
+  for (const alert of report.wouldBeAlerts.slice(0, top)) {
+    console.log(
+      `  ${alert.timestamp}  ${String(alert.totalScore).padStart(3)}  ${alert.classification.padEnd(24)} ${formatUsd(alert.tradeUsdValue).padStart(12)}  ${alert.side.toUpperCase()} ${alert.outcome.toUpperCase()} @ ${alert.price.toFixed(3)}  ${alert.walletAddress.slice(0, 10)}…  ${alert.marketQuestion.slice(0, 60)}`
+    );
+  }
+
+  console.log('\n⚠️  Limitations');
+  for (const limitation of report.limitations) {
+    console.log(`  - ${limitation}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      input: { type: 'string' },
+      thresholds: { type: 'string' },
+      'warmup-hours': { type: 'string' },
+      output: { type: 'string' },
+      top: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help === true) {
+    console.log(USAGE);
+    return;
+  }
+
+  const to = values.to !== undefined ? parseDate(values.to, 'to') : new Date();
+  const from =
+    values.from !== undefined
+      ? parseDate(values.from, 'from')
+      : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  await db.connect();
+
+  try {
+    const report = await backtestService.run({
+      from,
+      to,
+      ...(values.input !== undefined && { inputPath: values.input }),
+      ...(values.thresholds !== undefined && {
+        thresholds: await loadThresholds(values.thresholds),
+      }),
+      ...(values['warmup-hours'] !== undefined && {
+        warmupHours: Number(values['warmup-hours']),
+      }),
+    });
+
+    printReport(report, Number(values.top ?? 20));
+
+    if (values.output !== undefined) {
+      await writeFile(values.output, JSON.stringify(report, null, 2));
+      console.log(`\n📄 Full report written to ${values.output}`);
+    }
+  } finally {
+    walletForensicsService.stopPeriodicCleanup();
+    await db.disconnect();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Backtest failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,89 @@
+import 'dotenv/config';
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { db } from '../services/database/prisma.js';
+import {
+  marketEventService,
+  parseEventsIcs,
+  parseEventsJson,
+} from '../services/polymarket/market-event-service.js';
+
+/* eslint-disable no-console */
+
+const USAGE = `Usage: npm run import-events -- --file <path> [options]
+
+Bulk imports scheduled market events (catalysts) from a JSON or ICS file.
+Events with an id (JSON externalId, ICS UID) update earlier imports.
+
+Options:
+  --file <path>        JSON or .ics file to import
+  --market <slug|id>   Market for every ICS event; default market for JSON entries
+  --format <json|ics>  File format (default: from the file extension)
+  --by <name>          Recorded as the creator (default: cli)
+  --help               Show this message`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+      market: { type: 'string' },
+      format: { type: 'string' },
+      by: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help === true || values.file === undefined) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format =
+    values.format ??
+    (extname(values.file).toLowerCase() === '.ics' ? 'ics' : 'json');
+  if (format !== 'json' && format !== 'ics') {
+    throw new Error(`Invalid --format: ${format} (use json or ics)`);
+  }
+  if (format === 'ics' && values.market === undefined) {
+    throw new Error('--market is required for ICS files');
+  }
+
+  const content = await readFile(values.file, 'utf8');
+  const parsed =
+    format === 'ics'
+      ? parseEventsIcs(content, values.market ?? '')
+      : parseEventsJson(content, values.market);
+  if (!parsed.success) {
+    throw new Error(parsed.error);
+  }
+
+  await db.connect();
+
+  try {
+    const result = await marketEventService.importEvents(
+      parsed.data,
+      format,
+      values.by !== undefined ? `cli:${values.by}` : 'cli'
+    );
+
+    console.log(
+      `\n📅 Imported ${parsed.data.length} event(s) from ${values.file}`
+    );
+    console.log(`  Created: ${result.created}`);
+    console.log(`  Updated: ${result.updated}`);
+    console.log(`  Skipped: ${result.skipped.length}`);
+    for (const skipped of result.skipped) {
+      console.log(`    #${skipped.entry}: ${skipped.reason}`);
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Event import failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+import 'dotenv/config';
+
+import { mkdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { db } from '../services/database/prisma.js';
+import { ALERT_LABELS, isAlertLabel } from '../services/alerts/alert-labels.js';
+import {
+  modelTrainer,
+  type ModelTrainingResult,
+} from '../services/alerts/model-trainer.js';
+import {
+  FEATURE_NAMES,
+  type ModelEvaluation,
+} from '../services/alerts/scoring-model.js';
+
+/* eslint-disable no-console */
+
+const USAGE = `Usage: npm run train-model -- [options]
+
+Fits a logistic scoring model on labeled alerts and writes a versioned weights file.
+
+Options:
+  --version <name>         Model version (default: lr-<timestamp>)
+  --output <file>          Weights file (default: models/scorer-model-<version>.json)
+  --from <date>            Only alerts at or after this date (ISO)
+  --to <date>              Only alerts up to this date (ISO)
+  --positive <labels>      Comma-separated labels counted as insider (default: true_insider)
+  --validation <fraction>  Most recent share of alerts held out (default: 0.2)
+  --l2 <n>                 L2 regularization strength (default: 0.01)
+  --iterations <n>         Gradient descent iterations (default: 2000)
+  --learning-rate <n>      Gradient descent step size (default: 0.1)
+  --help                   Show this message`;
+
+/**
+ * Parse a date argument, failing loudly on invalid input
+ */
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Parse a numeric argument, failing loudly on invalid input
+ */
+function parseNumber(value: string, name: string): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) {
+    throw new Error(`Invalid --${name} value: ${value}`);
+  }
+  return n;
+}
+
+/**
+ * Print fit quality for one sample set
+ */
+function printEvaluation(name: string, evaluation: ModelEvaluation): void {
+  console.log(
+    `  ${name.padEnd(12)} ${evaluation.samples} samples (${evaluation.positives} positive)  log loss ${evaluation.logLoss?.toFixed(4) ?? 'n/a'}  Brier ${evaluation.brierScore?.toFixed(4) ?? 'n/a'}`
+  );
+}
+
+/**
+ * Print a human-readable summary of the trained model
+ */
+function printResult(result: ModelTrainingResult, path: string): void {
+  const { model } = result;
+
+  console.log(`\n🤖 Scoring model ${model.version}`);
+  console.log(
+    `  Labeled alerts: ${result.labeledAlerts} (${result.skippedNoFeatures} skipped without stored features)`
+  );
+  for (const [label, count] of Object.entries(result.labelCounts)) {
+    const positive = model.positiveLabels.includes(label) ? ' (positive)' : '';
+    console.log(`    ${label.padEnd(14)} ${count}${positive}`);
+  }
+
+  console.log('\n📉 Fit');
+  printEvaluation('train', model.training.train);
+  if (model.training.validation !== null) {
+    printEvaluation('validation', model.training.validation);
+
+    console.log('\n🎯 Validation calibration (predicted → observed)');
+    for (const bin of model.training.validation.calibration) {
+      if (bin.count === 0) continue;
+      console.log(
+        `  ${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}  n=${String(bin.count).padStart(4)}  ${bin.meanPredicted?.toFixed(3)} → ${bin.observedRate?.toFixed(3)}`
+      );
+    }
+  }
+
+  console.log('\n⚖️  Weights (standardized features)');
+  FEATURE_NAMES.forEach((name, i) => {
+    const weight = model.weights[i] ?? 0;
+    console.log(
+      `  ${name.padEnd(26)} ${weight >= 0 ? '+' : ''}${weight.toFixed(4)}`
+    );
+  });
+  console.log(`  ${'intercept'.padEnd(26)} ${model.intercept.toFixed(4)}`);
+
+  console.log(`\n📄 Weights written to ${path}`);
+  console.log(`   Enable with SCORER_MODE=model SCORER_MODEL_PATH=${path}`);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      version: { type: 'string' },
+      output: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      positive: { type: 'string' },
+      validation: { type: 'string' },
+      l2: { type: 'string' },
+      iterations: { type: 'string' },
+      'learning-rate': { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help === true) {
+    console.log(USAGE);
+    return;
+  }
+
+  const version =
+    values.version ??
+    `lr-${new Date().toISOString().replace(/[-:]/g, '').slice(0, 15)}`;
+  const output =
+    values.output ?? join('models', `scorer-model-${version}.json`);
+
+  const positiveLabels = (values.positive ?? 'true_insider')
+    .split(',')
+    .map((label) => label.trim());
+  for (const label of positiveLabels) {
+    if (!isAlertLabel(label)) {
+      throw new Error(
+        `Unknown label "${label}" - must be one of: ${ALERT_LABELS.join(', ')}`
+      );
+    }
+  }
+
+  await db.connect();
+
+  try {
+    const result = await modelTrainer.train({
+      version,
+      positiveLabels,
+      ...(values.from !== undefined && {
+        from: parseDate(values.from, 'from'),
+      }),
+      ...(values.to !== undefined && { to: parseDate(values.to, 'to') }),
+      ...(values.validation !== undefined && {
+        validationFraction: parseNumber(values.validation, 'validation'),
+      }),
+      ...(values.l2 !== undefined && { l2: parseNumber(values.l2, 'l2') }),
+      ...(values.iterations !== undefined && {
+        iterations: parseNumber(values.iterations, 'iterations'),
+      }),
+      ...(values['learning-rate'] !== undefined && {
+        learningRate: parseNumber(values['learning-rate'], 'learning-rate'),
+      }),
+    });
+
+    await mkdir(dirname(output), { recursive: true });
+    await modelTrainer.writeModel(result.model, output);
+    printResult(result, output);
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Model training failed:', error);
+  process.exit(1);
+});
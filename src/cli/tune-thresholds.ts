@@ -0,0 +1,195 @@
+import 'dotenv/config';
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+
+import { ALERT_LABELS, isAlertLabel } from '../services/alerts/alert-labels.js';
+import { db } from '../services/database/prisma.js';
+import { walletForensicsService } from '../services/blockchain/wallet-forensics.js';
+import {
+  parseThresholdRange,
+  thresholdTuner,
+  TUNER_SORT_KEYS,
+  WHO_KNEW_LABEL,
+  type ThresholdRange,
+  type ThresholdTuningReport,
+  type TunerSortKey,
+} from '../services/backtest/threshold-tuner.js';
+
+/* eslint-disable no-console */
+
+const USAGE = `Usage: npm run tune-thresholds -- --range <field=values> [options]
+
+Replays historical trades once per threshold combination and ranks the
+combinations by precision/recall against analyst alert labels.
+
+Options:
+  --range <field=values> DetectionThresholds field to sweep (repeatable)
+                         values: list "3,5,8" or inclusive sweep "2:10:2"
+  --from <date>          Start of replay window (ISO, default: 30 days ago)
+  --to <date>            End of replay window (ISO, default: now)
+  --input <file.jsonl>   Read trades from a JSONL export instead of the database
+  --warmup-hours <n>     Trade history before --from used for wallet state (default: 168)
+  --positive <labels>    Comma-separated labels counted as insiders (default: true_insider)
+                         who_knew adds fills ranked by who-knew reports
+  --sort <metric>        Rank by ${TUNER_SORT_KEYS.join(' | ')} (default: f1)
+  --top <n>              Number of combinations to print (default: 20)
+  --output <file>        Write the full JSON report to a file
+  --help                 Show this message
+
+Example:
+  npm run tune-thresholds -- --range minLiquidityImpactPercentage=1:5:1 \\
+    --range walletFreshFatBetSizeUSD=5000,10000,20000`;
+
+/**
+ * Parse a date argument, failing loudly on invalid input
+ */
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid --${name} date: ${value}`);
+  }
+  return date;
+}
+
+function formatRatio(value: number | null): string {
+  return value !== null ? `${(value * 100).toFixed(1)}%` : '-';
+}
+
+/**
+ * Print the ranked combinations as a table
+ */
+function printReport(
+  report: ThresholdTuningReport,
+  ranges: ThresholdRange[],
+  top: number
+): void {
+  console.log('\n🎛️  Threshold grid search');
+  console.log(`  Window:       ${report.range.from} → ${report.range.to}`);
+  console.log(`  Source:       ${report.source}`);
+  console.log(`  Trades:       ${report.tradesLoaded} loaded`);
+  console.log(
+    `  Labels:       ${report.labeledTrades} labeled trades, ${report.positiveTrades} positive (${report.positiveLabels.join(', ')})`
+  );
+  console.log(`  Combinations: ${report.combinations}`);
+
+  const fields = ranges.map((range) => range.field);
+  const widths = fields.map((field) => Math.max(field.length, 8));
+  const header = [
+    'rank'.padStart(4),
+    ...fields.map((field, i) => field.padStart(widths[i] ?? 8)),
+    'alerts'.padStart(7),
+    '/month'.padStart(7),
+    'labeled'.padStart(8),
+    'TP'.padStart(4),
+    'FP'.padStart(4),
+    'precision'.padStart(9),
+    'recall'.padStart(7),
+    'f1'.padStart(6),
+  ].join('  ');
+
+  console.log(`\n🏆 Ranked by ${report.sortBy}\n`);
+  console.log(`  ${header}`);
+  for (const result of report.results.slice(0, top)) {
+    const row = [
+      String(result.rank).padStart(4),
+      ...fields.map((field, i) =>
+        String(result.overrides[field] ?? '').padStart(widths[i] ?? 8)
+      ),
+      String(result.alerts).padStart(7),
+      result.alertsPerMonth.toFixed(1).padStart(7),
+      String(result.labeledAlerts).padStart(8),
+      String(result.truePositives).padStart(4),
+      String(result.falsePositives).padStart(4),
+      formatRatio(result.precision).padStart(9),
+      formatRatio(result.recall).padStart(7),
+      (result.f1 !== null ? result.f1.toFixed(3) : '-').padStart(6),
+    ].join('  ');
+    console.log(`  ${row}`);
+  }
+
+  console.log('\n⚠️  Limitations');
+  for (const limitation of report.limitations) {
+    console.log(`  - ${limitation}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      range: { type: 'string', multiple: true },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      input: { type: 'string' },
+      'warmup-hours': { type: 'string' },
+      positive: { type: 'string' },
+      sort: { type: 'string' },
+      top: { type: 'string' },
+      output: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help === true) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values.range === undefined || values.range.length === 0) {
+    throw new Error('At least one --range is required (see --help)');
+  }
+  const ranges = values.range.map(parseThresholdRange);
+
+  const sortBy = values.sort ?? 'f1';
+  if (!TUNER_SORT_KEYS.includes(sortBy as TunerSortKey)) {
+    throw new Error(`--sort must be one of: ${TUNER_SORT_KEYS.join(', ')}`);
+  }
+
+  const positiveLabels = (values.positive ?? 'true_insider')
+    .split(',')
+    .map((label) => label.trim());
+  for (const label of positiveLabels) {
+    if (!isAlertLabel(label) && label !== WHO_KNEW_LABEL) {
+      throw new Error(
+        `Unknown label "${label}" - must be one of: ${[...ALERT_LABELS, WHO_KNEW_LABEL].join(', ')}`
+      );
+    }
+  }
+
+  const to = values.to !== undefined ? parseDate(values.to, 'to') : new Date();
+  const from =
+    values.from !== undefined
+      ? parseDate(values.from, 'from')
+      : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  await db.connect();
+
+  try {
+    const report = await thresholdTuner.run({
+      from,
+      to,
+      ranges,
+      sortBy: sortBy as TunerSortKey,
+      positiveLabels,
+      ...(values.input !== undefined && { inputPath: values.input }),
+      ...(values['warmup-hours'] !== undefined && {
+        warmupHours: Number(values['warmup-hours']),
+      }),
+    });
+
+    printReport(report, ranges, Number(values.top ?? 20));
+
+    if (values.output !== undefined) {
+      await writeFile(values.output, JSON.stringify(report, null, 2));
+      console.log(`\n📄 Full report written to ${values.output}`);
+    }
+  } finally {
+    walletForensicsService.stopPeriodicCleanup();
+    await db.disconnect();
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error('❌ Threshold tuning failed:', error);
+  process.exit(1);
+});
@@ -38,6 +38,13 @@ const envSchema = z.object({
   TELEGRAM_CHAT_ID: z.string().optional(),
   DISCORD_WEBHOOK_URL: z.string().url().optional(),
 
+  // Interactive alert labeling (Slack buttons / Discord components)
+  SLACK_SIGNING_SECRET: z.string().min(1).optional(),
+  DISCORD_PUBLIC_KEY: z
+    .string()
+    .regex(/^[0-9a-fA-F]{64}$/)
+    .optional(),
+
   // Monitoring
   SENTRY_DSN: z.string().url().optional(),
 
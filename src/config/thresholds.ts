@@ -83,14 +83,47 @@ export interface DetectionThresholds {
   walletDiversificationThreshold: number; // Max markets to flag as low diversification (insider signal) (default: 3)
   walletWhaleDiversificationMin: number; // Min markets for whale exemption (default: 10)
 
+  // Wallet performance thresholds (closed positions from the Data API)
+  walletPerformanceMinResolved: number; // Min resolved positions before the win rate is flagged (default: 5)
+  walletHighWinRatePct: number; // Min % of resolved positions won to flag a high win rate (default: 75)
+  walletLowOddsMaxPrice: number; // Max entry price counted as a low-odds bet (default: 0.25)
+  walletLowOddsMinWins: number; // Min low-odds bets won to flag a low-odds winner (default: 3)
+  walletLowOddsWinRatePct: number; // Min % of resolved low-odds bets won to flag (default: 50)
+
   // Error handling configuration
   skipTradesOnProxyError: boolean; // Skip trades when proxy resolution fails with GraphQL errors (default: false)
 
   // Market-aware minimum thresholds
   absoluteMinUsd: number; // Absolute minimum trade size in USD (default: 5000)
   relativeLiquidityFactor: number; // Minimum fraction of available liquidity (default: 0.5)
+
+  // Position accumulation (many small fills by one wallet judged as one trade)
+  accumulationWindowHours: number; // Rolling window for net exposure, 0 disables (default: 6)
+  accumulationMinTrades: number; // Min fills before an aggregate is checked (default: 3)
+
+  // Event patterns (YES on one market of a Gamma event, NO on others)
+  eventPatternWindowHours: number; // Window a wallet's event legs are combined over, 0 disables (default: 24)
+  eventPatternMinNoLegs: number; // Min other markets bet NO alongside the YES pick (default: 2)
+}
+
+/**
+ * DetectionThresholds fields that hold a number
+ */
+export type NumericThreshold = {
+  [K in keyof DetectionThresholds]: DetectionThresholds[K] extends number
+    ? K
+    : never;
+}[keyof DetectionThresholds];
+
+export interface ThresholdBounds {
+  min?: number;
+  max?: number;
 }
 
+const OI_CALCULATION_METHODS: ReadonlyArray<
+  DetectionThresholds['oiCalculationMethod']
+> = ['oi', 'liquidity', 'volume'];
+
 /**
  * Default detection thresholds based on project requirements
  */
@@ -139,139 +172,250 @@ export const DEFAULT_THRESHOLDS: DetectionThresholds = {
   walletDiversificationThreshold: 3, // <= 3 markets = low diversification = insider signal
   walletWhaleDiversificationMin: 10, // >= 10 markets = likely whale, not insider
 
+  // Wallet performance thresholds
+  walletPerformanceMinResolved: 5,
+  walletHighWinRatePct: 75,
+  walletLowOddsMaxPrice: 0.25, // Bets priced at 25c or less
+  walletLowOddsMinWins: 3,
+  walletLowOddsWinRatePct: 50, // Winning half of sub-25c bets is far above the odds
+
   // Error handling
   skipTradesOnProxyError: false,
 
   // Market-aware minimum thresholds
   absoluteMinUsd: 2500, // Reduced from 5000 - catch medium-sized trades
   relativeLiquidityFactor: 0.3, // Reduced from 0.5 - only need 30% of liquidity impact
+
+  // Position accumulation
+  accumulationWindowHours: 6,
+  accumulationMinTrades: 3,
+
+  // Event patterns
+  eventPatternWindowHours: 24,
+  eventPatternMinNoLegs: 2,
+};
+
+/**
+ * Allowed range for each numeric threshold
+ * Env values and runtime overrides outside these bounds are rejected
+ */
+export const THRESHOLD_BOUNDS: Record<NumericThreshold, ThresholdBounds> = {
+  minOiPercentage: { min: 0, max: 100 },
+  minPriceImpact: { min: 0, max: 100 },
+  dormantHoursNoLargeTrades: { min: 0, max: 168 }, // max 1 week
+  dormantHoursNoPriceMoves: { min: 0, max: 168 },
+  dormantLargeTradeThreshold: { min: 0, max: 10000000 }, // max $10M
+  dormantPriceMoveThreshold: { min: 0, max: 100 },
+  minWalletScore: { min: 0, max: 100 },
+  minConfidenceScore: { min: 0, max: 100 },
+  maxWalletTransactions: { min: 0, max: 100000 },
+  minWalletAgeInDays: { min: 0, max: 3650 }, // max 10 years
+  minNetflowPercentage: { min: 0, max: 100 },
+  cexFundingWindowDays: { min: 0, max: 365 },
+  walletLowTradeCount: { min: 0, max: 10000 },
+  walletYoungAccountDays: { min: 0, max: 365 },
+  walletLowVolumeUSD: { min: 0, max: 100000000 }, // max $100M
+  walletHighConcentrationPct: { min: 0, max: 100 },
+  walletFreshFatBetPriorTrades: { min: 0, max: 1000 },
+  walletFreshFatBetSizeUSD: { min: 0, max: 10000000 },
+  walletFreshFatBetMaxOI: { min: 0, max: 100000000 },
+  walletCacheTTLHours: { min: 0, max: 720 }, // max 30 days
+  walletDiversificationThreshold: { min: 1, max: 100 },
+  walletWhaleDiversificationMin: { min: 1, max: 1000 },
+  walletPerformanceMinResolved: { min: 1, max: 1000 },
+  walletHighWinRatePct: { min: 0, max: 100 },
+  walletLowOddsMaxPrice: { min: 0, max: 1 },
+  walletLowOddsMinWins: { min: 1, max: 1000 },
+  walletLowOddsWinRatePct: { min: 0, max: 100 },
+  minLiquidityImpactPercentage: { min: 0, max: 100 },
+  fallbackOiPercentage: { min: 0, max: 100 },
+  minVolumeImpactPercentage: { min: 0, max: 100 },
+  volumeLookbackHours: { min: 1, max: 720 },
+  orderbookDepthLevels: { min: 1, max: 100 },
+  orderbookCacheTtlSeconds: { min: 1, max: 3600 },
+  absoluteMinUsd: { min: 0, max: 10000000 },
+  relativeLiquidityFactor: { min: 0, max: 1 },
+  accumulationWindowHours: { min: 0, max: 168 }, // max 1 week
+  accumulationMinTrades: { min: 2, max: 1000 },
+  eventPatternWindowHours: { min: 0, max: 168 }, // max 1 week
+  eventPatternMinNoLegs: { min: 1, max: 100 },
 };
 
+// Active threshold profile (replaces the env values while active)
+let profileThresholds: DetectionThresholds | null = null;
+
+// Runtime overrides (threshold manager) layered over the env/profile values
+let runtimeOverrides: Partial<DetectionThresholds> = {};
+
 /**
- * Get current thresholds (can be overridden via env vars)
+ * Get current thresholds: env vars and defaults (or the active profile),
+ * then runtime overrides
+ * Read at use time - overrides apply without a restart
  */
 export function getThresholds(): DetectionThresholds {
+  return { ...getBaseThresholds(), ...runtimeOverrides };
+}
+
+/**
+ * Get the values runtime overrides apply on: the active profile's
+ * thresholds, or env vars and defaults when no profile is active
+ */
+export function getBaseThresholds(): DetectionThresholds {
+  return profileThresholds ?? getEnvThresholds();
+}
+
+/**
+ * Get thresholds from env vars and defaults only (ignores runtime overrides)
+ */
+export function getEnvThresholds(): DetectionThresholds {
   return {
     minOiPercentage: parseThreshold(
       process.env['MIN_OI_PERCENTAGE'],
       DEFAULT_THRESHOLDS.minOiPercentage,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minOiPercentage
     ),
     minPriceImpact: parseThreshold(
       process.env['MIN_PRICE_IMPACT'],
       DEFAULT_THRESHOLDS.minPriceImpact,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minPriceImpact
     ),
     dormantHoursNoLargeTrades: parseThreshold(
       process.env['DORMANT_HOURS_NO_LARGE_TRADES'],
       DEFAULT_THRESHOLDS.dormantHoursNoLargeTrades,
-      { min: 0, max: 168 } // max 1 week
+      THRESHOLD_BOUNDS.dormantHoursNoLargeTrades
     ),
     dormantHoursNoPriceMoves: parseThreshold(
       process.env['DORMANT_HOURS_NO_PRICE_MOVES'],
       DEFAULT_THRESHOLDS.dormantHoursNoPriceMoves,
-      { min: 0, max: 168 }
+      THRESHOLD_BOUNDS.dormantHoursNoPriceMoves
     ),
     dormantLargeTradeThreshold: parseThreshold(
       process.env['DORMANT_LARGE_TRADE_THRESHOLD'],
       DEFAULT_THRESHOLDS.dormantLargeTradeThreshold,
-      { min: 0, max: 10000000 } // max $10M
+      THRESHOLD_BOUNDS.dormantLargeTradeThreshold
     ),
     dormantPriceMoveThreshold: parseThreshold(
       process.env['DORMANT_PRICE_MOVE_THRESHOLD'],
       DEFAULT_THRESHOLDS.dormantPriceMoveThreshold,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.dormantPriceMoveThreshold
     ),
     minWalletScore: parseThreshold(
       process.env['MIN_WALLET_SCORE'],
       DEFAULT_THRESHOLDS.minWalletScore,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minWalletScore
     ),
     minConfidenceScore: parseThreshold(
       process.env['MIN_CONFIDENCE_SCORE'],
       DEFAULT_THRESHOLDS.minConfidenceScore,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minConfidenceScore
     ),
     maxWalletTransactions: parseThreshold(
       process.env['MAX_WALLET_TRANSACTIONS'],
       DEFAULT_THRESHOLDS.maxWalletTransactions,
-      { min: 0, max: 100000 }
+      THRESHOLD_BOUNDS.maxWalletTransactions
     ),
     minWalletAgeInDays: parseThreshold(
       process.env['MIN_WALLET_AGE_DAYS'],
       DEFAULT_THRESHOLDS.minWalletAgeInDays,
-      { min: 0, max: 3650 } // max 10 years
+      THRESHOLD_BOUNDS.minWalletAgeInDays
     ),
     minNetflowPercentage: parseThreshold(
       process.env['MIN_NETFLOW_PERCENTAGE'],
       DEFAULT_THRESHOLDS.minNetflowPercentage,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minNetflowPercentage
     ),
     cexFundingWindowDays: parseThreshold(
       process.env['CEX_FUNDING_WINDOW_DAYS'],
       DEFAULT_THRESHOLDS.cexFundingWindowDays,
-      { min: 0, max: 365 }
+      THRESHOLD_BOUNDS.cexFundingWindowDays
     ),
     // Wallet analysis thresholds (supports both WALLET_* and legacy SUBGRAPH_* env vars)
     walletLowTradeCount: parseThreshold(
       process.env['WALLET_LOW_TRADE_COUNT'] ??
         process.env['SUBGRAPH_LOW_TRADE_COUNT'],
       DEFAULT_THRESHOLDS.walletLowTradeCount,
-      { min: 0, max: 10000 }
+      THRESHOLD_BOUNDS.walletLowTradeCount
     ),
     walletYoungAccountDays: parseThreshold(
       process.env['WALLET_YOUNG_ACCOUNT_DAYS'] ??
         process.env['SUBGRAPH_YOUNG_ACCOUNT_DAYS'],
       DEFAULT_THRESHOLDS.walletYoungAccountDays,
-      { min: 0, max: 365 }
+      THRESHOLD_BOUNDS.walletYoungAccountDays
     ),
     walletLowVolumeUSD: parseThreshold(
       process.env['WALLET_LOW_VOLUME_USD'] ??
         process.env['SUBGRAPH_LOW_VOLUME_USD'],
       DEFAULT_THRESHOLDS.walletLowVolumeUSD,
-      { min: 0, max: 100000000 } // max $100M
+      THRESHOLD_BOUNDS.walletLowVolumeUSD
     ),
     walletHighConcentrationPct: parseThreshold(
       process.env['WALLET_HIGH_CONCENTRATION_PCT'] ??
         process.env['SUBGRAPH_HIGH_CONCENTRATION_PCT'],
       DEFAULT_THRESHOLDS.walletHighConcentrationPct,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.walletHighConcentrationPct
     ),
     walletFreshFatBetPriorTrades: parseThreshold(
       process.env['WALLET_FRESH_FAT_BET_PRIOR_TRADES'] ??
         process.env['SUBGRAPH_FRESH_FAT_BET_PRIOR_TRADES'],
       DEFAULT_THRESHOLDS.walletFreshFatBetPriorTrades,
-      { min: 0, max: 1000 }
+      THRESHOLD_BOUNDS.walletFreshFatBetPriorTrades
     ),
     walletFreshFatBetSizeUSD: parseThreshold(
       process.env['WALLET_FRESH_FAT_BET_SIZE_USD'] ??
         process.env['SUBGRAPH_FRESH_FAT_BET_SIZE_USD'],
       DEFAULT_THRESHOLDS.walletFreshFatBetSizeUSD,
-      { min: 0, max: 10000000 }
+      THRESHOLD_BOUNDS.walletFreshFatBetSizeUSD
     ),
     walletFreshFatBetMaxOI: parseThreshold(
       process.env['WALLET_FRESH_FAT_BET_MAX_OI'] ??
         process.env['SUBGRAPH_FRESH_FAT_BET_MAX_OI'],
       DEFAULT_THRESHOLDS.walletFreshFatBetMaxOI,
-      { min: 0, max: 100000000 }
+      THRESHOLD_BOUNDS.walletFreshFatBetMaxOI
     ),
     walletCacheTTLHours: parseThreshold(
       process.env['WALLET_CACHE_TTL_HOURS'] ??
         process.env['SUBGRAPH_CACHE_TTL_HOURS'],
       DEFAULT_THRESHOLDS.walletCacheTTLHours,
-      { min: 0, max: 720 } // max 30 days
+      THRESHOLD_BOUNDS.walletCacheTTLHours
     ),
 
     // Diversification thresholds
     walletDiversificationThreshold: parseThreshold(
       process.env['WALLET_DIVERSIFICATION_THRESHOLD'],
       DEFAULT_THRESHOLDS.walletDiversificationThreshold,
-      { min: 1, max: 100 }
+      THRESHOLD_BOUNDS.walletDiversificationThreshold
     ),
     walletWhaleDiversificationMin: parseThreshold(
       process.env['WALLET_WHALE_DIVERSIFICATION_MIN'],
       DEFAULT_THRESHOLDS.walletWhaleDiversificationMin,
-      { min: 1, max: 1000 }
+      THRESHOLD_BOUNDS.walletWhaleDiversificationMin
+    ),
+
+    // Wallet performance thresholds
+    walletPerformanceMinResolved: parseThreshold(
+      process.env['WALLET_PERFORMANCE_MIN_RESOLVED'],
+      DEFAULT_THRESHOLDS.walletPerformanceMinResolved,
+      THRESHOLD_BOUNDS.walletPerformanceMinResolved
+    ),
+    walletHighWinRatePct: parseThreshold(
+      process.env['WALLET_HIGH_WIN_RATE_PCT'],
+      DEFAULT_THRESHOLDS.walletHighWinRatePct,
+      THRESHOLD_BOUNDS.walletHighWinRatePct
+    ),
+    walletLowOddsMaxPrice: parseThreshold(
+      process.env['WALLET_LOW_ODDS_MAX_PRICE'],
+      DEFAULT_THRESHOLDS.walletLowOddsMaxPrice,
+      THRESHOLD_BOUNDS.walletLowOddsMaxPrice
+    ),
+    walletLowOddsMinWins: parseThreshold(
+      process.env['WALLET_LOW_ODDS_MIN_WINS'],
+      DEFAULT_THRESHOLDS.walletLowOddsMinWins,
+      THRESHOLD_BOUNDS.walletLowOddsMinWins
+    ),
+    walletLowOddsWinRatePct: parseThreshold(
+      process.env['WALLET_LOW_ODDS_WIN_RATE_PCT'],
+      DEFAULT_THRESHOLDS.walletLowOddsWinRatePct,
+      THRESHOLD_BOUNDS.walletLowOddsWinRatePct
     ),
 
     // OI Calculation Method Configuration
@@ -283,7 +427,7 @@ export function getThresholds(): DetectionThresholds {
     minLiquidityImpactPercentage: parseThreshold(
       process.env['MIN_LIQUIDITY_IMPACT_PERCENTAGE'],
       DEFAULT_THRESHOLDS.minLiquidityImpactPercentage,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minLiquidityImpactPercentage
     ),
     fallbackToOiCalculation:
       process.env['FALLBACK_TO_OI_CALCULATION'] === 'true' ||
@@ -292,27 +436,27 @@ export function getThresholds(): DetectionThresholds {
     fallbackOiPercentage: parseThreshold(
       process.env['FALLBACK_OI_PERCENTAGE'],
       DEFAULT_THRESHOLDS.fallbackOiPercentage,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.fallbackOiPercentage
     ),
     minVolumeImpactPercentage: parseThreshold(
       process.env['MIN_VOLUME_IMPACT_PERCENTAGE'],
       DEFAULT_THRESHOLDS.minVolumeImpactPercentage,
-      { min: 0, max: 100 }
+      THRESHOLD_BOUNDS.minVolumeImpactPercentage
     ),
     volumeLookbackHours: parseThreshold(
       process.env['VOLUME_LOOKBACK_HOURS'],
       DEFAULT_THRESHOLDS.volumeLookbackHours,
-      { min: 1, max: 720 }
+      THRESHOLD_BOUNDS.volumeLookbackHours
     ),
     orderbookDepthLevels: parseThreshold(
       process.env['ORDERBOOK_DEPTH_LEVELS'],
       DEFAULT_THRESHOLDS.orderbookDepthLevels,
-      { min: 1, max: 100 }
+      THRESHOLD_BOUNDS.orderbookDepthLevels
     ),
     orderbookCacheTtlSeconds: parseThreshold(
       process.env['ORDERBOOK_CACHE_TTL_SECONDS'],
       DEFAULT_THRESHOLDS.orderbookCacheTtlSeconds,
-      { min: 1, max: 3600 }
+      THRESHOLD_BOUNDS.orderbookCacheTtlSeconds
     ),
 
     // Error handling
@@ -324,12 +468,99 @@ export function getThresholds(): DetectionThresholds {
     absoluteMinUsd: parseThreshold(
       process.env['ABSOLUTE_MIN_USD'],
       DEFAULT_THRESHOLDS.absoluteMinUsd,
-      { min: 0, max: 10000000 }
+      THRESHOLD_BOUNDS.absoluteMinUsd
     ),
     relativeLiquidityFactor: parseThreshold(
       process.env['RELATIVE_LIQUIDITY_FACTOR'],
       DEFAULT_THRESHOLDS.relativeLiquidityFactor,
-      { min: 0, max: 1 }
+      THRESHOLD_BOUNDS.relativeLiquidityFactor
+    ),
+
+    // Position accumulation
+    accumulationWindowHours: parseThreshold(
+      process.env['ACCUMULATION_WINDOW_HOURS'],
+      DEFAULT_THRESHOLDS.accumulationWindowHours,
+      THRESHOLD_BOUNDS.accumulationWindowHours
+    ),
+    accumulationMinTrades: parseThreshold(
+      process.env['ACCUMULATION_MIN_TRADES'],
+      DEFAULT_THRESHOLDS.accumulationMinTrades,
+      THRESHOLD_BOUNDS.accumulationMinTrades
+    ),
+
+    // Event patterns
+    eventPatternWindowHours: parseThreshold(
+      process.env['EVENT_PATTERN_WINDOW_HOURS'],
+      DEFAULT_THRESHOLDS.eventPatternWindowHours,
+      THRESHOLD_BOUNDS.eventPatternWindowHours
+    ),
+    eventPatternMinNoLegs: parseThreshold(
+      process.env['EVENT_PATTERN_MIN_NO_LEGS'],
+      DEFAULT_THRESHOLDS.eventPatternMinNoLegs,
+      THRESHOLD_BOUNDS.eventPatternMinNoLegs
     ),
   };
 }
+
+/**
+ * Set the active profile's thresholds (null = back to env values)
+ */
+export function setProfileThresholds(
+  thresholds: DetectionThresholds | null
+): void {
+  profileThresholds = thresholds !== null ? { ...thresholds } : null;
+}
+
+/**
+ * Replace the runtime overrides (keys not present fall back to env/profile values)
+ */
+export function setThresholdOverrides(
+  overrides: Partial<DetectionThresholds>
+): void {
+  runtimeOverrides = { ...overrides };
+}
+
+/**
+ * Get the runtime overrides currently applied
+ */
+export function getThresholdOverrides(): Partial<DetectionThresholds> {
+  return { ...runtimeOverrides };
+}
+
+/**
+ * Check a threshold update against the field's type and bounds
+ * Returns an error message, or null when the value is valid
+ */
+export function validateThresholdValue(
+  key: string,
+  value: unknown
+): string | null {
+  if (!(key in DEFAULT_THRESHOLDS)) {
+    return `Unknown threshold "${key}"`;
+  }
+  const field = key as keyof DetectionThresholds;
+
+  if (field === 'oiCalculationMethod') {
+    return OI_CALCULATION_METHODS.includes(
+      value as DetectionThresholds['oiCalculationMethod']
+    )
+      ? null
+      : `${key} must be one of: ${OI_CALCULATION_METHODS.join(', ')}`;
+  }
+
+  if (typeof DEFAULT_THRESHOLDS[field] === 'boolean') {
+    return typeof value === 'boolean' ? null : `${key} must be a boolean`;
+  }
+
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${key} must be a number`;
+  }
+  const bounds = THRESHOLD_BOUNDS[field as NumericThreshold];
+  if (
+    (bounds.min !== undefined && value < bounds.min) ||
+    (bounds.max !== undefined && value > bounds.max)
+  ) {
+    return `${key} must be between ${bounds.min ?? '-∞'} and ${bounds.max ?? '∞'}`;
+  }
+  return null;
+}
@@ -29,6 +29,16 @@ import Fastify from 'fastify';
 
 import { registerHealthRoutes } from './api/health.js';
 import { registerMarketRoutes } from './api/markets.js';
+import { registerMarketEventRoutes } from './api/market-events.js';
+import { registerReportRoutes } from './api/reports.js';
+import { registerAlertRoutes } from './api/alerts.js';
+import { registerIntegrationRoutes } from './api/integrations.js';
+import { registerRescoreRoutes } from './api/rescore.js';
+import { registerDecisionRoutes } from './api/decisions.js';
+import { registerBudgetRoutes } from './api/budget.js';
+import { registerThresholdRoutes } from './api/thresholds.js';
+import { registerWatchlistRoutes } from './api/watchlist.js';
+import { registerWalletRoutes } from './api/wallets.js';
 import { getEnv } from './config/env.js';
 import { redis } from './services/cache/redis.js';
 import { db } from './services/database/prisma.js';
@@ -39,6 +49,13 @@ import { tradePoller } from './services/polymarket/trade-poller.js';
 import { telegramNotifier } from './services/notifications/telegram-notifier.js';
 import { telegramCommands } from './services/notifications/telegram-commands.js';
 import { cleanupService } from './services/database/cleanup-service.js';
+import { outcomeTracker } from './services/alerts/outcome-tracker.js';
+import { nearMissDigest } from './services/reports/near-miss-digest.js';
+import { whoKnewReport } from './services/reports/who-knew-report.js';
+import { walletWatchlist } from './services/signals/wallet-watchlist.js';
+import { alertBudgetController } from './services/alerts/alert-budget.js';
+import { thresholdManager } from './services/config/threshold-manager.js';
+import { thresholdProfiles } from './services/config/threshold-profiles.js';
 import { walletForensicsService } from './services/blockchain/wallet-forensics.js';
 import { logger } from './utils/logger.js';
 
@@ -102,6 +119,16 @@ async function main(): Promise<void> {
 
   // Register market management routes
   await registerMarketRoutes(app);
+  await registerMarketEventRoutes(app);
+  await registerReportRoutes(app);
+  await registerAlertRoutes(app);
+  await registerIntegrationRoutes(app);
+  await registerRescoreRoutes(app);
+  await registerDecisionRoutes(app);
+  await registerBudgetRoutes(app);
+  await registerThresholdRoutes(app);
+  await registerWatchlistRoutes(app);
+  await registerWalletRoutes(app);
 
   // Initialize database connection
   try {
@@ -111,6 +138,9 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  // Apply stored threshold overrides before any trade is analyzed
+  await thresholdManager.start();
+
   // Initialize Redis connection
   try {
     await redis.connect(env.REDIS_URL);
@@ -151,6 +181,26 @@ async function main(): Promise<void> {
   // Start database cleanup service (prunes old trades daily)
   cleanupService.start();
 
+  // Start outcome tracker (settles alerts once their markets resolve)
+  outcomeTracker.start();
+
+  // Schedule the daily near-miss digest (borderline trades to all channels)
+  nearMissDigest.start();
+
+  // Look back over trades before big moves and rank who was positioned
+  whoKnewReport.start();
+
+  // Start alert budget controller (restores the last applied thresholds)
+  await alertBudgetController.start();
+
+  // Apply the active threshold profile (the budget adjustment stays layered
+  // over it) and watch for switches and expiry
+  await thresholdProfiles.start();
+
+  // Load watched wallets (before trades flow) and poll their activity in
+  // markets we don't monitor
+  await walletWatchlist.start();
+
   // Start trade polling service (fetches trades from subgraph)
   // This is needed because WebSocket doesn't provide user addresses
   tradePoller.start();
@@ -242,6 +292,27 @@ async function main(): Promise<void> {
       // Stop cleanup service
       cleanupService.stop();
 
+      // Stop outcome tracker
+      outcomeTracker.stop();
+
+      // Stop near-miss digest
+      nearMissDigest.stop();
+
+      // Stop who-knew scan
+      whoKnewReport.stop();
+
+      // Stop alert budget controller
+      alertBudgetController.stop();
+
+      // Stop threshold override reloads
+      thresholdManager.stop();
+
+      // Stop threshold profile sync
+      thresholdProfiles.stop();
+
+      // Stop watched wallet polling
+      walletWatchlist.stop();
+
       // Stop trade poller
       tradePoller.stop();
 
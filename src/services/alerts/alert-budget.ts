@@ -0,0 +1,580 @@
+import type { AlertBudgetAdjustment } from '@prisma/client';
+
+import { db } from '../database/prisma.js';
+import { notificationCoordinator } from '../notifications/notification-coordinator.js';
+import { logger } from '../../utils/logger.js';
+import type { Result } from '../../types/index.js';
+import { alertScorer } from './alert-scorer.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 30;
+
+/**
+ * Controller mode
+ * - propose: post adjustments for approval (default)
+ * - apply: apply adjustments immediately
+ */
+export type AlertBudgetMode = 'propose' | 'apply';
+
+/**
+ * Stored adjustment (proposal or applied change)
+ */
+export interface AlertBudgetAdjustmentRecord {
+  id: string;
+  status: string; // pending, applied, rejected, superseded
+  direction: string;
+  reason: string;
+  windowDays: number;
+  alertsInWindow: number;
+  alertsPerMonth: number;
+  budgetMin: number;
+  budgetMax: number;
+  previousAlertThreshold: number;
+  alertThreshold: number;
+  previousMinWalletScore: number;
+  minWalletScore: number;
+  createdAt: string;
+  decidedAt: string | null;
+  decidedBy: string | null;
+}
+
+export interface AlertBudgetSettings {
+  enabled: boolean;
+  mode: AlertBudgetMode;
+  budgetMin: number; // Alerts per 30 days
+  budgetMax: number;
+  windowDays: number;
+  cooldownDays: number; // Minimum days between applied changes
+  step: number; // Points per adjustment
+  alertThresholdBounds: { min: number; max: number };
+  minWalletScoreBounds: { min: number; max: number };
+}
+
+export interface AlertBudgetStatus {
+  settings: AlertBudgetSettings;
+  alertsInWindow: number;
+  alertsPerMonth: number;
+  withinBudget: boolean;
+  current: { alertThreshold: number; minWalletScore: number };
+  pending: AlertBudgetAdjustmentRecord | null;
+  history: AlertBudgetAdjustmentRecord[]; // Most recent first
+}
+
+export interface AlertBudgetEvaluation {
+  action: 'none' | 'proposed' | 'applied';
+  reason: string;
+  alertsInWindow: number;
+  alertsPerMonth: number;
+  adjustment?: AlertBudgetAdjustmentRecord;
+}
+
+/**
+ * Read a numeric env var, falling back to the default when unset or invalid
+ */
+function readNumber(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return defaultValue;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : defaultValue;
+}
+
+/**
+ * Alert budget controller
+ * Tracks the rolling alert rate against the configured budget (README target:
+ * 2-6 alerts a month) and moves the scorer's alert threshold and wallet score
+ * floor one bounded step at a time. Every proposal and change is stored so
+ * threshold drift can be audited.
+ */
+class AlertBudgetController {
+  private static instance: AlertBudgetController | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private syncInterval: NodeJS.Timeout | null = null;
+  private readonly settings: AlertBudgetSettings;
+  private readonly CHECK_INTERVAL_HOURS: number;
+  private readonly SYNC_INTERVAL_SECONDS: number;
+
+  // Applied adjustment the scorer currently carries (null before the first)
+  private lastAppliedId: string | null = null;
+
+  private constructor() {
+    this.settings = {
+      enabled: process.env['ALERT_BUDGET_ENABLED'] === 'true',
+      mode: process.env['ALERT_BUDGET_MODE'] === 'apply' ? 'apply' : 'propose',
+      budgetMin: readNumber('ALERT_BUDGET_MIN_PER_MONTH', 2),
+      budgetMax: readNumber('ALERT_BUDGET_MAX_PER_MONTH', 6),
+      windowDays: readNumber('ALERT_BUDGET_WINDOW_DAYS', 30),
+      cooldownDays: readNumber('ALERT_BUDGET_COOLDOWN_DAYS', 7),
+      step: readNumber('ALERT_BUDGET_STEP', 5),
+      alertThresholdBounds: {
+        min: readNumber('ALERT_BUDGET_ALERT_THRESHOLD_MIN', 40),
+        max: readNumber('ALERT_BUDGET_ALERT_THRESHOLD_MAX', 80),
+      },
+      minWalletScoreBounds: {
+        min: readNumber('ALERT_BUDGET_WALLET_SCORE_MIN', 10),
+        max: readNumber('ALERT_BUDGET_WALLET_SCORE_MAX', 60),
+      },
+    };
+    this.CHECK_INTERVAL_HOURS = readNumber(
+      'ALERT_BUDGET_CHECK_INTERVAL_HOURS',
+      24
+    );
+    this.SYNC_INTERVAL_SECONDS = readNumber(
+      'ALERT_BUDGET_SYNC_INTERVAL_SECONDS',
+      30
+    );
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AlertBudgetController {
+    if (AlertBudgetController.instance === null) {
+      AlertBudgetController.instance = new AlertBudgetController();
+    }
+    return AlertBudgetController.instance;
+  }
+
+  /**
+   * Restore the last applied adjustment and start the periodic check, plus
+   * a sync that picks up adjustments applied by other instances
+   */
+  public async start(): Promise<void> {
+    if (!this.settings.enabled) {
+      logger.info('Alert budget controller disabled');
+      return;
+    }
+    if (this.checkInterval !== null) {
+      logger.warn('Alert budget controller already running');
+      return;
+    }
+
+    await this.syncLastApplied();
+
+    void this.runCheck();
+    this.checkInterval = setInterval(
+      () => {
+        void this.runCheck();
+      },
+      this.CHECK_INTERVAL_HOURS * 60 * 60 * 1000
+    );
+    this.syncInterval = setInterval(() => {
+      void this.syncLastApplied();
+    }, this.SYNC_INTERVAL_SECONDS * 1000);
+
+    logger.info(
+      {
+        mode: this.settings.mode,
+        budget: `${this.settings.budgetMin}-${this.settings.budgetMax}/month`,
+        windowDays: this.settings.windowDays,
+        intervalHours: this.CHECK_INTERVAL_HOURS,
+        syncSeconds: this.SYNC_INTERVAL_SECONDS,
+      },
+      '🎚️ Alert budget controller started'
+    );
+  }
+
+  /**
+   * Stop the periodic check and sync
+   */
+  public stop(): void {
+    if (this.syncInterval !== null) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+    }
+    if (this.checkInterval !== null) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      logger.info('Alert budget controller stopped');
+    }
+  }
+
+  /**
+   * Current rate, settings, pending proposal and adjustment history
+   */
+  public async getStatus(historyLimit = 20): Promise<AlertBudgetStatus> {
+    const prisma = db.getClient();
+    const { alertsInWindow, alertsPerMonth } = await this.measureRate();
+    const [pending, history] = await Promise.all([
+      prisma.alertBudgetAdjustment.findFirst({
+        where: { status: 'pending' },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.alertBudgetAdjustment.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: historyLimit,
+      }),
+    ]);
+    const config = alertScorer.getConfig();
+
+    return {
+      settings: this.settings,
+      alertsInWindow,
+      alertsPerMonth,
+      withinBudget: this.isWithinBudget(alertsPerMonth),
+      current: {
+        alertThreshold: config.alertThreshold,
+        minWalletScore: config.minWalletScore,
+      },
+      pending: pending !== null ? this.toRecord(pending) : null,
+      history: history.map((row) => this.toRecord(row)),
+    };
+  }
+
+  /**
+   * Compare the rolling alert rate with the budget and propose or apply one
+   * bounded step when it is outside
+   */
+  public async evaluate(): Promise<AlertBudgetEvaluation> {
+    const prisma = db.getClient();
+    const { alertsInWindow, alertsPerMonth } = await this.measureRate();
+    const noChange = (reason: string): AlertBudgetEvaluation => ({
+      action: 'none',
+      reason,
+      alertsInWindow,
+      alertsPerMonth,
+    });
+
+    if (this.isWithinBudget(alertsPerMonth)) {
+      return noChange('Alert rate within budget');
+    }
+
+    // A rejection starts the cooldown too, so a declined step isn't
+    // proposed again on the next check
+    const lastDecided = await prisma.alertBudgetAdjustment.findFirst({
+      where: { status: { in: ['applied', 'rejected'] } },
+      orderBy: { decidedAt: 'desc' },
+    });
+    const lastDecidedAt = lastDecided?.decidedAt ?? null;
+    const cooldownEnds =
+      lastDecidedAt !== null
+        ? lastDecidedAt.getTime() + this.settings.cooldownDays * DAY_MS
+        : 0;
+    if (Date.now() < cooldownEnds) {
+      return noChange(
+        `Cooling down after ${lastDecided?.status} adjustment until ${new Date(cooldownEnds).toISOString()}`
+      );
+    }
+
+    const direction =
+      alertsPerMonth > this.settings.budgetMax ? 'tighten' : 'loosen';
+    const config = alertScorer.getConfig();
+    const next = this.nextStep(
+      direction,
+      config.alertThreshold,
+      config.minWalletScore
+    );
+    if (next === null) {
+      logger.warn(
+        { direction, alertsPerMonth },
+        '⚠️ Alert budget missed but thresholds are at their bounds'
+      );
+      return noChange(`Cannot ${direction} further - thresholds at bounds`);
+    }
+
+    const reason =
+      `${alertsPerMonth.toFixed(1)} alerts/month ` +
+      (direction === 'tighten'
+        ? `> budget max ${this.settings.budgetMax}`
+        : `< budget min ${this.settings.budgetMin}`);
+    const apply = this.settings.mode === 'apply';
+
+    // The same step is already waiting for a decision - don't post it again
+    const pending = await prisma.alertBudgetAdjustment.findFirst({
+      where: { status: 'pending' },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (
+      !apply &&
+      pending !== null &&
+      pending.direction === direction &&
+      pending.previousAlertThreshold === config.alertThreshold &&
+      pending.alertThreshold === next.alertThreshold &&
+      pending.previousMinWalletScore === config.minWalletScore &&
+      pending.minWalletScore === next.minWalletScore
+    ) {
+      return noChange(`Proposal ${pending.id} already pending`);
+    }
+
+    // Only the latest proposal stays open
+    await prisma.alertBudgetAdjustment.updateMany({
+      where: { status: 'pending' },
+      data: { status: 'superseded', decidedAt: new Date() },
+    });
+
+    const row = await prisma.alertBudgetAdjustment.create({
+      data: {
+        status: apply ? 'applied' : 'pending',
+        direction,
+        reason,
+        windowDays: this.settings.windowDays,
+        alertsInWindow,
+        alertsPerMonth,
+        budgetMin: this.settings.budgetMin,
+        budgetMax: this.settings.budgetMax,
+        previousAlertThreshold: config.alertThreshold,
+        alertThreshold: next.alertThreshold,
+        previousMinWalletScore: config.minWalletScore,
+        minWalletScore: next.minWalletScore,
+        ...(apply && { decidedAt: new Date(), decidedBy: 'controller' }),
+      },
+    });
+    const adjustment = this.toRecord(row);
+
+    if (apply) {
+      alertScorer.applyThresholdAdjustment(next);
+      this.lastAppliedId = row.id;
+    }
+    await this.notify(adjustment);
+
+    return {
+      action: apply ? 'applied' : 'proposed',
+      reason,
+      alertsInWindow,
+      alertsPerMonth,
+      adjustment,
+    };
+  }
+
+  /**
+   * Approve a pending proposal and apply it
+   * A proposal made against thresholds that have since changed (another
+   * adjustment, a profile switch) is superseded instead of applied.
+   * Returns null when the adjustment does not exist
+   */
+  public async approve(
+    id: string,
+    decidedBy: string
+  ): Promise<Result<AlertBudgetAdjustmentRecord, string> | null> {
+    const prisma = db.getClient();
+    const proposal = await prisma.alertBudgetAdjustment.findUnique({
+      where: { id },
+    });
+    if (proposal === null) return null;
+
+    const config = alertScorer.getConfig();
+    if (
+      proposal.status === 'pending' &&
+      (proposal.previousAlertThreshold !== config.alertThreshold ||
+        proposal.previousMinWalletScore !== config.minWalletScore)
+    ) {
+      await prisma.alertBudgetAdjustment.updateMany({
+        where: { id, status: 'pending' },
+        data: { status: 'superseded', decidedAt: new Date(), decidedBy },
+      });
+      logger.info(
+        {
+          id,
+          proposedFrom: {
+            alertThreshold: proposal.previousAlertThreshold,
+            minWalletScore: proposal.previousMinWalletScore,
+          },
+          current: {
+            alertThreshold: config.alertThreshold,
+            minWalletScore: config.minWalletScore,
+          },
+        },
+        '⏭️ Stale alert budget proposal superseded'
+      );
+      return {
+        success: false,
+        error:
+          `Thresholds changed since the proposal (now alert threshold ` +
+          `${config.alertThreshold}, wallet score floor ${config.minWalletScore}) - proposal superseded`,
+      };
+    }
+
+    const decided = await this.decide(id, 'applied', decidedBy);
+    if (decided?.success === true) {
+      alertScorer.applyThresholdAdjustment({
+        alertThreshold: decided.data.alertThreshold,
+        minWalletScore: decided.data.minWalletScore,
+      });
+      this.lastAppliedId = decided.data.id;
+    }
+    return decided;
+  }
+
+  /**
+   * Reject a pending proposal
+   * Returns null when the adjustment does not exist
+   */
+  public async reject(
+    id: string,
+    decidedBy: string
+  ): Promise<Result<AlertBudgetAdjustmentRecord, string> | null> {
+    return this.decide(id, 'rejected', decidedBy);
+  }
+
+  private async decide(
+    id: string,
+    status: 'applied' | 'rejected',
+    decidedBy: string
+  ): Promise<Result<AlertBudgetAdjustmentRecord, string> | null> {
+    const prisma = db.getClient();
+
+    // Only move pending rows, so concurrent decisions can't both win
+    const updated = await prisma.alertBudgetAdjustment.updateMany({
+      where: { id, status: 'pending' },
+      data: { status, decidedAt: new Date(), decidedBy },
+    });
+    const row = await prisma.alertBudgetAdjustment.findUnique({
+      where: { id },
+    });
+    if (row === null) return null;
+    if (updated.count === 0) {
+      return { success: false, error: `Adjustment is ${row.status}` };
+    }
+
+    logger.info(
+      { id, status, decidedBy },
+      status === 'applied'
+        ? '✅ Alert budget adjustment approved'
+        : '🚫 Alert budget adjustment rejected'
+    );
+    return { success: true, data: this.toRecord(row) };
+  }
+
+  /**
+   * Run a scheduled evaluation (never throws)
+   */
+  private async runCheck(): Promise<void> {
+    try {
+      const evaluation = await this.evaluate();
+      logger.info(
+        {
+          action: evaluation.action,
+          reason: evaluation.reason,
+          alertsPerMonth: evaluation.alertsPerMonth.toFixed(2),
+        },
+        '🎚️ Alert budget checked'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to evaluate alert budget');
+    }
+  }
+
+  /**
+   * Apply the most recent applied adjustment when this instance doesn't
+   * carry it yet (after a restart, or applied or approved on another
+   * instance)
+   */
+  private async syncLastApplied(): Promise<void> {
+    try {
+      const last = await db.getClient().alertBudgetAdjustment.findFirst({
+        where: { status: 'applied' },
+        orderBy: { decidedAt: 'desc' },
+      });
+      if (last === null || last.id === this.lastAppliedId) return;
+
+      alertScorer.applyThresholdAdjustment({
+        alertThreshold: last.alertThreshold,
+        minWalletScore: last.minWalletScore,
+      });
+      this.lastAppliedId = last.id;
+      logger.info(
+        { id: last.id, decidedAt: last.decidedAt },
+        '🎚️ Synced last alert budget adjustment'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Failed to sync alert budget adjustment');
+    }
+  }
+
+  /**
+   * Alerts created in the rolling window, normalized to a 30-day month
+   */
+  private async measureRate(): Promise<{
+    alertsInWindow: number;
+    alertsPerMonth: number;
+  }> {
+    const since = new Date(Date.now() - this.settings.windowDays * DAY_MS);
+    const alertsInWindow = await db
+      .getClient()
+      .alert.count({ where: { createdAt: { gte: since } } });
+    return {
+      alertsInWindow,
+      alertsPerMonth: (alertsInWindow * MONTH_DAYS) / this.settings.windowDays,
+    };
+  }
+
+  private isWithinBudget(alertsPerMonth: number): boolean {
+    return (
+      alertsPerMonth >= this.settings.budgetMin &&
+      alertsPerMonth <= this.settings.budgetMax
+    );
+  }
+
+  /**
+   * One bounded step: the alert threshold moves first; the wallet score floor
+   * only moves once the threshold is at its bound
+   */
+  private nextStep(
+    direction: 'tighten' | 'loosen',
+    alertThreshold: number,
+    minWalletScore: number
+  ): { alertThreshold: number; minWalletScore: number } | null {
+    const { step, alertThresholdBounds, minWalletScoreBounds } = this.settings;
+    // Values already outside the bounds are left alone, never pulled back
+    const move = (
+      value: number,
+      bounds: { min: number; max: number }
+    ): number => {
+      if (direction === 'tighten') {
+        return value >= bounds.max ? value : Math.min(bounds.max, value + step);
+      }
+      return value <= bounds.min ? value : Math.max(bounds.min, value - step);
+    };
+
+    const nextThreshold = move(alertThreshold, alertThresholdBounds);
+    if (nextThreshold !== alertThreshold) {
+      return { alertThreshold: nextThreshold, minWalletScore };
+    }
+    const nextWalletScore = move(minWalletScore, minWalletScoreBounds);
+    if (nextWalletScore !== minWalletScore) {
+      return { alertThreshold, minWalletScore: nextWalletScore };
+    }
+    return null;
+  }
+
+  /**
+   * Post the adjustment to the notification channels
+   */
+  private async notify(adjustment: AlertBudgetAdjustmentRecord): Promise<void> {
+    const applied = adjustment.status === 'applied';
+    const lines = [
+      applied
+        ? '🎚️ *Alert budget: thresholds adjusted*'
+        : '🎚️ *Alert budget: adjustment proposed*',
+      '',
+      `${adjustment.reason} (${adjustment.alertsInWindow} alerts in ${adjustment.windowDays}d)`,
+      `Alert threshold: ${adjustment.previousAlertThreshold} → ${adjustment.alertThreshold}`,
+      `Wallet score floor: ${adjustment.previousMinWalletScore} → ${adjustment.minWalletScore}`,
+    ];
+    if (!applied) {
+      lines.push(
+        '',
+        `Approve: \`/budget approve ${adjustment.id}\``,
+        `Reject: \`/budget reject ${adjustment.id}\``
+      );
+    }
+
+    const result = await notificationCoordinator.sendMessage(lines.join('\n'));
+    if (!result.anySuccess) {
+      logger.warn(
+        { id: adjustment.id },
+        'Alert budget adjustment not delivered to any channel'
+      );
+    }
+  }
+
+  private toRecord(row: AlertBudgetAdjustment): AlertBudgetAdjustmentRecord {
+    return {
+      ...row,
+      createdAt: row.createdAt.toISOString(),
+      decidedAt: row.decidedAt?.toISOString() ?? null,
+    };
+  }
+}
+
+// Export singleton instance
+export const alertBudgetController = AlertBudgetController.getInstance();
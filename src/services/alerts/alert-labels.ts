@@ -0,0 +1,344 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Analyst verdicts for an alert
+ */
+export const ALERT_LABELS = [
+  'true_insider',
+  'whale',
+  'market_maker',
+  'arbitrage',
+  'noise',
+] as const;
+
+export type AlertLabelValue = (typeof ALERT_LABELS)[number];
+
+/**
+ * Button text for each label in chat integrations
+ */
+export const ALERT_LABEL_NAMES: Record<AlertLabelValue, string> = {
+  true_insider: '🕵️ Insider',
+  whale: '🐋 Whale',
+  market_maker: '🏦 Market Maker',
+  arbitrage: '⚖️ Arbitrage',
+  noise: '🔇 Noise',
+};
+
+/**
+ * Where a label was set from
+ */
+export type LabelSource = 'api' | 'telegram' | 'slack' | 'discord';
+
+export interface LabelInput {
+  alertId: string;
+  label: AlertLabelValue;
+  labeledBy: string;
+  source: LabelSource;
+  notes?: string;
+}
+
+export interface AlertLabelRecord {
+  id: string;
+  alertId: string;
+  label: string;
+  labeledBy: string;
+  source: string;
+  notes: string | null;
+  createdAt: Date;
+}
+
+/**
+ * One row of the labeled dataset: a label joined with the alert's
+ * stored score breakdown and wallet flags
+ */
+export interface LabeledDatasetRow {
+  labelId: string;
+  alertId: string;
+  label: string;
+  labeledBy: string;
+  source: string;
+  notes: string | null;
+  labeledAt: string;
+
+  // Alert
+  timestamp: string;
+  marketId: string;
+  marketCategory: string | null;
+  walletAddress: string;
+  tradeSide: string;
+  tradePrice: string;
+  tradeUsdValue: number | null;
+  oiPercentage: number | null;
+  priceImpact: number | null;
+  confidenceScore: number;
+  classification: string;
+
+  // Score breakdown
+  scorerVersion: string | null;
+  impactMethod: string | null;
+  walletContribution: number | null;
+  impactContribution: number | null;
+  resolutionProximityBonus: number | null;
+  contrarianBonus: number | null;
+  walletDormancyBonus: number | null;
+  clusterBonus: number | null;
+
+  // Wallet flags (null on alerts created before they were stored)
+  walletIsSuspicious: boolean;
+  walletLowTradeCount: boolean | null;
+  walletYoungAccount: boolean | null;
+  walletLowVolume: boolean | null;
+  walletHighConcentration: boolean | null;
+  walletFreshFatBet: boolean | null;
+  walletLowDiversification: boolean | null;
+  walletHighWinRate: boolean | null;
+  walletLowOddsWinner: boolean | null;
+  walletAgeDays: number | null;
+  walletWinRate: number | null;
+  walletRealizedPnl: number | null;
+
+  // Market outcome
+  outcome: string | null;
+  realizedReturn: number | null;
+}
+
+export interface LabelExportFilters {
+  from?: Date; // Label creation time
+  to?: Date;
+  label?: AlertLabelValue;
+  includeHistory?: boolean; // Include superseded labels, not just the latest per alert
+}
+
+/**
+ * Type guard for label values coming from user input
+ */
+export function isAlertLabel(value: string): value is AlertLabelValue {
+  return (ALERT_LABELS as readonly string[]).includes(value);
+}
+
+/**
+ * Encode a label action for a chat button (Slack value / Discord custom_id)
+ */
+export function encodeLabelAction(
+  alertId: string,
+  label: AlertLabelValue
+): string {
+  return `label:${label}:${alertId}`;
+}
+
+/**
+ * Decode a chat button label action
+ * Returns null if the value is not a label action
+ */
+export function decodeLabelAction(
+  value: string
+): { alertId: string; label: AlertLabelValue } | null {
+  const [prefix, label, alertId] = value.split(':');
+  if (
+    prefix !== 'label' ||
+    label === undefined ||
+    !isAlertLabel(label) ||
+    !alertId
+  ) {
+    return null;
+  }
+  return { alertId, label };
+}
+
+/**
+ * Alert label service
+ * Stores analyst feedback on alerts and exports it as a labeled dataset.
+ * Labels are append-only; the most recent label on an alert is its effective label.
+ */
+class AlertLabelService {
+  private static instance: AlertLabelService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): AlertLabelService {
+    if (AlertLabelService.instance === null) {
+      AlertLabelService.instance = new AlertLabelService();
+    }
+    return AlertLabelService.instance;
+  }
+
+  /**
+   * Record a label on an alert
+   * Returns null if the alert does not exist
+   */
+  public async addLabel(input: LabelInput): Promise<AlertLabelRecord | null> {
+    const prisma = db.getClient();
+
+    const alert = await prisma.alert.findUnique({
+      where: { id: input.alertId },
+      select: { id: true },
+    });
+    if (alert === null) {
+      return null;
+    }
+
+    const record = await prisma.alertLabel.create({
+      data: {
+        alertId: input.alertId,
+        label: input.label,
+        labeledBy: input.labeledBy,
+        source: input.source,
+        notes: input.notes ?? null,
+      },
+    });
+
+    logger.info(
+      {
+        alertId: input.alertId,
+        label: input.label,
+        labeledBy: input.labeledBy,
+        source: input.source,
+      },
+      '🏷️ Alert labeled'
+    );
+
+    return record;
+  }
+
+  /**
+   * Label history for an alert (newest first)
+   */
+  public async getLabels(alertId: string): Promise<AlertLabelRecord[]> {
+    const prisma = db.getClient();
+    return prisma.alertLabel.findMany({
+      where: { alertId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Export labels joined with their alerts' score breakdown and wallet flags
+   */
+  public async exportDataset(
+    filters: LabelExportFilters = {}
+  ): Promise<LabeledDatasetRow[]> {
+    const prisma = db.getClient();
+    const labels = await prisma.alertLabel.findMany({
+      where: {
+        ...((filters.from !== undefined || filters.to !== undefined) && {
+          createdAt: {
+            ...(filters.from !== undefined && { gte: filters.from }),
+            ...(filters.to !== undefined && { lte: filters.to }),
+          },
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        alert: {
+          include: { market: { select: { category: true } } },
+        },
+      },
+    });
+
+    // Newest first, so the first label seen for an alert is its effective one
+    const seen = new Set<string>();
+    const rows: LabeledDatasetRow[] = [];
+    for (const label of labels) {
+      if (!filters.includeHistory) {
+        if (seen.has(label.alertId)) continue;
+        seen.add(label.alertId);
+      }
+      // Filter after picking the effective label, so a superseded label never matches
+      if (filters.label !== undefined && label.label !== filters.label) {
+        continue;
+      }
+
+      const alert = label.alert;
+      rows.push({
+        labelId: label.id,
+        alertId: label.alertId,
+        label: label.label,
+        labeledBy: label.labeledBy,
+        source: label.source,
+        notes: label.notes,
+        labeledAt: label.createdAt.toISOString(),
+
+        timestamp: alert.timestamp.toISOString(),
+        marketId: alert.marketId,
+        marketCategory: alert.market.category,
+        walletAddress: alert.walletAddress,
+        tradeSide: alert.tradeSide,
+        tradePrice: alert.tradePrice,
+        tradeUsdValue: alert.tradeUsdValue,
+        oiPercentage: alert.oiPercentage,
+        priceImpact: alert.priceImpact,
+        confidenceScore: alert.confidenceScore,
+        classification: alert.classification,
+
+        scorerVersion: alert.scorerVersion,
+        impactMethod: alert.impactMethod,
+        walletContribution: alert.scoreWalletSuspicion,
+        impactContribution: alert.scoreTradeSize,
+        resolutionProximityBonus: alert.resolutionProximityBonus,
+        contrarianBonus: alert.contrarianBonus,
+        walletDormancyBonus: alert.walletDormancyBonus,
+        clusterBonus: alert.clusterBonus,
+
+        walletIsSuspicious: alert.walletIsSuspicious,
+        walletLowTradeCount: alert.walletLowTradeCount,
+        walletYoungAccount: alert.walletYoungAccount,
+        walletLowVolume: alert.walletLowVolume,
+        walletHighConcentration: alert.walletHighConcentration,
+        walletFreshFatBet: alert.walletFreshFatBet,
+        walletLowDiversification: alert.walletLowDiversification,
+        walletHighWinRate: alert.walletHighWinRate,
+        walletLowOddsWinner: alert.walletLowOddsWinner,
+        walletAgeDays: alert.walletAgeDays,
+        walletWinRate: alert.walletWinRate,
+        walletRealizedPnl: alert.walletRealizedPnl,
+
+        outcome: alert.outcome,
+        realizedReturn: alert.realizedReturn,
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Render dataset rows as CSV (header row first)
+   */
+  public toCsv(rows: LabeledDatasetRow[]): string {
+    const first = rows[0];
+    if (first === undefined) {
+      return '';
+    }
+
+    const columns = Object.keys(first) as Array<keyof LabeledDatasetRow>;
+    const lines = [columns.join(',')];
+    for (const row of rows) {
+      lines.push(columns.map((col) => this.csvValue(row[col])).join(','));
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Render dataset rows as JSON Lines
+   */
+  public toJsonl(rows: LabeledDatasetRow[]): string {
+    return rows.map((row) => JSON.stringify(row) + '\n').join('');
+  }
+
+  /**
+   * Quote a CSV field when it contains a delimiter, quote or newline
+   */
+  private csvValue(value: string | number | boolean | null): string {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+// Export singleton instance
+export const alertLabels = AlertLabelService.getInstance();
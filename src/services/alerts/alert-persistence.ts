@@ -2,9 +2,19 @@ import { db, type PrismaClient } from '../database/prisma.js';
 import { redis } from '../cache/redis.js';
 import { notificationCoordinator } from '../notifications/notification-coordinator.js';
 import { logger } from '../../utils/logger.js';
-import type { AlertScore, AlertClassification } from './alert-scorer.js';
-import type { TradeSignal } from '../../types/index.js';
+import { walletWatchlist } from '../signals/wallet-watchlist.js';
+import {
+  SCORER_VERSION,
+  type AlertScore,
+  type AlertClassification,
+} from './alert-scorer.js';
+import type { ScoreFeatures } from './scoring-model.js';
+import { parseScoreSnapshot, type ScoreSnapshot } from './score-snapshot.js';
+import type { TimingWindow, TradeSignal } from '../../types/index.js';
 import type { WalletFingerprint } from '../blockchain/wallet-forensics.js';
+import type { MarketCatalyst } from '../polymarket/market-event-service.js';
+import type { EventPattern } from '../signals/event-pattern-detector.js';
+import type { WalletAlertHistory } from './wallet-alert-history.js';
 
 /**
  * Alert data for persistence
@@ -24,6 +34,15 @@ export interface AlertData {
   tradeSignal: TradeSignal;
   walletFingerprint: WalletFingerprint;
   scoreBreakdown: AlertScore['breakdown'];
+  scoreFeatures?: ScoreFeatures;
+  modelScore?: AlertScore['model'];
+  scoreSnapshot?: ScoreSnapshot;
+  thresholdProfile?: string; // Active threshold profile ("aggressive v2")
+  timingWindows?: TimingWindow[] | undefined; // Timing analyzer result
+  nextCatalyst?: MarketCatalyst | null; // Next scheduled market event when scored
+  eventPattern?: EventPattern | null; // Cross-market event position the alert was built from
+  walletHistory?: WalletAlertHistory | null; // Wallet's earlier alerts when scored
+  alertId?: string; // Set once persisted, so notifications can reference it
 }
 
 /**
@@ -88,6 +107,7 @@ class AlertPersistenceService {
       return;
     }
 
+    let alertId: string | undefined;
     try {
       // Dedup check: has this wallet+market combo already been alerted recently?
       const prisma = db.getClient();
@@ -117,7 +137,7 @@ class AlertPersistenceService {
 
       await db.executeTransaction(async (txPrisma: PrismaClient) => {
         // Create alert record
-        await txPrisma.alert.create({
+        const alert = await txPrisma.alert.create({
           data: {
             tradeId: data.tradeId,
             marketId: data.marketId,
@@ -133,6 +153,7 @@ class AlertPersistenceService {
             oiPercentage: data.tradeSignal.oiPercentage,
             priceImpact: data.tradeSignal.priceImpact,
             tradeUsdValue: data.tradeSignal.tradeUsdValue,
+            componentTradeIds: data.tradeSignal.componentTradeIds ?? [],
 
             // Dormancy metrics (no longer used for gating, set to defaults)
             isDormant: false,
@@ -150,6 +171,20 @@ class AlertPersistenceService {
               data.walletFingerprint.flags.highPolymarketNetflow,
             walletSinglePurpose: data.walletFingerprint.flags.singlePurpose,
 
+            // Wallet flags used by the scorer (for labeled dataset export)
+            walletLowTradeCount:
+              data.walletFingerprint.walletFlags.lowTradeCount,
+            walletYoungAccount: data.walletFingerprint.walletFlags.youngAccount,
+            walletLowVolume: data.walletFingerprint.walletFlags.lowVolume,
+            walletHighConcentration:
+              data.walletFingerprint.walletFlags.highConcentration,
+            walletFreshFatBet: data.walletFingerprint.walletFlags.freshFatBet,
+            walletLowDiversification:
+              data.walletFingerprint.walletFlags.lowDiversification,
+            walletHighWinRate: data.walletFingerprint.walletFlags.highWinRate,
+            walletLowOddsWinner:
+              data.walletFingerprint.walletFlags.lowOddsWinner,
+
             // Wallet metadata
             walletTotalTransactions:
               data.walletFingerprint.metadata.totalTransactions,
@@ -158,12 +193,63 @@ class AlertPersistenceService {
               data.walletFingerprint.metadata.cexFundingSource,
             walletPolymarketNetflowPercentage:
               data.walletFingerprint.metadata.polymarketNetflowPercentage,
+            walletWinRate:
+              data.walletFingerprint.walletMetadata.performance?.winRate ??
+              null,
+            walletRealizedPnl:
+              data.walletFingerprint.walletMetadata.performance?.realizedPnl ??
+              null,
+            walletAvgWinningEntry:
+              data.walletFingerprint.walletMetadata.performance
+                ?.avgWinningEntry ?? null,
 
             // Score breakdown (v2 - tiered scoring with multipliers)
             scoreTradeSize: data.scoreBreakdown.impactContribution, // OI contribution (40% weight)
             scoreDormancy: 0, // Stored in multipliers now
             scoreWalletSuspicion: data.scoreBreakdown.walletContribution, // Wallet contribution (60% weight)
-            scoreTiming: 0, // Extremity removed - no longer used
+            scoreTiming: data.scoreBreakdown.timingBonus,
+
+            // Scorer details (for performance reporting)
+            scorerVersion: SCORER_VERSION,
+            impactMethod: data.scoreBreakdown.impactMethod,
+            resolutionProximityBonus:
+              data.scoreBreakdown.resolutionProximityBonus,
+            contrarianBonus: data.scoreBreakdown.contrarianBonus,
+            walletDormancyBonus: data.scoreBreakdown.walletDormancyBonus,
+            clusterBonus: data.scoreBreakdown.clusterBonus,
+            catalystProximityBonus: data.scoreBreakdown.catalystProximityBonus,
+            catalystEventId: data.nextCatalyst?.id ?? null,
+            eventPatternBonus: data.scoreBreakdown.eventPatternBonus,
+            ...(data.eventPattern !== undefined &&
+              data.eventPattern !== null && {
+                // Round-trip through JSON for Prisma's JSON input type
+                eventPattern: JSON.parse(JSON.stringify(data.eventPattern)),
+              }),
+            repeatOffenderBonus: data.scoreBreakdown.repeatOffenderBonus,
+            priorAlertCount: data.walletHistory?.priorAlerts ?? null,
+            scoringTable: data.scoreBreakdown.scoringTable,
+            ...(data.scoreFeatures !== undefined && {
+              // Spread to a plain object for Prisma's JSON input type
+              scoreFeatures: { ...data.scoreFeatures },
+            }),
+            ...(data.modelScore !== undefined && {
+              modelVersion: data.modelScore.version,
+              modelProbability: data.modelScore.probability,
+              ruleScore: data.modelScore.ruleScore,
+            }),
+            ...(data.scoreSnapshot !== undefined && {
+              // Round-trip through JSON for Prisma's JSON input type
+              scoreSnapshot: JSON.parse(JSON.stringify(data.scoreSnapshot)),
+            }),
+            ...(data.timingWindows !== undefined && {
+              // Spread to plain objects for Prisma's JSON input type
+              timingWindows: data.timingWindows.map((window) => ({
+                ...window,
+              })),
+            }),
+            ...(data.thresholdProfile !== undefined && {
+              thresholdProfile: data.thresholdProfile,
+            }),
 
             // Alert metadata
             notified: false,
@@ -172,11 +258,14 @@ class AlertPersistenceService {
             dismissedAt: null,
             notes: null,
           },
+          select: { id: true },
         });
+        alertId = alert.id;
       });
 
       logger.info(
         {
+          alertId,
           tradeId: data.tradeId,
           marketId: data.marketId,
           wallet: data.walletAddress.substring(0, 10) + '...',
@@ -197,9 +286,21 @@ class AlertPersistenceService {
       throw error;
     }
 
+    // Follow STRONG_INSIDER wallets into every market from now on
+    if (data.classification === 'ALERT_STRONG_INSIDER') {
+      await walletWatchlist.addFromAlert(
+        data.walletAddress,
+        data.tradeSignal.walletAddress,
+        alertId
+      );
+    }
+
     // Send notifications independently — DB persistence already succeeded above
     try {
-      const result = await notificationCoordinator.sendAlert(data);
+      const result = await notificationCoordinator.sendAlert({
+        ...data,
+        ...(alertId !== undefined && { alertId }),
+      });
 
       if (!result.anySuccess) {
         logger.error(
@@ -382,6 +483,30 @@ class AlertPersistenceService {
       };
     }
   }
+
+  /**
+   * Get the score snapshot stored on an alert
+   * Returns null if the alert doesn't exist; snapshot is null for alerts
+   * created before snapshots were stored
+   */
+  public async getScoreSnapshot(alertId: string): Promise<{
+    alertId: string;
+    scorerVersion: string | null;
+    snapshot: ScoreSnapshot | null;
+  } | null> {
+    const prisma = db.getClient();
+    const alert = await prisma.alert.findUnique({
+      where: { id: alertId },
+      select: { id: true, scorerVersion: true, scoreSnapshot: true },
+    });
+    if (alert === null) return null;
+
+    return {
+      alertId: alert.id,
+      scorerVersion: alert.scorerVersion,
+      snapshot: parseScoreSnapshot(alert.scoreSnapshot),
+    };
+  }
 }
 
 // Export singleton instance
@@ -1,11 +1,39 @@
 import { redis } from '../cache/redis.js';
+import { thresholdManager } from '../config/threshold-manager.js';
 import { logger } from '../../utils/logger.js';
-import type { TradeSignal } from '../../types/index.js';
+import type {
+  FilterDecision,
+  TimingWindow,
+  TradeSignal,
+} from '../../types/index.js';
 import type { WalletFingerprint } from '../blockchain/wallet-forensics.js';
+import type { MarketCatalyst } from '../polymarket/market-event-service.js';
+import type { EventPattern } from '../signals/event-pattern-detector.js';
+import type { WalletAlertHistory } from './wallet-alert-history.js';
+import {
+  loadScoringModel,
+  predictProbability,
+  type ScoreFeatures,
+  type ScoringModel,
+} from './scoring-model.js';
+import {
+  applyCategoryTable,
+  buildProductionScorerConfig,
+  loadCategoryTables,
+  loadShadowScorerConfigs,
+  lookupStep,
+  type ScorerConfig,
+} from './scorer-config.js';
 
 // Stats key for tracking
 const STATS_KEY = 'stats:alert_scorer';
 
+/**
+ * Scorer version - bump whenever scoring logic or weights change
+ * Persisted on each alert so performance can be compared across versions
+ */
+export const SCORER_VERSION = 'v11';
+
 /**
  * Alert classification result
  */
@@ -29,9 +57,14 @@ export interface AlertScore {
     walletContribution: number; // 60% of wallet score
     impactContribution: number; // 40% of impact score
     resolutionProximityBonus: number; // 0-25 additive bonus for trading near resolution
+    catalystProximityBonus: number; // 0-15 bonus for trading shortly before a scheduled market event
     contrarianBonus: number; // -5 to +20 bonus for betting against the crowd
     walletDormancyBonus: number; // 0-15 bonus for dormant wallet waking up
     clusterBonus: number; // 0-20 bonus for multiple wallets trading same direction
+    eventPatternBonus: number; // 0-20 bonus for YES on one market of an event and NO on others
+    timingBonus: number; // 0-15 bonus for off-hours, weekend or pre-release trades
+    repeatOffenderBonus: number; // 0-20 bonus for the wallet's earlier alerts and how they resolved
+    scoringTable: string; // Category table used for weights and bonuses ('default' = none)
   };
   multipliers: {
     marketSize: number; // 1.0, 1.5, or 2.0
@@ -40,8 +73,22 @@ export interface AlertScore {
   classification: AlertClassification;
   filtersPassed: boolean;
   filterReason?: string;
+  previousMarketTradeTimestamp?: number | null; // Market trade (ms) the dormancy multiplier was measured from
+  features?: ScoreFeatures; // Set once the trade passes the hard filters
+  model?: {
+    version: string;
+    probability: number; // Calibrated probability of informed trading
+    ruleScore: number; // Rule-based score, used if the model is unavailable
+  };
 }
 
+/**
+ * Scoring mode
+ * - rules: hand-tuned weights and bonuses (default)
+ * - model: trained logistic model; totalScore = probability * 100
+ */
+export type ScorerMode = 'rules' | 'model';
+
 /**
  * Input parameters for scoring
  */
@@ -50,7 +97,29 @@ export interface ScoreInput {
   walletFingerprint: WalletFingerprint;
   entryProbability: number; // 0.0-1.0 (trade price)
   marketEndDate?: string | undefined; // ISO date string - market resolution date
+  marketCategory?: string | undefined; // MarketConfig.category - selects the category scoring table
+  nextCatalyst?: MarketCatalyst | null; // Next scheduled market event after the trade (no catalyst bonus when absent)
+  timingWindows?: TimingWindow[]; // Timing analyzer windows (no timing bonus when absent)
   clusterWalletCount?: number; // Number of OTHER unique wallets trading same market+side recently
+  eventPattern?: EventPattern | null; // Cross-market event position the signal was built from (no event bonus when absent)
+  walletHistory?: WalletAlertHistory | null; // Wallet's alerts before this trade (no repeat-offender bonus when absent)
+  previousMarketTradeTimestamp?: number | null; // Point-in-time last market trade (ms) - replaces the Redis lookup when set
+}
+
+/**
+ * Options for running the scorer without side effects
+ */
+export interface ScoreOptions {
+  /** Stat sink replacing the Redis counters */
+  recordStat?: (field: string) => void | Promise<void>;
+  /** Receives the hard filter that stopped the trade (decision log) */
+  recordFilter?: (filter: FilterDecision) => void;
+  /** Model override (null forces rule-based scoring) */
+  model?: ScoringModel | null;
+  /** Config override (shadow scoring); defaults to getConfigForMarket() */
+  config?: ScorerConfig;
+  /** Suppress info-level scoring logs (shadow scoring) */
+  quiet?: boolean;
 }
 
 /**
@@ -60,36 +129,233 @@ export interface ScoreInput {
 class AlertScorerService {
   private static instance: AlertScorerService | null = null;
 
-  // Hard filter thresholds (configurable via env vars)
-  private readonly MIN_TRADE_SIZE_USD: number;
-  private readonly MIN_OI_USD: number;
-  private readonly MIN_WALLET_SCORE: number;
+  // Production scoring config (thresholds configurable via env vars,
+  // alert threshold and wallet floor adjustable at runtime)
+  private config: ScorerConfig;
+
+  // Env or threshold profile config, and the alert budget adjustment
+  // layered over it to give the production config
+  private baseConfig: ScorerConfig;
+  private thresholdAdjustment: {
+    alertThreshold?: number;
+    minWalletScore?: number;
+  } = {};
+
+  // Shadow configs scored alongside production, never notified
+  private shadowConfigs: ScorerConfig[] = [];
 
-  // Classification thresholds (configurable via env vars)
-  private readonly ALERT_THRESHOLD: number;
-  private readonly LOG_THRESHOLD: number;
+  // Learned model (SCORER_MODE=model); null means rule-based scoring
+  private model: ScoringModel | null = null;
 
   private constructor() {
     // Load thresholds from env vars with defaults
-    this.MIN_TRADE_SIZE_USD = Number(process.env['MIN_TRADE_SIZE_USD']) || 1000;
-    this.MIN_OI_USD = Number(process.env['MIN_OI_USD']) || 5000;
-    this.MIN_WALLET_SCORE = Number(process.env['MIN_WALLET_SCORE']) || 20; // Reduced from 40 - now 20/100 (actually 10/50 raw score)
-
-    // Alert classification thresholds - lowered defaults for better detection
-    this.ALERT_THRESHOLD = Number(process.env['ALERT_THRESHOLD']) || 50; // Was hardcoded at 70
-    this.LOG_THRESHOLD = Number(process.env['LOG_THRESHOLD']) || 30; // Was hardcoded at 50
+    this.baseConfig = this.buildEnvConfig();
+    this.config = this.baseConfig;
 
     logger.info(
       {
-        minTradeSize: this.MIN_TRADE_SIZE_USD,
-        minOi: this.MIN_OI_USD,
-        minWalletScore: this.MIN_WALLET_SCORE,
-        alertThreshold: this.ALERT_THRESHOLD,
-        logThreshold: this.LOG_THRESHOLD,
-        weights: { wallet: '60%', impact: '40%' },
+        minTradeSize: this.config.minTradeSizeUsd,
+        minOi: this.config.minOiUsd,
+        minWalletScore: this.config.minWalletScore,
+        alertThreshold: this.config.alertThreshold,
+        logThreshold: this.config.logThreshold,
+        weights: {
+          wallet: `${this.config.walletWeight * 100}%`,
+          impact: `${this.config.impactWeight * 100}%`,
+        },
       },
       'Alert scorer service initialized (v5 - configurable thresholds)'
     );
+
+    if (process.env['SCORER_MODE'] === 'model') {
+      this.loadModel(process.env['SCORER_MODEL_PATH']);
+    }
+
+    const shadowPath = process.env['SHADOW_SCORER_CONFIG_PATH'];
+    if (shadowPath !== undefined && shadowPath !== '') {
+      this.loadShadowConfigs(shadowPath);
+    }
+  }
+
+  /**
+   * Production config from env vars, with the per-category tables from
+   * SCORER_CATEGORY_TABLES_PATH (on failure every category uses the defaults)
+   */
+  private buildEnvConfig(): ScorerConfig {
+    const config = buildProductionScorerConfig(SCORER_VERSION);
+    const path = process.env['SCORER_CATEGORY_TABLES_PATH'];
+    if (path === undefined || path === '') return config;
+
+    try {
+      const withTables = loadCategoryTables(path, config);
+      logger.info(
+        { path, categories: Object.keys(withTables.categoryTables ?? {}) },
+        '🗂️ Category scoring tables loaded'
+      );
+      return withTables;
+    } catch (error) {
+      logger.error(
+        {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to load category scoring tables - using defaults for every category'
+      );
+      return config;
+    }
+  }
+
+  /**
+   * Load shadow scorer configs; on failure run without shadows
+   */
+  private loadShadowConfigs(path: string): void {
+    try {
+      this.shadowConfigs = loadShadowScorerConfigs(path, this.config);
+      logger.info(
+        {
+          path,
+          versions: this.shadowConfigs.map((config) => config.version),
+        },
+        '👥 Shadow scorer configs loaded'
+      );
+    } catch (error) {
+      logger.error(
+        {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to load shadow scorer configs - running without shadows'
+      );
+    }
+  }
+
+  /**
+   * Production scoring config
+   */
+  public getConfig(): ScorerConfig {
+    return this.config;
+  }
+
+  /**
+   * Env or threshold profile config, without the alert budget adjustment
+   */
+  public getBaseConfig(): ScorerConfig {
+    return this.baseConfig;
+  }
+
+  /**
+   * Production scoring config with a market's scoped overrides
+   * (per-market, category or tier MIN_TRADE_SIZE_USD / MIN_OI_USD)
+   */
+  public getConfigForMarket(marketId: string): ScorerConfig {
+    return thresholdManager.getScorerConfigForMarket(this.config, marketId);
+  }
+
+  /**
+   * Replace the production config with a threshold profile's scorer
+   * constants, or rebuild it from env vars (null). An alert budget
+   * adjustment stays layered on top.
+   */
+  public applyProfileConfig(
+    profile: { name: string; config: Omit<ScorerConfig, 'version'> } | null
+  ): void {
+    this.baseConfig =
+      profile !== null
+        ? { ...profile.config, version: SCORER_VERSION }
+        : this.buildEnvConfig();
+    this.config = { ...this.baseConfig, ...this.thresholdAdjustment };
+
+    logger.info(
+      {
+        profile: profile?.name ?? null,
+        minTradeSize: this.config.minTradeSizeUsd,
+        minOi: this.config.minOiUsd,
+        minWalletScore: this.config.minWalletScore,
+        alertThreshold: this.config.alertThreshold,
+        logThreshold: this.config.logThreshold,
+      },
+      '🎛️ Scorer config replaced by threshold profile'
+    );
+  }
+
+  /**
+   * Adjust the production alert threshold and wallet score floor at runtime
+   * (alert budget controller). The adjustment outlives profile switches.
+   * Shadow configs keep their own values.
+   */
+  public applyThresholdAdjustment(adjustment: {
+    alertThreshold?: number;
+    minWalletScore?: number;
+  }): void {
+    const previous = {
+      alertThreshold: this.config.alertThreshold,
+      minWalletScore: this.config.minWalletScore,
+    };
+    this.thresholdAdjustment = { ...this.thresholdAdjustment, ...adjustment };
+    this.config = { ...this.baseConfig, ...this.thresholdAdjustment };
+
+    logger.info(
+      {
+        previous,
+        alertThreshold: this.config.alertThreshold,
+        minWalletScore: this.config.minWalletScore,
+      },
+      '🎚️ Scorer thresholds adjusted'
+    );
+  }
+
+  /**
+   * Shadow scoring configs (empty when shadow scoring is off)
+   */
+  public getShadowConfigs(): ScorerConfig[] {
+    return this.shadowConfigs;
+  }
+
+  /**
+   * Load the learned model; on failure keep rule-based scoring
+   */
+  private loadModel(path: string | undefined): void {
+    if (path === undefined || path === '') {
+      logger.error(
+        'SCORER_MODE=model but SCORER_MODEL_PATH is not set - using rule-based scoring'
+      );
+      return;
+    }
+
+    try {
+      this.model = loadScoringModel(path);
+      logger.info(
+        {
+          path,
+          version: this.model.version,
+          trainedAt: this.model.trainedAt,
+          samples: this.model.training.train.samples,
+        },
+        '🤖 Scoring model loaded'
+      );
+    } catch (error) {
+      logger.error(
+        {
+          path,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Failed to load scoring model - using rule-based scoring'
+      );
+    }
+  }
+
+  /**
+   * Current scoring mode
+   */
+  public getMode(): ScorerMode {
+    return this.model !== null ? 'model' : 'rules';
+  }
+
+  /**
+   * Loaded model version, if any
+   */
+  public getModelVersion(): string | null {
+    return this.model?.version ?? null;
   }
 
   /**
@@ -134,14 +400,33 @@ class AlertScorerService {
    * Calculate confidence score for an alert
    * New tiered scoring with multipliers
    */
-  public async calculateScore(params: ScoreInput): Promise<AlertScore> {
+  public async calculateScore(
+    params: ScoreInput,
+    options: ScoreOptions = {}
+  ): Promise<AlertScore> {
     const {
       tradeSignal,
       walletFingerprint,
       entryProbability,
       marketEndDate,
+      marketCategory,
+      nextCatalyst,
+      timingWindows,
       clusterWalletCount,
+      eventPattern,
+      walletHistory,
+      previousMarketTradeTimestamp,
     } = params;
+    const recordStat =
+      options.recordStat ??
+      ((field: string): Promise<void> => this.incrementStat(field));
+    const recordFilter = options.recordFilter ?? ((): void => undefined);
+    const model = options.model !== undefined ? options.model : this.model;
+    const { config, table: scoringTable } = applyCategoryTable(
+      options.config ?? this.getConfigForMarket(tradeSignal.marketId),
+      marketCategory
+    );
+    const quiet = options.quiet === true;
 
     const openInterest = parseFloat(tradeSignal.openInterest);
     const tradeUsdValue = tradeSignal.tradeUsdValue;
@@ -152,20 +437,21 @@ class AlertScorerService {
     if ('status' in walletFingerprint && walletFingerprint.status === 'error') {
       // Wallet analysis failed - give moderate score and continue
       // Better to alert with caution than miss potential insiders
-      logger.warn(
-        {
-          wallet: walletFingerprint.address,
-          reason: walletFingerprint.errorReason,
-          tradeId: tradeSignal.walletAddress,
-          marketId: tradeSignal.marketId,
-        },
-        'Wallet analysis failed - scoring with moderate suspicion'
-      );
-      await this.incrementStat('wallet_error_but_scored');
+      if (!quiet) {
+        logger.warn(
+          {
+            wallet: walletFingerprint.address,
+            reason: walletFingerprint.errorReason,
+            tradeId: tradeSignal.walletAddress,
+            marketId: tradeSignal.marketId,
+          },
+          'Wallet analysis failed - scoring with moderate suspicion'
+        );
+      }
+      await recordStat('wallet_error_but_scored');
 
       // Give error fingerprints a moderate baseline score (not max suspicious)
-      const errorWalletScore = 25; // 50% of max 50 points - moderate, not extreme
-      const walletScore100 = errorWalletScore * 2; // Scale to 0-100
+      const walletScore100 = config.errorWalletScore * 2; // Scale to 0-100
 
       // Continue with impact-based scoring
       const impactPercentage = tradeSignal.impactPercentage;
@@ -173,46 +459,73 @@ class AlertScorerService {
       const impactThreshold = tradeSignal.impactThreshold;
 
       let impactScore = this.calculateImpactScore(
+        config,
         impactPercentage,
         impactMethod,
         impactThreshold
       );
 
-      const marketSizeMultiplier = this.getMarketSizeMultiplier(openInterest);
-      const dormancyMultiplier = await this.getDormancyMultiplier(
-        tradeSignal.marketId,
-        tradeSignal.timestamp
+      const marketSizeMultiplier = lookupStep(
+        config.marketSizeMultiplier,
+        openInterest
+      );
+      const previousTradeTimestamp =
+        previousMarketTradeTimestamp !== undefined
+          ? previousMarketTradeTimestamp
+          : await this.getPreviousMarketTradeTimestamp(tradeSignal.marketId);
+      const dormancyMultiplier = this.getDormancyMultiplier(
+        config,
+        tradeSignal.timestamp,
+        previousTradeTimestamp
       );
 
       impactScore = impactScore * marketSizeMultiplier * dormancyMultiplier;
       impactScore = Math.min(100, impactScore);
 
       const resolutionProximityBonus = this.getResolutionProximityBonus(
+        config,
         marketEndDate,
         tradeSignal.timestamp
       );
+      const catalystProximityBonus = this.getCatalystProximityBonus(
+        config,
+        nextCatalyst,
+        tradeSignal.timestamp
+      );
       const contrarianBonus = this.getContrarianBonus(
+        config,
         entryProbability,
         tradeSignal.outcome
       );
       const walletDormancyBonus = 0; // Cannot compute for error fingerprints
-      const clusterBonus = this.getClusterBonus(clusterWalletCount ?? 0);
-      const walletContribution = 0.6 * walletScore100;
-      const impactContribution = 0.4 * impactScore;
+      const clusterBonus = lookupStep(
+        config.clusterBonus,
+        clusterWalletCount ?? 0
+      );
+      const eventPatternBonus = this.getEventPatternBonus(config, eventPattern);
+      const timingBonus = this.getTimingBonus(config, timingWindows);
+      const repeatOffenderBonus = this.getRepeatOffenderBonus(
+        config,
+        walletHistory
+      );
+      const walletContribution = config.walletWeight * walletScore100;
+      const impactContribution = config.impactWeight * impactScore;
       const finalScore = Math.min(
         100,
         walletContribution +
           impactContribution +
           resolutionProximityBonus +
+          catalystProximityBonus +
           contrarianBonus +
-          clusterBonus
+          clusterBonus +
+          eventPatternBonus +
+          timingBonus +
+          repeatOffenderBonus
       );
 
-      const classification = this.classify(finalScore);
+      const classification = this.classify(config, finalScore);
 
-      await this.incrementStat(
-        `classification_${classification.toLowerCase()}`
-      );
+      await recordStat(`classification_${classification.toLowerCase()}`);
 
       return {
         totalScore: Math.round(finalScore),
@@ -224,9 +537,14 @@ class AlertScorerService {
           walletContribution: Math.round(walletContribution),
           impactContribution: Math.round(impactContribution),
           resolutionProximityBonus,
+          catalystProximityBonus,
           contrarianBonus,
           walletDormancyBonus,
           clusterBonus,
+          eventPatternBonus,
+          timingBonus,
+          repeatOffenderBonus,
+          scoringTable,
         },
         multipliers: {
           marketSize: marketSizeMultiplier,
@@ -235,6 +553,7 @@ class AlertScorerService {
         classification,
         filtersPassed: true,
         filterReason: 'Wallet API error - scored with moderate suspicion',
+        previousMarketTradeTimestamp: previousTradeTimestamp,
       };
     }
 
@@ -242,13 +561,25 @@ class AlertScorerService {
     // 1. VALIDATE INPUTS (prevent NaN propagation)
     // ----------------------------------
     if (!isFinite(openInterest) || openInterest <= 0) {
+      recordFilter({
+        reason: 'invalid_open_interest',
+        value: null,
+        threshold: null,
+      });
       return this.createIgnoreResult(
-        `Invalid open interest: ${tradeSignal.openInterest}`
+        `Invalid open interest: ${tradeSignal.openInterest}`,
+        scoringTable
       );
     }
     if (!isFinite(tradeUsdValue) || tradeUsdValue <= 0) {
+      recordFilter({
+        reason: 'invalid_trade_usd_value',
+        value: null,
+        threshold: null,
+      });
       return this.createIgnoreResult(
-        `Invalid trade USD value: ${tradeUsdValue}`
+        `Invalid trade USD value: ${tradeUsdValue}`,
+        scoringTable
       );
     }
     if (
@@ -256,29 +587,40 @@ class AlertScorerService {
       entryProbability < 0 ||
       entryProbability > 1
     ) {
+      recordFilter({
+        reason: 'invalid_entry_probability',
+        value: null,
+        threshold: null,
+      });
       return this.createIgnoreResult(
-        `Invalid entry probability: ${entryProbability}`
+        `Invalid entry probability: ${entryProbability}`,
+        scoringTable
       );
     }
 
     // Rescale wallet score from 0-50 to 0-100
-    const walletScore100 = this.calculateWalletScore(walletFingerprint) * 2;
+    const walletScore100 =
+      this.calculateWalletScore(config, walletFingerprint, quiet) * 2;
 
     // ----------------------------------
     // 1. HARD FILTERS
     // ----------------------------------
     const filterResult = await this.applyHardFilters(
+      config,
       tradeUsdValue,
       openInterest,
-      walletScore100
+      walletScore100,
+      recordStat,
+      recordFilter,
+      quiet
     );
 
     if (!filterResult.passed) {
-      return this.createIgnoreResult(filterResult.reason);
+      return this.createIgnoreResult(filterResult.reason, scoringTable);
     }
 
     // Track trades that passed hard filters
-    await this.incrementStat('passed_hard_filters');
+    await recordStat('passed_hard_filters');
 
     // ----------------------------------
     // 2. IMPACT SCORE WITH MULTIPLIERS
@@ -289,16 +631,25 @@ class AlertScorerService {
     const impactThreshold = tradeSignal.impactThreshold;
 
     let impactScore = this.calculateImpactScore(
+      config,
       impactPercentage,
       impactMethod,
       impactThreshold
     );
 
     // Get multipliers
-    const marketSizeMultiplier = this.getMarketSizeMultiplier(openInterest);
-    const dormancyMultiplier = await this.getDormancyMultiplier(
-      tradeSignal.marketId,
-      tradeSignal.timestamp
+    const marketSizeMultiplier = lookupStep(
+      config.marketSizeMultiplier,
+      openInterest
+    );
+    const previousTradeTimestamp =
+      previousMarketTradeTimestamp !== undefined
+        ? previousMarketTradeTimestamp
+        : await this.getPreviousMarketTradeTimestamp(tradeSignal.marketId);
+    const dormancyMultiplier = this.getDormancyMultiplier(
+      config,
+      tradeSignal.timestamp,
+      previousTradeTimestamp
     );
 
     // Apply multipliers
@@ -311,16 +662,29 @@ class AlertScorerService {
     // Insiders trade close to resolution when their info is most valuable
     // ----------------------------------
     const resolutionProximityBonus = this.getResolutionProximityBonus(
+      config,
       marketEndDate,
       tradeSignal.timestamp
     );
 
+    // ----------------------------------
+    // 3a. CATALYST PROXIMITY BONUS
+    // Insiders position just before scheduled announcements they know the
+    // content of (earnings, rulings, votes)
+    // ----------------------------------
+    const catalystProximityBonus = this.getCatalystProximityBonus(
+      config,
+      nextCatalyst,
+      tradeSignal.timestamp
+    );
+
     // ----------------------------------
     // 3b. CONTRARIAN POSITION BONUS
     // Insiders bet against the crowd when they know the outcome
     // Buying a sub-20% probability outcome is highly diagnostic
     // ----------------------------------
     const contrarianBonus = this.getContrarianBonus(
+      config,
       entryProbability,
       tradeSignal.outcome
     );
@@ -330,6 +694,7 @@ class AlertScorerService {
     // A wallet that was inactive for weeks then suddenly makes a big bet is suspicious
     // ----------------------------------
     const walletDormancyBonus = this.getWalletDormancyBonus(
+      config,
       walletFingerprint,
       tradeSignal.timestamp
     );
@@ -338,23 +703,53 @@ class AlertScorerService {
     // 3d. CLUSTER BONUS
     // Multiple unique wallets piling into the same side = coordinated activity
     // ----------------------------------
-    const clusterBonus = this.getClusterBonus(clusterWalletCount ?? 0);
+    const clusterBonus = lookupStep(
+      config.clusterBonus,
+      clusterWalletCount ?? 0
+    );
+
+    // ----------------------------------
+    // 3e. EVENT PATTERN BONUS
+    // YES on one candidate and NO on the others of the same event is a
+    // bet on a single outcome spread across markets
+    // ----------------------------------
+    const eventPatternBonus = this.getEventPatternBonus(config, eventPattern);
+
+    // ----------------------------------
+    // 3f. TIMING BONUS
+    // Off-hours, weekend and pre-release trades in the market's time zone
+    // ----------------------------------
+    const timingBonus = this.getTimingBonus(config, timingWindows);
+
+    // ----------------------------------
+    // 3g. REPEAT OFFENDER BONUS
+    // Wallets with earlier alerts, especially ones that resolved in their
+    // favour, have been right before
+    // ----------------------------------
+    const repeatOffenderBonus = this.getRepeatOffenderBonus(
+      config,
+      walletHistory
+    );
 
     // ----------------------------------
     // 4. FINAL WEIGHTED SCORE
-    // Weights: Wallet 60%, Impact 40%, + additive bonuses
+    // Weights: Wallet 60%, Impact 40% (production), + additive bonuses
     // ----------------------------------
-    const walletContribution = 0.6 * walletScore100;
-    const impactContribution = 0.4 * impactScore;
+    const walletContribution = config.walletWeight * walletScore100;
+    const impactContribution = config.impactWeight * impactScore;
 
     const finalScore = Math.min(
       100,
       walletContribution +
         impactContribution +
         resolutionProximityBonus +
+        catalystProximityBonus +
         contrarianBonus +
         walletDormancyBonus +
-        clusterBonus
+        clusterBonus +
+        eventPatternBonus +
+        timingBonus +
+        repeatOffenderBonus
     );
 
     // ----------------------------------
@@ -368,7 +763,7 @@ class AlertScorerService {
       walletFingerprint.status === 'partial'
     ) {
       // Reduce score for partial data
-      confidenceAdjustment = 0.8;
+      confidenceAdjustment = config.partialDataMultiplier;
       adjustedScore = finalScore * confidenceAdjustment;
       logger.debug(
         {
@@ -380,13 +775,51 @@ class AlertScorerService {
       );
     }
 
+    const features: ScoreFeatures = {
+      lowTradeCount: walletFingerprint.subgraphFlags.lowTradeCount,
+      youngAccount: walletFingerprint.subgraphFlags.youngAccount,
+      lowVolume: walletFingerprint.subgraphFlags.lowVolume,
+      highConcentration: walletFingerprint.subgraphFlags.highConcentration,
+      freshFatBet: walletFingerprint.subgraphFlags.freshFatBet,
+      lowDiversification: walletFingerprint.subgraphFlags.lowDiversification,
+      highWinRate: walletFingerprint.subgraphFlags.highWinRate,
+      lowOddsWinner: walletFingerprint.subgraphFlags.lowOddsWinner,
+      impactRatio: impactThreshold > 0 ? impactPercentage / impactThreshold : 0,
+      marketSizeMultiplier,
+      dormancyMultiplier,
+      resolutionProximityBonus,
+      contrarianBonus,
+      walletDormancyBonus,
+      clusterBonus,
+      timingBonus,
+      catalystProximityBonus,
+      eventPatternBonus,
+      repeatOffenderBonus,
+    };
+
+    // ----------------------------------
+    // 5b. LEARNED MODEL (SCORER_MODE=model)
+    // Replaces the rule-based score with probability * 100 (every bonus
+    // and wallet flag above is a model feature)
+    // ----------------------------------
+    let modelResult: AlertScore['model'];
+    if (model !== null) {
+      const probability = predictProbability(model, features);
+      modelResult = {
+        version: model.version,
+        probability,
+        ruleScore: Math.round(adjustedScore),
+      };
+      adjustedScore = probability * 100;
+    }
+
     // ----------------------------------
     // 6. CLASSIFICATION
     // ----------------------------------
-    const classification = this.classify(adjustedScore);
+    const classification = this.classify(config, adjustedScore);
 
     // Track classification results
-    await this.incrementStat(`classification_${classification.toLowerCase()}`);
+    await recordStat(`classification_${classification.toLowerCase()}`);
 
     const score: AlertScore = {
       totalScore: Math.round(adjustedScore),
@@ -398,9 +831,14 @@ class AlertScorerService {
         walletContribution: Math.round(walletContribution),
         impactContribution: Math.round(impactContribution),
         resolutionProximityBonus,
+        catalystProximityBonus,
         contrarianBonus,
         walletDormancyBonus,
         clusterBonus,
+        eventPatternBonus,
+        timingBonus,
+        repeatOffenderBonus,
+        scoringTable,
       },
       multipliers: {
         marketSize: marketSizeMultiplier,
@@ -408,8 +846,14 @@ class AlertScorerService {
       },
       classification,
       filtersPassed: true,
+      previousMarketTradeTimestamp: previousTradeTimestamp,
+      features,
+      ...(modelResult !== undefined && { model: modelResult }),
     };
 
+    // Shadow runs skip the breakdown log
+    if (quiet) return score;
+
     // Log detailed scoring breakdown for visibility
     logger.info(
       {
@@ -436,13 +880,19 @@ class AlertScorerService {
           impactPercentage: impactPercentage.toFixed(2) + '%',
           impactContrib: Math.round(impactContribution), // 40% weight
           resolutionProximityBonus,
+          catalystProximityBonus,
           contrarianBonus,
           walletDormancyBonus,
           clusterBonus,
+          eventPatternBonus,
+          timingBonus,
+          repeatOffenderBonus,
+          scoringTable,
         },
         multipliers: score.multipliers,
+        ...(modelResult !== undefined && { model: modelResult }),
       },
-      '📊 Score breakdown (v6 - cluster detection)'
+      `📊 Score breakdown (${config.version} - cluster detection)`
     );
 
     return score;
@@ -452,55 +902,77 @@ class AlertScorerService {
    * Apply hard filters - returns IGNORE if any fail
    */
   private async applyHardFilters(
+    config: ScorerConfig,
     tradeUsdValue: number,
     openInterest: number,
-    walletScore: number
+    walletScore: number,
+    recordStat: (field: string) => void | Promise<void>,
+    recordFilter: (filter: FilterDecision) => void,
+    quiet: boolean
   ): Promise<{ passed: boolean; reason: string }> {
-    if (tradeUsdValue < this.MIN_TRADE_SIZE_USD) {
-      logger.info(
+    // Filter logs are info-level; shadow runs stay at debug
+    const level = quiet ? 'debug' : 'info';
+
+    if (tradeUsdValue < config.minTradeSizeUsd) {
+      logger[level](
         {
           tradeUsdValue: tradeUsdValue.toFixed(2),
-          minRequired: this.MIN_TRADE_SIZE_USD,
+          minRequired: config.minTradeSizeUsd,
           filterType: 'trade_size',
         },
         '🚫 Alert filtered: Trade size too small'
       );
-      await this.incrementStat('filtered_trade_size');
+      await recordStat('filtered_trade_size');
+      recordFilter({
+        reason: 'filtered_trade_size',
+        value: tradeUsdValue,
+        threshold: config.minTradeSizeUsd,
+      });
       return {
         passed: false,
-        reason: `Trade size $${tradeUsdValue.toFixed(0)} < $${this.MIN_TRADE_SIZE_USD} minimum`,
+        reason: `Trade size $${tradeUsdValue.toFixed(0)} < $${config.minTradeSizeUsd} minimum`,
       };
     }
 
-    if (openInterest < this.MIN_OI_USD) {
-      logger.info(
+    if (openInterest < config.minOiUsd) {
+      logger[level](
         {
           marketOI: openInterest.toFixed(2),
-          minRequired: this.MIN_OI_USD,
+          minRequired: config.minOiUsd,
           filterType: 'market_oi',
         },
         '🚫 Alert filtered: Market OI too low'
       );
-      await this.incrementStat('filtered_low_oi');
+      await recordStat('filtered_low_oi');
+      recordFilter({
+        reason: 'filtered_low_oi',
+        value: openInterest,
+        threshold: config.minOiUsd,
+      });
       return {
         passed: false,
-        reason: `Market OI $${openInterest.toFixed(0)} < $${this.MIN_OI_USD} minimum`,
+        reason: `Market OI $${openInterest.toFixed(0)} < $${config.minOiUsd} minimum`,
       };
     }
 
-    if (walletScore < this.MIN_WALLET_SCORE) {
-      logger.info(
+    if (walletScore < config.minWalletScore) {
+      logger[level](
         {
           walletScore: walletScore.toFixed(0),
-          minRequired: this.MIN_WALLET_SCORE,
+          minRequired: config.minWalletScore,
           filterType: 'wallet_score',
         },
         '🚫 Alert filtered: Wallet score too low'
       );
-      await this.incrementStat('filtered_wallet_score');
+      await recordStat('filtered_wallet_score');
+      recordFilter({
+        reason: 'filtered_wallet_score',
+        value: walletScore,
+        threshold: config.minWalletScore,
+      });
       return {
         passed: false,
-        reason: `Wallet score ${walletScore.toFixed(0)} < ${this.MIN_WALLET_SCORE} minimum`,
+        reason: `Wallet score ${walletScore.toFixed(0)} < ${config.minWalletScore} minimum`,
       };
     }
 
@@ -516,33 +988,38 @@ class AlertScorerService {
    *
    * Key insight: Insiders bet on ONE thing they know. Whales diversify.
    */
-  private calculateWalletScore(wallet: WalletFingerprint): number {
+  private calculateWalletScore(
+    config: ScorerConfig,
+    wallet: WalletFingerprint,
+    quiet: boolean
+  ): number {
     let score = 0;
     const flags = wallet.subgraphFlags;
+    const points = config.walletPoints;
 
     // ============================================
-    // GENERIC "NEW USER" FLAGS — capped at 10 total
+    // GENERIC "NEW USER" FLAGS — capped at 10 total (production)
     // These catch whales too, so they shouldn't dominate
     // ============================================
     let newUserPoints = 0;
 
     // Low trade count on Polymarket (4 points)
     if (flags.lowTradeCount) {
-      newUserPoints += 4;
+      newUserPoints += points.lowTradeCount;
     }
 
     // Young account on Polymarket (4 points)
     if (flags.youngAccount) {
-      newUserPoints += 4;
+      newUserPoints += points.youngAccount;
     }
 
     // Low volume trader (3 points)
     if (flags.lowVolume) {
-      newUserPoints += 3;
+      newUserPoints += points.lowVolume;
     }
 
     // Cap generic new-user flags — being new alone is not suspicious
-    score += Math.min(10, newUserPoints);
+    score += Math.min(points.newUserCap, newUserPoints);
 
     // ============================================
     // INCREASED WEIGHT - Strong insider signals
@@ -551,19 +1028,19 @@ class AlertScorerService {
     // High concentration in one market (15 points, was 12)
     // Insiders bet big on what they know
     if (flags.highConcentration) {
-      score += 15;
+      score += points.highConcentration;
     }
 
     // Fresh fat bet pattern (12 points, was 6)
     // New account making large bet = classic insider move
     if (flags.freshFatBet) {
-      score += 12;
+      score += points.freshFatBet;
     }
 
     // Low diversification - only trades 1-3 markets (12 points, NEW)
     // KEY DIFFERENTIATOR: Insiders bet on ONE thing, whales diversify
     if (flags.lowDiversification) {
-      score += 12;
+      score += points.lowDiversification;
     }
 
     // ============================================
@@ -572,13 +1049,12 @@ class AlertScorerService {
     // If fresh wallet BUT high diversification (10+ markets),
     // this looks like a whale exploring Polymarket, not an insider
     const marketsTraded = wallet.subgraphMetadata.marketsTraded ?? 0;
-    const whaleDiversificationMin = 10; // From thresholds
 
-    if (marketsTraded >= whaleDiversificationMin && flags.youngAccount) {
+    if (marketsTraded >= points.whaleMinMarkets && flags.youngAccount) {
       // Whale pattern: new to Polymarket but trading many markets
       const originalScore = score;
-      score = Math.floor(score * 0.5); // Halve the score
-      logger.info(
+      score = Math.floor(score * points.whaleMultiplier); // Halve the score (production)
+      logger[quiet ? 'debug' : 'info'](
         {
           wallet: wallet.address.slice(0, 10) + '...',
           marketsTraded,
@@ -589,6 +1065,22 @@ class AlertScorerService {
       );
     }
 
+    // ============================================
+    // TRACK RECORD - applied after the whale exemption
+    // A whale that keeps winning long shots is still suspicious
+    // ============================================
+
+    // High win rate on positions held to resolution (8 points)
+    if (flags.highWinRate) {
+      score += points.highWinRate;
+    }
+
+    // Keeps winning low-probability bets (15 points)
+    // STRONGEST TELL: repeatedly right where the market says unlikely
+    if (flags.lowOddsWinner) {
+      score += points.lowOddsWinner;
+    }
+
     return Math.min(50, score);
   }
 
@@ -597,6 +1089,7 @@ class AlertScorerService {
    * Different methods have different scoring curves
    */
   private calculateImpactScore(
+    config: ScorerConfig,
     impactPercentage: number,
     method: string,
     threshold: number
@@ -604,49 +1097,24 @@ class AlertScorerService {
     // Normalize impact relative to threshold (1x = at threshold, 2x = double threshold, etc)
     const impactRatio = impactPercentage / threshold;
 
-    if (method === 'liquidity') {
-      // Liquidity impact is most significant - aggressive scoring
-      if (impactRatio < 1.0) return 0; // Below threshold
-      if (impactRatio < 1.5) return 20; // 2-3% liquidity
-      if (impactRatio < 2.5) return 40; // 3-5% liquidity
-      if (impactRatio < 4.0) return 60; // 5-8% liquidity
-      if (impactRatio < 7.0) return 80; // 8-14% liquidity
-      return 95; // >14% liquidity
-    } else if (method === 'volume') {
-      // Volume impact is moderate - balanced scoring
-      if (impactRatio < 1.0) return 0; // Below threshold
-      if (impactRatio < 2.0) return 15; // 5-10% of 24h volume
-      if (impactRatio < 3.0) return 30; // 10-15% of 24h volume
-      if (impactRatio < 5.0) return 50; // 15-25% of 24h volume
-      if (impactRatio < 8.0) return 70; // 25-40% of 24h volume
-      return 90; // >40% of 24h volume
-    } else {
-      // OI impact (fallback) - conservative scoring
-      if (impactRatio < 1.0) return 0; // Below threshold
-      if (impactRatio < 4.0) return 10; // 0.5-2% OI
-      if (impactRatio < 10.0) return 25; // 2-5% OI
-      if (impactRatio < 20.0) return 45; // 5-10% OI
-      if (impactRatio < 40.0) return 70; // 10-20% OI
-      return 90; // >20% OI
-    }
-  }
+    // Liquidity is scored most aggressively, OI (fallback) most conservatively
+    const curve =
+      method === 'liquidity'
+        ? config.impactCurves.liquidity
+        : method === 'volume'
+          ? config.impactCurves.volume
+          : config.impactCurves.oi;
 
-  /**
-   * Get market size multiplier
-   */
-  private getMarketSizeMultiplier(openInterest: number): number {
-    if (openInterest < 25000) return 2.0;
-    if (openInterest < 50000) return 1.5;
-    return 1.0;
+    return lookupStep(curve, impactRatio);
   }
 
   /**
-   * Get dormancy multiplier based on hours since last trade
+   * Get the last trade timestamp we saw in a market from Redis
+   * Returns null when unknown, so the dormancy multiplier stays neutral
    */
-  private async getDormancyMultiplier(
-    marketId: string,
-    tradeTimestamp: number
-  ): Promise<number> {
+  private async getPreviousMarketTradeTimestamp(
+    marketId: string
+  ): Promise<number | null> {
     try {
       const lastTradeKey = `market:${marketId}:last_trade`;
       const lastTradeStr = await redis.get(lastTradeKey);
@@ -659,7 +1127,7 @@ class AlertScorerService {
           { marketId },
           'No prior trade record - using neutral multiplier (1.0x)'
         );
-        return 1.0;
+        return null;
       }
 
       const lastTradeTime = parseInt(lastTradeStr, 10);
@@ -668,26 +1136,37 @@ class AlertScorerService {
           { marketId, rawValue: lastTradeStr },
           'Invalid last trade timestamp in Redis — using neutral multiplier'
         );
-        return 1.0;
+        return null;
       }
-      const hoursSinceLastTrade =
-        (tradeTimestamp - lastTradeTime) / (1000 * 60 * 60);
-
-      if (hoursSinceLastTrade >= 8) return 2.0;
-      if (hoursSinceLastTrade >= 4) return 1.5;
-      return 1.0;
+      return lastTradeTime;
     } catch (error) {
       logger.warn({ error, marketId }, 'Failed to get dormancy multiplier');
-      return 1.0;
+      return null;
     }
   }
 
+  /**
+   * Get dormancy multiplier based on hours since the previous market trade
+   */
+  private getDormancyMultiplier(
+    config: ScorerConfig,
+    tradeTimestamp: number,
+    previousTradeTimestamp: number | null
+  ): number {
+    if (previousTradeTimestamp === null) return 1.0;
+    return lookupStep(
+      config.dormancyMultiplier,
+      (tradeTimestamp - previousTradeTimestamp) / (1000 * 60 * 60)
+    );
+  }
+
   /**
    * Get wallet dormancy bonus
    * A wallet that was inactive for weeks then suddenly makes a big bet is suspicious.
    * Uses lastTradeTimestamp from the Data API.
    */
   private getWalletDormancyBonus(
+    config: ScorerConfig,
     wallet: WalletFingerprint,
     tradeTimestamp: number
   ): number {
@@ -697,10 +1176,7 @@ class AlertScorerService {
     const daysSinceLastTrade =
       (tradeTimestamp - lastTrade) / (1000 * 60 * 60 * 24);
 
-    if (daysSinceLastTrade >= 30) return 15;
-    if (daysSinceLastTrade >= 14) return 10;
-    if (daysSinceLastTrade >= 7) return 5;
-    return 0;
+    return lookupStep(config.walletDormancyBonus, daysSinceLastTrade);
   }
 
   /**
@@ -712,6 +1188,7 @@ class AlertScorerService {
    *   - Buying NO at 0.85 means you're betting on 15% probability (contrarian)
    */
   private getContrarianBonus(
+    config: ScorerConfig,
     entryProbability: number,
     outcome: 'yes' | 'no'
   ): number {
@@ -719,23 +1196,29 @@ class AlertScorerService {
     const sidePrice =
       outcome === 'yes' ? entryProbability : 1 - entryProbability;
 
-    if (sidePrice < 0.2) return 20; // Heavy underdog bet — very suspicious
-    if (sidePrice < 0.35) return 10; // Contrarian bet
-    if (sidePrice > 0.65) return -5; // Going with the crowd — less suspicious
-    return 0; // Coin-flip territory — neutral
+    // Underdog bets earn a bonus, crowd-following bets a penalty,
+    // coin-flip territory is neutral
+    const bonus = lookupStep(config.contrarianBonus, sidePrice);
+    if (bonus !== 0) return bonus;
+    return lookupStep(config.crowdPenalty, sidePrice);
   }
 
   /**
-   * Get cluster bonus
-   * Multiple unique wallets piling into the same market+side in a short window
-   * suggests coordinated insider activity (e.g., one person using multiple wallets,
-   * or a group acting on the same non-public information).
+   * Get timing bonus
+   * Points for each active timing window (off-hours, weekend, pre-release),
+   * capped at timingBonus.max
    */
-  private getClusterBonus(clusterWalletCount: number): number {
-    if (clusterWalletCount >= 8) return 20;
-    if (clusterWalletCount >= 5) return 15;
-    if (clusterWalletCount >= 3) return 10;
-    return 0;
+  private getTimingBonus(
+    config: ScorerConfig,
+    timingWindows: TimingWindow[] | undefined
+  ): number {
+    if (timingWindows === undefined) return 0;
+
+    const points: Record<string, number> = config.timingBonus;
+    const total = timingWindows
+      .filter((window) => window.isActive)
+      .reduce((sum, window) => sum + (points[window.name] ?? 0), 0);
+    return Math.min(config.timingBonus.max, total);
   }
 
   /**
@@ -744,6 +1227,7 @@ class AlertScorerService {
    * This is an additive bonus on top of the weighted score.
    */
   private getResolutionProximityBonus(
+    config: ScorerConfig,
     marketEndDate: string | undefined,
     tradeTimestamp: number
   ): number {
@@ -757,36 +1241,88 @@ class AlertScorerService {
       // Already resolved or invalid
       if (hoursUntilResolution < 0) return 0;
 
-      if (hoursUntilResolution <= 24) return 25;
-      if (hoursUntilResolution <= 72) return 15;
-      if (hoursUntilResolution <= 168) return 8; // 7 days
-      return 0;
+      return lookupStep(config.resolutionProximityBonus, hoursUntilResolution);
     } catch {
       return 0;
     }
   }
 
+  /**
+   * Get catalyst proximity bonus
+   * Hours from the trade to the market's next scheduled event (earnings call,
+   * ruling, vote, game start). Additive like the resolution proximity bonus.
+   */
+  private getCatalystProximityBonus(
+    config: ScorerConfig,
+    nextCatalyst: MarketCatalyst | null | undefined,
+    tradeTimestamp: number
+  ): number {
+    if (nextCatalyst === undefined || nextCatalyst === null) return 0;
+
+    const hoursUntilCatalyst =
+      (new Date(nextCatalyst.scheduledAt).getTime() - tradeTimestamp) /
+      (1000 * 60 * 60);
+
+    // Already happened or invalid
+    if (!(hoursUntilCatalyst >= 0)) return 0;
+
+    return lookupStep(config.catalystProximityBonus, hoursUntilCatalyst);
+  }
+
+  /**
+   * Get event pattern bonus
+   * Keyed on how many other markets of the event the wallet bet NO on.
+   */
+  private getEventPatternBonus(
+    config: ScorerConfig,
+    eventPattern: EventPattern | null | undefined
+  ): number {
+    if (eventPattern === undefined || eventPattern === null) return 0;
+    return lookupStep(config.eventPatternBonus, eventPattern.noLegs);
+  }
+
+  /**
+   * Get repeat-offender bonus
+   * Points for each of the wallet's earlier alerts by classification, plus
+   * or minus for those that resolved, kept within 0 and repeatOffenderBonus.max
+   */
+  private getRepeatOffenderBonus(
+    config: ScorerConfig,
+    walletHistory: WalletAlertHistory | null | undefined
+  ): number {
+    if (walletHistory === undefined || walletHistory === null) return 0;
+
+    const points = config.repeatOffenderBonus;
+    const total =
+      walletHistory.strongInsider * points.strongInsider +
+      walletHistory.highConfidence * points.highConfidence +
+      walletHistory.mediumConfidence * points.mediumConfidence +
+      walletHistory.won * points.won +
+      walletHistory.lost * points.lost;
+    return Math.max(0, Math.min(points.max, total));
+  }
+
   /**
    * Classify final score
-   * Max possible: 60 (wallet) + 40 (impact) + 25 (resolution) + 20 (contrarian) + 15 (dormancy) + 20 (cluster) = 180, capped at 100
+   * Max possible: 60 (wallet) + 40 (impact) + 25 (resolution) + 15 (catalyst) + 20 (contrarian) + 15 (dormancy) + 20 (cluster) + 20 (event pattern) + 15 (timing) + 20 (repeat offender) = 250, capped at 100
    * Thresholds now configurable via ALERT_THRESHOLD and LOG_THRESHOLD env vars
    */
-  private classify(score: number): AlertClassification {
+  private classify(config: ScorerConfig, score: number): AlertClassification {
     // Use configurable thresholds with tiered classification
-    const strongThreshold = this.ALERT_THRESHOLD + 30; // e.g., 80 if ALERT_THRESHOLD=50
-    const highThreshold = this.ALERT_THRESHOLD + 15; // e.g., 65 if ALERT_THRESHOLD=50
+    const strongThreshold = config.alertThreshold + config.strongInsiderOffset; // e.g., 80 if ALERT_THRESHOLD=50
+    const highThreshold = config.alertThreshold + config.highConfidenceOffset; // e.g., 65 if ALERT_THRESHOLD=50
 
     if (score >= strongThreshold) return 'ALERT_STRONG_INSIDER';
     if (score >= highThreshold) return 'ALERT_HIGH_CONFIDENCE';
-    if (score >= this.ALERT_THRESHOLD) return 'ALERT_MEDIUM_CONFIDENCE';
-    if (score >= this.LOG_THRESHOLD) return 'LOG_ONLY';
+    if (score >= config.alertThreshold) return 'ALERT_MEDIUM_CONFIDENCE';
+    if (score >= config.logThreshold) return 'LOG_ONLY';
     return 'IGNORE';
   }
 
   /**
    * Create an IGNORE result with reason
    */
-  private createIgnoreResult(reason: string): AlertScore {
+  private createIgnoreResult(reason: string, scoringTable: string): AlertScore {
     return {
       totalScore: 0,
       breakdown: {
@@ -797,9 +1333,14 @@ class AlertScorerService {
         walletContribution: 0,
         impactContribution: 0,
         resolutionProximityBonus: 0,
+        catalystProximityBonus: 0,
         contrarianBonus: 0,
         walletDormancyBonus: 0,
         clusterBonus: 0,
+        eventPatternBonus: 0,
+        timingBonus: 0,
+        repeatOffenderBonus: 0,
+        scoringTable,
       },
       multipliers: {
         marketSize: 1.0,
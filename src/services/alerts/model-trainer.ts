@@ -0,0 +1,156 @@
+import { writeFile } from 'node:fs/promises';
+
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import {
+  parseScoreFeatures,
+  trainLogisticModel,
+  type ScoringModel,
+  type TrainingSample,
+} from './scoring-model.js';
+
+export interface ModelTrainingOptions {
+  version: string;
+  from?: Date; // Alert timestamp window
+  to?: Date;
+  positiveLabels?: string[]; // Labels counted as informed trading (default: true_insider)
+  validationFraction?: number; // Most recent share of samples held out (default: 0.2)
+  l2?: number;
+  iterations?: number;
+  learningRate?: number;
+}
+
+export interface ModelTrainingResult {
+  model: ScoringModel;
+  labeledAlerts: number;
+  skippedNoFeatures: number; // Labeled alerts created before features were stored
+  labelCounts: Record<string, number>;
+}
+
+// Below this many samples the fit is mostly noise
+const MIN_TRAINING_SAMPLES = 20;
+
+/**
+ * Model trainer
+ * Fits the logistic scoring model on alerts with analyst labels,
+ * using each alert's effective (latest) label and its stored feature vector.
+ */
+class ModelTrainerService {
+  private static instance: ModelTrainerService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ModelTrainerService {
+    if (ModelTrainerService.instance === null) {
+      ModelTrainerService.instance = new ModelTrainerService();
+    }
+    return ModelTrainerService.instance;
+  }
+
+  /**
+   * Train a model on labeled alerts
+   */
+  public async train(
+    options: ModelTrainingOptions
+  ): Promise<ModelTrainingResult> {
+    const positiveLabels = options.positiveLabels ?? ['true_insider'];
+    const prisma = db.getClient();
+
+    const alerts = await prisma.alert.findMany({
+      where: {
+        labels: { some: {} },
+        ...((options.from !== undefined || options.to !== undefined) && {
+          timestamp: {
+            ...(options.from !== undefined && { gte: options.from }),
+            ...(options.to !== undefined && { lte: options.to }),
+          },
+        }),
+      },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        scoreFeatures: true,
+        labels: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { label: true },
+        },
+      },
+    });
+
+    const samples: TrainingSample[] = [];
+    const labelCounts: Record<string, number> = {};
+    let skippedNoFeatures = 0;
+
+    for (const alert of alerts) {
+      const label = alert.labels[0]?.label;
+      const features = parseScoreFeatures(alert.scoreFeatures);
+      if (label === undefined || features === null) {
+        skippedNoFeatures++;
+        continue;
+      }
+      labelCounts[label] = (labelCounts[label] ?? 0) + 1;
+      samples.push({ features, positive: positiveLabels.includes(label) });
+    }
+
+    if (samples.length < MIN_TRAINING_SAMPLES) {
+      throw new Error(
+        `Only ${samples.length} labeled alerts with stored features - need at least ${MIN_TRAINING_SAMPLES}`
+      );
+    }
+
+    // Hold out the most recent alerts so validation reflects future performance
+    const validationFraction = options.validationFraction ?? 0.2;
+    const splitAt = Math.floor(samples.length * (1 - validationFraction));
+    const trainSet = samples.slice(0, splitAt);
+    const validationSet = samples.slice(splitAt);
+
+    const model = trainLogisticModel(trainSet, {
+      version: options.version,
+      positiveLabels,
+      validation: validationSet,
+      ...(options.l2 !== undefined && { l2: options.l2 }),
+      ...(options.iterations !== undefined && {
+        iterations: options.iterations,
+      }),
+      ...(options.learningRate !== undefined && {
+        learningRate: options.learningRate,
+      }),
+      ...(options.from !== undefined && { from: options.from }),
+      ...(options.to !== undefined && { to: options.to }),
+    });
+
+    logger.info(
+      {
+        version: model.version,
+        trainSamples: trainSet.length,
+        validationSamples: validationSet.length,
+        skippedNoFeatures,
+        trainLogLoss: model.training.train.logLoss,
+        validationLogLoss: model.training.validation?.logLoss ?? null,
+      },
+      '🤖 Scoring model trained'
+    );
+
+    return {
+      model,
+      labeledAlerts: alerts.length,
+      skippedNoFeatures,
+      labelCounts,
+    };
+  }
+
+  /**
+   * Write a model to its weights file
+   */
+  public async writeModel(model: ScoringModel, path: string): Promise<void> {
+    await writeFile(path, JSON.stringify(model, null, 2) + '\n');
+  }
+}
+
+// Export singleton instance
+export const modelTrainer = ModelTrainerService.getInstance();
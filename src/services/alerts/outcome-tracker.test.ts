@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateRealizedOutcome } from './outcome-tracker.js';
+
+const YES_WON = { yes: 1, no: 0 };
+const NO_WON = { yes: 0, no: 1 };
+
+describe('calculateRealizedOutcome', () => {
+  it('pays out a BUY on the winning outcome', () => {
+    const result = calculateRealizedOutcome(
+      'BUY',
+      'yes',
+      100,
+      0.2,
+      'yes',
+      YES_WON
+    );
+    expect(result.outcome).toBe('won');
+    expect(result.resolutionPrice).toBe(1);
+    expect(result.realizedPnl).toBeCloseTo(80);
+    expect(result.realizedReturn).toBeCloseTo(4);
+  });
+
+  it('loses the stake on a BUY of the losing outcome', () => {
+    const result = calculateRealizedOutcome(
+      'BUY',
+      'no',
+      100,
+      0.3,
+      'yes',
+      YES_WON
+    );
+    expect(result.outcome).toBe('lost');
+    expect(result.realizedPnl).toBeCloseTo(-30);
+    expect(result.realizedReturn).toBeCloseTo(-1);
+  });
+
+  it('measures a SELL against the capital at risk', () => {
+    const won = calculateRealizedOutcome('SELL', 'yes', 100, 0.6, 'no', NO_WON);
+    expect(won.outcome).toBe('won');
+    expect(won.realizedPnl).toBeCloseTo(60);
+    expect(won.realizedReturn).toBeCloseTo(1.5);
+
+    const lost = calculateRealizedOutcome(
+      'SELL',
+      'yes',
+      100,
+      0.6,
+      'yes',
+      YES_WON
+    );
+    expect(lost.outcome).toBe('lost');
+    expect(lost.realizedPnl).toBeCloseTo(-40);
+    expect(lost.realizedReturn).toBeCloseTo(-1);
+  });
+
+  it('settles void markets at the split price', () => {
+    const result = calculateRealizedOutcome('BUY', 'yes', 100, 0.4, 'void', {
+      yes: 0.5,
+      no: 0.5,
+    });
+    expect(result.outcome).toBe('void');
+    expect(result.resolutionPrice).toBe(0.5);
+    expect(result.realizedPnl).toBeCloseTo(10);
+  });
+
+  it('reports no return when nothing was at risk', () => {
+    const result = calculateRealizedOutcome(
+      'BUY',
+      'yes',
+      0,
+      0.4,
+      'yes',
+      YES_WON
+    );
+    expect(result.realizedReturn).toBe(0);
+  });
+});
@@ -0,0 +1,319 @@
+import axios from 'axios';
+
+import { db } from '../database/prisma.js';
+import { marketService } from '../polymarket/market-service.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat } from '../../utils/decimals.js';
+
+/**
+ * Resolved market outcome
+ * 'void' covers markets that settled 50/50 or were otherwise cancelled
+ */
+export type MarketResolution = 'yes' | 'no' | 'void';
+
+/**
+ * Alert outcome once its market has resolved
+ */
+export type AlertOutcome = 'won' | 'lost' | 'void';
+
+interface GammaResolutionResponse {
+  id: string;
+  closed: boolean;
+  outcomes?: string; // JSON string, e.g. '["Yes","No"]'
+  outcomePrices?: string; // JSON string, e.g. '["1","0"]'
+  umaResolutionStatus?: string;
+}
+
+/**
+ * Realized result of a single alerted trade
+ */
+export interface RealizedOutcome {
+  outcome: AlertOutcome;
+  resolutionPrice: number; // Settlement price of the traded outcome token
+  realizedPnl: number; // USD
+  realizedReturn: number; // Pnl relative to capital at risk
+}
+
+// Settlement prices at or above this count as a winning outcome
+const WINNING_PRICE = 0.99;
+
+/**
+ * Compute the realized payout of an alerted trade versus its entry price.
+ *
+ * BUY: paid `price` per share, receives the settlement price.
+ * SELL: received `price` per share, gives up the settlement price
+ * (capital at risk is 1 - price per share).
+ */
+export function calculateRealizedOutcome(
+  tradeSide: 'BUY' | 'SELL',
+  tradeOutcome: 'yes' | 'no',
+  shares: number,
+  entryPrice: number,
+  resolution: MarketResolution,
+  settlementPrices: { yes: number; no: number }
+): RealizedOutcome {
+  const resolutionPrice = settlementPrices[tradeOutcome];
+  const perShare =
+    tradeSide === 'BUY'
+      ? resolutionPrice - entryPrice
+      : entryPrice - resolutionPrice;
+  const capitalAtRisk =
+    tradeSide === 'BUY' ? shares * entryPrice : shares * (1 - entryPrice);
+  const realizedPnl = shares * perShare;
+
+  let outcome: AlertOutcome = 'void';
+  if (resolution !== 'void') {
+    const tradedOutcomeWon = resolution === tradeOutcome;
+    outcome = tradedOutcomeWon === (tradeSide === 'BUY') ? 'won' : 'lost';
+  }
+
+  return {
+    outcome,
+    resolutionPrice,
+    realizedPnl,
+    realizedReturn: capitalAtRisk > 0 ? realizedPnl / capitalAtRisk : 0,
+  };
+}
+
+/**
+ * Outcome tracker
+ * Polls Gamma for closed markets, records the resolved outcome on the market
+ * and marks each linked alert won/lost with its realized payout.
+ */
+class OutcomeTrackerService {
+  private static instance: OutcomeTrackerService | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  private readonly CHECK_INTERVAL_MINUTES: number;
+
+  private constructor() {
+    this.CHECK_INTERVAL_MINUTES =
+      Number(process.env['OUTCOME_CHECK_INTERVAL_MINUTES']) || 60;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): OutcomeTrackerService {
+    if (OutcomeTrackerService.instance === null) {
+      OutcomeTrackerService.instance = new OutcomeTrackerService();
+    }
+    return OutcomeTrackerService.instance;
+  }
+
+  /**
+   * Start the periodic resolution check
+   */
+  public start(): void {
+    if (this.checkInterval !== null) {
+      logger.warn('Outcome tracker already running');
+      return;
+    }
+
+    void this.checkResolutions();
+
+    this.checkInterval = setInterval(
+      () => {
+        void this.checkResolutions();
+      },
+      this.CHECK_INTERVAL_MINUTES * 60 * 1000
+    );
+
+    logger.info(
+      { intervalMinutes: this.CHECK_INTERVAL_MINUTES },
+      'Outcome tracker started'
+    );
+  }
+
+  /**
+   * Stop the periodic resolution check
+   */
+  public stop(): void {
+    if (this.checkInterval !== null) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      logger.info('Outcome tracker stopped');
+    }
+  }
+
+  /**
+   * Check unresolved markets (monitored or with alerts) for resolution
+   */
+  public async checkResolutions(): Promise<{
+    checked: number;
+    resolved: number;
+    alertsUpdated: number;
+  }> {
+    if (this.isChecking) {
+      logger.debug('Outcome check already in progress - skipping');
+      return { checked: 0, resolved: 0, alertsUpdated: 0 };
+    }
+
+    this.isChecking = true;
+    let checked = 0;
+    let resolved = 0;
+    let alertsUpdated = 0;
+
+    try {
+      const prisma = db.getClient();
+      const markets = await prisma.market.findMany({
+        where: {
+          resolvedOutcome: null,
+          OR: [{ enabled: true }, { alerts: { some: {} } }],
+        },
+        select: { id: true },
+      });
+
+      for (const market of markets) {
+        checked++;
+        try {
+          const resolution = await this.fetchResolution(market.id);
+          if (resolution !== null) {
+            alertsUpdated += await this.resolveMarket(
+              market.id,
+              resolution.outcome,
+              resolution.settlementPrices
+            );
+            resolved++;
+          }
+        } catch (error) {
+          logger.warn(
+            {
+              error: error instanceof Error ? error.message : String(error),
+              marketId: market.id,
+            },
+            'Failed to check market resolution'
+          );
+        }
+
+        // Small delay to avoid rate limiting
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+
+      logger.info(
+        { checked, resolved, alertsUpdated },
+        'Outcome check complete'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Outcome check failed');
+    } finally {
+      this.isChecking = false;
+    }
+
+    return { checked, resolved, alertsUpdated };
+  }
+
+  /**
+   * Record a market resolution and settle its alerts
+   * Returns the number of alerts updated
+   */
+  public async resolveMarket(
+    marketId: string,
+    resolution: MarketResolution,
+    settlementPrices: { yes: number; no: number }
+  ): Promise<number> {
+    const prisma = db.getClient();
+    const resolvedAt = new Date();
+
+    const alerts = await prisma.alert.findMany({
+      where: { marketId },
+      select: {
+        id: true,
+        tradeSide: true,
+        tradeSize: true,
+        tradePrice: true,
+        trade: { select: { outcome: true } },
+      },
+    });
+
+    await db.executeTransaction(async (tx) => {
+      await tx.market.update({
+        where: { id: marketId },
+        data: {
+          resolvedOutcome: resolution,
+          resolvedAt,
+          closed: true,
+          active: false,
+        },
+      });
+
+      for (const alert of alerts) {
+        const realized = calculateRealizedOutcome(
+          alert.tradeSide === 'SELL' ? 'SELL' : 'BUY',
+          alert.trade.outcome === 'no' ? 'no' : 'yes',
+          safeParseFloat(alert.tradeSize),
+          safeParseFloat(alert.tradePrice),
+          resolution,
+          settlementPrices
+        );
+
+        await tx.alert.update({
+          where: { id: alert.id },
+          data: { ...realized, resolvedAt },
+        });
+      }
+    });
+
+    // Closed markets no longer produce trades worth monitoring
+    if (marketService.getMarket(marketId) !== undefined) {
+      await marketService.removeMarket(marketId);
+    }
+
+    logger.info(
+      { marketId, resolution, alertsSettled: alerts.length },
+      '🏁 Market resolved - alert outcomes recorded'
+    );
+
+    return alerts.length;
+  }
+
+  /**
+   * Fetch a market's resolution from Gamma
+   * Returns null while the market is still open or awaiting settlement
+   */
+  private async fetchResolution(marketId: string): Promise<{
+    outcome: MarketResolution;
+    settlementPrices: { yes: number; no: number };
+  } | null> {
+    const response = await axios.get<GammaResolutionResponse>(
+      `https://gamma-api.polymarket.com/markets/${marketId}`,
+      {
+        headers: { 'User-Agent': 'PolymarketInsiderBot/1.0' },
+        timeout: 10000,
+      }
+    );
+
+    const market = response.data;
+    if (!market.closed || market.outcomePrices === undefined) {
+      return null;
+    }
+
+    // Outcome order matches clobTokenIdYes / clobTokenIdNo
+    const prices = (JSON.parse(market.outcomePrices) as string[]).map((p) =>
+      safeParseFloat(p)
+    );
+    const yes = prices[0];
+    const no = prices[1];
+    if (yes === undefined || no === undefined) {
+      return null;
+    }
+
+    if (yes >= WINNING_PRICE) {
+      return { outcome: 'yes', settlementPrices: { yes: 1, no: 0 } };
+    }
+    if (no >= WINNING_PRICE) {
+      return { outcome: 'no', settlementPrices: { yes: 0, no: 1 } };
+    }
+
+    // Closed without a winner: only treat as settled once UMA says so
+    if (market.umaResolutionStatus === 'resolved') {
+      return { outcome: 'void', settlementPrices: { yes, no } };
+    }
+
+    return null;
+  }
+}
+
+// Export singleton instance
+export const outcomeTracker = OutcomeTrackerService.getInstance();
@@ -0,0 +1,668 @@
+import { db } from '../database/prisma.js';
+import { thresholdManager } from '../config/threshold-manager.js';
+import { signalDetector } from '../signals/signal-detector.js';
+import { timingAnalyzer } from '../signals/timing-analyzer.js';
+import {
+  aggregateFills,
+  buildAggregateTrade,
+} from '../signals/position-accumulator.js';
+import { buildEventPatternTrade } from '../signals/event-pattern-detector.js';
+import { asWalletTrade } from '../signals/wallet-watchlist.js';
+import { marketEventService } from '../polymarket/market-event-service.js';
+import { walletAlertHistory } from './wallet-alert-history.js';
+import {
+  walletForensicsService,
+  type WalletFingerprint,
+} from '../blockchain/wallet-forensics.js';
+import type { LiquidityData, VolumeData } from '../analysis/oi-calculator.js';
+import {
+  alertScorer,
+  SCORER_VERSION,
+  type AlertClassification,
+  type AlertScore,
+} from './alert-scorer.js';
+import {
+  parseScoreSnapshot,
+  snapshotToScoreInput,
+  type ScoreSnapshot,
+} from './score-snapshot.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat } from '../../utils/decimals.js';
+import type { PolymarketTrade } from '../../types/index.js';
+
+// Same window the live pipeline uses for cluster detection
+const CLUSTER_WINDOW_MS = 2 * 60 * 60 * 1000;
+
+// Upper bound on alerts rescored by one bulk request
+export const MAX_BULK_RESCORE = 500;
+
+/**
+ * Score as recorded on the alert
+ */
+export interface OriginalScore {
+  scorerVersion: string | null;
+  totalScore: number;
+  classification: string;
+  breakdown: AlertScore['breakdown'] | null; // Only known from the snapshot
+  multipliers: AlertScore['multipliers'] | null;
+}
+
+/**
+ * Score under the current thresholds and scorer
+ */
+export interface CurrentScore {
+  scorerVersion: string;
+  signalDetected: boolean; // false = dropped by signalDetector.analyzeTrade
+  totalScore: number;
+  classification: AlertClassification;
+  filterReason: string | null;
+  breakdown: AlertScore['breakdown'];
+  multipliers: AlertScore['multipliers'];
+}
+
+export interface ScoreChange {
+  field: string;
+  original: number | string;
+  current: number | string;
+}
+
+/**
+ * Side-by-side result of rescoring one trade
+ */
+export interface RescoreResult {
+  tradeId: string;
+  alertId: string | null;
+  marketId: string;
+  walletAddress: string;
+  timestamp: string;
+  // snapshot = point-in-time inputs stored on the alert; live = current lookups
+  inputSource: 'snapshot' | 'live';
+  original: OriginalScore | null; // null for trades that never alerted
+  current: CurrentScore;
+  scoreDelta: number | null;
+  classificationChanged: boolean;
+  wouldAlert: boolean;
+  changes: ScoreChange[]; // Breakdown and multiplier fields that moved
+}
+
+/**
+ * Classification shift across a batch of rescored alerts
+ */
+export interface BulkRescoreSummary {
+  generatedAt: string;
+  range: { from: string; to: string };
+  alerts: number;
+  rescored: number;
+  failed: Array<{ alertId: string; error: string }>;
+  truncated: boolean; // More alerts in range than MAX_BULK_RESCORE
+  stillAlerting: number;
+  noLongerAlerting: number;
+  classificationChanged: number;
+  meanScoreDelta: number | null;
+  // shifts[originalClassification][currentClassification] = alerts
+  shifts: Record<string, Record<string, number>>;
+  changed: Array<{
+    alertId: string;
+    tradeId: string;
+    originalScore: number;
+    originalClassification: string;
+    currentScore: number;
+    currentClassification: AlertClassification;
+  }>;
+}
+
+interface AlertRow {
+  id: string;
+  tradeId: string;
+  walletAddress: string;
+  confidenceScore: number;
+  classification: string;
+  scorerVersion: string | null;
+  scoreSnapshot: unknown;
+}
+
+const ALERT_SELECT = {
+  id: true,
+  tradeId: true,
+  walletAddress: true,
+  confidenceScore: true,
+  classification: true,
+  scorerVersion: true,
+  scoreSnapshot: true,
+} as const;
+
+/**
+ * Rescore service
+ * Re-runs signal detection, wallet flagging and scoring for stored trades
+ * under the current settings. Never notifies, persists alerts or touches
+ * live stats counters.
+ */
+class RescoreService {
+  private static instance: RescoreService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RescoreService {
+    if (RescoreService.instance === null) {
+      RescoreService.instance = new RescoreService();
+    }
+    return RescoreService.instance;
+  }
+
+  /**
+   * Rescore an alert
+   * Returns null if the alert doesn't exist
+   */
+  public async rescoreAlert(alertId: string): Promise<RescoreResult | null> {
+    const alert = await db.getClient().alert.findUnique({
+      where: { id: alertId },
+      select: ALERT_SELECT,
+    });
+    if (alert === null) return null;
+    return this.rescore(alert.tradeId, alert);
+  }
+
+  /**
+   * Rescore a stored trade (compared with its alert, if it has one)
+   * Returns null if the trade doesn't exist
+   */
+  public async rescoreTrade(tradeId: string): Promise<RescoreResult | null> {
+    const alert = await db.getClient().alert.findFirst({
+      where: { tradeId },
+      orderBy: { createdAt: 'desc' },
+      select: ALERT_SELECT,
+    });
+    return this.rescore(tradeId, alert);
+  }
+
+  /**
+   * Rescore every alert in a date range and summarize classification shifts
+   */
+  public async rescoreRange(
+    from: Date,
+    to: Date,
+    limit: number = MAX_BULK_RESCORE
+  ): Promise<BulkRescoreSummary> {
+    const take = Math.min(limit, MAX_BULK_RESCORE);
+    const alerts = await db.getClient().alert.findMany({
+      where: { timestamp: { gte: from, lte: to } },
+      orderBy: { timestamp: 'asc' },
+      take: take + 1,
+      select: ALERT_SELECT,
+    });
+    const truncated = alerts.length > take;
+    const batch = alerts.slice(0, take);
+
+    const summary: BulkRescoreSummary = {
+      generatedAt: new Date().toISOString(),
+      range: { from: from.toISOString(), to: to.toISOString() },
+      alerts: batch.length,
+      rescored: 0,
+      failed: [],
+      truncated,
+      stillAlerting: 0,
+      noLongerAlerting: 0,
+      classificationChanged: 0,
+      meanScoreDelta: null,
+      shifts: {},
+      changed: [],
+    };
+    let scoreDeltaSum = 0;
+
+    for (const alert of batch) {
+      let result: RescoreResult | null;
+      try {
+        result = await this.rescore(alert.tradeId, alert);
+      } catch (error) {
+        summary.failed.push({
+          alertId: alert.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+      if (result === null) {
+        summary.failed.push({ alertId: alert.id, error: 'Trade not found' });
+        continue;
+      }
+
+      summary.rescored++;
+      scoreDeltaSum += result.scoreDelta ?? 0;
+      if (result.wouldAlert) summary.stillAlerting++;
+      else summary.noLongerAlerting++;
+
+      const row = (summary.shifts[alert.classification] ??= {});
+      row[result.current.classification] =
+        (row[result.current.classification] ?? 0) + 1;
+
+      if (result.classificationChanged) {
+        summary.classificationChanged++;
+        summary.changed.push({
+          alertId: alert.id,
+          tradeId: alert.tradeId,
+          originalScore: alert.confidenceScore,
+          originalClassification: alert.classification,
+          currentScore: result.current.totalScore,
+          currentClassification: result.current.classification,
+        });
+      }
+    }
+
+    if (summary.rescored > 0) {
+      summary.meanScoreDelta = scoreDeltaSum / summary.rescored;
+    }
+
+    logger.info(
+      {
+        from: summary.range.from,
+        to: summary.range.to,
+        rescored: summary.rescored,
+        failed: summary.failed.length,
+        classificationChanged: summary.classificationChanged,
+        noLongerAlerting: summary.noLongerAlerting,
+      },
+      '🔁 Bulk rescore complete'
+    );
+
+    return summary;
+  }
+
+  /**
+   * Rescore one trade, using the alert's snapshot when there is one
+   */
+  private async rescore(
+    tradeId: string,
+    alert: AlertRow | null
+  ): Promise<RescoreResult | null> {
+    const prisma = db.getClient();
+    const row = await prisma.trade.findUnique({
+      where: { id: tradeId },
+      include: {
+        market: {
+          select: {
+            openInterest: true,
+            volume: true,
+            endDate: true,
+            category: true,
+          },
+        },
+      },
+    });
+    if (row === null) return null;
+
+    const storedFill: PolymarketTrade = {
+      id: row.id,
+      marketId: row.marketId,
+      side: row.side as 'buy' | 'sell',
+      size: row.size.toString(),
+      price: row.price.toString(),
+      timestamp: row.timestamp.getTime(),
+      maker: row.maker,
+      taker: row.taker,
+      outcome: row.outcome as 'yes' | 'no',
+      source: 'subgraph',
+    };
+
+    const snapshot =
+      alert !== null ? parseScoreSnapshot(alert.scoreSnapshot) : null;
+    const snapshotInput =
+      snapshot !== null ? snapshotToScoreInput(snapshot) : null;
+
+    // A watched maker's fill was judged from the maker's side, past the
+    // size gates
+    const detection = snapshot?.detection;
+    const fill =
+      detection !== undefined
+        ? asWalletTrade(storedFill, detection.role)
+        : storedFill;
+
+    // Event patterns are rescored as the stored position on the pick (on
+    // the alert's own trade - snapshots before pickTradeId lack it);
+    // accumulated positions as the net of their fills
+    const eventPattern = snapshotInput?.eventPattern;
+    const componentTradeIds = snapshot?.input.tradeSignal.componentTradeIds;
+    const trade =
+      eventPattern !== undefined && eventPattern !== null
+        ? buildEventPatternTrade(fill, {
+            ...eventPattern,
+            pickTradeId: fill.id,
+          })
+        : componentTradeIds !== undefined
+          ? await this.rebuildAccumulatedTrade(fill, componentTradeIds)
+          : fill;
+    const thresholds = thresholdManager.getThresholdsForMarket(trade.marketId);
+    const noStat = (): void => undefined;
+
+    // ----------------------------------
+    // 1. SIGNAL DETECTION
+    // The snapshot pins market OI and the liquidity/volume the impact was
+    // measured against; without one, current market data is fetched.
+    // ----------------------------------
+    const filterStats: string[] = [];
+    const detected = await signalDetector.analyzeTrade(trade, {
+      thresholds,
+      ...(detection?.bypassSizeGates === true && { bypassSizeGates: true }),
+      recordStat: (field: string): void => {
+        if (field.startsWith('filtered_')) filterStats.push(field);
+      },
+      ...(snapshot !== null && {
+        marketData: {
+          openInterest: snapshot.input.tradeSignal.openInterest,
+          volume: row.market.volume.toString(),
+        },
+        ...this.impactDataFromSnapshot(snapshot),
+      }),
+    });
+    const signal =
+      detected !== null && componentTradeIds !== undefined
+        ? { ...detected, componentTradeIds }
+        : detected;
+
+    let score: AlertScore | null = null;
+    if (signal !== null) {
+      // ----------------------------------
+      // 2. WALLET FORENSICS
+      // ----------------------------------
+      const walletAddress = alert?.walletAddress ?? trade.taker;
+      const tradeContext = {
+        tradeSizeUSD: signal.tradeUsdValue,
+        marketOI: parseFloat(signal.openInterest),
+      };
+      const walletFingerprint: WalletFingerprint =
+        snapshotInput !== null
+          ? walletForensicsService.reflagFingerprint(
+              snapshotInput.walletFingerprint,
+              tradeContext,
+              thresholds
+            )
+          : await walletForensicsService.analyzeWallet(
+              walletAddress,
+              tradeContext
+            );
+
+      // ----------------------------------
+      // 3. SCORE
+      // ----------------------------------
+      score = await alertScorer.calculateScore(
+        {
+          tradeSignal: signal,
+          walletFingerprint,
+          entryProbability: safeParseFloat(trade.price),
+          marketEndDate:
+            snapshotInput !== null
+              ? snapshotInput.marketEndDate
+              : row.market.endDate?.toISOString(),
+          marketCategory:
+            snapshotInput !== null
+              ? (snapshotInput.marketCategory ?? undefined)
+              : (row.market.category ?? undefined),
+          nextCatalyst:
+            snapshotInput?.nextCatalyst !== undefined
+              ? snapshotInput.nextCatalyst
+              : await marketEventService.getNextEvent(
+                  trade.marketId,
+                  trade.timestamp
+                ),
+          timingWindows:
+            snapshotInput?.timingWindows ??
+            timingAnalyzer.evaluate(
+              trade.timestamp,
+              trade.marketId,
+              row.market.category ?? undefined
+            ),
+          ...(eventPattern !== undefined && { eventPattern }),
+          walletHistory:
+            snapshotInput?.walletHistory !== undefined
+              ? snapshotInput.walletHistory
+              : await walletAlertHistory.getHistory(
+                  walletAddress,
+                  trade.timestamp
+                ),
+          clusterWalletCount:
+            snapshotInput?.clusterWalletCount ??
+            (await this.getClusterWalletCount(trade, walletAddress)),
+          previousMarketTradeTimestamp:
+            snapshotInput !== null
+              ? (snapshotInput.previousMarketTradeTimestamp ?? null)
+              : await this.getPreviousMarketTradeTimestamp(trade),
+        },
+        { recordStat: noStat }
+      );
+    }
+
+    const current: CurrentScore =
+      score !== null
+        ? {
+            scorerVersion: SCORER_VERSION,
+            signalDetected: true,
+            totalScore: score.totalScore,
+            classification: score.classification,
+            filterReason: score.filterReason ?? null,
+            breakdown: score.breakdown,
+            multipliers: score.multipliers,
+          }
+        : {
+            scorerVersion: SCORER_VERSION,
+            signalDetected: false,
+            totalScore: 0,
+            classification: 'IGNORE',
+            filterReason: `Signal detection: ${filterStats[0] ?? 'filtered'}`,
+            breakdown: {
+              walletScore: 0,
+              impactScore: 0,
+              impactMethod: 'unknown',
+              impactPercentage: 0,
+              walletContribution: 0,
+              impactContribution: 0,
+              resolutionProximityBonus: 0,
+              catalystProximityBonus: 0,
+              contrarianBonus: 0,
+              walletDormancyBonus: 0,
+              clusterBonus: 0,
+              eventPatternBonus: 0,
+              timingBonus: 0,
+              repeatOffenderBonus: 0,
+              scoringTable: 'default',
+            },
+            multipliers: { marketSize: 1.0, dormancy: 1.0 },
+          };
+
+    const original: OriginalScore | null =
+      alert !== null
+        ? {
+            scorerVersion: alert.scorerVersion,
+            totalScore: alert.confidenceScore,
+            classification: alert.classification,
+            breakdown: snapshot?.score.breakdown ?? null,
+            multipliers: snapshot?.score.multipliers ?? null,
+          }
+        : null;
+
+    return {
+      tradeId,
+      alertId: alert?.id ?? null,
+      marketId: trade.marketId,
+      walletAddress: alert?.walletAddress ?? trade.taker,
+      timestamp: row.timestamp.toISOString(),
+      inputSource: snapshot !== null ? 'snapshot' : 'live',
+      original,
+      current,
+      scoreDelta:
+        original !== null ? current.totalScore - original.totalScore : null,
+      classificationChanged:
+        original !== null && original.classification !== current.classification,
+      wouldAlert: score !== null && alertScorer.shouldAlert(score),
+      changes: this.diffScores(original, current),
+    };
+  }
+
+  /**
+   * Net an accumulated position's fills back into one synthetic trade
+   * Falls back to the single fill if the components can't be loaded.
+   */
+  private async rebuildAccumulatedTrade(
+    trade: PolymarketTrade,
+    componentTradeIds: string[]
+  ): Promise<PolymarketTrade> {
+    const rows = await db.getClient().trade.findMany({
+      where: { id: { in: componentTradeIds } },
+      select: {
+        id: true,
+        side: true,
+        size: true,
+        price: true,
+        timestamp: true,
+      },
+    });
+    const position = aggregateFills(
+      rows.map((row) => {
+        const sign = row.side === 'buy' ? 1 : -1;
+        const shares = safeParseFloat(row.size.toString());
+        return {
+          tradeId: row.id,
+          shares: sign * shares,
+          usd: sign * shares * safeParseFloat(row.price.toString()),
+          timestamp: row.timestamp.getTime(),
+        };
+      })
+    );
+
+    if (position === null) {
+      logger.warn(
+        {
+          tradeId: trade.id,
+          components: componentTradeIds.length,
+          found: rows.length,
+        },
+        'Could not rebuild accumulated position - rescoring the single fill'
+      );
+      return trade;
+    }
+    return buildAggregateTrade(trade, position);
+  }
+
+  /**
+   * Rebuild the liquidity/volume an impact was measured against
+   * (impactPercentage = tradeUsdValue / base * 100)
+   */
+  private impactDataFromSnapshot(snapshot: ScoreSnapshot): {
+    liquidityData: LiquidityData | null;
+    volumeData: VolumeData | null;
+  } {
+    const { tradeSignal } = snapshot.input;
+    const base =
+      tradeSignal.impactPercentage > 0
+        ? (tradeSignal.tradeUsdValue / tradeSignal.impactPercentage) * 100
+        : 0;
+
+    return {
+      liquidityData:
+        tradeSignal.impactMethod === 'liquidity' && base > 0
+          ? {
+              availableLiquidity: base,
+              bidLiquidity: base,
+              askLiquidity: base,
+              spread: 0,
+              orderbookDepth: 0,
+            }
+          : null,
+      volumeData:
+        tradeSignal.impactMethod === 'volume' && base > 0
+          ? { volume24h: base, volumeNh: base, recentTrades: 0 }
+          : null,
+    };
+  }
+
+  /**
+   * Other wallets trading the same market+side in the window before the trade
+   */
+  private async getClusterWalletCount(
+    trade: PolymarketTrade,
+    walletAddress: string
+  ): Promise<number> {
+    const rows = await db.getClient().trade.findMany({
+      where: {
+        marketId: trade.marketId,
+        side: trade.side,
+        outcome: trade.outcome,
+        taker: { not: walletAddress },
+        timestamp: {
+          gte: new Date(trade.timestamp - CLUSTER_WINDOW_MS),
+          lte: new Date(trade.timestamp),
+        },
+      },
+      select: { taker: true },
+      distinct: ['taker'],
+    });
+    return rows.length;
+  }
+
+  /**
+   * Previous stored trade in the same market (for the dormancy multiplier)
+   */
+  private async getPreviousMarketTradeTimestamp(
+    trade: PolymarketTrade
+  ): Promise<number | null> {
+    const previous = await db.getClient().trade.findFirst({
+      where: {
+        marketId: trade.marketId,
+        timestamp: { lt: new Date(trade.timestamp) },
+      },
+      orderBy: { timestamp: 'desc' },
+      select: { timestamp: true },
+    });
+    return previous?.timestamp.getTime() ?? null;
+  }
+
+  /**
+   * List breakdown and multiplier fields that differ
+   */
+  private diffScores(
+    original: OriginalScore | null,
+    current: CurrentScore
+  ): ScoreChange[] {
+    if (original === null) return [];
+
+    const changes: ScoreChange[] = [];
+    if (original.totalScore !== current.totalScore) {
+      changes.push({
+        field: 'totalScore',
+        original: original.totalScore,
+        current: current.totalScore,
+      });
+    }
+    if (original.classification !== current.classification) {
+      changes.push({
+        field: 'classification',
+        original: original.classification,
+        current: current.classification,
+      });
+    }
+
+    const sections = [
+      ['breakdown', original.breakdown, current.breakdown],
+      ['multipliers', original.multipliers, current.multipliers],
+    ] as const;
+    for (const [section, before, after] of sections) {
+      if (before === null) continue;
+      for (const [key, value] of Object.entries(after)) {
+        const previous = (before as Record<string, number | string>)[key];
+        if (previous !== undefined && previous !== value) {
+          changes.push({
+            field: `${section}.${key}`,
+            original: previous,
+            current: value,
+          });
+        }
+      }
+    }
+    return changes;
+  }
+}
+
+// Export singleton instance
+export const rescoreService = RescoreService.getInstance();
@@ -0,0 +1,169 @@
+import type { DetectionThresholds } from '../../config/thresholds.js';
+import type { TimingWindow, TradeSignal } from '../../types/index.js';
+import type { WalletFingerprint } from '../blockchain/wallet-forensics.js';
+import { thresholdManager } from '../config/threshold-manager.js';
+import {
+  alertScorer,
+  SCORER_VERSION,
+  type AlertScore,
+  type ScoreInput,
+  type ScorerMode,
+} from './alert-scorer.js';
+import type { ScorerConfig } from './scorer-config.js';
+import type { MarketCatalyst } from '../polymarket/market-event-service.js';
+import type { EventPattern } from '../signals/event-pattern-detector.js';
+import type { WalletAlertHistory } from './wallet-alert-history.js';
+import type { WatchedRole } from '../signals/wallet-watchlist.js';
+
+// Bump when the snapshot layout changes
+export const SCORE_SNAPSHOT_FORMAT = 1;
+
+/**
+ * Everything needed to explain or exactly rescore an alert
+ * Stored as JSON on the alert (`scoreSnapshot`)
+ */
+export interface ScoreSnapshot {
+  format: number;
+  capturedAt: string;
+  scorerVersion: string;
+  scorerMode: ScorerMode;
+  modelVersion: string | null;
+
+  // Complete scorer input (dates as ISO strings)
+  input: {
+    tradeSignal: TradeSignal;
+    walletFingerprint: Omit<WalletFingerprint, 'analyzedAt'> & {
+      analyzedAt: string;
+    };
+    entryProbability: number;
+    marketEndDate: string | null;
+    marketCategory?: string | null; // Absent on snapshots taken before category tables
+    nextCatalyst?: MarketCatalyst | null; // Absent on snapshots taken before market events
+    timingWindows?: TimingWindow[] | null; // Absent on snapshots taken before timing windows
+    clusterWalletCount: number | null;
+    eventPattern?: EventPattern | null; // Absent on snapshots taken before event patterns
+    walletHistory?: WalletAlertHistory | null; // Absent on snapshots taken before wallet history
+    // Resolved value the dormancy multiplier used (Redis lookup in live scoring)
+    previousMarketTradeTimestamp: number | null;
+  };
+
+  score: AlertScore;
+
+  // How signal detection ran on the fill (absent on snapshots taken before
+  // the watchlist - read as taker side, size gates applied)
+  detection?: ScoreSnapshotDetection;
+
+  // Settings in force when the trade was scored
+  scorerConfig: ScorerConfig;
+  thresholds: DetectionThresholds;
+}
+
+/**
+ * Side the fill was judged from (a watched maker's fill is flipped to the
+ * maker's side) and whether the size gates were bypassed
+ */
+export interface ScoreSnapshotDetection {
+  role: WatchedRole;
+  bypassSizeGates: boolean;
+}
+
+/**
+ * Capture a snapshot of a scoring run with the scorer's current settings
+ */
+export function buildScoreSnapshot(
+  input: ScoreInput,
+  score: AlertScore,
+  detection: ScoreSnapshotDetection = {
+    role: 'taker',
+    bypassSizeGates: false,
+  },
+  thresholds: DetectionThresholds = thresholdManager.getThresholdsForMarket(
+    input.tradeSignal.marketId
+  )
+): ScoreSnapshot {
+  const previousMarketTradeTimestamp =
+    input.previousMarketTradeTimestamp !== undefined
+      ? input.previousMarketTradeTimestamp
+      : (score.previousMarketTradeTimestamp ?? null);
+
+  return {
+    format: SCORE_SNAPSHOT_FORMAT,
+    capturedAt: new Date().toISOString(),
+    scorerVersion: SCORER_VERSION,
+    scorerMode: alertScorer.getMode(),
+    modelVersion: score.model?.version ?? null,
+    input: {
+      tradeSignal: input.tradeSignal,
+      walletFingerprint: {
+        ...input.walletFingerprint,
+        analyzedAt: input.walletFingerprint.analyzedAt.toISOString(),
+      },
+      entryProbability: input.entryProbability,
+      marketEndDate: input.marketEndDate ?? null,
+      marketCategory: input.marketCategory ?? null,
+      nextCatalyst: input.nextCatalyst ?? null,
+      timingWindows: input.timingWindows ?? null,
+      clusterWalletCount: input.clusterWalletCount ?? null,
+      eventPattern: input.eventPattern ?? null,
+      walletHistory: input.walletHistory ?? null,
+      previousMarketTradeTimestamp,
+    },
+    score,
+    detection,
+    scorerConfig: alertScorer.getConfigForMarket(input.tradeSignal.marketId),
+    thresholds,
+  };
+}
+
+/**
+ * Read a snapshot stored as JSON on an alert
+ * Returns null for alerts without one or with an unknown format
+ */
+export function parseScoreSnapshot(raw: unknown): ScoreSnapshot | null {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+  const snapshot = raw as Partial<ScoreSnapshot>;
+  if (
+    snapshot.format !== SCORE_SNAPSHOT_FORMAT ||
+    snapshot.input === undefined ||
+    snapshot.score === undefined
+  ) {
+    return null;
+  }
+  return snapshot as ScoreSnapshot;
+}
+
+/**
+ * Rebuild the exact scorer input from a snapshot
+ */
+export function snapshotToScoreInput(snapshot: ScoreSnapshot): ScoreInput {
+  const { input } = snapshot;
+  return {
+    tradeSignal: input.tradeSignal,
+    walletFingerprint: {
+      ...input.walletFingerprint,
+      analyzedAt: new Date(input.walletFingerprint.analyzedAt),
+    },
+    entryProbability: input.entryProbability,
+    marketEndDate: input.marketEndDate ?? undefined,
+    marketCategory: input.marketCategory ?? undefined,
+    ...(input.nextCatalyst !== undefined && {
+      nextCatalyst: input.nextCatalyst,
+    }),
+    ...(input.timingWindows !== undefined &&
+      input.timingWindows !== null && {
+        timingWindows: input.timingWindows,
+      }),
+    ...(input.clusterWalletCount !== null && {
+      clusterWalletCount: input.clusterWalletCount,
+    }),
+    ...(input.eventPattern !== undefined && {
+      eventPattern: input.eventPattern,
+    }),
+    ...(input.walletHistory !== undefined && {
+      walletHistory: input.walletHistory,
+    }),
+    previousMarketTradeTimestamp: input.previousMarketTradeTimestamp,
+  };
+}
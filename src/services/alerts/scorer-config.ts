@@ -0,0 +1,557 @@
+import { readFileSync } from 'node:fs';
+
+import type { MarketConfig } from '../../types/index.js';
+
+export type MarketCategory = MarketConfig['category'];
+
+export const MARKET_CATEGORIES: readonly MarketCategory[] = [
+  'politics',
+  'corporate',
+  'sports',
+  'misc',
+];
+
+/**
+ * One step of a lookup table: when the input compares true against
+ * `threshold`, the step's value applies
+ */
+export interface ScoreStep {
+  threshold: number;
+  value: number;
+}
+
+/**
+ * Stepped lookup table
+ * Steps are checked in order; the first match wins, otherwise `otherwise`.
+ */
+export interface StepTable {
+  compare: 'gte' | 'gt' | 'lt' | 'lte';
+  steps: ScoreStep[];
+  otherwise: number;
+}
+
+/**
+ * Everything that determines how a trade is scored and classified
+ */
+export interface ScorerConfig {
+  version: string;
+
+  // Hard filters
+  minTradeSizeUsd: number;
+  minOiUsd: number;
+  minWalletScore: number; // 0-100 scale
+
+  // Classification (high/strong thresholds are offsets above alertThreshold)
+  alertThreshold: number;
+  logThreshold: number;
+  highConfidenceOffset: number;
+  strongInsiderOffset: number;
+
+  // Final score weights
+  walletWeight: number;
+  impactWeight: number;
+
+  // Wallet score points (0-50 scale)
+  walletPoints: {
+    lowTradeCount: number;
+    youngAccount: number;
+    lowVolume: number;
+    newUserCap: number; // Cap on the three generic new-user flags combined
+    highConcentration: number;
+    freshFatBet: number;
+    lowDiversification: number;
+    highWinRate: number; // Track-record flags, added after the whale exemption
+    lowOddsWinner: number;
+    whaleMinMarkets: number; // Young account trading this many markets = whale
+    whaleMultiplier: number;
+  };
+  errorWalletScore: number; // 0-50 baseline when wallet analysis fails
+  partialDataMultiplier: number; // Applied to the score for partial fingerprints
+
+  // Impact score curves by method, keyed on impactPercentage / threshold
+  impactCurves: {
+    liquidity: StepTable;
+    volume: StepTable;
+    oi: StepTable;
+  };
+
+  // Multipliers
+  marketSizeMultiplier: StepTable; // Keyed on open interest (USD)
+  dormancyMultiplier: StepTable; // Keyed on hours since previous market trade
+
+  // Bonuses
+  resolutionProximityBonus: StepTable; // Keyed on hours until resolution
+  catalystProximityBonus: StepTable; // Keyed on hours until the next scheduled market event
+  contrarianBonus: StepTable; // Keyed on the price of the side bet on
+  crowdPenalty: StepTable; // Keyed on the price of the side bet on
+  walletDormancyBonus: StepTable; // Keyed on days since the wallet's last trade
+  clusterBonus: StepTable; // Keyed on other wallets trading the same side
+  eventPatternBonus: StepTable; // Keyed on markets of the event bet NO alongside the YES pick
+  timingBonus: {
+    // Points per active timing window (see timing-analyzer.ts), capped at max
+    offHours: number;
+    weekend: number;
+    preAnnouncement: number;
+    max: number;
+  };
+  repeatOffenderBonus: {
+    // Points per earlier alert on the wallet by classification, plus points
+    // per earlier alert that resolved won or lost; floored at 0, capped at max
+    strongInsider: number;
+    highConfidence: number;
+    mediumConfidence: number;
+    won: number;
+    lost: number;
+    max: number;
+  };
+
+  // Per-category weighting and bonus tables over the values above
+  // (categories without one use them as-is; absent on older snapshots)
+  categoryTables?: Partial<Record<MarketCategory, CategoryScoringTable>>;
+}
+
+/**
+ * Scorer fields a category table can change
+ */
+export type CategoryTableKey =
+  | 'walletWeight'
+  | 'impactWeight'
+  | 'walletPoints'
+  | 'resolutionProximityBonus'
+  | 'catalystProximityBonus'
+  | 'contrarianBonus'
+  | 'crowdPenalty'
+  | 'walletDormancyBonus'
+  | 'clusterBonus'
+  | 'eventPatternBonus'
+  | 'timingBonus'
+  | 'repeatOffenderBonus';
+
+export const CATEGORY_TABLE_KEYS: readonly CategoryTableKey[] = [
+  'walletWeight',
+  'impactWeight',
+  'walletPoints',
+  'resolutionProximityBonus',
+  'catalystProximityBonus',
+  'contrarianBonus',
+  'crowdPenalty',
+  'walletDormancyBonus',
+  'clusterBonus',
+  'eventPatternBonus',
+  'timingBonus',
+  'repeatOffenderBonus',
+];
+
+/**
+ * Overrides applied for one market category
+ */
+export type CategoryScoringTable = Pick<
+  ScorerConfigOverrides,
+  CategoryTableKey
+>;
+
+/**
+ * Deep partial used for config overrides
+ * Arrays (step lists) are replaced, not merged
+ */
+export type ScorerConfigOverrides = {
+  [K in keyof ScorerConfig]?: ScorerConfig[K] extends StepTable
+    ? Partial<StepTable>
+    : ScorerConfig[K] extends Record<string, StepTable>
+      ? { [T in keyof ScorerConfig[K]]?: Partial<StepTable> }
+      : ScorerConfig[K] extends object
+        ? Partial<ScorerConfig[K]>
+        : ScorerConfig[K];
+};
+
+/**
+ * Rule-based scoring tables as of scorer v11
+ */
+export const DEFAULT_SCORER_CONFIG: Omit<ScorerConfig, 'version'> = {
+  minTradeSizeUsd: 1000,
+  minOiUsd: 5000,
+  minWalletScore: 20,
+
+  alertThreshold: 50,
+  logThreshold: 30,
+  highConfidenceOffset: 15,
+  strongInsiderOffset: 30,
+
+  walletWeight: 0.6,
+  impactWeight: 0.4,
+
+  walletPoints: {
+    lowTradeCount: 4,
+    youngAccount: 4,
+    lowVolume: 3,
+    newUserCap: 10,
+    highConcentration: 15,
+    freshFatBet: 12,
+    lowDiversification: 12,
+    highWinRate: 8,
+    lowOddsWinner: 15,
+    whaleMinMarkets: 10,
+    whaleMultiplier: 0.5,
+  },
+  errorWalletScore: 25,
+  partialDataMultiplier: 0.8,
+
+  impactCurves: {
+    // Liquidity impact is most significant - aggressive scoring
+    liquidity: {
+      compare: 'gte',
+      steps: [
+        { threshold: 7.0, value: 95 }, // >14% liquidity
+        { threshold: 4.0, value: 80 }, // 8-14% liquidity
+        { threshold: 2.5, value: 60 }, // 5-8% liquidity
+        { threshold: 1.5, value: 40 }, // 3-5% liquidity
+        { threshold: 1.0, value: 20 }, // 2-3% liquidity
+      ],
+      otherwise: 0,
+    },
+    // Volume impact is moderate - balanced scoring
+    volume: {
+      compare: 'gte',
+      steps: [
+        { threshold: 8.0, value: 90 }, // >40% of 24h volume
+        { threshold: 5.0, value: 70 }, // 25-40% of 24h volume
+        { threshold: 3.0, value: 50 }, // 15-25% of 24h volume
+        { threshold: 2.0, value: 30 }, // 10-15% of 24h volume
+        { threshold: 1.0, value: 15 }, // 5-10% of 24h volume
+      ],
+      otherwise: 0,
+    },
+    // OI impact (fallback) - conservative scoring
+    oi: {
+      compare: 'gte',
+      steps: [
+        { threshold: 40.0, value: 90 }, // >20% OI
+        { threshold: 20.0, value: 70 }, // 10-20% OI
+        { threshold: 10.0, value: 45 }, // 5-10% OI
+        { threshold: 4.0, value: 25 }, // 2-5% OI
+        { threshold: 1.0, value: 10 }, // 0.5-2% OI
+      ],
+      otherwise: 0,
+    },
+  },
+
+  marketSizeMultiplier: {
+    compare: 'lt',
+    steps: [
+      { threshold: 25000, value: 2.0 },
+      { threshold: 50000, value: 1.5 },
+    ],
+    otherwise: 1.0,
+  },
+  dormancyMultiplier: {
+    compare: 'gte',
+    steps: [
+      { threshold: 8, value: 2.0 },
+      { threshold: 4, value: 1.5 },
+    ],
+    otherwise: 1.0,
+  },
+
+  resolutionProximityBonus: {
+    compare: 'lte',
+    steps: [
+      { threshold: 24, value: 25 },
+      { threshold: 72, value: 15 },
+      { threshold: 168, value: 8 }, // 7 days
+    ],
+    otherwise: 0,
+  },
+  catalystProximityBonus: {
+    compare: 'lte',
+    steps: [
+      { threshold: 6, value: 15 },
+      { threshold: 24, value: 10 },
+      { threshold: 72, value: 5 },
+    ],
+    otherwise: 0,
+  },
+  contrarianBonus: {
+    compare: 'lt',
+    steps: [
+      { threshold: 0.2, value: 20 }, // Heavy underdog bet — very suspicious
+      { threshold: 0.35, value: 10 }, // Contrarian bet
+    ],
+    otherwise: 0,
+  },
+  crowdPenalty: {
+    compare: 'gt',
+    steps: [{ threshold: 0.65, value: -5 }], // Going with the crowd — less suspicious
+    otherwise: 0,
+  },
+  walletDormancyBonus: {
+    compare: 'gte',
+    steps: [
+      { threshold: 30, value: 15 },
+      { threshold: 14, value: 10 },
+      { threshold: 7, value: 5 },
+    ],
+    otherwise: 0,
+  },
+  clusterBonus: {
+    compare: 'gte',
+    steps: [
+      { threshold: 8, value: 20 },
+      { threshold: 5, value: 15 },
+      { threshold: 3, value: 10 },
+    ],
+    otherwise: 0,
+  },
+  eventPatternBonus: {
+    compare: 'gte',
+    steps: [
+      { threshold: 5, value: 20 },
+      { threshold: 3, value: 15 },
+      { threshold: 2, value: 10 },
+    ],
+    otherwise: 5,
+  },
+  timingBonus: {
+    offHours: 5,
+    weekend: 3,
+    preAnnouncement: 10,
+    max: 15,
+  },
+  repeatOffenderBonus: {
+    strongInsider: 6,
+    highConfidence: 4,
+    mediumConfidence: 2,
+    won: 4,
+    lost: -2,
+    max: 20,
+  },
+
+  categoryTables: {},
+};
+
+/**
+ * Evaluate a step table
+ */
+export function lookupStep(table: StepTable, input: number): number {
+  for (const step of table.steps) {
+    const matches =
+      table.compare === 'gte'
+        ? input >= step.threshold
+        : table.compare === 'gt'
+          ? input > step.threshold
+          : table.compare === 'lt'
+            ? input < step.threshold
+            : input <= step.threshold;
+    if (matches) return step.value;
+  }
+  return table.otherwise;
+}
+
+const COMPARE_OPS: ReadonlyArray<string> = ['gte', 'gt', 'lt', 'lte'];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merge overrides onto a config (objects merge recursively, arrays replace)
+ * `categoryTables` entries replace the category's table; null removes it.
+ */
+export function mergeScorerConfig(
+  base: ScorerConfig,
+  overrides: ScorerConfigOverrides
+): ScorerConfig {
+  const merge = (
+    target: Record<string, unknown>,
+    source: Record<string, unknown>,
+    path: string
+  ): Record<string, unknown> => {
+    const result: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) continue;
+      if (path === '' && key === 'categoryTables') {
+        result[key] = mergeCategoryTables(target, target[key], value);
+        continue;
+      }
+      if (!(key in target)) {
+        throw new Error(`Unknown scorer config key "${path}${key}"`);
+      }
+      const current = target[key];
+      if (isPlainObject(current)) {
+        if (!isPlainObject(value)) {
+          throw new Error(`Scorer config "${path}${key}" must be an object`);
+        }
+        result[key] = merge(current, value, `${path}${key}.`);
+      } else if (Array.isArray(current)) {
+        const validSteps =
+          Array.isArray(value) &&
+          value.every(
+            (step: unknown) =>
+              isPlainObject(step) &&
+              typeof step['threshold'] === 'number' &&
+              typeof step['value'] === 'number'
+          );
+        if (!validSteps) {
+          throw new Error(
+            `Scorer config "${path}${key}" must be an array of { threshold, value } steps`
+          );
+        }
+        result[key] = value;
+      } else {
+        if (typeof value !== typeof current) {
+          throw new Error(
+            `Scorer config "${path}${key}" must be a ${typeof current}`
+          );
+        }
+        if (key === 'compare' && !COMPARE_OPS.includes(value as string)) {
+          throw new Error(
+            `Scorer config "${path}${key}" must be one of: ${COMPARE_OPS.join(', ')}`
+          );
+        }
+        result[key] = value;
+      }
+    }
+    return result;
+  };
+
+  /**
+   * Validate category tables against the base config's fields and types
+   */
+  const mergeCategoryTables = (
+    config: Record<string, unknown>,
+    current: unknown,
+    value: unknown
+  ): Record<string, unknown> => {
+    if (!isPlainObject(value)) {
+      throw new Error('Scorer config "categoryTables" must be an object');
+    }
+
+    const tables: Record<string, unknown> = isPlainObject(current)
+      ? { ...current }
+      : {};
+    for (const [category, table] of Object.entries(value)) {
+      if (!MARKET_CATEGORIES.includes(category as MarketCategory)) {
+        throw new Error(
+          `Unknown category "${category}" in scorer config categoryTables - use one of: ${MARKET_CATEGORIES.join(', ')}`
+        );
+      }
+      if (table === null) {
+        tables[category] = undefined;
+        continue;
+      }
+      if (!isPlainObject(table)) {
+        throw new Error(
+          `Scorer config "categoryTables.${category}" must be an object`
+        );
+      }
+      for (const key of Object.keys(table)) {
+        if (!CATEGORY_TABLE_KEYS.includes(key as CategoryTableKey)) {
+          throw new Error(
+            `Scorer config "categoryTables.${category}.${key}" can't vary by category - use one of: ${CATEGORY_TABLE_KEYS.join(', ')}`
+          );
+        }
+      }
+      merge(config, table, `categoryTables.${category}.`);
+      tables[category] = table;
+    }
+
+    // Drop removed categories so the config serializes cleanly
+    return Object.fromEntries(
+      Object.entries(tables).filter(([, table]) => table !== undefined)
+    );
+  };
+
+  return merge(
+    base as unknown as Record<string, unknown>,
+    overrides as Record<string, unknown>,
+    ''
+  ) as unknown as ScorerConfig;
+}
+
+/**
+ * Apply a market category's table to a config
+ * Returns the config to score with and the table used ('default' when the
+ * category has no table of its own)
+ */
+export function applyCategoryTable(
+  config: ScorerConfig,
+  category: string | undefined
+): { config: ScorerConfig; table: string } {
+  if (category === undefined) return { config, table: 'default' };
+
+  const table = config.categoryTables?.[category as MarketCategory];
+  if (table === undefined) return { config, table: 'default' };
+
+  return { config: mergeScorerConfig(config, table), table: category };
+}
+
+/**
+ * Load per-category tables from a JSON file onto a config
+ * The file maps categories to overrides, e.g.
+ * `{ "corporate": { "walletWeight": 0.7, "contrarianBonus": { ... } } }`
+ */
+export function loadCategoryTables(
+  path: string,
+  config: ScorerConfig
+): ScorerConfig {
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (!isPlainObject(raw)) {
+    throw new Error('Scorer category table file must contain a JSON object');
+  }
+  return mergeScorerConfig(config, {
+    categoryTables: raw as NonNullable<ScorerConfig['categoryTables']>,
+  });
+}
+
+/**
+ * Production config: v11 tables with env-configurable filters and thresholds
+ */
+export function buildProductionScorerConfig(version: string): ScorerConfig {
+  return {
+    ...DEFAULT_SCORER_CONFIG,
+    version,
+    minTradeSizeUsd:
+      Number(process.env['MIN_TRADE_SIZE_USD']) ||
+      DEFAULT_SCORER_CONFIG.minTradeSizeUsd,
+    minOiUsd:
+      Number(process.env['MIN_OI_USD']) || DEFAULT_SCORER_CONFIG.minOiUsd,
+    minWalletScore:
+      Number(process.env['MIN_WALLET_SCORE']) ||
+      DEFAULT_SCORER_CONFIG.minWalletScore,
+    alertThreshold:
+      Number(process.env['ALERT_THRESHOLD']) ||
+      DEFAULT_SCORER_CONFIG.alertThreshold,
+    logThreshold:
+      Number(process.env['LOG_THRESHOLD']) ||
+      DEFAULT_SCORER_CONFIG.logThreshold,
+  };
+}
+
+/**
+ * Load shadow scorer configs from a JSON file
+ * The file holds an array of overrides, each with a unique `version`,
+ * applied on top of the production config.
+ */
+export function loadShadowScorerConfigs(
+  path: string,
+  production: ScorerConfig
+): ScorerConfig[] {
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(raw)) {
+    throw new Error('Shadow scorer config file must contain a JSON array');
+  }
+
+  const versions = new Set<string>([production.version]);
+  return raw.map((entry: unknown) => {
+    if (!isPlainObject(entry) || typeof entry['version'] !== 'string') {
+      throw new Error('Each shadow scorer config needs a string "version"');
+    }
+    const version = entry['version'];
+    if (versions.has(version)) {
+      throw new Error(
+        `Shadow scorer version "${version}" is duplicated or matches production`
+      );
+    }
+    versions.add(version);
+    return mergeScorerConfig(production, entry as ScorerConfigOverrides);
+  });
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  FEATURE_NAMES,
+  featureVector,
+  parseScoreFeatures,
+  predictProbability,
+  trainLogisticModel,
+  type ScoreFeatures,
+  type TrainingSample,
+} from './scoring-model.js';
+
+function features(overrides: Partial<ScoreFeatures> = {}): ScoreFeatures {
+  return {
+    lowTradeCount: false,
+    youngAccount: false,
+    lowVolume: false,
+    highConcentration: false,
+    freshFatBet: false,
+    lowDiversification: false,
+    highWinRate: false,
+    lowOddsWinner: false,
+    impactRatio: 1,
+    marketSizeMultiplier: 1,
+    dormancyMultiplier: 1,
+    resolutionProximityBonus: 0,
+    contrarianBonus: 0,
+    walletDormancyBonus: 0,
+    clusterBonus: 0,
+    timingBonus: 0,
+    catalystProximityBonus: 0,
+    eventPatternBonus: 0,
+    repeatOffenderBonus: 0,
+    ...overrides,
+  };
+}
+
+describe('parseScoreFeatures', () => {
+  it('accepts a complete feature set', () => {
+    const stored = features({ youngAccount: true, clusterBonus: 5 });
+    expect(parseScoreFeatures(JSON.parse(JSON.stringify(stored)))).toEqual(
+      stored
+    );
+  });
+
+  it('rejects values that are not feature objects', () => {
+    expect(parseScoreFeatures(null)).toBeNull();
+    expect(parseScoreFeatures('features')).toBeNull();
+    expect(parseScoreFeatures([1, 2, 3])).toBeNull();
+  });
+
+  it('rejects a missing or malformed original feature', () => {
+    const { lowTradeCount: _omitted, ...missing } = features();
+    expect(parseScoreFeatures(missing)).toBeNull();
+    expect(parseScoreFeatures({ ...features(), impactRatio: '2' })).toBeNull();
+  });
+
+  it('reads features added later as 0 on older alerts', () => {
+    const {
+      timingBonus: _timing,
+      catalystProximityBonus: _catalyst,
+      eventPatternBonus: _eventPattern,
+      repeatOffenderBonus: _repeatOffender,
+      highWinRate: _highWinRate,
+      lowOddsWinner: _lowOddsWinner,
+      ...older
+    } = features({ contrarianBonus: 3 });
+    const parsed = parseScoreFeatures(older);
+    expect(parsed).not.toBeNull();
+    expect(parsed?.contrarianBonus).toBe(3);
+    expect(parsed?.timingBonus).toBe(0);
+    expect(parsed?.repeatOffenderBonus).toBe(0);
+    expect(Number(parsed?.highWinRate)).toBe(0);
+    expect(Number(parsed?.lowOddsWinner)).toBe(0);
+  });
+});
+
+describe('featureVector', () => {
+  it('orders values by FEATURE_NAMES and maps flags to 0/1', () => {
+    const vector = featureVector(features({ youngAccount: true }));
+    expect(vector).toHaveLength(FEATURE_NAMES.length);
+    expect(vector[FEATURE_NAMES.indexOf('youngAccount')]).toBe(1);
+    expect(vector[FEATURE_NAMES.indexOf('lowTradeCount')]).toBe(0);
+  });
+});
+
+describe('trainLogisticModel', () => {
+  const options = { version: 'test', positiveLabels: ['insider'] };
+
+  it('needs both positive and negative samples', () => {
+    const samples: TrainingSample[] = [
+      { features: features(), positive: true },
+      { features: features({ youngAccount: true }), positive: true },
+    ];
+    expect(() => trainLogisticModel(samples, options)).toThrow(
+      /both positive and negative/
+    );
+  });
+
+  it('learns a feature that separates the labels', () => {
+    const samples: TrainingSample[] = [];
+    for (let i = 0; i < 20; i++) {
+      samples.push({
+        features: features({ freshFatBet: true, impactRatio: 1 + i / 10 }),
+        positive: true,
+      });
+      samples.push({
+        features: features({ impactRatio: 1 + i / 10 }),
+        positive: false,
+      });
+    }
+
+    const model = trainLogisticModel(samples, options);
+    expect(model.featureNames).toEqual([...FEATURE_NAMES]);
+    expect(model.weights).toHaveLength(FEATURE_NAMES.length);
+    expect(model.weights[FEATURE_NAMES.indexOf('freshFatBet')]).toBeGreaterThan(
+      0
+    );
+    // Constant features keep a zero weight and a unit scale
+    const constant = FEATURE_NAMES.indexOf('clusterBonus');
+    expect(model.weights[constant]).toBe(0);
+    expect(model.scales[constant]).toBe(1);
+
+    expect(
+      predictProbability(model, features({ freshFatBet: true }))
+    ).toBeGreaterThan(0.9);
+    expect(predictProbability(model, features())).toBeLessThan(0.1);
+  });
+});
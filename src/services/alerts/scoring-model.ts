@@ -0,0 +1,397 @@
+import { readFileSync } from 'node:fs';
+
+/**
+ * Features the rule-based scorer computes for a trade
+ * Persisted on alerts so a model can be trained on labeled outcomes
+ */
+export interface ScoreFeatures {
+  // Wallet flags
+  lowTradeCount: boolean;
+  youngAccount: boolean;
+  lowVolume: boolean;
+  highConcentration: boolean;
+  freshFatBet: boolean;
+  lowDiversification: boolean;
+  highWinRate: boolean;
+  lowOddsWinner: boolean;
+
+  // Impact
+  impactRatio: number; // impactPercentage / impactThreshold
+  marketSizeMultiplier: number;
+  dormancyMultiplier: number;
+
+  // Bonuses
+  resolutionProximityBonus: number;
+  contrarianBonus: number;
+  walletDormancyBonus: number;
+  clusterBonus: number;
+  timingBonus: number;
+  catalystProximityBonus: number;
+  eventPatternBonus: number;
+  repeatOffenderBonus: number;
+}
+
+/**
+ * Feature order used by model weight vectors
+ */
+export const FEATURE_NAMES = [
+  'lowTradeCount',
+  'youngAccount',
+  'lowVolume',
+  'highConcentration',
+  'freshFatBet',
+  'lowDiversification',
+  'impactRatio',
+  'marketSizeMultiplier',
+  'dormancyMultiplier',
+  'resolutionProximityBonus',
+  'contrarianBonus',
+  'walletDormancyBonus',
+  'clusterBonus',
+  'timingBonus',
+  'catalystProximityBonus',
+  'eventPatternBonus',
+  'repeatOffenderBonus',
+  'highWinRate',
+  'lowOddsWinner',
+] as const satisfies ReadonlyArray<keyof ScoreFeatures>;
+
+// Features added after alerts started storing them: alerts from before read
+// them as 0 / false, so they stay usable for training
+const BACKFILLED_FEATURES: ReadonlySet<string> = new Set([
+  'timingBonus',
+  'catalystProximityBonus',
+  'eventPatternBonus',
+  'repeatOffenderBonus',
+  'highWinRate',
+  'lowOddsWinner',
+]);
+
+// Bump when the weights file layout changes
+export const MODEL_FORMAT = 1;
+
+/**
+ * Reliability bin: how often predictions in a probability range came true
+ */
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number | null;
+  observedRate: number | null;
+}
+
+/**
+ * Fit quality on one set of samples
+ */
+export interface ModelEvaluation {
+  samples: number;
+  positives: number;
+  logLoss: number | null;
+  brierScore: number | null;
+  calibration: CalibrationBin[];
+}
+
+/**
+ * Trained logistic scoring model (contents of the weights file)
+ */
+export interface ScoringModel {
+  format: number;
+  type: 'logistic';
+  version: string;
+  trainedAt: string;
+  featureNames: string[];
+  // Standardization applied before the weights: (x - mean) / scale
+  means: number[];
+  scales: number[];
+  weights: number[];
+  intercept: number;
+  positiveLabels: string[];
+  training: {
+    l2: number;
+    iterations: number;
+    learningRate: number;
+    from: string | null;
+    to: string | null;
+    train: ModelEvaluation;
+    validation: ModelEvaluation | null;
+  };
+}
+
+export interface TrainingSample {
+  features: ScoreFeatures;
+  positive: boolean;
+}
+
+export interface TrainOptions {
+  version: string;
+  positiveLabels: string[];
+  l2?: number;
+  iterations?: number;
+  learningRate?: number;
+  from?: Date;
+  to?: Date;
+  validation?: TrainingSample[];
+}
+
+const CALIBRATION_BINS = 10;
+
+/**
+ * Convert features to a numeric vector in FEATURE_NAMES order
+ */
+export function featureVector(features: ScoreFeatures): number[] {
+  return FEATURE_NAMES.map((name) => Number(features[name]));
+}
+
+/**
+ * Read features stored as JSON on an alert
+ * Returns null if the stored value doesn't match the current feature set
+ */
+export function parseScoreFeatures(raw: unknown): ScoreFeatures | null {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    return null;
+  }
+  const record: Record<string, unknown> = { ...raw };
+  for (const name of FEATURE_NAMES) {
+    if (record[name] === undefined && BACKFILLED_FEATURES.has(name)) {
+      record[name] = 0;
+    }
+    const value = record[name];
+    if (typeof value !== 'number' && typeof value !== 'boolean') {
+      return null;
+    }
+  }
+  return record as unknown as ScoreFeatures;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Predicted probability that a trade is informed (insider) trading
+ */
+export function predictProbability(
+  model: ScoringModel,
+  features: ScoreFeatures
+): number {
+  const x = featureVector(features);
+  let z = model.intercept;
+  for (let i = 0; i < x.length; i++) {
+    const scaled =
+      ((x[i] ?? 0) - (model.means[i] ?? 0)) / (model.scales[i] ?? 1);
+    z += (model.weights[i] ?? 0) * scaled;
+  }
+  return sigmoid(z);
+}
+
+/**
+ * Log loss, Brier score and reliability bins for a model on samples
+ */
+export function evaluateModel(
+  model: ScoringModel,
+  samples: TrainingSample[]
+): ModelEvaluation {
+  const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({
+    lower: i / CALIBRATION_BINS,
+    upper: (i + 1) / CALIBRATION_BINS,
+    count: 0,
+    predictedSum: 0,
+    positives: 0,
+  }));
+
+  let logLoss = 0;
+  let brier = 0;
+  let positives = 0;
+  const eps = 1e-12;
+
+  for (const sample of samples) {
+    const p = predictProbability(model, sample.features);
+    const y = sample.positive ? 1 : 0;
+    positives += y;
+    logLoss -= y * Math.log(p + eps) + (1 - y) * Math.log(1 - p + eps);
+    brier += (p - y) ** 2;
+
+    const bin =
+      bins[Math.min(CALIBRATION_BINS - 1, Math.floor(p * CALIBRATION_BINS))];
+    if (bin !== undefined) {
+      bin.count++;
+      bin.predictedSum += p;
+      bin.positives += y;
+    }
+  }
+
+  const n = samples.length;
+  return {
+    samples: n,
+    positives,
+    logLoss: n > 0 ? logLoss / n : null,
+    brierScore: n > 0 ? brier / n : null,
+    calibration: bins.map((bin) => ({
+      lower: bin.lower,
+      upper: bin.upper,
+      count: bin.count,
+      meanPredicted: bin.count > 0 ? bin.predictedSum / bin.count : null,
+      observedRate: bin.count > 0 ? bin.positives / bin.count : null,
+    })),
+  };
+}
+
+/**
+ * Fit an L2-regularized logistic regression with batch gradient descent
+ * Features are standardized so the penalty treats them evenly.
+ */
+export function trainLogisticModel(
+  samples: TrainingSample[],
+  options: TrainOptions
+): ScoringModel {
+  const positives = samples.filter((s) => s.positive).length;
+  if (positives === 0 || positives === samples.length) {
+    throw new Error(
+      'Training data needs both positive and negative labels to fit a model'
+    );
+  }
+
+  const l2 = options.l2 ?? 0.01;
+  const iterations = options.iterations ?? 2000;
+  const learningRate = options.learningRate ?? 0.1;
+  const dims = FEATURE_NAMES.length;
+  const n = samples.length;
+
+  const rows = samples.map((s) => featureVector(s.features));
+  const ys = samples.map((s) => (s.positive ? 1 : 0));
+
+  // Standardize
+  const means = new Array<number>(dims).fill(0);
+  const scales = new Array<number>(dims).fill(0);
+  for (const row of rows) {
+    for (let j = 0; j < dims; j++) means[j] = (means[j] ?? 0) + (row[j] ?? 0);
+  }
+  for (let j = 0; j < dims; j++) means[j] = (means[j] ?? 0) / n;
+  for (const row of rows) {
+    for (let j = 0; j < dims; j++) {
+      scales[j] = (scales[j] ?? 0) + ((row[j] ?? 0) - (means[j] ?? 0)) ** 2;
+    }
+  }
+  for (let j = 0; j < dims; j++) {
+    const std = Math.sqrt((scales[j] ?? 0) / n);
+    // Constant features keep a zero weight; avoid dividing by zero
+    scales[j] = std > 0 ? std : 1;
+  }
+  const xs = rows.map((row) =>
+    row.map((v, j) => (v - (means[j] ?? 0)) / (scales[j] ?? 1))
+  );
+
+  // Gradient descent
+  const weights = new Array<number>(dims).fill(0);
+  let intercept = Math.log(positives / (n - positives)); // Start at base rate
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const grad = new Array<number>(dims).fill(0);
+    let gradIntercept = 0;
+
+    for (let i = 0; i < n; i++) {
+      const x = xs[i] ?? [];
+      let z = intercept;
+      for (let j = 0; j < dims; j++) z += (weights[j] ?? 0) * (x[j] ?? 0);
+      const err = sigmoid(z) - (ys[i] ?? 0);
+      gradIntercept += err;
+      for (let j = 0; j < dims; j++)
+        grad[j] = (grad[j] ?? 0) + err * (x[j] ?? 0);
+    }
+
+    intercept -= (learningRate * gradIntercept) / n;
+    for (let j = 0; j < dims; j++) {
+      weights[j] =
+        (weights[j] ?? 0) -
+        learningRate * ((grad[j] ?? 0) / n + l2 * (weights[j] ?? 0));
+    }
+  }
+
+  const model: ScoringModel = {
+    format: MODEL_FORMAT,
+    type: 'logistic',
+    version: options.version,
+    trainedAt: new Date().toISOString(),
+    featureNames: [...FEATURE_NAMES],
+    means,
+    scales,
+    weights,
+    intercept,
+    positiveLabels: options.positiveLabels,
+    training: {
+      l2,
+      iterations,
+      learningRate,
+      from: options.from?.toISOString() ?? null,
+      to: options.to?.toISOString() ?? null,
+      train: {
+        samples: 0,
+        positives: 0,
+        logLoss: null,
+        brierScore: null,
+        calibration: [],
+      },
+      validation: null,
+    },
+  };
+
+  model.training.train = evaluateModel(model, samples);
+  if (options.validation !== undefined && options.validation.length > 0) {
+    model.training.validation = evaluateModel(model, options.validation);
+  }
+
+  return model;
+}
+
+/**
+ * Validate a parsed weights file
+ * Throws if the file was written for a different format or feature set
+ */
+export function parseScoringModel(raw: unknown): ScoringModel {
+  const model = raw as Partial<ScoringModel> | null;
+  if (model === null || typeof model !== 'object') {
+    throw new Error('Model file is not a JSON object');
+  }
+  if (model.format !== MODEL_FORMAT || model.type !== 'logistic') {
+    throw new Error(
+      `Unsupported model format ${String(model.format)} (${String(model.type)})`
+    );
+  }
+  if (typeof model.version !== 'string') {
+    throw new Error('Model file has no version');
+  }
+
+  const featureNames = model.featureNames ?? [];
+  if (
+    featureNames.length !== FEATURE_NAMES.length ||
+    featureNames.some((name, i) => name !== FEATURE_NAMES[i])
+  ) {
+    throw new Error(
+      'Model features do not match the scorer - retrain the model'
+    );
+  }
+
+  for (const key of ['means', 'scales', 'weights'] as const) {
+    const values = model[key];
+    if (
+      !Array.isArray(values) ||
+      values.length !== FEATURE_NAMES.length ||
+      values.some((v) => typeof v !== 'number' || !Number.isFinite(v))
+    ) {
+      throw new Error(`Model ${key} must be ${FEATURE_NAMES.length} numbers`);
+    }
+  }
+  if (typeof model.intercept !== 'number' || !isFinite(model.intercept)) {
+    throw new Error('Model intercept must be a number');
+  }
+
+  return model as ScoringModel;
+}
+
+/**
+ * Load and validate a weights file
+ */
+export function loadScoringModel(path: string): ScoringModel {
+  return parseScoringModel(JSON.parse(readFileSync(path, 'utf8')));
+}
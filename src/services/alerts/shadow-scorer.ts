@@ -0,0 +1,95 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import {
+  alertScorer,
+  type AlertScore,
+  type ScoreInput,
+} from './alert-scorer.js';
+
+/**
+ * Shadow scorer
+ * Scores each trade with every shadow config and stores the results next to
+ * the production score. Shadow results never create alerts or notifications.
+ */
+class ShadowScorerService {
+  private static instance: ShadowScorerService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ShadowScorerService {
+    if (ShadowScorerService.instance === null) {
+      ShadowScorerService.instance = new ShadowScorerService();
+    }
+    return ShadowScorerService.instance;
+  }
+
+  /**
+   * Score a trade with every shadow config and persist the results
+   * Never throws - shadow scoring must not affect production processing
+   */
+  public async scoreTrade(
+    tradeId: string,
+    input: ScoreInput,
+    production: AlertScore
+  ): Promise<void> {
+    const shadows = alertScorer.getShadowConfigs();
+    if (shadows.length === 0) return;
+
+    try {
+      const productionVersion = alertScorer.getConfig().version;
+      const rows = [];
+
+      for (const config of shadows) {
+        const score = await alertScorer.calculateScore(input, {
+          config,
+          model: null, // Shadows are rule-based configs
+          recordStat: () => undefined, // Keep production stats clean
+          quiet: true,
+        });
+
+        rows.push({
+          tradeId,
+          marketId: input.tradeSignal.marketId,
+          walletAddress: input.tradeSignal.walletAddress,
+          productionVersion,
+          productionScore: production.totalScore,
+          productionClassification: production.classification,
+          productionFiltersPassed: production.filtersPassed,
+          shadowVersion: config.version,
+          shadowScore: score.totalScore,
+          shadowClassification: score.classification,
+          shadowFiltersPassed: score.filtersPassed,
+          shadowFilterReason: score.filterReason ?? null,
+          shadowBreakdown: {
+            ...score.breakdown,
+            multipliers: { ...score.multipliers },
+          },
+        });
+
+        if (score.classification !== production.classification) {
+          logger.debug(
+            {
+              tradeId,
+              shadowVersion: config.version,
+              production: production.classification,
+              shadow: score.classification,
+            },
+            '👥 Shadow classification differs from production'
+          );
+        }
+      }
+
+      await db.getClient().shadowScore.createMany({ data: rows });
+    } catch (error) {
+      logger.error({ error, tradeId }, 'Failed to record shadow scores');
+    }
+  }
+}
+
+// Export singleton instance
+export const shadowScorer = ShadowScorerService.getInstance();
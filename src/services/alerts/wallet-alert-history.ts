@@ -0,0 +1,114 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * A wallet's earlier alerts, by classification and outcome
+ */
+export interface WalletAlertHistory {
+  priorAlerts: number;
+  strongInsider: number;
+  highConfidence: number;
+  mediumConfidence: number;
+  won: number; // Resolved in the wallet's favour
+  lost: number;
+}
+
+/**
+ * Count alerts by classification and resolved outcome
+ */
+export function summarizeAlertHistory(
+  alerts: { classification: string; outcome: string | null }[]
+): WalletAlertHistory {
+  return {
+    priorAlerts: alerts.length,
+    strongInsider: alerts.filter(
+      (a) => a.classification === 'ALERT_STRONG_INSIDER'
+    ).length,
+    highConfidence: alerts.filter(
+      (a) => a.classification === 'ALERT_HIGH_CONFIDENCE'
+    ).length,
+    mediumConfidence: alerts.filter(
+      (a) => a.classification === 'ALERT_MEDIUM_CONFIDENCE'
+    ).length,
+    won: alerts.filter((a) => a.outcome === 'won').length,
+    lost: alerts.filter((a) => a.outcome === 'lost').length,
+  };
+}
+
+/**
+ * One-line summary for notifications ("3 (1 strong, 2 high; 2 won)")
+ */
+export function formatAlertHistory(history: WalletAlertHistory): string {
+  const tiers = [
+    history.strongInsider > 0 ? `${history.strongInsider} strong` : null,
+    history.highConfidence > 0 ? `${history.highConfidence} high` : null,
+    history.mediumConfidence > 0 ? `${history.mediumConfidence} medium` : null,
+  ].filter((part) => part !== null);
+  const outcomes = [
+    history.won > 0 ? `${history.won} won` : null,
+    history.lost > 0 ? `${history.lost} lost` : null,
+  ].filter((part) => part !== null);
+
+  const details = [tiers.join(', '), outcomes.join(', ')]
+    .filter((part) => part !== '')
+    .join('; ');
+  return details !== ''
+    ? `${history.priorAlerts} (${details})`
+    : `${history.priorAlerts}`;
+}
+
+/**
+ * Wallet alert history
+ * Looks up a wallet's alerts before a trade for the scorer's repeat-offender
+ * bonus. Dismissed alerts are left out.
+ */
+class WalletAlertHistoryService {
+  private static instance: WalletAlertHistoryService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): WalletAlertHistoryService {
+    if (WalletAlertHistoryService.instance === null) {
+      WalletAlertHistoryService.instance = new WalletAlertHistoryService();
+    }
+    return WalletAlertHistoryService.instance;
+  }
+
+  /**
+   * Alerts on a wallet strictly before `before` (ms)
+   * Returns null if the lookup fails (no bonus is better than a wrong one).
+   */
+  public async getHistory(
+    walletAddress: string,
+    before: number
+  ): Promise<WalletAlertHistory | null> {
+    try {
+      const alerts = await db.getClient().alert.findMany({
+        where: {
+          walletAddress,
+          timestamp: { lt: new Date(before) },
+          dismissed: false,
+        },
+        select: { classification: true, outcome: true },
+      });
+      return summarizeAlertHistory(alerts);
+    } catch (error) {
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          wallet: walletAddress.substring(0, 10) + '...',
+        },
+        'Failed to load wallet alert history'
+      );
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const walletAlertHistory = WalletAlertHistoryService.getInstance();
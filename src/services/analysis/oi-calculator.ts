@@ -1,5 +1,8 @@
 import { logger } from '../../utils/logger.js';
-import { getThresholds } from '../../config/thresholds.js';
+import {
+  getThresholds,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
 import axios, { AxiosError } from 'axios';
 import { getEnv } from '../../config/env.js';
 import { redis } from '../cache/redis.js';
@@ -13,13 +16,25 @@ export interface LiquidityData {
   orderbookDepth: number;
 }
 
-interface VolumeData {
+export interface VolumeData {
   volume24h: number;
   volumeNh: number; // N hours based on config
   recentTrades: number;
 }
 
-interface ImpactResult {
+/**
+ * Optional inputs that replace live lookups during impact calculation.
+ * Used when replaying historical trades, where "now" is not the trade time.
+ */
+export interface ImpactContext {
+  thresholds?: DetectionThresholds;
+  /** Orderbook liquidity to use as-is (null = unknown, skips CLOB fetch) */
+  liquidityData?: LiquidityData | null;
+  /** Pre-computed volume for the lookback window (skips Data API fetch) */
+  volumeData?: VolumeData | null;
+}
+
+export interface ImpactResult {
   impactPercentage: number;
   method: string;
   meetsThreshold: boolean;
@@ -85,9 +100,10 @@ export class OiCalculationService {
     marketId: string,
     openInterest: number,
     outcome?: 'yes' | 'no',
-    cachedLiquidityData?: LiquidityData | null
+    cachedLiquidityData?: LiquidityData | null,
+    context: ImpactContext = {}
   ): Promise<ImpactResult> {
-    const thresholds = getThresholds();
+    const thresholds = context.thresholds ?? getThresholds();
     const method = thresholds.oiCalculationMethod;
 
     try {
@@ -98,20 +114,30 @@ export class OiCalculationService {
             tradeSide,
             marketId,
             openInterest,
+            thresholds,
             outcome,
-            cachedLiquidityData
+            context.liquidityData !== undefined
+              ? context.liquidityData
+              : cachedLiquidityData,
+            context.liquidityData !== undefined
           );
 
         case 'volume':
           return await this.calculateVolumeImpact(
             tradeUsdValue,
             marketId,
-            openInterest
+            openInterest,
+            thresholds,
+            context.volumeData
           );
 
         case 'oi':
         default:
-          return this.calculateOiImpact(tradeUsdValue, openInterest);
+          return this.calculateOiImpact(
+            tradeUsdValue,
+            openInterest,
+            thresholds
+          );
       }
     } catch (error) {
       logger.warn(
@@ -124,9 +150,13 @@ export class OiCalculationService {
         'Impact calculation failed, attempting fallback'
       );
 
-      const thresholds = getThresholds();
       if (thresholds.fallbackToOiCalculation) {
-        return this.calculateOiImpact(tradeUsdValue, openInterest, true);
+        return this.calculateOiImpact(
+          tradeUsdValue,
+          openInterest,
+          thresholds,
+          true
+        );
       }
 
       throw error;
@@ -138,15 +168,16 @@ export class OiCalculationService {
     tradeSide: 'buy' | 'sell',
     marketId: string,
     openInterest: number,
+    thresholds: DetectionThresholds,
     outcome?: 'yes' | 'no',
-    cachedLiquidityData?: LiquidityData | null
+    cachedLiquidityData?: LiquidityData | null,
+    skipFetch: boolean = false
   ): Promise<ImpactResult> {
-    const thresholds = getThresholds();
-
     // Use cached data if provided, otherwise fetch
-    const liquidity =
-      cachedLiquidityData ??
-      (await this.getAvailableLiquidity(marketId, tradeSide, outcome));
+    const liquidity = skipFetch
+      ? (cachedLiquidityData ?? null)
+      : (cachedLiquidityData ??
+        (await this.getAvailableLiquidity(marketId, tradeSide, outcome)));
 
     if (!liquidity || liquidity.availableLiquidity <= 0) {
       if (thresholds.fallbackToOiCalculation) {
@@ -154,7 +185,12 @@ export class OiCalculationService {
           { marketId, tradeSide },
           'No liquidity data available, falling back to OI calculation'
         );
-        return this.calculateOiImpact(tradeUsdValue, openInterest, true);
+        return this.calculateOiImpact(
+          tradeUsdValue,
+          openInterest,
+          thresholds,
+          true
+        );
       }
       throw new Error(`No liquidity data available for market ${marketId}`);
     }
@@ -184,11 +220,14 @@ export class OiCalculationService {
   private async calculateVolumeImpact(
     tradeUsdValue: number,
     marketId: string,
-    openInterest: number
+    openInterest: number,
+    thresholds: DetectionThresholds,
+    precomputedVolume?: VolumeData | null
   ): Promise<ImpactResult> {
-    const thresholds = getThresholds();
-
-    const volumeData = await this.getRecentVolume(marketId);
+    const volumeData =
+      precomputedVolume !== undefined
+        ? precomputedVolume
+        : await this.getRecentVolume(marketId);
 
     if (!volumeData || volumeData.volumeNh <= 0) {
       if (thresholds.fallbackToOiCalculation) {
@@ -196,7 +235,12 @@ export class OiCalculationService {
           { marketId },
           'No volume data available, falling back to OI calculation'
         );
-        return this.calculateOiImpact(tradeUsdValue, openInterest, true);
+        return this.calculateOiImpact(
+          tradeUsdValue,
+          openInterest,
+          thresholds,
+          true
+        );
       }
       throw new Error(`No volume data available for market ${marketId}`);
     }
@@ -223,10 +267,9 @@ export class OiCalculationService {
   private calculateOiImpact(
     tradeUsdValue: number,
     openInterest: number,
+    thresholds: DetectionThresholds,
     isFallback: boolean = false
   ): ImpactResult {
-    const thresholds = getThresholds();
-
     if (openInterest <= 0) {
       return {
         impactPercentage: 0,
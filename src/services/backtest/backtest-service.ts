@@ -0,0 +1,668 @@
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+
+import {
+  getThresholds,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
+import { db } from '../database/prisma.js';
+import { signalDetector } from '../signals/signal-detector.js';
+import { timingAnalyzer } from '../signals/timing-analyzer.js';
+import type { MarketCatalyst } from '../polymarket/market-event-service.js';
+import {
+  walletForensicsService,
+  type WalletFlags,
+  type WalletHistorySnapshot,
+} from '../blockchain/wallet-forensics.js';
+import {
+  alertScorer,
+  type AlertClassification,
+  type AlertScore,
+} from '../alerts/alert-scorer.js';
+import type { VolumeData } from '../analysis/oi-calculator.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat, calculateUsdValue } from '../../utils/decimals.js';
+import type { PolymarketTrade } from '../../types/index.js';
+
+// Same window the live pipeline uses for cluster detection
+const CLUSTER_WINDOW_MS = 2 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Market snapshot used during replay
+ * OI and volume are the latest stored values (no history is kept)
+ */
+export interface BacktestMarket {
+  id: string;
+  question: string;
+  slug: string;
+  openInterest: number;
+  volume: number;
+  endDate?: string;
+  category?: string;
+  events: MarketCatalyst[]; // Scheduled catalysts, soonest first
+}
+
+/**
+ * Options for a backtest run
+ */
+export interface BacktestOptions {
+  from: Date;
+  to: Date;
+  /** Detection thresholds to replay with (defaults to current thresholds) */
+  thresholds?: DetectionThresholds;
+  /** Hours of trades before `from` used only to build wallet/market state */
+  warmupHours?: number;
+  /** Read trades from a JSONL export instead of the Trade table */
+  inputPath?: string;
+}
+
+/**
+ * A trade that would have produced an alert
+ */
+export interface BacktestAlert {
+  tradeId: string;
+  marketId: string;
+  marketQuestion: string;
+  walletAddress: string;
+  timestamp: string; // ISO
+  side: 'buy' | 'sell';
+  outcome: 'yes' | 'no';
+  price: number;
+  tradeUsdValue: number;
+  totalScore: number;
+  classification: AlertClassification;
+  breakdown: AlertScore['breakdown'];
+  multipliers: AlertScore['multipliers'];
+  walletFlags: WalletFlags;
+}
+
+/**
+ * Backtest report
+ */
+export interface BacktestReport {
+  generatedAt: string;
+  source: 'database' | 'jsonl';
+  range: { from: string; to: string };
+  tradesLoaded: number;
+  tradesReplayed: number;
+  warmupTrades: number;
+  // Same counter names as the live stats:signal_detector / stats:alert_scorer hashes
+  funnel: Record<string, number>;
+  classificationCounts: Record<AlertClassification, number>;
+  wouldBeAlerts: BacktestAlert[];
+  thresholds: DetectionThresholds;
+  limitations: string[];
+}
+
+interface WalletState {
+  tradeCount: number;
+  volumeUSD: number;
+  firstTradeTimestamp: number;
+  lastTradeTimestamp: number;
+  tradesPerMarket: Map<string, number>;
+}
+
+interface MarketTradeEntry {
+  timestamp: number;
+  usdValue: number;
+  side: string;
+  outcome: string;
+  taker: string;
+}
+
+/**
+ * Mutable state built up while replaying trades in timestamp order
+ */
+interface ReplayState {
+  wallets: Map<string, WalletState>;
+  marketTrades: Map<string, MarketTradeEntry[]>;
+  marketLastTrade: Map<string, number>;
+}
+
+/**
+ * Raw trade line accepted from a JSONL export
+ */
+interface JsonlTradeRecord {
+  id: string;
+  marketId: string;
+  side: string;
+  size: string | number;
+  price: string | number;
+  outcome: string;
+  maker?: string;
+  taker: string;
+  timestamp: string | number;
+}
+
+/**
+ * Backtest service
+ * Replays stored trades through analyzeTrade, wallet forensics and the
+ * scorer using only data available at each trade's timestamp.
+ * Never notifies, persists alerts or touches live stats counters.
+ */
+class BacktestService {
+  private static instance: BacktestService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): BacktestService {
+    if (BacktestService.instance === null) {
+      BacktestService.instance = new BacktestService();
+    }
+    return BacktestService.instance;
+  }
+
+  /**
+   * Load trades and markets, then replay them
+   */
+  public async run(options: BacktestOptions): Promise<BacktestReport> {
+    const warmupHours = options.warmupHours ?? 7 * 24;
+    const loadFrom = new Date(options.from.getTime() - warmupHours * HOUR_MS);
+
+    const trades =
+      options.inputPath !== undefined
+        ? await this.loadTradesFromJsonl(
+            options.inputPath,
+            loadFrom,
+            options.to
+          )
+        : await this.loadTradesFromDatabase(loadFrom, options.to);
+
+    const markets = await this.loadMarkets(
+      Array.from(new Set(trades.map((t) => t.marketId)))
+    );
+
+    return this.replay(trades, markets, {
+      from: options.from,
+      to: options.to,
+      thresholds: options.thresholds ?? getThresholds(),
+      source: options.inputPath !== undefined ? 'jsonl' : 'database',
+    });
+  }
+
+  /**
+   * Load stored trades in a time range (oldest first)
+   */
+  public async loadTradesFromDatabase(
+    from: Date,
+    to: Date
+  ): Promise<PolymarketTrade[]> {
+    const prisma = db.getClient();
+    const rows = await prisma.trade.findMany({
+      where: { timestamp: { gte: from, lte: to } },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return rows.map((row) => ({
+      id: row.id,
+      marketId: row.marketId,
+      side: row.side as 'buy' | 'sell',
+      size: row.size.toString(),
+      price: row.price.toString(),
+      timestamp: row.timestamp.getTime(),
+      maker: row.maker,
+      taker: row.taker,
+      outcome: row.outcome as 'yes' | 'no',
+      source: 'subgraph',
+    }));
+  }
+
+  /**
+   * Load trades from a JSONL export (one trade per line)
+   * Timestamps may be Unix ms or ISO strings
+   */
+  public async loadTradesFromJsonl(
+    path: string,
+    from: Date,
+    to: Date
+  ): Promise<PolymarketTrade[]> {
+    const trades: PolymarketTrade[] = [];
+    const lines = createInterface({
+      input: createReadStream(path, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    let lineNumber = 0;
+    for await (const line of lines) {
+      lineNumber++;
+      if (line.trim() === '') continue;
+
+      try {
+        const record = JSON.parse(line) as JsonlTradeRecord;
+        const timestamp =
+          typeof record.timestamp === 'number'
+            ? record.timestamp
+            : new Date(record.timestamp).getTime();
+
+        if (!isFinite(timestamp)) {
+          throw new Error(`Invalid timestamp: ${record.timestamp}`);
+        }
+        if (timestamp < from.getTime() || timestamp > to.getTime()) {
+          continue;
+        }
+
+        trades.push({
+          id: record.id,
+          marketId: record.marketId,
+          side: record.side.toLowerCase() as 'buy' | 'sell',
+          size: record.size.toString(),
+          price: record.price.toString(),
+          timestamp,
+          maker: (record.maker ?? '').toLowerCase(),
+          taker: record.taker.toLowerCase(),
+          outcome: record.outcome.toLowerCase() as 'yes' | 'no',
+          source: 'subgraph',
+        });
+      } catch (error) {
+        logger.warn(
+          {
+            path,
+            lineNumber,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Skipping invalid JSONL trade line'
+        );
+      }
+    }
+
+    return trades.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Load market snapshots for the given IDs
+   */
+  public async loadMarkets(
+    marketIds: string[]
+  ): Promise<Map<string, BacktestMarket>> {
+    const prisma = db.getClient();
+    const rows = await prisma.market.findMany({
+      where: { id: { in: marketIds } },
+      select: {
+        id: true,
+        question: true,
+        slug: true,
+        openInterest: true,
+        volume: true,
+        endDate: true,
+        category: true,
+        events: {
+          select: { id: true, title: true, eventType: true, scheduledAt: true },
+          orderBy: { scheduledAt: 'asc' },
+        },
+      },
+    });
+
+    const markets = new Map<string, BacktestMarket>();
+    for (const row of rows) {
+      markets.set(row.id, {
+        id: row.id,
+        question: row.question,
+        slug: row.slug,
+        openInterest: safeParseFloat(row.openInterest.toString()),
+        volume: safeParseFloat(row.volume.toString()),
+        ...(row.endDate !== null && { endDate: row.endDate.toISOString() }),
+        ...(row.category !== null && { category: row.category }),
+        events: row.events.map((event) => ({
+          ...event,
+          scheduledAt: event.scheduledAt.toISOString(),
+        })),
+      });
+    }
+    return markets;
+  }
+
+  /**
+   * Replay trades (sorted oldest first) through the scoring pipeline.
+   * Trades before `from` only warm up wallet and market state.
+   */
+  public async replay(
+    trades: PolymarketTrade[],
+    markets: Map<string, BacktestMarket>,
+    params: {
+      from: Date;
+      to: Date;
+      thresholds: DetectionThresholds;
+      source: BacktestReport['source'];
+    }
+  ): Promise<BacktestReport> {
+    const { thresholds } = params;
+    const fromMs = params.from.getTime();
+    const toMs = params.to.getTime();
+
+    const funnel: Record<string, number> = {};
+    const recordStat = (field: string): void => {
+      funnel[field] = (funnel[field] ?? 0) + 1;
+    };
+
+    const classificationCounts: Record<AlertClassification, number> = {
+      ALERT_STRONG_INSIDER: 0,
+      ALERT_HIGH_CONFIDENCE: 0,
+      ALERT_MEDIUM_CONFIDENCE: 0,
+      LOG_ONLY: 0,
+      IGNORE: 0,
+    };
+
+    const state: ReplayState = {
+      wallets: new Map(),
+      marketTrades: new Map(),
+      marketLastTrade: new Map(),
+    };
+    // Keep enough market history for volume and cluster lookbacks
+    const retentionMs =
+      Math.max(thresholds.volumeLookbackHours, 24) * HOUR_MS +
+      CLUSTER_WINDOW_MS;
+
+    const wouldBeAlerts: BacktestAlert[] = [];
+    let tradesReplayed = 0;
+    let warmupTrades = 0;
+
+    logger.info(
+      {
+        trades: trades.length,
+        markets: markets.size,
+        from: params.from.toISOString(),
+        to: params.to.toISOString(),
+      },
+      '⏪ Starting backtest replay'
+    );
+
+    for (const trade of trades) {
+      if (trade.timestamp > toMs) break;
+
+      const tradeUsdValue = calculateUsdValue(
+        safeParseFloat(trade.size),
+        safeParseFloat(trade.price)
+      );
+
+      if (trade.timestamp < fromMs) {
+        warmupTrades++;
+        this.recordTrade(state, trade, tradeUsdValue, retentionMs);
+        continue;
+      }
+
+      tradesReplayed++;
+      const market = markets.get(trade.marketId);
+
+      if (market === undefined) {
+        recordStat('skipped_unknown_market');
+        this.recordTrade(state, trade, tradeUsdValue, retentionMs);
+        continue;
+      }
+
+      const previousMarketTrade =
+        state.marketLastTrade.get(trade.marketId) ?? null;
+
+      const signal = await signalDetector.analyzeTrade(trade, {
+        thresholds,
+        marketData: {
+          openInterest: market.openInterest.toString(),
+          volume: market.volume.toString(),
+        },
+        // No orderbook history - liquidity method falls back to OI
+        liquidityData: null,
+        volumeData: this.getVolumeAt(
+          state,
+          trade.marketId,
+          trade.timestamp,
+          thresholds.volumeLookbackHours
+        ),
+        recordStat,
+      });
+
+      // The wallet's own trade counts towards its history (as with the Data API)
+      const previousWalletTrade =
+        state.wallets.get(trade.taker)?.lastTradeTimestamp ?? null;
+      this.recordTrade(state, trade, tradeUsdValue, retentionMs);
+
+      if (signal === null) continue;
+
+      const walletFingerprint =
+        walletForensicsService.buildHistoricalFingerprint(
+          trade.taker,
+          this.getWalletSnapshot(
+            state,
+            trade.taker,
+            trade.timestamp,
+            previousWalletTrade
+          ),
+          {
+            tradeSizeUSD: signal.tradeUsdValue,
+            marketOI: parseFloat(signal.openInterest),
+          },
+          thresholds
+        );
+
+      const score = await alertScorer.calculateScore(
+        {
+          tradeSignal: signal,
+          walletFingerprint,
+          entryProbability: safeParseFloat(trade.price),
+          marketEndDate: market.endDate,
+          marketCategory: market.category,
+          nextCatalyst: this.getNextCatalyst(market, trade.timestamp),
+          timingWindows: timingAnalyzer.evaluate(
+            trade.timestamp,
+            market.id,
+            market.category
+          ),
+          clusterWalletCount: this.getClusterWalletCount(state, trade),
+          previousMarketTradeTimestamp: previousMarketTrade,
+        },
+        { recordStat }
+      );
+
+      classificationCounts[score.classification]++;
+
+      if (alertScorer.shouldAlert(score)) {
+        wouldBeAlerts.push({
+          tradeId: trade.id,
+          marketId: trade.marketId,
+          marketQuestion: market.question,
+          walletAddress: trade.taker,
+          timestamp: new Date(trade.timestamp).toISOString(),
+          side: trade.side,
+          outcome: trade.outcome,
+          price: safeParseFloat(trade.price),
+          tradeUsdValue: signal.tradeUsdValue,
+          totalScore: score.totalScore,
+          classification: score.classification,
+          breakdown: score.breakdown,
+          multipliers: score.multipliers,
+          walletFlags: walletFingerprint.walletFlags,
+        });
+      }
+    }
+
+    logger.info(
+      {
+        tradesReplayed,
+        warmupTrades,
+        wouldBeAlerts: wouldBeAlerts.length,
+        classificationCounts,
+      },
+      '✅ Backtest replay complete'
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      source: params.source,
+      range: { from: params.from.toISOString(), to: params.to.toISOString() },
+      tradesLoaded: trades.length,
+      tradesReplayed,
+      warmupTrades,
+      funnel,
+      classificationCounts,
+      wouldBeAlerts,
+      thresholds,
+      limitations: [
+        'Open interest and volume come from the latest market snapshot',
+        'Orderbook history is unavailable - liquidity impact falls back to OI',
+        'Wallet history only covers stored trades on monitored markets',
+        'Wallets are analyzed by proxy address (no signer resolution)',
+      ],
+    };
+  }
+
+  /**
+   * Add a trade to wallet and market state
+   */
+  private recordTrade(
+    state: ReplayState,
+    trade: PolymarketTrade,
+    usdValue: number,
+    retentionMs: number
+  ): void {
+    const wallet = state.wallets.get(trade.taker);
+    if (wallet === undefined) {
+      state.wallets.set(trade.taker, {
+        tradeCount: 1,
+        volumeUSD: usdValue,
+        firstTradeTimestamp: trade.timestamp,
+        lastTradeTimestamp: trade.timestamp,
+        tradesPerMarket: new Map([[trade.marketId, 1]]),
+      });
+    } else {
+      wallet.tradeCount++;
+      wallet.volumeUSD += usdValue;
+      wallet.lastTradeTimestamp = trade.timestamp;
+      wallet.tradesPerMarket.set(
+        trade.marketId,
+        (wallet.tradesPerMarket.get(trade.marketId) ?? 0) + 1
+      );
+    }
+
+    let entries = state.marketTrades.get(trade.marketId);
+    if (entries === undefined) {
+      entries = [];
+      state.marketTrades.set(trade.marketId, entries);
+    }
+    entries.push({
+      timestamp: trade.timestamp,
+      usdValue,
+      side: trade.side,
+      outcome: trade.outcome,
+      taker: trade.taker,
+    });
+
+    // Drop entries older than any lookback we need
+    const cutoff = trade.timestamp - retentionMs;
+    let stale = 0;
+    while (stale < entries.length && entries[stale]!.timestamp < cutoff) {
+      stale++;
+    }
+    if (stale > 0) entries.splice(0, stale);
+
+    state.marketLastTrade.set(trade.marketId, trade.timestamp);
+  }
+
+  /**
+   * Market volume in the lookback window before a trade
+   */
+  private getVolumeAt(
+    state: ReplayState,
+    marketId: string,
+    timestamp: number,
+    lookbackHours: number
+  ): VolumeData {
+    const entries = state.marketTrades.get(marketId) ?? [];
+    const lookbackStart = timestamp - lookbackHours * HOUR_MS;
+    const dayStart = timestamp - 24 * HOUR_MS;
+
+    let volumeNh = 0;
+    let volume24h = 0;
+    let recentTrades = 0;
+    for (const entry of entries) {
+      if (entry.timestamp > timestamp) continue;
+      if (entry.timestamp >= lookbackStart) {
+        volumeNh += entry.usdValue;
+        recentTrades++;
+      }
+      if (entry.timestamp >= dayStart) {
+        volume24h += entry.usdValue;
+      }
+    }
+
+    return { volumeNh, volume24h: volume24h || volumeNh, recentTrades };
+  }
+
+  /**
+   * Wallet activity as of a trade (including the trade itself)
+   */
+  private getWalletSnapshot(
+    state: ReplayState,
+    address: string,
+    asOf: number,
+    previousTradeTimestamp: number | null
+  ): WalletHistorySnapshot {
+    const wallet = state.wallets.get(address);
+    if (wallet === undefined) {
+      return {
+        asOf,
+        tradeCount: 0,
+        volumeUSD: 0,
+        firstTradeTimestamp: null,
+        lastTradeTimestamp: null,
+        tradesPerMarket: new Map(),
+      };
+    }
+
+    return {
+      asOf,
+      tradeCount: wallet.tradeCount,
+      volumeUSD: wallet.volumeUSD,
+      firstTradeTimestamp: wallet.firstTradeTimestamp,
+      // Dormancy is measured from the wallet's previous trade
+      lastTradeTimestamp: previousTradeTimestamp,
+      tradesPerMarket: new Map(wallet.tradesPerMarket),
+    };
+  }
+
+  /**
+   * Market's next scheduled catalyst at or after the trade
+   */
+  private getNextCatalyst(
+    market: BacktestMarket,
+    timestamp: number
+  ): MarketCatalyst | null {
+    return (
+      market.events.find(
+        (event) => new Date(event.scheduledAt).getTime() >= timestamp
+      ) ?? null
+    );
+  }
+
+  /**
+   * Distinct other wallets on the same market/side/outcome in the cluster window
+   */
+  private getClusterWalletCount(
+    state: ReplayState,
+    trade: PolymarketTrade
+  ): number {
+    const entries = state.marketTrades.get(trade.marketId) ?? [];
+    const cutoff = trade.timestamp - CLUSTER_WINDOW_MS;
+    const wallets = new Set<string>();
+
+    for (const entry of entries) {
+      if (
+        entry.timestamp >= cutoff &&
+        entry.timestamp <= trade.timestamp &&
+        entry.side === trade.side &&
+        entry.outcome === trade.outcome &&
+        entry.taker !== trade.taker
+      ) {
+        wallets.add(entry.taker);
+      }
+    }
+
+    return wallets.size;
+  }
+}
+
+// Export singleton instance
+export const backtestService = BacktestService.getInstance();
@@ -0,0 +1,366 @@
+import {
+  getThresholds,
+  type DetectionThresholds,
+  type NumericThreshold,
+} from '../../config/thresholds.js';
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import { backtestService, type BacktestReport } from './backtest-service.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MONTH_MS = 30 * 24 * HOUR_MS;
+
+// Every combination is a full replay - keep grids small enough to finish
+export const MAX_GRID_COMBINATIONS = 500;
+
+export interface ThresholdRange {
+  field: NumericThreshold;
+  values: number[];
+}
+
+// Label for fills of wallets ranked by a who-knew report
+export const WHO_KNEW_LABEL = 'who_knew';
+
+export type TunerSortKey = 'f1' | 'precision' | 'recall';
+
+export const TUNER_SORT_KEYS: readonly TunerSortKey[] = [
+  'f1',
+  'precision',
+  'recall',
+];
+
+/**
+ * Replay outcome for one threshold combination
+ */
+export interface ThresholdGridResult {
+  rank: number;
+  overrides: Partial<Record<NumericThreshold, number>>;
+  alerts: number;
+  alertsPerMonth: number;
+  labeledAlerts: number; // Would-be alerts with an analyst label
+  truePositives: number;
+  falsePositives: number;
+  precision: number | null; // truePositives / labeledAlerts
+  recall: number | null; // truePositives / positive trades in the window
+  f1: number | null;
+  classificationCounts: BacktestReport['classificationCounts'];
+}
+
+export interface ThresholdTuningReport {
+  generatedAt: string;
+  source: BacktestReport['source'];
+  range: { from: string; to: string };
+  tradesLoaded: number;
+  positiveLabels: string[];
+  labeledTrades: number; // Labeled alerts whose trade was replayed
+  positiveTrades: number;
+  combinations: number;
+  sortBy: TunerSortKey;
+  baseThresholds: DetectionThresholds;
+  results: ThresholdGridResult[]; // Best first
+  limitations: string[];
+}
+
+export interface ThresholdTuningOptions {
+  from: Date;
+  to: Date;
+  ranges: ThresholdRange[];
+  /** Trade history before `from` used only for wallet/market state */
+  warmupHours?: number;
+  /** Read trades from a JSONL export instead of the Trade table */
+  inputPath?: string;
+  /** Labels counted as insiders, incl. WHO_KNEW_LABEL (default: true_insider) */
+  positiveLabels?: string[];
+  sortBy?: TunerSortKey;
+}
+
+/**
+ * Parse a `field=values` range spec
+ * Values are either a list (`3,5,8`) or an inclusive `start:end:step` sweep
+ */
+export function parseThresholdRange(spec: string): ThresholdRange {
+  const [field, values] = spec.split('=', 2);
+  if (field === undefined || values === undefined || values === '') {
+    throw new Error(`Invalid range "${spec}" - expected field=values`);
+  }
+
+  const base = getThresholds();
+  if (
+    !(field in base) ||
+    typeof base[field as keyof DetectionThresholds] !== 'number'
+  ) {
+    throw new Error(`"${field}" is not a numeric DetectionThresholds field`);
+  }
+
+  let parsed: number[];
+  if (values.includes(':')) {
+    const [start, end, step] = values.split(':').map(Number);
+    if (
+      start === undefined ||
+      end === undefined ||
+      step === undefined ||
+      !Number.isFinite(start) ||
+      !Number.isFinite(end) ||
+      !Number.isFinite(step) ||
+      step <= 0 ||
+      end < start
+    ) {
+      throw new Error(
+        `Invalid sweep "${values}" for ${field} - expected start:end:step`
+      );
+    }
+    // Multiply instead of accumulating so float steps don't drift
+    const count = Math.floor((end - start) / step + 1e-9) + 1;
+    parsed = Array.from({ length: count }, (_, i) =>
+      Number((start + i * step).toFixed(10))
+    );
+  } else {
+    parsed = values.split(',').map((value) => Number(value.trim()));
+    if (parsed.some((value) => !Number.isFinite(value))) {
+      throw new Error(`Invalid values "${values}" for ${field}`);
+    }
+  }
+
+  return {
+    field: field as NumericThreshold,
+    values: [...new Set(parsed)],
+  };
+}
+
+/**
+ * Every combination of the range values (cartesian product)
+ */
+export function buildThresholdGrid(
+  ranges: ThresholdRange[]
+): Array<Partial<Record<NumericThreshold, number>>> {
+  const fields = new Set<string>();
+  for (const range of ranges) {
+    if (fields.has(range.field)) {
+      throw new Error(`Duplicate range for ${range.field}`);
+    }
+    fields.add(range.field);
+  }
+
+  const size = ranges.reduce((n, range) => n * range.values.length, 1);
+  if (size > MAX_GRID_COMBINATIONS) {
+    throw new Error(
+      `Grid has ${size} combinations - the maximum is ${MAX_GRID_COMBINATIONS}`
+    );
+  }
+
+  let grid: Array<Partial<Record<NumericThreshold, number>>> = [{}];
+  for (const range of ranges) {
+    grid = grid.flatMap((combination) =>
+      range.values.map((value) => ({ ...combination, [range.field]: value }))
+    );
+  }
+  return grid;
+}
+
+/**
+ * Threshold grid search
+ * Replays the same historical trades once per threshold combination and
+ * scores each run against analyst labels (precision, recall, volume)
+ */
+class ThresholdTunerService {
+  private static instance: ThresholdTunerService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ThresholdTunerService {
+    if (ThresholdTunerService.instance === null) {
+      ThresholdTunerService.instance = new ThresholdTunerService();
+    }
+    return ThresholdTunerService.instance;
+  }
+
+  /**
+   * Run the grid search and rank the combinations
+   */
+  public async run(
+    options: ThresholdTuningOptions
+  ): Promise<ThresholdTuningReport> {
+    const grid = buildThresholdGrid(options.ranges);
+    const positiveLabels = options.positiveLabels ?? ['true_insider'];
+    const sortBy = options.sortBy ?? 'f1';
+    const warmupHours = options.warmupHours ?? 7 * 24;
+    const loadFrom = new Date(options.from.getTime() - warmupHours * HOUR_MS);
+    const source: BacktestReport['source'] =
+      options.inputPath !== undefined ? 'jsonl' : 'database';
+
+    // Load once - every combination replays the same trades
+    const trades =
+      options.inputPath !== undefined
+        ? await backtestService.loadTradesFromJsonl(
+            options.inputPath,
+            loadFrom,
+            options.to
+          )
+        : await backtestService.loadTradesFromDatabase(loadFrom, options.to);
+    const markets = await backtestService.loadMarkets(
+      Array.from(new Set(trades.map((t) => t.marketId)))
+    );
+
+    // Labels only count for trades inside the replay window
+    const replayedTradeIds = new Set(
+      trades
+        .filter(
+          (t) =>
+            t.timestamp >= options.from.getTime() &&
+            t.timestamp <= options.to.getTime()
+        )
+        .map((t) => t.id)
+    );
+    const labels = await this.loadTradeLabels(options.from, options.to);
+    for (const tradeId of labels.keys()) {
+      if (!replayedTradeIds.has(tradeId)) labels.delete(tradeId);
+    }
+    const positiveTrades = [...labels.values()].filter((label) =>
+      positiveLabels.includes(label)
+    ).length;
+
+    const baseThresholds = getThresholds();
+    const months =
+      (options.to.getTime() - options.from.getTime()) / MONTH_MS || 1;
+
+    logger.info(
+      {
+        combinations: grid.length,
+        trades: trades.length,
+        labeledTrades: labels.size,
+        positiveTrades,
+      },
+      '🎛️ Starting threshold grid search'
+    );
+
+    const results: ThresholdGridResult[] = [];
+    for (const [i, overrides] of grid.entries()) {
+      const report = await backtestService.replay(trades, markets, {
+        from: options.from,
+        to: options.to,
+        thresholds: { ...baseThresholds, ...overrides },
+        source,
+      });
+
+      let truePositives = 0;
+      let falsePositives = 0;
+      for (const alert of report.wouldBeAlerts) {
+        const label = labels.get(alert.tradeId);
+        if (label === undefined) continue;
+        if (positiveLabels.includes(label)) truePositives++;
+        else falsePositives++;
+      }
+
+      const labeledAlerts = truePositives + falsePositives;
+      const precision =
+        labeledAlerts > 0 ? truePositives / labeledAlerts : null;
+      const recall = positiveTrades > 0 ? truePositives / positiveTrades : null;
+      const f1 =
+        precision !== null && recall !== null && precision + recall > 0
+          ? (2 * precision * recall) / (precision + recall)
+          : null;
+
+      results.push({
+        rank: 0,
+        overrides,
+        alerts: report.wouldBeAlerts.length,
+        alertsPerMonth: report.wouldBeAlerts.length / months,
+        labeledAlerts,
+        truePositives,
+        falsePositives,
+        precision,
+        recall,
+        f1,
+        classificationCounts: report.classificationCounts,
+      });
+
+      logger.info(
+        { combination: i + 1, of: grid.length, overrides },
+        '🎛️ Combination replayed'
+      );
+    }
+
+    // Best metric first (unknown last), then fewer alerts
+    results.sort(
+      (a, b) => (b[sortBy] ?? -1) - (a[sortBy] ?? -1) || a.alerts - b.alerts
+    );
+    results.forEach((result, i) => {
+      result.rank = i + 1;
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      source,
+      range: {
+        from: options.from.toISOString(),
+        to: options.to.toISOString(),
+      },
+      tradesLoaded: trades.length,
+      positiveLabels,
+      labeledTrades: labels.size,
+      positiveTrades,
+      combinations: grid.length,
+      sortBy,
+      baseThresholds,
+      results,
+      limitations: [
+        'Labels exist only for trades that alerted in production, so precision ignores unlabeled would-be alerts',
+        'Recall is measured against labeled insider trades, not every insider',
+        'who_knew labels cover every fill of a ranked wallet, not only the ones an analyst would flag',
+        'Scorer filters and alert threshold (ALERT_THRESHOLD, MIN_WALLET_SCORE) are not swept',
+        'Replay limitations of the backtest apply (latest OI snapshot, no orderbook history)',
+      ],
+    };
+  }
+
+  /**
+   * Effective (most recent) label per alerted trade in the window, plus
+   * WHO_KNEW_LABEL for fills ranked by who-knew reports on moves in the
+   * window (an analyst label on the same trade wins)
+   */
+  private async loadTradeLabels(
+    from: Date,
+    to: Date
+  ): Promise<Map<string, string>> {
+    const alerts = await db.getClient().alert.findMany({
+      where: {
+        labels: { some: {} },
+        timestamp: { gte: from, lte: to },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        tradeId: true,
+        labels: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { label: true },
+        },
+      },
+    });
+
+    const whoKnewWallets = await db.getClient().whoKnewWallet.findMany({
+      where: { report: { moveAt: { gte: from, lte: to } } },
+      select: { tradeIds: true },
+    });
+
+    const labels = new Map<string, string>();
+    for (const wallet of whoKnewWallets) {
+      for (const tradeId of wallet.tradeIds) {
+        labels.set(tradeId, WHO_KNEW_LABEL);
+      }
+    }
+    for (const alert of alerts) {
+      const label = alert.labels[0]?.label;
+      if (label !== undefined) labels.set(alert.tradeId, label);
+    }
+    return labels;
+  }
+}
+
+// Export singleton instance
+export const thresholdTuner = ThresholdTunerService.getInstance();
@@ -276,7 +276,12 @@ function calculateCompleteness(
     fieldsExpected += 3; // activity, recentTrades, positions
     if (dataApiData.activity) fieldsPresent++;
     if (dataApiData.recentTrades.length > 0) fieldsPresent++;
-    if (dataApiData.positions.length > 0) fieldsPresent++;
+    if (
+      dataApiData.positions.length > 0 ||
+      dataApiData.closedPositions.length > 0
+    ) {
+      fieldsPresent++;
+    }
   }
 
   return fieldsExpected > 0
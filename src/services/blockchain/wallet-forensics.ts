@@ -3,15 +3,20 @@ import { polymarketDataApi } from '../polymarket/data-api-client.js';
 import { redis } from '../cache/redis.js';
 import { db, type PrismaClient } from '../database/prisma.js';
 import { logger } from '../../utils/logger.js';
-import { getThresholds } from '../../config/thresholds.js';
+import {
+  getThresholds,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
 import { normalizeVolume } from '../../utils/decimals.js';
 import { DecisionFramework } from '../data/decision-framework.js';
 import { calculateConfidence } from './confidence-calculator.js';
+import {
+  summarizeWalletPerformance,
+  type WalletPerformance,
+} from './wallet-performance.js';
 import type { FingerprintStatus, DataCompleteness } from '../../types/index.js';
 import { withLock } from '../../utils/distributed-lock.js';
 
-const thresholds = getThresholds();
-
 /**
  * Wallet analysis flags for insider detection
  * Derived from Polymarket Data API
@@ -23,6 +28,8 @@ export interface WalletFlags {
   highConcentration: boolean; // Most value in one market
   freshFatBet: boolean; // New wallet + large bet pattern
   lowDiversification: boolean; // Trades only 1-3 markets (insider signal)
+  highWinRate: boolean; // Won most positions held to resolution
+  lowOddsWinner: boolean; // Keeps winning low-probability bets (insider signal)
 }
 
 // Keep old name as alias for backwards compatibility
@@ -45,7 +52,8 @@ export interface WalletFingerprint {
     maxPositionConcentration: number;
     marketsTraded: number; // Distinct markets traded (for diversification check)
     lastTradeTimestamp: number | null; // Unix timestamp of last trade (for wallet dormancy)
-    dataSource: 'subgraph' | 'data-api' | 'mixed' | 'cache';
+    performance?: WalletPerformance | null; // Closed-position track record (absent on fingerprints taken before it was read)
+    dataSource: 'subgraph' | 'data-api' | 'mixed' | 'cache' | 'trade-history';
   };
   // Alias for backwards compatibility
   subgraphMetadata: WalletFingerprint['walletMetadata'];
@@ -77,14 +85,25 @@ export interface WalletFingerprint {
   };
 }
 
+/**
+ * Wallet activity known at a point in time, built from stored trades.
+ * Used to fingerprint a wallet as it looked when a historical trade happened.
+ */
+export interface WalletHistorySnapshot {
+  asOf: number; // Unix ms - the moment the snapshot describes
+  tradeCount: number;
+  volumeUSD: number;
+  firstTradeTimestamp: number | null; // Unix ms
+  lastTradeTimestamp: number | null; // Unix ms
+  tradesPerMarket: Map<string, number>;
+}
+
 /**
  * Simplified wallet forensics service - Polymarket subgraph only
  * Since Polymarket uses proxy wallets, on-chain analysis is not useful
  */
 class WalletForensicsService {
   private static instance: WalletForensicsService | null = null;
-  private readonly SUBGRAPH_CACHE_TTL_SECONDS =
-    thresholds.walletCacheTTLHours * 3600;
 
   // In-memory cache for recently analyzed wallets (faster than Redis)
   // Key: address, Value: { fingerprint, timestamp }
@@ -227,6 +246,153 @@ class WalletForensicsService {
     return fingerprint;
   }
 
+  /**
+   * Build a fingerprint from a point-in-time activity snapshot.
+   * Pure - no API calls, caching or persistence (used for backtesting).
+   */
+  public buildHistoricalFingerprint(
+    address: string,
+    history: WalletHistorySnapshot,
+    tradeContext?: { tradeSizeUSD: number; marketOI: number },
+    flagThresholds: DetectionThresholds = getThresholds()
+  ): WalletFingerprint {
+    const normalizedAddress = address.toLowerCase().trim();
+
+    if (history.tradeCount === 0) {
+      const fingerprint = this.createNewUserFingerprint(
+        normalizedAddress,
+        tradeContext,
+        flagThresholds
+      );
+      fingerprint.analyzedAt = new Date(history.asOf);
+      fingerprint.walletMetadata.dataSource = 'trade-history';
+      return fingerprint;
+    }
+
+    const accountAgeDays =
+      history.firstTradeTimestamp !== null
+        ? Math.floor(
+            (history.asOf - history.firstTradeTimestamp) / (1000 * 60 * 60 * 24)
+          )
+        : null;
+
+    const maxMarketTrades = Math.max(...history.tradesPerMarket.values(), 0);
+    const maxPositionConcentration =
+      (maxMarketTrades / history.tradeCount) * 100;
+    const marketsTraded = history.tradesPerMarket.size;
+
+    // Closed positions aren't known point-in-time
+    const walletFlags = this.calculateFlagsFromDataApi(
+      history.tradeCount,
+      history.volumeUSD,
+      accountAgeDays,
+      maxPositionConcentration,
+      marketsTraded,
+      null,
+      tradeContext,
+      flagThresholds
+    );
+
+    const suspiciousFlagCount =
+      Object.values(walletFlags).filter(Boolean).length;
+
+    const metadata = {
+      polymarketTradeCount: history.tradeCount,
+      polymarketVolumeUSD: history.volumeUSD,
+      polymarketAccountAgeDays: accountAgeDays,
+      maxPositionConcentration,
+      marketsTraded,
+      lastTradeTimestamp: history.lastTradeTimestamp,
+      dataSource: 'trade-history' as const,
+    };
+
+    return {
+      address: normalizedAddress,
+      status: 'success' as FingerprintStatus,
+      isSuspicious: suspiciousFlagCount >= 2,
+      dataCompleteness: {
+        dataApi: false,
+        subgraph: false,
+        cache: false,
+        timestamp: history.asOf,
+      },
+      // Stored history only covers monitored markets
+      confidenceLevel: 'medium',
+      walletFlags,
+      subgraphFlags: walletFlags, // Backwards compatibility alias
+      walletMetadata: metadata,
+      subgraphMetadata: metadata, // Backwards compatibility alias
+      analyzedAt: new Date(history.asOf),
+      // Backwards compatibility
+      flags: {
+        cexFunded: false,
+        lowTxCount: walletFlags.lowTradeCount,
+        youngWallet: walletFlags.youngAccount,
+        highPolymarketNetflow: true,
+        singlePurpose: walletFlags.highConcentration,
+      },
+      metadata: {
+        totalTransactions: history.tradeCount,
+        walletAgeDays: accountAgeDays ?? 0,
+        firstSeenTimestamp: history.firstTradeTimestamp,
+        cexFundingSource: null,
+        cexFundingTimestamp: null,
+        polymarketNetflowPercentage: 100,
+        uniqueProtocolsInteracted: 1,
+      },
+    };
+  }
+
+  /**
+   * Recompute a fingerprint's flags from its stored metadata with the given
+   * thresholds. Pure - used to rescore past trades against current settings.
+   */
+  public reflagFingerprint(
+    fingerprint: WalletFingerprint,
+    tradeContext?: { tradeSizeUSD: number; marketOI: number },
+    flagThresholds: DetectionThresholds = getThresholds()
+  ): WalletFingerprint {
+    // Error fingerprints carry no metadata to re-evaluate
+    if (fingerprint.status === 'error') return fingerprint;
+
+    const metadata = fingerprint.walletMetadata;
+    if (metadata.polymarketTradeCount === 0) {
+      const newUser = this.createNewUserFingerprint(
+        fingerprint.address,
+        tradeContext,
+        flagThresholds
+      );
+      newUser.analyzedAt = fingerprint.analyzedAt;
+      return newUser;
+    }
+
+    const walletFlags = this.calculateFlagsFromDataApi(
+      metadata.polymarketTradeCount,
+      metadata.polymarketVolumeUSD,
+      metadata.polymarketAccountAgeDays,
+      metadata.maxPositionConcentration,
+      metadata.marketsTraded,
+      metadata.performance ?? null,
+      tradeContext,
+      flagThresholds
+    );
+    const suspiciousFlagCount =
+      Object.values(walletFlags).filter(Boolean).length;
+
+    return {
+      ...fingerprint,
+      isSuspicious: suspiciousFlagCount >= 2,
+      walletFlags,
+      subgraphFlags: walletFlags, // Backwards compatibility alias
+      flags: {
+        ...fingerprint.flags,
+        lowTxCount: walletFlags.lowTradeCount,
+        youngWallet: walletFlags.youngAccount,
+        singlePurpose: walletFlags.highConcentration,
+      },
+    };
+  }
+
   /**
    * Update in-memory cache with cleanup
    */
@@ -359,6 +525,12 @@ class WalletForensicsService {
       // Count distinct markets for diversification check
       const marketsTraded = marketCounts.size;
 
+      // Win rate and realized PnL from closed positions
+      const performance = summarizeWalletPerformance(
+        dataApiData.closedPositions,
+        getThresholds().walletLowOddsMaxPrice
+      );
+
       // Calculate flags using Data API data
       const walletFlags = this.calculateFlagsFromDataApi(
         tradeCount,
@@ -366,6 +538,7 @@ class WalletForensicsService {
         accountAgeDays,
         maxPositionConcentration,
         marketsTraded,
+        performance,
         tradeContext
       );
 
@@ -418,6 +591,7 @@ class WalletForensicsService {
         maxPositionConcentration,
         marketsTraded,
         lastTradeTimestamp: lastTradeTs,
+        performance,
         dataSource: 'data-api' as const,
       };
 
@@ -468,6 +642,8 @@ class WalletForensicsService {
           volumeUSD,
           accountAgeDays,
           marketsTraded,
+          winRate: performance.winRate,
+          realizedPnl: performance.realizedPnl.toFixed(2),
           dataSource: 'data-api',
         },
         'Wallet analysis complete via Data API'
@@ -506,27 +682,29 @@ class WalletForensicsService {
     accountAgeDays: number | null,
     maxPositionConcentration: number,
     marketsTraded: number,
-    tradeContext?: { tradeSizeUSD: number; marketOI: number }
+    performance: WalletPerformance | null,
+    tradeContext?: { tradeSizeUSD: number; marketOI: number },
+    flagThresholds: DetectionThresholds = getThresholds()
   ): WalletFlags {
     // lowTradeCount: Wallet has fewer than threshold trades
-    const lowTradeCount = tradeCount <= thresholds.walletLowTradeCount;
+    const lowTradeCount = tradeCount <= flagThresholds.walletLowTradeCount;
 
     // youngAccount: Wallet first trade is recent
     const youngAccount =
       accountAgeDays === null ||
-      accountAgeDays <= thresholds.walletYoungAccountDays;
+      accountAgeDays <= flagThresholds.walletYoungAccountDays;
 
     // lowVolume: Lifetime volume below threshold
-    const lowVolume = volumeUSD <= thresholds.walletLowVolumeUSD;
+    const lowVolume = volumeUSD <= flagThresholds.walletLowVolumeUSD;
 
     // highConcentration: Majority of position value in one market
     const highConcentration =
-      maxPositionConcentration >= thresholds.walletHighConcentrationPct;
+      maxPositionConcentration >= flagThresholds.walletHighConcentrationPct;
 
     // lowDiversification: Only trades 1-3 distinct markets (INSIDER SIGNAL)
     // Whales diversify across many markets, insiders focus on what they know
     const diversificationThreshold =
-      thresholds.walletDiversificationThreshold ?? 3;
+      flagThresholds.walletDiversificationThreshold ?? 3;
     const lowDiversification = marketsTraded <= diversificationThreshold;
 
     // freshFatBet: New wallet making large bets
@@ -534,11 +712,11 @@ class WalletForensicsService {
     if (tradeContext) {
       const priorTrades = tradeCount - 1;
       const isLargeTrade =
-        tradeContext.tradeSizeUSD >= thresholds.walletFreshFatBetSizeUSD;
+        tradeContext.tradeSizeUSD >= flagThresholds.walletFreshFatBetSizeUSD;
       const isSmallMarket =
-        tradeContext.marketOI <= thresholds.walletFreshFatBetMaxOI;
+        tradeContext.marketOI <= flagThresholds.walletFreshFatBetMaxOI;
       const isFreshAccount =
-        priorTrades <= thresholds.walletFreshFatBetPriorTrades;
+        priorTrades <= flagThresholds.walletFreshFatBetPriorTrades;
 
       freshFatBet = isLargeTrade && isSmallMarket && isFreshAccount;
 
@@ -567,6 +745,33 @@ class WalletForensicsService {
       );
     }
 
+    // highWinRate: Won most positions held to resolution
+    const highWinRate =
+      performance !== null &&
+      performance.winRate !== null &&
+      performance.resolvedPositions >=
+        flagThresholds.walletPerformanceMinResolved &&
+      performance.winRate * 100 >= flagThresholds.walletHighWinRatePct;
+
+    // lowOddsWinner: Keeps winning bets the market priced as unlikely
+    const lowOddsWinner =
+      performance !== null &&
+      performance.lowOddsWins >= flagThresholds.walletLowOddsMinWins &&
+      (performance.lowOddsWins / performance.lowOddsPositions) * 100 >=
+        flagThresholds.walletLowOddsWinRatePct;
+
+    if (lowOddsWinner) {
+      logger.info(
+        {
+          lowOddsWins: performance.lowOddsWins,
+          lowOddsPositions: performance.lowOddsPositions,
+          lowOddsMaxPrice: performance.lowOddsMaxPrice,
+          avgWinningEntry: performance.avgWinningEntry,
+        },
+        '🎰 Low-odds winner: wallet keeps winning unlikely bets'
+      );
+    }
+
     return {
       lowTradeCount,
       youngAccount,
@@ -574,6 +779,8 @@ class WalletForensicsService {
       highConcentration,
       freshFatBet,
       lowDiversification,
+      highWinRate,
+      lowOddsWinner,
     };
   }
 
@@ -586,6 +793,7 @@ class WalletForensicsService {
     data: SubgraphWalletData,
     tradeContext?: { tradeSizeUSD: number; marketOI: number }
   ): WalletFlags {
+    const thresholds = getThresholds();
     const clobActivity = data.clobActivity;
     const splitActivity = data.activity;
     const positions = data.positions;
@@ -661,6 +869,8 @@ class WalletForensicsService {
       highConcentration,
       freshFatBet,
       lowDiversification,
+      highWinRate: false, // Subgraph has no closed positions
+      lowOddsWinner: false,
     };
   }
 
@@ -814,6 +1024,8 @@ class WalletForensicsService {
       highConcentration: false, // Can't determine without position data
       freshFatBet: false, // Can't determine without trade context
       lowDiversification: true,
+      highWinRate: false, // Can't determine without closed positions
+      lowOddsWinner: false,
     };
 
     const dataSource: 'cache' | 'data-api' = dataCompleteness.cache
@@ -866,12 +1078,13 @@ class WalletForensicsService {
    */
   private createNewUserFingerprint(
     address: string,
-    tradeContext?: { tradeSizeUSD: number; marketOI: number }
+    tradeContext?: { tradeSizeUSD: number; marketOI: number },
+    flagThresholds: DetectionThresholds = getThresholds()
   ): WalletFingerprint {
     const freshFatBet =
       tradeContext &&
-      tradeContext.tradeSizeUSD >= thresholds.walletFreshFatBetSizeUSD &&
-      tradeContext.marketOI <= thresholds.walletFreshFatBetMaxOI;
+      tradeContext.tradeSizeUSD >= flagThresholds.walletFreshFatBetSizeUSD &&
+      tradeContext.marketOI <= flagThresholds.walletFreshFatBetMaxOI;
 
     const walletFlags: WalletFlags = {
       lowTradeCount: true,
@@ -880,6 +1093,8 @@ class WalletForensicsService {
       highConcentration: true, // First trade = 100% concentration
       freshFatBet: freshFatBet ?? false,
       lowDiversification: true, // New user = 1 market = low diversification
+      highWinRate: false, // No closed positions yet
+      lowOddsWinner: false,
     };
 
     // Use consistent logic: count flags >= 2 = suspicious
@@ -970,7 +1185,7 @@ class WalletForensicsService {
       await redis.setJSON(
         `wallet:subgraph:${address}`,
         fingerprint,
-        this.SUBGRAPH_CACHE_TTL_SECONDS
+        getThresholds().walletCacheTTLHours * 3600
       );
     } catch (error) {
       logger.warn({ error, address }, 'Failed to cache subgraph fingerprint');
@@ -0,0 +1,53 @@
+import type { DataApiClosedPosition } from '../polymarket/data-api-client.js';
+
+// curPrice a closed position settles at once its market resolves
+const RESOLVED_WIN_PRICE = 0.99;
+const RESOLVED_LOSS_PRICE = 0.01;
+
+/**
+ * Track record built from a wallet's closed positions
+ */
+export interface WalletPerformance {
+  closedPositions: number; // Closed positions read (sold out or resolved)
+  resolvedPositions: number; // Held until the market resolved
+  wins: number;
+  winRate: number | null; // wins / resolvedPositions (0-1), null when none resolved
+  realizedPnl: number; // USD across all closed positions
+  avgWinningEntry: number | null; // Share-weighted entry price on winners
+  lowOddsMaxPrice: number; // Entry price cut-off the low-odds counts used
+  lowOddsPositions: number; // Resolved positions entered at or below the cut-off
+  lowOddsWins: number;
+}
+
+/**
+ * Summarize closed positions into win rate, realized PnL and entry prices
+ * A position counts as resolved when its final price settled at 0 or 1;
+ * positions sold before resolution only add to realized PnL.
+ */
+export function summarizeWalletPerformance(
+  positions: DataApiClosedPosition[],
+  lowOddsMaxPrice: number
+): WalletPerformance {
+  const won = positions.filter((p) => p.curPrice >= RESOLVED_WIN_PRICE);
+  const lost = positions.filter((p) => p.curPrice <= RESOLVED_LOSS_PRICE);
+  const resolved = [...won, ...lost];
+
+  const wonShares = won.reduce((sum, p) => sum + p.totalBought, 0);
+  const lowOdds = resolved.filter((p) => p.avgPrice <= lowOddsMaxPrice);
+
+  return {
+    closedPositions: positions.length,
+    resolvedPositions: resolved.length,
+    wins: won.length,
+    winRate: resolved.length > 0 ? won.length / resolved.length : null,
+    realizedPnl: positions.reduce((sum, p) => sum + (p.realizedPnl || 0), 0),
+    avgWinningEntry:
+      wonShares > 0
+        ? won.reduce((sum, p) => sum + p.avgPrice * p.totalBought, 0) /
+          wonShares
+        : null,
+    lowOddsMaxPrice,
+    lowOddsPositions: lowOdds.length,
+    lowOddsWins: lowOdds.filter((p) => p.curPrice >= RESOLVED_WIN_PRICE).length,
+  };
+}
@@ -0,0 +1,729 @@
+import type { Prisma, ThresholdChange } from '@prisma/client';
+
+import {
+  getBaseThresholds,
+  getEnvThresholds,
+  getThresholdOverrides,
+  getThresholds,
+  setThresholdOverrides,
+  THRESHOLD_BOUNDS,
+  validateThresholdValue,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
+import {
+  MARKET_CATEGORIES,
+  type MarketCategory,
+  type ScorerConfig,
+} from '../alerts/scorer-config.js';
+import { db } from '../database/prisma.js';
+import { marketService } from '../polymarket/market-service.js';
+import { logger } from '../../utils/logger.js';
+import type { Result } from '../../types/index.js';
+
+export type ThresholdValue = DetectionThresholds[keyof DetectionThresholds];
+
+/**
+ * Scope of a per-market override
+ * Precedence: market > category > tier > global
+ */
+export type ThresholdScope = 'market' | 'category' | 'tier';
+
+export const THRESHOLD_SCOPES: readonly ThresholdScope[] = [
+  'market',
+  'category',
+  'tier',
+];
+
+const MARKET_TIERS: readonly string[] = ['1', '2', '3'];
+
+/**
+ * Detection fields that can be scoped: the trade size and impact checks.
+ * Wallet flags are cached per wallet, and dormancy and orderbook settings
+ * apply to the market feed, so those stay global.
+ */
+export const SCOPED_DETECTION_KEYS: ReadonlyArray<keyof DetectionThresholds> = [
+  'oiCalculationMethod',
+  'minLiquidityImpactPercentage',
+  'fallbackToOiCalculation',
+  'fallbackOiPercentage',
+  'minVolumeImpactPercentage',
+  'minOiPercentage',
+  'absoluteMinUsd',
+  'relativeLiquidityFactor',
+  'accumulationWindowHours',
+  'accumulationMinTrades',
+];
+
+/**
+ * Scorer hard filters that can be scoped (MIN_TRADE_SIZE_USD, MIN_OI_USD)
+ */
+export type ScopedScorerKey = 'minTradeSizeUsd' | 'minOiUsd';
+
+export const SCOPED_SCORER_BOUNDS: Record<
+  ScopedScorerKey,
+  { min: number; max: number }
+> = {
+  minTradeSizeUsd: { min: 0, max: 10000000 }, // max $10M
+  minOiUsd: { min: 0, max: 100000000 }, // max $100M
+};
+
+export interface ThresholdOverrideRecord {
+  key: string;
+  value: ThresholdValue;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface ScopedThresholdOverrideRecord extends ThresholdOverrideRecord {
+  scope: ThresholdScope;
+  scopeValue: string;
+}
+
+/**
+ * Audit trail entry for one threshold change
+ */
+export interface ThresholdChangeRecord {
+  id: string;
+  key: string;
+  scope: ThresholdScope | null; // null = global
+  scopeValue: string | null;
+  // Global: effective value before/after. Scoped: the scope's override (null = none)
+  previousValue: ThresholdValue | null;
+  newValue: ThresholdValue | null;
+  cleared: boolean; // Override removed
+  changedBy: string;
+  createdAt: string;
+}
+
+export interface ThresholdState {
+  thresholds: DetectionThresholds; // Effective values
+  envThresholds: DetectionThresholds; // Env vars and defaults only
+  baseThresholds: DetectionThresholds; // Active profile, else env values
+  overrides: ThresholdOverrideRecord[];
+  bounds: typeof THRESHOLD_BOUNDS;
+}
+
+/**
+ * Thresholds in force for one market, with the scoped overrides applied
+ */
+export interface MarketThresholdResolution {
+  marketId: string;
+  category: string;
+  tier: number;
+  thresholds: DetectionThresholds;
+  scorer: Pick<ScorerConfig, ScopedScorerKey>;
+  // In the order applied (tier, category, market - later wins)
+  overrides: Array<{
+    scope: ThresholdScope;
+    scopeValue: string;
+    key: string;
+    value: ThresholdValue;
+  }>;
+}
+
+export interface ThresholdHistoryFilters {
+  key?: string;
+  scope?: ThresholdScope | 'global';
+  scopeValue?: string;
+}
+
+/**
+ * Overrides stored for one scope, split by where they apply
+ */
+interface ScopeLayer {
+  detection: Partial<DetectionThresholds>;
+  scorer: Partial<Pick<ScorerConfig, ScopedScorerKey>>;
+}
+
+interface PendingChange {
+  key: string;
+  value: ThresholdValue | null; // null = clear the override
+  previousValue: ThresholdValue | null;
+  newValue: ThresholdValue | null;
+}
+
+function isScopedScorerKey(key: string): key is ScopedScorerKey {
+  return key in SCOPED_SCORER_BOUNDS;
+}
+
+function isScopedKey(key: string): boolean {
+  return (
+    isScopedScorerKey(key) ||
+    SCOPED_DETECTION_KEYS.includes(key as keyof DetectionThresholds)
+  );
+}
+
+function notScopedError(key: string): string {
+  const allowed = [
+    ...SCOPED_DETECTION_KEYS,
+    ...Object.keys(SCOPED_SCORER_BOUNDS),
+  ];
+  return `"${key}" can't be scoped - use one of: ${allowed.join(', ')}`;
+}
+
+/**
+ * Check a scoped override value
+ * Returns an error message, or null when the value is valid
+ */
+function validateScopedValue(key: string, value: unknown): string | null {
+  if (isScopedScorerKey(key)) {
+    const bounds = SCOPED_SCORER_BOUNDS[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `${key} must be a number`;
+    }
+    return value < bounds.min || value > bounds.max
+      ? `${key} must be between ${bounds.min} and ${bounds.max}`
+      : null;
+  }
+
+  return isScopedKey(key)
+    ? validateThresholdValue(key, value)
+    : notScopedError(key);
+}
+
+/**
+ * Threshold manager
+ * Stores DetectionThresholds overrides in the database and applies them live
+ * (getThresholds() merges them over the env values). Every instance reloads
+ * the overrides periodically, so a change made on one reaches all of them.
+ * Overrides can also be scoped to a market, category or tier; those are
+ * resolved per trade by the signal detector and scorer.
+ */
+class ThresholdManagerService {
+  private static instance: ThresholdManagerService | null = null;
+  private reloadInterval: NodeJS.Timeout | null = null;
+  private readonly RELOAD_INTERVAL_SECONDS: number;
+
+  // Scoped overrides keyed by `${scope}:${scopeValue}`
+  private scopeLayers = new Map<string, ScopeLayer>();
+
+  private constructor() {
+    this.RELOAD_INTERVAL_SECONDS =
+      Number(process.env['THRESHOLD_RELOAD_INTERVAL_SECONDS']) || 30;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ThresholdManagerService {
+    if (ThresholdManagerService.instance === null) {
+      ThresholdManagerService.instance = new ThresholdManagerService();
+    }
+    return ThresholdManagerService.instance;
+  }
+
+  /**
+   * Load stored overrides and start reloading them periodically
+   */
+  public async start(): Promise<void> {
+    if (this.reloadInterval !== null) {
+      logger.warn('Threshold manager already running');
+      return;
+    }
+
+    try {
+      const count = await this.reload();
+      logger.info(
+        {
+          overrides: count,
+          scopes: this.scopeLayers.size,
+          reloadSeconds: this.RELOAD_INTERVAL_SECONDS,
+        },
+        '🎛️ Threshold overrides loaded'
+      );
+    } catch (error) {
+      logger.error(
+        { error },
+        'Failed to load threshold overrides - using env thresholds'
+      );
+    }
+
+    this.reloadInterval = setInterval(() => {
+      this.reload().catch((error: unknown) => {
+        logger.error({ error }, 'Failed to reload threshold overrides');
+      });
+    }, this.RELOAD_INTERVAL_SECONDS * 1000);
+  }
+
+  /**
+   * Stop reloading overrides
+   */
+  public stop(): void {
+    if (this.reloadInterval !== null) {
+      clearInterval(this.reloadInterval);
+      this.reloadInterval = null;
+      logger.info('Threshold manager stopped');
+    }
+  }
+
+  /**
+   * Apply the stored overrides, skipping any that no longer validate
+   * Returns the number of global overrides applied
+   */
+  public async reload(): Promise<number> {
+    const prisma = db.getClient();
+    const [rows, scopedRows] = await Promise.all([
+      prisma.thresholdOverride.findMany(),
+      prisma.scopedThresholdOverride.findMany(),
+    ]);
+
+    const overrides: Record<string, ThresholdValue> = {};
+    for (const row of rows) {
+      const error = validateThresholdValue(row.key, row.value);
+      if (error !== null) {
+        logger.warn(
+          { key: row.key, value: row.value, error },
+          'Ignoring invalid stored threshold override'
+        );
+        continue;
+      }
+      overrides[row.key] = row.value as ThresholdValue;
+    }
+
+    const scopeLayers = new Map<string, ScopeLayer>();
+    for (const row of scopedRows) {
+      const error = validateScopedValue(row.key, row.value);
+      if (error !== null) {
+        logger.warn(
+          {
+            scope: row.scope,
+            scopeValue: row.scopeValue,
+            key: row.key,
+            value: row.value,
+            error,
+          },
+          'Ignoring invalid stored scoped threshold override'
+        );
+        continue;
+      }
+
+      const layerKey = `${row.scope}:${row.scopeValue}`;
+      const layer = scopeLayers.get(layerKey) ?? { detection: {}, scorer: {} };
+      const target: Record<string, unknown> = isScopedScorerKey(row.key)
+        ? layer.scorer
+        : layer.detection;
+      target[row.key] = row.value;
+      scopeLayers.set(layerKey, layer);
+    }
+
+    setThresholdOverrides(overrides as Partial<DetectionThresholds>);
+    this.scopeLayers = scopeLayers;
+    return Object.keys(overrides).length;
+  }
+
+  /**
+   * Effective detection thresholds for a market (global + scoped overrides)
+   */
+  public getThresholdsForMarket(marketId: string): DetectionThresholds {
+    return this.getLayers(marketId).reduce<DetectionThresholds>(
+      (thresholds, { layer }) => ({ ...thresholds, ...layer.detection }),
+      getThresholds()
+    );
+  }
+
+  /**
+   * Scorer config with a market's scoped hard filters applied
+   */
+  public getScorerConfigForMarket(
+    config: ScorerConfig,
+    marketId: string
+  ): ScorerConfig {
+    return this.getLayers(marketId).reduce<ScorerConfig>(
+      (resolved, { layer }) => ({ ...resolved, ...layer.scorer }),
+      config
+    );
+  }
+
+  /**
+   * Resolved thresholds for a monitored market and the overrides behind them
+   * Returns null when the market is not monitored
+   */
+  public getMarketResolution(
+    marketId: string,
+    scorerConfig: ScorerConfig
+  ): MarketThresholdResolution | null {
+    const market = marketService.getMarket(marketId);
+    if (market === undefined) return null;
+
+    const scorer = this.getScorerConfigForMarket(scorerConfig, marketId);
+    return {
+      marketId,
+      category: market.category,
+      tier: market.tier,
+      thresholds: this.getThresholdsForMarket(marketId),
+      scorer: {
+        minTradeSizeUsd: scorer.minTradeSizeUsd,
+        minOiUsd: scorer.minOiUsd,
+      },
+      overrides: this.getLayers(marketId).flatMap(
+        ({ scope, scopeValue, layer }) =>
+          Object.entries({ ...layer.detection, ...layer.scorer }).map(
+            ([key, value]) => ({
+              scope,
+              scopeValue,
+              key,
+              value: value as ThresholdValue,
+            })
+          )
+      ),
+    };
+  }
+
+  /**
+   * Effective thresholds, env values and stored overrides
+   */
+  public async getState(): Promise<ThresholdState> {
+    const rows = await db.getClient().thresholdOverride.findMany({
+      orderBy: { key: 'asc' },
+    });
+
+    return {
+      thresholds: getThresholds(),
+      envThresholds: getEnvThresholds(),
+      baseThresholds: getBaseThresholds(),
+      overrides: rows.map((row) => ({
+        key: row.key,
+        value: row.value as ThresholdValue,
+        updatedBy: row.updatedBy,
+        updatedAt: row.updatedAt.toISOString(),
+      })),
+      bounds: THRESHOLD_BOUNDS,
+    };
+  }
+
+  /**
+   * Stored scoped overrides, optionally for one scope
+   */
+  public async getScopedOverrides(
+    filters: { scope?: ThresholdScope; scopeValue?: string } = {}
+  ): Promise<ScopedThresholdOverrideRecord[]> {
+    const rows = await db.getClient().scopedThresholdOverride.findMany({
+      where: {
+        ...(filters.scope !== undefined && { scope: filters.scope }),
+        ...(filters.scopeValue !== undefined && {
+          scopeValue: filters.scopeValue,
+        }),
+      },
+      orderBy: [{ scope: 'asc' }, { scopeValue: 'asc' }, { key: 'asc' }],
+    });
+
+    return rows.map((row) => ({
+      scope: row.scope as ThresholdScope,
+      scopeValue: row.scopeValue,
+      key: row.key,
+      value: row.value as ThresholdValue,
+      updatedBy: row.updatedBy,
+      updatedAt: row.updatedAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Set or clear (null) global overrides and record each change
+   * All updates are validated first - nothing is stored if any is invalid.
+   * Returns the recorded changes (unchanged values are skipped).
+   */
+  public async update(
+    updates: Record<string, unknown>,
+    changedBy: string
+  ): Promise<Result<ThresholdChangeRecord[], string>> {
+    const entries = Object.entries(updates);
+    if (entries.length === 0) {
+      return { success: false, error: 'No threshold updates given' };
+    }
+
+    for (const [key, value] of entries) {
+      const error =
+        value === null
+          ? key in getEnvThresholds()
+            ? null
+            : `Unknown threshold "${key}"`
+          : validateThresholdValue(key, value);
+      if (error !== null) {
+        return { success: false, error };
+      }
+    }
+
+    // Start from the stored state so changes made elsewhere aren't lost
+    await this.reload();
+    const baseThresholds = getBaseThresholds();
+    const previous = getThresholds();
+    const changes = this.diff(entries, getThresholdOverrides(), (key) => ({
+      previousValue: previous[key as keyof DetectionThresholds],
+      clearedValue: baseThresholds[key as keyof DetectionThresholds],
+    }));
+
+    if (changes.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const rows = await db.getClient().$transaction(async (tx) => {
+      const created: ThresholdChange[] = [];
+      for (const change of changes) {
+        if (change.value === null) {
+          await tx.thresholdOverride.delete({ where: { key: change.key } });
+        } else {
+          await tx.thresholdOverride.upsert({
+            where: { key: change.key },
+            create: {
+              key: change.key,
+              value: change.value,
+              updatedBy: changedBy,
+            },
+            update: { value: change.value, updatedBy: changedBy },
+          });
+        }
+        created.push(
+          await tx.thresholdChange.create({
+            data: this.toChangeData(change, changedBy),
+          })
+        );
+      }
+      return created;
+    });
+
+    await this.reload();
+
+    logger.info(
+      {
+        changedBy,
+        changes: changes.map((c) => ({
+          key: c.key,
+          from: c.previousValue,
+          to: c.newValue,
+        })),
+      },
+      '🎛️ Thresholds updated'
+    );
+
+    return { success: true, data: rows.map((row) => this.toRecord(row)) };
+  }
+
+  /**
+   * Set or clear (null) overrides for one market, category or tier
+   * Same all-or-nothing validation and audit trail as global updates.
+   */
+  public async updateScoped(
+    scope: ThresholdScope,
+    scopeValue: string,
+    updates: Record<string, unknown>,
+    changedBy: string
+  ): Promise<Result<ThresholdChangeRecord[], string>> {
+    const entries = Object.entries(updates);
+    if (entries.length === 0) {
+      return { success: false, error: 'No threshold updates given' };
+    }
+
+    const scopeError = await this.validateScope(scope, scopeValue);
+    if (scopeError !== null) {
+      return { success: false, error: scopeError };
+    }
+
+    for (const [key, value] of entries) {
+      const error =
+        value === null
+          ? isScopedKey(key)
+            ? null
+            : notScopedError(key)
+          : validateScopedValue(key, value);
+      if (error !== null) {
+        return { success: false, error };
+      }
+    }
+
+    await this.reload();
+    const layer = this.scopeLayers.get(`${scope}:${scopeValue}`);
+    const current: Record<string, unknown> = {
+      ...layer?.detection,
+      ...layer?.scorer,
+    };
+    const changes = this.diff(entries, current, (key) => ({
+      previousValue: (current[key] as ThresholdValue | undefined) ?? null,
+      clearedValue: null,
+    }));
+
+    if (changes.length === 0) {
+      return { success: true, data: [] };
+    }
+
+    const rows = await db.getClient().$transaction(async (tx) => {
+      const created: ThresholdChange[] = [];
+      for (const change of changes) {
+        const where = {
+          scope_scopeValue_key: { scope, scopeValue, key: change.key },
+        };
+        if (change.value === null) {
+          await tx.scopedThresholdOverride.delete({ where });
+        } else {
+          await tx.scopedThresholdOverride.upsert({
+            where,
+            create: {
+              scope,
+              scopeValue,
+              key: change.key,
+              value: change.value,
+              updatedBy: changedBy,
+            },
+            update: { value: change.value, updatedBy: changedBy },
+          });
+        }
+        created.push(
+          await tx.thresholdChange.create({
+            data: {
+              ...this.toChangeData(change, changedBy),
+              scope,
+              scopeValue,
+            },
+          })
+        );
+      }
+      return created;
+    });
+
+    await this.reload();
+
+    logger.info(
+      {
+        scope,
+        scopeValue,
+        changedBy,
+        changes: changes.map((c) => ({
+          key: c.key,
+          from: c.previousValue,
+          to: c.newValue,
+        })),
+      },
+      '🎛️ Scoped thresholds updated'
+    );
+
+    return { success: true, data: rows.map((row) => this.toRecord(row)) };
+  }
+
+  /**
+   * Recent threshold changes, newest first
+   */
+  public async getHistory(
+    limit: number,
+    filters: ThresholdHistoryFilters = {}
+  ): Promise<ThresholdChangeRecord[]> {
+    const rows = await db.getClient().thresholdChange.findMany({
+      where: {
+        ...(filters.key !== undefined && { key: filters.key }),
+        ...(filters.scope !== undefined && {
+          scope: filters.scope === 'global' ? null : filters.scope,
+        }),
+        ...(filters.scopeValue !== undefined && {
+          scopeValue: filters.scopeValue,
+        }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  /**
+   * Scoped overrides that apply to a market, lowest precedence first
+   */
+  private getLayers(
+    marketId: string
+  ): Array<{ scope: ThresholdScope; scopeValue: string; layer: ScopeLayer }> {
+    if (this.scopeLayers.size === 0) return [];
+    const market = marketService.getMarket(marketId);
+    if (market === undefined) return [];
+
+    const scopes: Array<[ThresholdScope, string]> = [
+      ['tier', String(market.tier)],
+      ['category', market.category],
+      ['market', market.id],
+    ];
+    return scopes.flatMap(([scope, scopeValue]) => {
+      const layer = this.scopeLayers.get(`${scope}:${scopeValue}`);
+      return layer !== undefined ? [{ scope, scopeValue, layer }] : [];
+    });
+  }
+
+  /**
+   * Check that a scope value names an existing market, category or tier
+   */
+  private async validateScope(
+    scope: ThresholdScope,
+    scopeValue: string
+  ): Promise<string | null> {
+    switch (scope) {
+      case 'category':
+        return MARKET_CATEGORIES.includes(scopeValue as MarketCategory)
+          ? null
+          : `category must be one of: ${MARKET_CATEGORIES.join(', ')}`;
+      case 'tier':
+        return MARKET_TIERS.includes(scopeValue)
+          ? null
+          : `tier must be one of: ${MARKET_TIERS.join(', ')}`;
+      case 'market': {
+        const market = await db.getClient().market.findUnique({
+          where: { id: scopeValue },
+          select: { id: true },
+        });
+        return market !== null ? null : `Market not found: ${scopeValue}`;
+      }
+    }
+  }
+
+  /**
+   * Changes that actually alter the stored overrides
+   */
+  private diff(
+    entries: Array<[string, unknown]>,
+    current: Record<string, unknown>,
+    values: (key: string) => {
+      previousValue: ThresholdValue | null;
+      clearedValue: ThresholdValue | null;
+    }
+  ): PendingChange[] {
+    const changes: PendingChange[] = [];
+    for (const [key, value] of entries) {
+      const hadOverride = key in current;
+      if (value === null ? !hadOverride : current[key] === value) continue;
+
+      const { previousValue, clearedValue } = values(key);
+      changes.push({
+        key,
+        value: value as ThresholdValue | null,
+        previousValue,
+        newValue: value === null ? clearedValue : (value as ThresholdValue),
+      });
+    }
+    return changes;
+  }
+
+  private toChangeData(
+    change: PendingChange,
+    changedBy: string
+  ): Prisma.ThresholdChangeUncheckedCreateInput {
+    return {
+      key: change.key,
+      ...(change.previousValue !== null && {
+        previousValue: change.previousValue,
+      }),
+      ...(change.newValue !== null && { newValue: change.newValue }),
+      cleared: change.value === null,
+      changedBy,
+    };
+  }
+
+  private toRecord(row: ThresholdChange): ThresholdChangeRecord {
+    return {
+      id: row.id,
+      key: row.key,
+      scope: row.scope as ThresholdScope | null,
+      scopeValue: row.scopeValue,
+      previousValue: row.previousValue as ThresholdValue | null,
+      newValue: row.newValue as ThresholdValue | null,
+      cleared: row.cleared,
+      changedBy: row.changedBy,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const thresholdManager = ThresholdManagerService.getInstance();
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseProfileWindow } from './threshold-profiles.js';
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+describe('parseProfileWindow', () => {
+  it('adds minute, hour and day durations to now', () => {
+    expect(parseProfileWindow('90m', NOW)?.toISOString()).toBe(
+      '2026-03-01T13:30:00.000Z'
+    );
+    expect(parseProfileWindow('48h', NOW)?.toISOString()).toBe(
+      '2026-03-03T12:00:00.000Z'
+    );
+    expect(parseProfileWindow(' 3d ', NOW)?.toISOString()).toBe(
+      '2026-03-04T12:00:00.000Z'
+    );
+  });
+
+  it('accepts an ISO date as the end', () => {
+    expect(parseProfileWindow('2026-03-10T00:00:00Z', NOW)?.toISOString()).toBe(
+      '2026-03-10T00:00:00.000Z'
+    );
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseProfileWindow('3w', NOW)).toBeNull();
+    expect(parseProfileWindow('soon', NOW)).toBeNull();
+    expect(parseProfileWindow('', NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,655 @@
+import type {
+  Prisma,
+  ThresholdProfile,
+  ThresholdProfileActivation,
+} from '@prisma/client';
+
+import {
+  getEnvThresholds,
+  getBaseThresholds,
+  setProfileThresholds,
+  validateThresholdValue,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
+import { alertScorer, SCORER_VERSION } from '../alerts/alert-scorer.js';
+import {
+  DEFAULT_SCORER_CONFIG,
+  mergeScorerConfig,
+  type ScorerConfig,
+  type ScorerConfigOverrides,
+} from '../alerts/scorer-config.js';
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import type { Result } from '../../types/index.js';
+
+type ProfileScorerConfig = Omit<ScorerConfig, 'version'>;
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const DURATION_PATTERN = /^(\d+)([mhd])$/;
+const DURATION_UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * One stored version of a profile
+ */
+export interface ThresholdProfileRecord {
+  id: string;
+  name: string;
+  version: number;
+  description: string | null;
+  thresholds: DetectionThresholds;
+  scorer: ProfileScorerConfig;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Profile summary: latest version and how many exist
+ */
+export interface ThresholdProfileSummary {
+  name: string;
+  latestVersion: number;
+  versions: number;
+  description: string | null;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface ThresholdProfileActivationRecord {
+  id: string;
+  profileName: string;
+  profileVersion: number;
+  activatedBy: string;
+  activatedAt: string;
+  expiresAt: string | null;
+  revertTo: { name: string; version: number } | null; // Restored on expiry
+  endedAt: string | null;
+  endedBy: string | null;
+  endReason: 'expired' | 'replaced' | 'deactivated' | null;
+}
+
+export interface SaveThresholdProfileInput {
+  thresholds?: Record<string, unknown>; // Changes vs the base
+  scorer?: ScorerConfigOverrides; // Changes vs the base
+  description?: string;
+}
+
+export interface ActivateThresholdProfileOptions {
+  version?: number; // Defaults to the latest version
+  expiresAt?: Date; // Time-boxed: revert to the previous profile when reached
+}
+
+type ActivationWithProfile = ThresholdProfileActivation & {
+  profile: ThresholdProfile;
+};
+
+/**
+ * Parse the end of a time-boxed activation: a duration ("90m", "48h", "3d")
+ * or an ISO date. Returns null when the value is neither.
+ */
+export function parseProfileWindow(
+  value: string,
+  now: Date = new Date()
+): Date | null {
+  const duration = DURATION_PATTERN.exec(value.trim());
+  if (duration !== null) {
+    const unitMs = DURATION_UNIT_MS[duration[2] ?? ''] ?? 0;
+    return new Date(now.getTime() + Number(duration[1]) * unitMs);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Threshold profile service
+ * Named, versioned sets of DetectionThresholds plus scorer constants
+ * ("conservative", "aggressive", ...). Activating a profile replaces the env
+ * thresholds and the production scorer config; runtime and scoped overrides
+ * still apply on top. Time-boxed activations revert to the profile that was
+ * in force before them once they expire.
+ */
+class ThresholdProfileService {
+  private static instance: ThresholdProfileService | null = null;
+  private syncInterval: NodeJS.Timeout | null = null;
+  private readonly SYNC_INTERVAL_SECONDS: number;
+
+  // Activation currently applied on this instance
+  private active: ActivationWithProfile | null = null;
+  private activeRecord: ThresholdProfileActivationRecord | null = null;
+
+  private constructor() {
+    this.SYNC_INTERVAL_SECONDS =
+      Number(process.env['THRESHOLD_RELOAD_INTERVAL_SECONDS']) || 30;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ThresholdProfileService {
+    if (ThresholdProfileService.instance === null) {
+      ThresholdProfileService.instance = new ThresholdProfileService();
+    }
+    return ThresholdProfileService.instance;
+  }
+
+  /**
+   * Apply the active profile and start checking for changes and expiry
+   */
+  public async start(): Promise<void> {
+    if (this.syncInterval !== null) {
+      logger.warn('Threshold profile service already running');
+      return;
+    }
+
+    try {
+      await this.sync();
+      logger.info(
+        {
+          profile: this.getActiveLabel(),
+          syncSeconds: this.SYNC_INTERVAL_SECONDS,
+        },
+        '🎛️ Threshold profile service started'
+      );
+    } catch (error) {
+      logger.error(
+        { error },
+        'Failed to load active threshold profile - using env thresholds'
+      );
+    }
+
+    this.syncInterval = setInterval(() => {
+      this.sync().catch((error: unknown) => {
+        logger.error({ error }, 'Failed to sync threshold profile');
+      });
+    }, this.SYNC_INTERVAL_SECONDS * 1000);
+  }
+
+  /**
+   * Stop checking for profile changes
+   */
+  public stop(): void {
+    if (this.syncInterval !== null) {
+      clearInterval(this.syncInterval);
+      this.syncInterval = null;
+      logger.info('Threshold profile service stopped');
+    }
+  }
+
+  /**
+   * Expire a time-boxed activation that has run out, then apply whatever
+   * activation is current (only when it changed)
+   */
+  public async sync(): Promise<void> {
+    let current = await this.findCurrent();
+
+    if (
+      current !== null &&
+      current.expiresAt !== null &&
+      current.expiresAt.getTime() <= Date.now()
+    ) {
+      await this.expire(current);
+      current = await this.findCurrent();
+    }
+
+    if (current?.id === this.active?.id) return;
+
+    if (current === null) {
+      setProfileThresholds(null);
+      alertScorer.applyProfileConfig(null);
+    } else {
+      setProfileThresholds(this.parseThresholds(current.profile));
+      alertScorer.applyProfileConfig({
+        name: `${current.profile.name} v${current.profile.version}`,
+        config: this.parseScorer(current.profile),
+      });
+    }
+
+    logger.info(
+      {
+        from: this.active !== null ? this.formatLabel(this.active) : null,
+        to: current !== null ? this.formatLabel(current) : null,
+        expiresAt: current?.expiresAt?.toISOString() ?? null,
+      },
+      '🎛️ Threshold profile applied'
+    );
+    this.active = current;
+    this.activeRecord =
+      current !== null
+        ? await this.toActivationRecordWithRevert(current)
+        : null;
+  }
+
+  /**
+   * Active profile on this instance, or null when env thresholds apply
+   */
+  public getActive(): ThresholdProfileActivationRecord | null {
+    return this.activeRecord;
+  }
+
+  /**
+   * Active profile as "name vN" (for alerts and /status), or null
+   */
+  public getActiveLabel(): string | null {
+    return this.active !== null ? this.formatLabel(this.active) : null;
+  }
+
+  /**
+   * All profiles with their latest version
+   */
+  public async listProfiles(): Promise<ThresholdProfileSummary[]> {
+    const rows = await db.getClient().thresholdProfile.findMany({
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    });
+
+    const summaries = new Map<string, ThresholdProfileSummary>();
+    for (const row of rows) {
+      const summary = summaries.get(row.name);
+      if (summary !== undefined) {
+        summary.versions++;
+        continue;
+      }
+      summaries.set(row.name, {
+        name: row.name,
+        latestVersion: row.version,
+        versions: 1,
+        description: row.description,
+        updatedBy: row.createdBy,
+        updatedAt: row.createdAt.toISOString(),
+      });
+    }
+    return [...summaries.values()];
+  }
+
+  /**
+   * Every version of a profile, newest first
+   */
+  public async getProfileVersions(
+    name: string
+  ): Promise<ThresholdProfileRecord[]> {
+    const rows = await db.getClient().thresholdProfile.findMany({
+      where: { name },
+      orderBy: { version: 'desc' },
+    });
+    return rows.map((row) => this.toProfileRecord(row));
+  }
+
+  /**
+   * Save a new version of a profile
+   * The new version starts from the profile's latest version, or from the
+   * thresholds and scorer config currently in force for a new profile, with
+   * the given changes applied. Every value is validated before storing.
+   */
+  public async saveProfile(
+    name: string,
+    input: SaveThresholdProfileInput,
+    createdBy: string
+  ): Promise<Result<ThresholdProfileRecord, string>> {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      return {
+        success: false,
+        error:
+          'Profile name must be 1-40 lowercase letters, digits, "-" or "_"',
+      };
+    }
+
+    for (const [key, value] of Object.entries(input.thresholds ?? {})) {
+      const error = validateThresholdValue(key, value);
+      if (error !== null) {
+        return { success: false, error };
+      }
+    }
+
+    const prisma = db.getClient();
+    const latest = await prisma.thresholdProfile.findFirst({
+      where: { name },
+      orderBy: { version: 'desc' },
+    });
+
+    // A new profile starts from the profile or env values in force, without
+    // runtime overrides or the alert budget adjustment layered on top
+    const baseThresholds =
+      latest !== null ? this.parseThresholds(latest) : getBaseThresholds();
+    const baseScorer: ScorerConfig = {
+      ...(latest !== null
+        ? this.parseScorer(latest)
+        : this.stripVersion(alertScorer.getBaseConfig())),
+      version: SCORER_VERSION,
+    };
+
+    let scorer: ScorerConfig;
+    try {
+      scorer = mergeScorerConfig(baseScorer, input.scorer ?? {});
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const thresholds = {
+      ...baseThresholds,
+      ...input.thresholds,
+    } as DetectionThresholds;
+    const description = input.description ?? latest?.description ?? null;
+
+    try {
+      const row = await prisma.thresholdProfile.create({
+        data: {
+          name,
+          version: (latest?.version ?? 0) + 1,
+          ...(description !== null && { description }),
+          thresholds: this.toJson(thresholds),
+          scorer: this.toJson(this.stripVersion(scorer)),
+          createdBy,
+        },
+      });
+
+      logger.info(
+        { name, version: row.version, createdBy },
+        '🎛️ Threshold profile saved'
+      );
+      return { success: true, data: this.toProfileRecord(row) };
+    } catch (error) {
+      // Two saves of the same profile raced for the version number
+      if (
+        error instanceof Error &&
+        'code' in error &&
+        (error as { code: unknown }).code === 'P2002'
+      ) {
+        return {
+          success: false,
+          error: `Profile "${name}" was saved concurrently - try again`,
+        };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Activate a profile for every instance, replacing the current one
+   * With expiresAt, the profile that was in force before (ignoring other
+   * time-boxed activations) is restored when the window ends.
+   */
+  public async activate(
+    name: string,
+    options: ActivateThresholdProfileOptions,
+    activatedBy: string
+  ): Promise<Result<ThresholdProfileActivationRecord, string>> {
+    if (
+      options.expiresAt !== undefined &&
+      options.expiresAt.getTime() <= Date.now()
+    ) {
+      return { success: false, error: 'Activation end must be in the future' };
+    }
+
+    const prisma = db.getClient();
+    const profile = await prisma.thresholdProfile.findFirst({
+      where: {
+        name,
+        ...(options.version !== undefined && { version: options.version }),
+      },
+      orderBy: { version: 'desc' },
+    });
+    if (profile === null) {
+      return {
+        success: false,
+        error:
+          options.version !== undefined
+            ? `Profile not found: ${name} v${options.version}`
+            : `Profile not found: ${name}`,
+      };
+    }
+
+    const activation = await prisma.$transaction(async (tx) => {
+      const current = await tx.thresholdProfileActivation.findFirst({
+        where: { endedAt: null },
+        orderBy: { activatedAt: 'desc' },
+      });
+
+      // Revert target: the open-ended profile beneath any time-boxed ones
+      const revertToId =
+        options.expiresAt === undefined
+          ? null
+          : current === null
+            ? null
+            : current.expiresAt === null
+              ? current.profileId
+              : current.revertToId;
+
+      await tx.thresholdProfileActivation.updateMany({
+        where: { endedAt: null },
+        data: {
+          endedAt: new Date(),
+          endedBy: activatedBy,
+          endReason: 'replaced',
+        },
+      });
+
+      return tx.thresholdProfileActivation.create({
+        data: {
+          profileId: profile.id,
+          activatedBy,
+          ...(options.expiresAt !== undefined && {
+            expiresAt: options.expiresAt,
+          }),
+          ...(revertToId !== null && { revertToId }),
+        },
+        include: { profile: true },
+      });
+    });
+
+    await this.sync();
+
+    logger.info(
+      {
+        profile: this.formatLabel(activation),
+        activatedBy,
+        expiresAt: activation.expiresAt?.toISOString() ?? null,
+      },
+      '🎛️ Threshold profile activated'
+    );
+
+    return {
+      success: true,
+      data: await this.toActivationRecordWithRevert(activation),
+    };
+  }
+
+  /**
+   * End the active profile and go back to env thresholds
+   * Returns the ended activation, or null when no profile was active
+   */
+  public async deactivate(
+    deactivatedBy: string
+  ): Promise<ThresholdProfileActivationRecord | null> {
+    const current = await this.findCurrent();
+    if (current === null) return null;
+
+    const endedAt = new Date();
+    await db.getClient().thresholdProfileActivation.updateMany({
+      where: { id: current.id, endedAt: null },
+      data: { endedAt, endedBy: deactivatedBy, endReason: 'deactivated' },
+    });
+    await this.sync();
+
+    logger.info(
+      { profile: this.formatLabel(current), deactivatedBy },
+      '🎛️ Threshold profile deactivated'
+    );
+    return this.toActivationRecord({
+      ...current,
+      endedAt,
+      endedBy: deactivatedBy,
+      endReason: 'deactivated',
+    });
+  }
+
+  /**
+   * Recent activations, newest first
+   */
+  public async getActivationHistory(
+    limit: number
+  ): Promise<ThresholdProfileActivationRecord[]> {
+    const rows = await db.getClient().thresholdProfileActivation.findMany({
+      include: { profile: true },
+      orderBy: { activatedAt: 'desc' },
+      take: limit,
+    });
+    return Promise.all(
+      rows.map((row) => this.toActivationRecordWithRevert(row))
+    );
+  }
+
+  private async findCurrent(): Promise<ActivationWithProfile | null> {
+    return db.getClient().thresholdProfileActivation.findFirst({
+      where: { endedAt: null },
+      include: { profile: true },
+      orderBy: { activatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * End an expired activation and restore its revert target
+   * Only the instance that ends it creates the revert activation.
+   */
+  private async expire(activation: ActivationWithProfile): Promise<void> {
+    const prisma = db.getClient();
+    const reverted = await prisma.$transaction(async (tx) => {
+      const ended = await tx.thresholdProfileActivation.updateMany({
+        where: { id: activation.id, endedAt: null },
+        data: {
+          endedAt: new Date(),
+          endedBy: 'system:auto-revert',
+          endReason: 'expired',
+        },
+      });
+      if (ended.count === 0 || activation.revertToId === null) return false;
+
+      await tx.thresholdProfileActivation.create({
+        data: {
+          profileId: activation.revertToId,
+          activatedBy: 'system:auto-revert',
+        },
+      });
+      return true;
+    });
+
+    logger.info(
+      {
+        profile: this.formatLabel(activation),
+        expiresAt: activation.expiresAt?.toISOString() ?? null,
+        reverted,
+      },
+      '⏰ Time-boxed threshold profile expired'
+    );
+  }
+
+  /**
+   * Stored thresholds with invalid values replaced by env values
+   * (bounds may have changed since the profile was saved)
+   */
+  private parseThresholds(profile: ThresholdProfile): DetectionThresholds {
+    const thresholds: Record<string, unknown> = { ...getEnvThresholds() };
+    const stored = profile.thresholds as Record<string, unknown>;
+    for (const [key, value] of Object.entries(stored)) {
+      const error = validateThresholdValue(key, value);
+      if (error !== null) {
+        logger.warn(
+          { profile: profile.name, version: profile.version, key, error },
+          'Ignoring invalid threshold in profile'
+        );
+        continue;
+      }
+      thresholds[key] = value;
+    }
+    return thresholds as unknown as DetectionThresholds;
+  }
+
+  /**
+   * Stored scorer constants merged onto the defaults (fills in keys added
+   * to the scorer since the profile was saved)
+   */
+  private parseScorer(profile: ThresholdProfile): ProfileScorerConfig {
+    try {
+      return this.stripVersion(
+        mergeScorerConfig(
+          { ...DEFAULT_SCORER_CONFIG, version: SCORER_VERSION },
+          profile.scorer as ScorerConfigOverrides
+        )
+      );
+    } catch (error) {
+      logger.warn(
+        {
+          profile: profile.name,
+          version: profile.version,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        'Invalid scorer config in profile - using scorer defaults'
+      );
+      return DEFAULT_SCORER_CONFIG;
+    }
+  }
+
+  private stripVersion(config: ScorerConfig): ProfileScorerConfig {
+    const { version: _version, ...rest } = config;
+    return rest;
+  }
+
+  private toJson(value: object): Prisma.InputJsonValue {
+    // Round-trip through JSON for Prisma's JSON input type
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+  }
+
+  private formatLabel(activation: ActivationWithProfile): string {
+    return `${activation.profile.name} v${activation.profile.version}`;
+  }
+
+  private toProfileRecord(row: ThresholdProfile): ThresholdProfileRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      version: row.version,
+      description: row.description,
+      thresholds: this.parseThresholds(row),
+      scorer: this.parseScorer(row),
+      createdBy: row.createdBy,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+
+  private toActivationRecord(
+    row: ActivationWithProfile,
+    revertTo: ThresholdProfileActivationRecord['revertTo'] = null
+  ): ThresholdProfileActivationRecord {
+    return {
+      id: row.id,
+      profileName: row.profile.name,
+      profileVersion: row.profile.version,
+      activatedBy: row.activatedBy,
+      activatedAt: row.activatedAt.toISOString(),
+      expiresAt: row.expiresAt?.toISOString() ?? null,
+      revertTo,
+      endedAt: row.endedAt?.toISOString() ?? null,
+      endedBy: row.endedBy,
+      endReason: row.endReason as ThresholdProfileActivationRecord['endReason'],
+    };
+  }
+
+  private async toActivationRecordWithRevert(
+    row: ActivationWithProfile
+  ): Promise<ThresholdProfileActivationRecord> {
+    if (row.revertToId === null) return this.toActivationRecord(row);
+
+    const target = await db.getClient().thresholdProfile.findUnique({
+      where: { id: row.revertToId },
+      select: { name: true, version: true },
+    });
+    return this.toActivationRecord(row, target);
+  }
+}
+
+// Export singleton instance
+export const thresholdProfiles = ThresholdProfileService.getInstance();
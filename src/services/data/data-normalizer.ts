@@ -7,6 +7,8 @@ import { logger } from '../../utils/logger.js';
 import { normalizeVolume } from '../../utils/decimals.js';
 import type { SubgraphWalletData } from '../polymarket/subgraph-client.js';
 import type { DataApiUserData } from '../polymarket/data-api-client.js';
+import { summarizeWalletPerformance } from '../blockchain/wallet-performance.js';
+import { getThresholds } from '../../config/thresholds.js';
 
 /**
  * Normalized wallet data structure
@@ -19,7 +21,7 @@ export interface NormalizedWalletData {
   accountAgeDays: number | null;
   firstTradeTimestamp: number | null;
   lastTradeTimestamp: number | null;
-  winRate: number | null;
+  winRate: number | null; // Share of resolved positions won (0-1)
   pnl: number | null;
   marketsTraded: number;
   dataSource: 'subgraph' | 'data-api' | 'combined';
@@ -152,8 +154,18 @@ export function normalizeDataApiData(
     ? (Date.now() - firstTimestamp) / (1000 * 60 * 60 * 24)
     : null;
 
-  // Extract PnL
-  const pnl = activity?.totalPnL ? parseFloat(activity.totalPnL) : null;
+  // Win rate and realized PnL from closed positions, PnL falling back to
+  // the activity summary
+  const performance = summarizeWalletPerformance(
+    data.closedPositions,
+    getThresholds().walletLowOddsMaxPrice
+  );
+  const pnl =
+    performance.closedPositions > 0
+      ? performance.realizedPnl
+      : activity?.totalPnL
+        ? parseFloat(activity.totalPnL)
+        : null;
 
   const confidence: DataConfidence = {
     level:
@@ -169,7 +181,7 @@ export function normalizeDataApiData(
     accountAgeDays,
     firstTradeTimestamp: activity?.firstTradeTimestamp ?? null,
     lastTradeTimestamp: activity?.lastTradeTimestamp ?? null,
-    winRate: activity?.winRate ?? null,
+    winRate: performance.winRate,
     pnl,
     marketsTraded: activity?.marketsTraded ?? 0,
     dataSource: 'data-api',
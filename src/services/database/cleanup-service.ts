@@ -1,4 +1,5 @@
 import { db } from './prisma.js';
+import { tradeDecisionLog } from '../signals/trade-decision-log.js';
 import { logger } from '../../utils/logger.js';
 
 /**
@@ -64,19 +65,26 @@ class CleanupService {
   /**
    * Run the cleanup process
    */
-  public async runCleanup(): Promise<{ tradesDeleted: number }> {
+  public async runCleanup(): Promise<{
+    tradesDeleted: number;
+    decisionsDeleted: number;
+  }> {
     logger.info('Starting database cleanup...');
 
     try {
       const tradesDeleted = await this.pruneOldTrades();
-      logger.info({ tradesDeleted }, 'Database cleanup complete');
-      return { tradesDeleted };
+      const decisionsDeleted = await this.pruneOldTradeDecisions();
+      logger.info(
+        { tradesDeleted, decisionsDeleted },
+        'Database cleanup complete'
+      );
+      return { tradesDeleted, decisionsDeleted };
     } catch (error) {
       logger.error(
         { error },
         '❌ Database cleanup FAILED — stale data may accumulate'
       );
-      return { tradesDeleted: -1 };
+      return { tradesDeleted: -1, decisionsDeleted: -1 };
     }
   }
 
@@ -117,6 +125,35 @@ class CleanupService {
     }
   }
 
+  /**
+   * Delete trade decisions older than the trade retention period
+   * Alerted trades keep their full record on the alert itself
+   */
+  private async pruneOldTradeDecisions(): Promise<number> {
+    try {
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - this.TRADE_RETENTION_DAYS);
+
+      const deleted = await tradeDecisionLog.pruneBefore(cutoffDate);
+
+      if (deleted > 0) {
+        logger.info(
+          {
+            deleted,
+            cutoffDate: cutoffDate.toISOString(),
+            retentionDays: this.TRADE_RETENTION_DAYS,
+          },
+          'Pruned old trade decisions'
+        );
+      }
+
+      return deleted;
+    } catch (error) {
+      logger.error({ error }, 'Failed to prune old trade decisions');
+      throw error;
+    }
+  }
+
   /**
    * Get cleanup stats
    */
@@ -2,6 +2,12 @@ import axios, { type AxiosInstance, AxiosError } from 'axios';
 import { getEnv } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
 import type { AlertData } from '../alerts/alert-persistence.js';
+import { formatAlertHistory } from '../alerts/wallet-alert-history.js';
+import {
+  ALERT_LABELS,
+  ALERT_LABEL_NAMES,
+  encodeLabelAction,
+} from '../alerts/alert-labels.js';
 
 const env = getEnv();
 
@@ -64,9 +70,16 @@ class DiscordNotifierService {
 
     try {
       const embed = this.buildAlertEmbed(alert);
-      await this.client.post(this.webhookUrl, {
-        embeds: [embed],
-      });
+      const components = this.buildLabelComponents(alert);
+      await this.client.post(
+        this.webhookUrl,
+        {
+          embeds: [embed],
+          ...(components !== null && { components }),
+        },
+        // Discord ignores components unless explicitly requested
+        components !== null ? { params: { with_components: true } } : {}
+      );
 
       logger.info(
         {
@@ -134,6 +147,20 @@ class DiscordNotifierService {
             `**Total:** ${alert.confidenceScore}/100`,
             `**Wallet (60%):** ${alert.scoreBreakdown.walletContribution}pts`,
             `**Impact (40%):** ${alert.scoreBreakdown.impactContribution}pts`,
+            ...(alert.walletHistory !== undefined &&
+            alert.walletHistory !== null
+              ? [
+                  `**Prior alerts:** ${formatAlertHistory(alert.walletHistory)} (+${alert.scoreBreakdown.repeatOffenderBonus}pts)`,
+                ]
+              : []),
+            ...(alert.modelScore !== undefined
+              ? [
+                  `**Model ${alert.modelScore.version}:** ${(alert.modelScore.probability * 100).toFixed(0)}% (rules: ${alert.modelScore.ruleScore})`,
+                ]
+              : []),
+            ...(alert.thresholdProfile !== undefined
+              ? [`**Profile:** ${alert.thresholdProfile}`]
+              : []),
           ].join('\n'),
           inline: true,
         },
@@ -144,13 +171,38 @@ class DiscordNotifierService {
         },
       ],
       footer: {
-        text: `Wallet: ${alert.walletAddress.slice(0, 10)}... | Trade ID: ${alert.tradeId.slice(0, 8)}`,
+        text: `Wallet: ${alert.walletAddress.slice(0, 10)}... | Trade ID: ${alert.tradeId.slice(0, 8)}${alert.alertId !== undefined ? ` | Alert ID: ${alert.alertId}` : ''}`,
       },
       timestamp: new Date().toISOString(),
       url: `https://polymarket.com/event/${alert.marketSlug}`,
     };
   }
 
+  /**
+   * Build label buttons (handled by /api/integrations/discord/interactions)
+   * Interactive components require a webhook owned by the Discord application
+   */
+  private buildLabelComponents(
+    alert: AlertData
+  ): Array<Record<string, unknown>> | null {
+    if (alert.alertId === undefined || env.DISCORD_PUBLIC_KEY === undefined) {
+      return null;
+    }
+
+    const alertId = alert.alertId;
+    return [
+      {
+        type: 1, // Action row
+        components: ALERT_LABELS.map((label) => ({
+          type: 2, // Button
+          style: 2, // Secondary
+          label: ALERT_LABEL_NAMES[label],
+          custom_id: encodeLabelAction(alertId, label),
+        })),
+      },
+    ];
+  }
+
   /**
    * Format wallet flags for display (using Data API flags)
    */
@@ -161,6 +213,8 @@ class DiscordNotifierService {
     highConcentration: boolean;
     freshFatBet: boolean;
     lowDiversification: boolean;
+    highWinRate: boolean;
+    lowOddsWinner: boolean;
   }): string {
     const flagList: string[] = [];
     if (flags.lowTradeCount) flagList.push('📉 Low Trade Count');
@@ -169,6 +223,8 @@ class DiscordNotifierService {
     if (flags.highConcentration) flagList.push('🎲 High Concentration');
     if (flags.freshFatBet) flagList.push('💰 Fresh Fat Bet');
     if (flags.lowDiversification) flagList.push('🎯 Low Diversification');
+    if (flags.highWinRate) flagList.push('🏆 High Win Rate');
+    if (flags.lowOddsWinner) flagList.push('🎰 Low-Odds Winner');
 
     return flagList.length > 0 ? flagList.join(', ') : 'None';
   }
@@ -91,6 +91,38 @@ class NotificationCoordinatorService {
     };
   }
 
+  /**
+   * Send a summary message (e.g. a digest) to all configured channels
+   * Uses Markdown that renders on every channel: *bold* and `code`
+   */
+  public async sendMessage(text: string): Promise<{
+    slack: boolean;
+    telegram: boolean;
+    discord: boolean;
+    anySuccess: boolean;
+  }> {
+    const [slackResult, telegramResult, discordResult] =
+      await Promise.allSettled([
+        slackNotifier.sendMessage(text),
+        telegramNotifier.sendMessage(text),
+        discordNotifier.sendMessage(text),
+      ]);
+
+    const slackSuccess =
+      slackResult.status === 'fulfilled' && slackResult.value === true;
+    const telegramSuccess =
+      telegramResult.status === 'fulfilled' && telegramResult.value === true;
+    const discordSuccess =
+      discordResult.status === 'fulfilled' && discordResult.value === true;
+
+    return {
+      slack: slackSuccess,
+      telegram: telegramSuccess,
+      discord: discordSuccess,
+      anySuccess: slackSuccess || telegramSuccess || discordSuccess,
+    };
+  }
+
   /**
    * Send test notifications to all channels
    */
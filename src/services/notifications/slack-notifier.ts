@@ -2,6 +2,12 @@ import axios, { type AxiosInstance, AxiosError } from 'axios';
 import { getEnv } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
 import type { AlertData } from '../alerts/alert-persistence.js';
+import { formatAlertHistory } from '../alerts/wallet-alert-history.js';
+import {
+  ALERT_LABELS,
+  ALERT_LABEL_NAMES,
+  encodeLabelAction,
+} from '../alerts/alert-labels.js';
 
 const env = getEnv();
 
@@ -20,6 +26,7 @@ interface SlackBlock {
     text: string;
   }>;
   accessory?: unknown;
+  elements?: unknown[];
 }
 
 /**
@@ -198,6 +205,22 @@ class SlackNotifierService {
             type: 'mrkdwn',
             text: `*Total:*\n${alert.confidenceScore}/100`,
           },
+          ...(alert.modelScore !== undefined
+            ? [
+                {
+                  type: 'mrkdwn',
+                  text: `*Model ${alert.modelScore.version}:*\n${(alert.modelScore.probability * 100).toFixed(0)}% (rules: ${alert.modelScore.ruleScore})`,
+                },
+              ]
+            : []),
+          ...(alert.thresholdProfile !== undefined
+            ? [
+                {
+                  type: 'mrkdwn',
+                  text: `*Profile:*\n${alert.thresholdProfile}`,
+                },
+              ]
+            : []),
         ],
       },
 
@@ -233,6 +256,14 @@ class SlackNotifierService {
             type: 'mrkdwn',
             text: `*Markets Traded:*\n${alert.walletFingerprint.subgraphMetadata.marketsTraded ?? 0}`,
           },
+          ...(alert.walletHistory !== undefined && alert.walletHistory !== null
+            ? [
+                {
+                  type: 'mrkdwn',
+                  text: `*Prior Alerts:*\n${formatAlertHistory(alert.walletHistory)}`,
+                },
+              ]
+            : []),
         ],
       },
     ];
@@ -244,7 +275,9 @@ class SlackNotifierService {
       walletFlags.youngAccount ||
       walletFlags.freshFatBet ||
       walletFlags.highConcentration ||
-      walletFlags.lowDiversification;
+      walletFlags.lowDiversification ||
+      walletFlags.highWinRate ||
+      walletFlags.lowOddsWinner;
 
     if (hasFlags) {
       const flags: string[] = [];
@@ -254,6 +287,8 @@ class SlackNotifierService {
       if (walletFlags.freshFatBet) flags.push('💰 Fresh fat bet');
       if (walletFlags.highConcentration) flags.push('🎲 High concentration');
       if (walletFlags.lowDiversification) flags.push('🎯 Low diversification');
+      if (walletFlags.highWinRate) flags.push('🏆 High win rate');
+      if (walletFlags.lowOddsWinner) flags.push('🎰 Low-odds winner');
 
       blocks.push({
         type: 'section',
@@ -264,6 +299,24 @@ class SlackNotifierService {
       });
     }
 
+    // Label buttons (handled by /api/integrations/slack/actions)
+    if (alert.alertId !== undefined && env.SLACK_SIGNING_SECRET !== undefined) {
+      const alertId = alert.alertId;
+      blocks.push({
+        type: 'actions',
+        elements: ALERT_LABELS.map((label) => ({
+          type: 'button',
+          action_id: `alert_label_${label}`,
+          text: {
+            type: 'plain_text',
+            text: ALERT_LABEL_NAMES[label],
+            emoji: true,
+          },
+          value: encodeLabelAction(alertId, label),
+        })),
+      });
+    }
+
     return {
       text: `Insider Signal Detected (Score: ${alert.confidenceScore}/100)`,
       blocks,
@@ -337,6 +390,23 @@ class SlackNotifierService {
       return false;
     }
   }
+
+  /**
+   * Send a plain mrkdwn message (digests and other summaries)
+   */
+  public async sendMessage(text: string): Promise<boolean> {
+    if (!this.isConfigured() || this.client === null) {
+      return false;
+    }
+
+    try {
+      await this.client.post(this.webhookUrl!, { text });
+      return true;
+    } catch (error) {
+      logger.error({ error }, 'Failed to send Slack message');
+      return false;
+    }
+  }
 }
 
 // Export singleton instance
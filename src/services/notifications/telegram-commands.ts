@@ -7,8 +7,40 @@ import { marketService } from '../polymarket/market-service.js';
 import { walletForensicsService } from '../blockchain/wallet-forensics.js';
 import { signalDetector } from '../signals/signal-detector.js';
 import { alertScorer } from '../alerts/alert-scorer.js';
+import {
+  alertLabels,
+  ALERT_LABELS,
+  isAlertLabel,
+} from '../alerts/alert-labels.js';
+import {
+  rescoreService,
+  type RescoreResult,
+} from '../alerts/rescore-service.js';
+import { alertBudgetController } from '../alerts/alert-budget.js';
+import {
+  thresholdManager,
+  THRESHOLD_SCOPES,
+  type ThresholdScope,
+} from '../config/threshold-manager.js';
+import {
+  parseProfileWindow,
+  thresholdProfiles,
+} from '../config/threshold-profiles.js';
 import { tradeService } from '../polymarket/trade-service.js';
+import { whoKnewReport } from '../reports/who-knew-report.js';
+import { walletLeaderboard } from '../reports/wallet-leaderboard.js';
+import {
+  MARKET_CATEGORIES,
+  type MarketCategory,
+} from '../alerts/scorer-config.js';
+import { walletWatchlist } from '../signals/wallet-watchlist.js';
+import {
+  marketEventService,
+  MARKET_EVENT_TYPES,
+  type MarketEventType,
+} from '../polymarket/market-event-service.js';
 import { logger } from '../../utils/logger.js';
+import { stripMarkdown } from '../../utils/markdown.js';
 
 const env = getEnv();
 
@@ -313,6 +345,36 @@ class TelegramCommandHandler {
       await this.handleStats(chatId);
     } else if (text === '/reload') {
       await this.handleReload(chatId);
+    } else if (text === '/label' || text.startsWith('/label ')) {
+      const args = text.slice(6).trim();
+      await this.handleLabel(chatId, args, message.from?.username);
+    } else if (text === '/rescore' || text.startsWith('/rescore ')) {
+      const args = text.slice(8).trim();
+      await this.handleRescore(chatId, args);
+    } else if (text === '/budget' || text.startsWith('/budget ')) {
+      const args = text.slice(7).trim();
+      await this.handleBudget(chatId, args, message.from?.username);
+    } else if (text === '/thresholds' || text.startsWith('/thresholds ')) {
+      const args = text.slice(11).trim();
+      await this.handleThresholds(chatId, args, message.from?.username);
+    } else if (text === '/profile' || text.startsWith('/profile ')) {
+      const args = text.slice(8).trim();
+      await this.handleProfile(chatId, args, message.from?.username);
+    } else if (text === '/events' || text.startsWith('/events ')) {
+      const args = text.slice(7).trim();
+      await this.handleEvents(chatId, args, message.from?.username);
+    } else if (text === '/whoknew' || text.startsWith('/whoknew ')) {
+      const args = text.slice(8).trim();
+      await this.handleWhoKnew(chatId, args, message.from?.username);
+    } else if (text === '/watch' || text.startsWith('/watch ')) {
+      const args = text.slice(6).trim();
+      await this.handleWatch(chatId, args, message.from?.username);
+    } else if (text.startsWith('/unwatch ')) {
+      const address = text.slice(9).trim();
+      await this.handleUnwatch(chatId, address);
+    } else if (text === '/top' || text.startsWith('/top ')) {
+      const args = text.slice(4).trim();
+      await this.handleTop(chatId, args);
     }
   }
 
@@ -373,6 +435,14 @@ class TelegramCommandHandler {
 
       const prisma = db.getClient();
       const added: string[] = [];
+      let grouped = 0;
+
+      // Event grouping, so cross-market positions can be detected
+      const gammaEvent = {
+        gammaEventId: event.id,
+        gammaEventSlug: event.slug,
+        gammaEventTitle: event.title,
+      };
 
       for (const market of event.markets) {
         const existing = await prisma.market.findUnique({
@@ -380,6 +450,14 @@ class TelegramCommandHandler {
         });
 
         if (existing) {
+          // Markets added before event grouping was stored
+          if (existing.gammaEventId === null) {
+            await prisma.market.update({
+              where: { id: market.id },
+              data: gammaEvent,
+            });
+            grouped++;
+          }
           continue;
         }
 
@@ -439,18 +517,30 @@ class TelegramCommandHandler {
             enabled: true,
             category: 'misc',
             tier: 2,
+            ...gammaEvent,
           },
         });
 
         added.push(market.question);
       }
 
-      if (added.length > 0) {
+      if (added.length > 0 || grouped > 0) {
         await marketService.reloadMarkets();
+      }
+
+      if (added.length > 0) {
         const marketList = added.map((q) => `• ${q}`).join('\n');
         await this.sendMessage(
           chatId,
-          `✅ *Added ${added.length} market(s):*\n\n${marketList}`
+          `✅ *Added ${added.length} market(s):*\n\n${marketList}` +
+            (event.markets.length > 1
+              ? `\n\n🕸️ Event: \`${event.title.replace(/`/g, "'")}\` (${event.markets.length} markets)`
+              : '')
+        );
+      } else if (grouped > 0) {
+        await this.sendMessage(
+          chatId,
+          `⚠️ All markets already exist - grouped ${grouped} under event \`${event.title.replace(/`/g, "'")}\``
         );
       } else {
         await this.sendMessage(chatId, '⚠️ All markets already exist');
@@ -579,6 +669,7 @@ class TelegramCommandHandler {
       const alertMedium =
         scorerStats['classification_alert_medium_confidence'] || 0;
       const totalAlerts = alertStrong + alertHigh + alertMedium;
+      const scorerConfig = alertScorer.getConfig();
 
       const message =
         `🤖 *Bot Status*\n\n` +
@@ -589,9 +680,11 @@ class TelegramCommandHandler {
         `• Trades processed: ${recentTrades}\n` +
         `• Alerts sent (24h): ${recentAlerts}\n\n` +
         `*Scoring System:*\n` +
-        `• Alert threshold: Score ≥ ${Number(process.env['ALERT_THRESHOLD']) || 50}\n` +
-        `• Min trade size: $${(Number(process.env['MIN_TRADE_SIZE_USD']) || 1000).toLocaleString()}\n` +
-        `• Min OI: $${(Number(process.env['MIN_OI_USD']) || 5000).toLocaleString()}\n\n` +
+        `• Mode: ${alertScorer.getMode()}${alertScorer.getModelVersion() !== null ? ` (${alertScorer.getModelVersion()})` : ''}\n` +
+        `• Threshold profile: ${this.formatActiveProfile()}\n` +
+        `• Alert threshold: Score ≥ ${scorerConfig.alertThreshold}\n` +
+        `• Min trade size: $${scorerConfig.minTradeSizeUsd.toLocaleString()}\n` +
+        `• Min OI: $${scorerConfig.minOiUsd.toLocaleString()}\n\n` +
         `*All-Time Alerts:*\n` +
         `• 🚨 Strong: ${alertStrong}\n` +
         `• 🔴 High: ${alertHigh}\n` +
@@ -651,18 +744,31 @@ class TelegramCommandHandler {
         highConcentration: flags.highConcentration ? '✅' : '❌',
         freshFatBet: flags.freshFatBet ? '✅' : '❌',
         lowDiversification: flags.lowDiversification ? '✅' : '❌',
+        highWinRate: flags.highWinRate ? '✅' : '❌',
+        lowOddsWinner: flags.lowOddsWinner ? '✅' : '❌',
       };
+      const performance = meta.performance ?? null;
+      const winRate =
+        performance !== null && performance.winRate !== null
+          ? `${(performance.winRate * 100).toFixed(0)}% of ${performance.resolvedPositions} resolved`
+          : 'no resolved positions';
+      const lowOdds =
+        performance !== null
+          ? `${performance.lowOddsWins}/${performance.lowOddsPositions} won at ≤${(performance.lowOddsMaxPrice * 100).toFixed(0)}¢`
+          : 'n/a';
 
       const suspiciousCount = Object.values(flags).filter(Boolean).length;
 
       const message =
         `🔍 *Wallet Analysis*\n\n` +
         `*Address:* \`${wallet}\`\n` +
-        `*Suspicious:* ${fingerprint.isSuspicious ? '🚨 YES' : '✅ NO'} (${suspiciousCount}/6 flags)\n\n` +
+        `*Suspicious:* ${fingerprint.isSuspicious ? '🚨 YES' : '✅ NO'} (${suspiciousCount}/8 flags)\n\n` +
         `*Insider Flags:*\n` +
         `${flagEmojis.highConcentration} High Concentration (${meta.maxPositionConcentration.toFixed(0)}% in one market)\n` +
         `${flagEmojis.freshFatBet} Fresh Fat Bet (new wallet + large bet)\n` +
-        `${flagEmojis.lowDiversification} Low Diversification (${meta.marketsTraded} markets)\n\n` +
+        `${flagEmojis.lowDiversification} Low Diversification (${meta.marketsTraded} markets)\n` +
+        `${flagEmojis.lowOddsWinner} Low-Odds Winner (${lowOdds})\n` +
+        `${flagEmojis.highWinRate} High Win Rate (${winRate})\n\n` +
         `*New User Flags:*\n` +
         `${flagEmojis.lowTradeCount} Low Trade Count (${meta.polymarketTradeCount} trades)\n` +
         `${flagEmojis.youngAccount} Young Account (${meta.polymarketAccountAgeDays ?? 0} days)\n` +
@@ -759,6 +865,985 @@ class TelegramCommandHandler {
     }
   }
 
+  /**
+   * Handle /label command - record analyst feedback on an alert
+   */
+  private async handleLabel(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    const [alertId, label, ...noteParts] = args.split(/\s+/);
+
+    if (!alertId || !label || !isAlertLabel(label)) {
+      await this.sendMessage(
+        chatId,
+        '❌ Usage: `/label <alert-id> <label> [notes]`\n' +
+          `Labels: ${ALERT_LABELS.map((l) => `\`${l}\``).join(', ')}`
+      );
+      return;
+    }
+
+    const notes = noteParts.join(' ');
+
+    try {
+      const record = await alertLabels.addLabel({
+        alertId,
+        label,
+        labeledBy: `telegram:${username ?? chatId}`,
+        source: 'telegram',
+        ...(notes.length > 0 && { notes }),
+      });
+
+      if (record === null) {
+        await this.sendMessage(chatId, `❌ Alert not found: \`${alertId}\``);
+        return;
+      }
+
+      await this.sendMessage(
+        chatId,
+        `🏷️ Alert \`${alertId}\` labeled as \`${label}\``
+      );
+    } catch (error) {
+      logger.error({ error, alertId }, 'Failed to label alert');
+      await this.sendMessage(chatId, '❌ Failed to label alert');
+    }
+  }
+
+  /**
+   * Handle /rescore command
+   * `/rescore <alert-id|trade-id>` rescores one trade,
+   * `/rescore <from> [to]` rescores every alert in a date range
+   */
+  private async handleRescore(chatId: number, args: string): Promise<void> {
+    const [first, second] = args.split(/\s+/);
+
+    if (!first) {
+      await this.sendMessage(
+        chatId,
+        '❌ Usage: `/rescore <alert-id|trade-id>` or `/rescore <from> [to]`\n' +
+          'Example: `/rescore 2026-01-01 2026-01-31`'
+      );
+      return;
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}/.test(first)) {
+      await this.handleRescoreRange(chatId, first, second);
+      return;
+    }
+
+    await this.sendMessage(chatId, `⏳ Rescoring \`${first}\`...`);
+
+    try {
+      const result =
+        (await rescoreService.rescoreAlert(first)) ??
+        (await rescoreService.rescoreTrade(first));
+
+      if (result === null) {
+        await this.sendMessage(
+          chatId,
+          `❌ No alert or trade found: \`${first}\``
+        );
+        return;
+      }
+
+      await this.sendMessage(chatId, this.formatRescoreResult(result));
+    } catch (error) {
+      logger.error({ error, id: first }, 'Failed to rescore');
+      await this.sendMessage(chatId, '❌ Failed to rescore');
+    }
+  }
+
+  /**
+   * Rescore every alert in a date range and summarize the shift
+   */
+  private async handleRescoreRange(
+    chatId: number,
+    fromArg: string,
+    toArg: string | undefined
+  ): Promise<void> {
+    const from = new Date(fromArg);
+    const to = toArg !== undefined ? new Date(toArg) : new Date();
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      await this.sendMessage(chatId, '❌ Invalid date - use YYYY-MM-DD');
+      return;
+    }
+
+    await this.sendMessage(chatId, '⏳ Rescoring alerts in range...');
+
+    try {
+      const summary = await rescoreService.rescoreRange(from, to);
+
+      let message =
+        `🔁 *Rescore ${summary.range.from.slice(0, 10)} → ${summary.range.to.slice(0, 10)}*\n\n` +
+        `• Alerts: ${summary.rescored}/${summary.alerts} rescored` +
+        `${summary.truncated ? ' (truncated)' : ''}\n` +
+        `• Still alerting: ${summary.stillAlerting}\n` +
+        `• No longer alerting: ${summary.noLongerAlerting}\n` +
+        `• Classification changed: ${summary.classificationChanged}\n` +
+        `• Mean score change: ${summary.meanScoreDelta?.toFixed(1) ?? 'n/a'}\n`;
+
+      const shifts = Object.entries(summary.shifts).flatMap(([from, row]) =>
+        Object.entries(row)
+          .filter(([to]) => to !== from)
+          .map(([to, count]) => `• \`${from}\` → \`${to}\`: ${count}`)
+      );
+      if (shifts.length > 0) {
+        message += `\n*Shifts:*\n${shifts.join('\n')}\n`;
+      }
+      if (summary.failed.length > 0) {
+        message += `\n⚠️ ${summary.failed.length} failed`;
+      }
+
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      logger.error({ error }, 'Failed to bulk rescore');
+      await this.sendMessage(chatId, '❌ Failed to rescore range');
+    }
+  }
+
+  /**
+   * Format a single rescore diff
+   */
+  private formatRescoreResult(result: RescoreResult): string {
+    const { original, current } = result;
+    let message =
+      `🔁 *Rescore* \`${result.alertId ?? result.tradeId}\`\n` +
+      `Inputs: ${result.inputSource}\n\n`;
+
+    if (original !== null) {
+      message +=
+        `• Original (${original.scorerVersion ?? 'unknown'}): ` +
+        `${original.totalScore} \`${original.classification}\`\n`;
+    }
+    message +=
+      `• Current (${current.scorerVersion}): ` +
+      `${current.totalScore} \`${current.classification}\`\n`;
+    if (current.filterReason !== null) {
+      message += `• Filter: \`${current.filterReason}\`\n`;
+    }
+    message += `• Would alert: ${result.wouldAlert ? 'yes' : 'no'}\n`;
+
+    const fieldChanges = result.changes.filter(
+      (change) =>
+        change.field !== 'totalScore' && change.field !== 'classification'
+    );
+    if (fieldChanges.length > 0) {
+      message +=
+        `\n*Changed:*\n` +
+        fieldChanges
+          .map(
+            (change) =>
+              `• \`${change.field}\`: \`${change.original}\` → \`${change.current}\``
+          )
+          .join('\n');
+    }
+
+    return message;
+  }
+
+  /**
+   * Handle /budget command
+   * `/budget` shows the alert rate vs budget,
+   * `/budget approve|reject <id>` decides a pending adjustment
+   */
+  private async handleBudget(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    const [action, id] = args.split(/\s+/);
+
+    if (action === 'approve' || action === 'reject') {
+      if (!id) {
+        await this.sendMessage(
+          chatId,
+          `❌ Usage: \`/budget ${action} <adjustment-id>\``
+        );
+        return;
+      }
+
+      try {
+        const decidedBy = `telegram:${username ?? chatId}`;
+        const result =
+          action === 'approve'
+            ? await alertBudgetController.approve(id, decidedBy)
+            : await alertBudgetController.reject(id, decidedBy);
+
+        if (result === null) {
+          await this.sendMessage(chatId, `❌ Adjustment not found: \`${id}\``);
+        } else if (!result.success) {
+          await this.sendMessage(chatId, `❌ ${result.error}`);
+        } else {
+          await this.sendMessage(
+            chatId,
+            action === 'approve'
+              ? `✅ Applied: alert threshold ${result.data.alertThreshold}, wallet score floor ${result.data.minWalletScore}`
+              : `🚫 Adjustment \`${id}\` rejected`
+          );
+        }
+      } catch (error) {
+        logger.error(
+          { error, id, action },
+          'Failed to decide budget adjustment'
+        );
+        await this.sendMessage(chatId, `❌ Failed to ${action} adjustment`);
+      }
+      return;
+    }
+
+    try {
+      const status = await alertBudgetController.getStatus(5);
+      const { settings } = status;
+
+      let message =
+        `🎚️ *Alert Budget*\n\n` +
+        `Controller: ${settings.enabled ? `on (\`${settings.mode}\`)` : 'off'}\n` +
+        `Rate: ${status.alertsPerMonth.toFixed(1)}/month ` +
+        `(${status.alertsInWindow} in ${settings.windowDays}d) - ` +
+        `budget ${settings.budgetMin}-${settings.budgetMax} ` +
+        `${status.withinBudget ? '✅' : '⚠️'}\n` +
+        `Alert threshold: ${status.current.alertThreshold}\n` +
+        `Wallet score floor: ${status.current.minWalletScore}\n`;
+
+      if (status.pending !== null) {
+        const p = status.pending;
+        message +=
+          `\n*Pending:* \`${p.id}\`\n` +
+          `${p.reason}\n` +
+          `Threshold ${p.previousAlertThreshold} → ${p.alertThreshold}, ` +
+          `wallet floor ${p.previousMinWalletScore} → ${p.minWalletScore}\n`;
+      }
+
+      const decided = status.history.filter((a) => a.status !== 'pending');
+      if (decided.length > 0) {
+        message +=
+          `\n*Recent changes:*\n` +
+          decided
+            .map(
+              (a) =>
+                `• ${a.createdAt.slice(0, 10)} \`${a.status}\` ` +
+                `threshold ${a.previousAlertThreshold} → ${a.alertThreshold}, ` +
+                `wallet floor ${a.previousMinWalletScore} → ${a.minWalletScore}`
+            )
+            .join('\n');
+      }
+
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      logger.error({ error }, 'Failed to get alert budget status');
+      await this.sendMessage(chatId, '❌ Failed to get alert budget status');
+    }
+  }
+
+  /**
+   * Handle /thresholds command
+   * `/thresholds` lists effective values (✏️ = runtime override),
+   * `/thresholds set <key> <value>` / `reset <key>` change an override,
+   * `/thresholds history` shows recent changes. Prefix with
+   * `market <slug|id>`, `category <name>` or `tier <n>` to work on
+   * scoped overrides instead.
+   */
+  private async handleThresholds(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    const tokens = args.split(/\s+/).filter((token) => token !== '');
+    const changedBy = `telegram:${username ?? chatId}`;
+
+    let scope: ThresholdScope | null = null;
+    let scopeValue = '';
+    if (THRESHOLD_SCOPES.includes(tokens[0] as ThresholdScope)) {
+      scope = tokens[0] as ThresholdScope;
+      scopeValue = tokens[1] ?? '';
+      tokens.splice(0, 2);
+      if (scopeValue === '') {
+        await this.sendMessage(
+          chatId,
+          `❌ Usage: \`/thresholds ${scope} <${scope === 'market' ? 'slug|id' : scope}> [set|reset|history]\``
+        );
+        return;
+      }
+      if (scope === 'market') {
+        // Accept a slug like the other market commands
+        const market = marketService
+          .getAllMarkets()
+          .find((m) => m.slug === scopeValue || m.id === scopeValue);
+        if (market !== undefined) scopeValue = market.id;
+      }
+    }
+    const prefix = scope !== null ? `${scope} ${scopeValue} ` : '';
+    const label = scope !== null ? ` (${scope} \`${scopeValue}\`)` : '';
+    const [action, key, rawValue] = tokens;
+
+    if (action === 'set' || action === 'reset') {
+      if (!key || (action === 'set' && rawValue === undefined)) {
+        await this.sendMessage(
+          chatId,
+          action === 'set'
+            ? `❌ Usage: \`/thresholds ${prefix}set <key> <value>\``
+            : `❌ Usage: \`/thresholds ${prefix}reset <key>\``
+        );
+        return;
+      }
+
+      let value: number | boolean | string | null = null;
+      if (action === 'set' && rawValue !== undefined) {
+        const numeric = Number(rawValue);
+        value =
+          rawValue === 'true' || rawValue === 'false'
+            ? rawValue === 'true'
+            : rawValue.trim() !== '' && Number.isFinite(numeric)
+              ? numeric
+              : rawValue;
+      }
+
+      try {
+        const result =
+          scope !== null
+            ? await thresholdManager.updateScoped(
+                scope,
+                scopeValue,
+                { [key]: value },
+                changedBy
+              )
+            : await thresholdManager.update({ [key]: value }, changedBy);
+        if (!result.success) {
+          await this.sendMessage(chatId, `❌ ${result.error}`);
+          return;
+        }
+
+        const change = result.data[0];
+        await this.sendMessage(
+          chatId,
+          change === undefined
+            ? `ℹ️ \`${key}\` unchanged${label}`
+            : `✅ \`${key}\`${label}: ${this.formatThresholdValue(change.previousValue)} → ${this.formatThresholdValue(change.newValue)}` +
+                (change.cleared && scope === null ? ' (profile/env value)' : '')
+        );
+      } catch (error) {
+        logger.error(
+          { error, key, action, scope, scopeValue },
+          'Failed to update threshold'
+        );
+        await this.sendMessage(chatId, '❌ Failed to update threshold');
+      }
+      return;
+    }
+
+    try {
+      if (action === 'history') {
+        const changes = await thresholdManager.getHistory(
+          10,
+          scope !== null ? { scope, scopeValue } : {}
+        );
+        const message =
+          changes.length === 0
+            ? 'No threshold changes recorded'
+            : `🎛️ *Recent Threshold Changes*${label}\n\n` +
+              changes
+                .map(
+                  (c) =>
+                    `• ${c.createdAt.slice(0, 16).replace('T', ' ')} \`${c.key}\` ` +
+                    (c.scope !== null && scope === null
+                      ? `(${c.scope} \`${c.scopeValue ?? ''}\`) `
+                      : '') +
+                    `${this.formatThresholdValue(c.previousValue)} → ${this.formatThresholdValue(c.newValue)}` +
+                    `${c.cleared ? ' (reset)' : ''} by \`${c.changedBy}\``
+                )
+                .join('\n');
+        await this.sendMessage(chatId, message);
+        return;
+      }
+
+      if (scope === 'market') {
+        const resolution = thresholdManager.getMarketResolution(
+          scopeValue,
+          alertScorer.getConfig()
+        );
+        if (resolution === null) {
+          await this.sendMessage(
+            chatId,
+            `❌ Market not monitored: \`${scopeValue}\``
+          );
+          return;
+        }
+
+        const { thresholds } = resolution;
+        const message =
+          `🎛️ *Market Thresholds*${label}\n` +
+          `Category \`${resolution.category}\`, tier ${resolution.tier}\n\n` +
+          `• Min trade (scorer): $${resolution.scorer.minTradeSizeUsd.toLocaleString()}\n` +
+          `• Min OI (scorer): $${resolution.scorer.minOiUsd.toLocaleString()}\n` +
+          `• Absolute min: $${thresholds.absoluteMinUsd.toLocaleString()}\n` +
+          `• Impact method: \`${thresholds.oiCalculationMethod}\`\n` +
+          `• Min liquidity impact: ${thresholds.minLiquidityImpactPercentage}%\n\n` +
+          (resolution.overrides.length === 0
+            ? 'No scoped overrides - global thresholds apply'
+            : `*Overrides applied* (later wins)\n` +
+              resolution.overrides
+                .map(
+                  (o) =>
+                    `• ${o.scope} \`${o.scopeValue}\`: \`${o.key}\` = ${String(o.value)}`
+                )
+                .join('\n'));
+        await this.sendMessage(chatId, message);
+        return;
+      }
+
+      if (scope !== null) {
+        const overrides = await thresholdManager.getScopedOverrides({
+          scope,
+          scopeValue,
+        });
+        const message =
+          `🎛️ *Scoped Thresholds*${label}\n\n` +
+          (overrides.length === 0
+            ? 'No overrides - global thresholds apply'
+            : overrides
+                .map((o) => `• \`${o.key}\`: ${String(o.value)}`)
+                .join('\n')) +
+          `\n\nChange with \`/thresholds ${prefix}set <key> <value>\``;
+        await this.sendMessage(chatId, message);
+        return;
+      }
+
+      const [state, scoped] = await Promise.all([
+        thresholdManager.getState(),
+        thresholdManager.getScopedOverrides(),
+      ]);
+      const overridden = new Set(state.overrides.map((o) => o.key));
+      const message =
+        `🎛️ *Detection Thresholds* (✏️ = runtime override)\n\n` +
+        Object.entries(state.thresholds)
+          .map(
+            ([name, value]) =>
+              `${overridden.has(name) ? '✏️' : '•'} \`${name}\`: ${String(value)}`
+          )
+          .join('\n') +
+        `\n\nScoped overrides: ${scoped.length} ` +
+        `(\`/thresholds market|category|tier <value>\`)` +
+        `\nChange with \`/thresholds set <key> <value>\``;
+
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      logger.error({ error, scope, scopeValue }, 'Failed to get thresholds');
+      await this.sendMessage(chatId, '❌ Failed to get thresholds');
+    }
+  }
+
+  private formatThresholdValue(value: unknown): string {
+    return value === null ? 'none' : String(value);
+  }
+
+  /**
+   * Handle /profile command
+   * `/profile` shows the active profile and the saved ones,
+   * `/profile save <name> [description]` stores the thresholds and scorer
+   * config in force as a new version, `/profile activate <name>[@version]
+   * [48h|<date>]` switches profile (time-boxed with an end),
+   * `/profile deactivate` goes back to env thresholds.
+   */
+  private async handleProfile(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    const [action, target, ...rest] = args.split(/\s+/);
+    const by = `telegram:${username ?? chatId}`;
+
+    try {
+      if (action === 'save') {
+        if (!target) {
+          await this.sendMessage(
+            chatId,
+            '❌ Usage: `/profile save <name> [description]`'
+          );
+          return;
+        }
+
+        // Snapshot of what is in force now (latest version for existing profiles)
+        const [latest] = await thresholdProfiles.getProfileVersions(target);
+        const description = rest.join(' ');
+        const result = await thresholdProfiles.saveProfile(
+          target,
+          {
+            thresholds: { ...getThresholds() },
+            scorer: alertScorer.getConfig(),
+            ...(description !== '' && { description }),
+          },
+          by
+        );
+        if (!result.success) {
+          await this.sendMessage(chatId, `❌ ${result.error}`);
+          return;
+        }
+
+        await this.sendMessage(
+          chatId,
+          `✅ Saved profile \`${result.data.name}\` v${result.data.version}` +
+            (latest !== undefined
+              ? ` (was v${latest.version})`
+              : ' from the thresholds in force') +
+            `\nActivate with \`/profile activate ${result.data.name}\``
+        );
+        return;
+      }
+
+      if (action === 'activate') {
+        if (!target) {
+          await this.sendMessage(
+            chatId,
+            '❌ Usage: `/profile activate <name>[@version] [48h|3d|<ISO date>]`'
+          );
+          return;
+        }
+
+        const [name = '', rawVersion] = target.split('@');
+        const version =
+          rawVersion !== undefined ? Number(rawVersion) : undefined;
+        if (version !== undefined && !Number.isInteger(version)) {
+          await this.sendMessage(chatId, `❌ Invalid version: ${rawVersion}`);
+          return;
+        }
+
+        const window = rest.join(' ');
+        const expiresAt =
+          window !== '' ? parseProfileWindow(window) : undefined;
+        if (expiresAt === null) {
+          await this.sendMessage(
+            chatId,
+            `❌ Invalid end: ${window} (use 90m, 48h, 3d or an ISO date)`
+          );
+          return;
+        }
+
+        const result = await thresholdProfiles.activate(
+          name,
+          {
+            ...(version !== undefined && { version }),
+            ...(expiresAt !== undefined && { expiresAt }),
+          },
+          by
+        );
+        if (!result.success) {
+          await this.sendMessage(chatId, `❌ ${result.error}`);
+          return;
+        }
+
+        const activation = result.data;
+        await this.sendMessage(
+          chatId,
+          `🎛️ Profile \`${activation.profileName}\` v${activation.profileVersion} active` +
+            (activation.expiresAt !== null
+              ? ` until ${activation.expiresAt.slice(0, 16).replace('T', ' ')} UTC, then ` +
+                (activation.revertTo !== null
+                  ? `back to \`${activation.revertTo.name}\` v${activation.revertTo.version}`
+                  : 'back to env thresholds')
+              : '')
+        );
+        return;
+      }
+
+      if (action === 'deactivate') {
+        const ended = await thresholdProfiles.deactivate(by);
+        await this.sendMessage(
+          chatId,
+          ended !== null
+            ? `✅ Profile \`${ended.profileName}\` v${ended.profileVersion} deactivated - env thresholds apply`
+            : 'ℹ️ No profile active'
+        );
+        return;
+      }
+
+      if (action === 'history') {
+        const activations = await thresholdProfiles.getActivationHistory(10);
+        const message =
+          activations.length === 0
+            ? 'No profile activations recorded'
+            : `🎛️ *Recent Profile Activations*\n\n` +
+              activations
+                .map(
+                  (a) =>
+                    `• ${a.activatedAt.slice(0, 16).replace('T', ' ')} \`${a.profileName}\` v${a.profileVersion} by \`${a.activatedBy}\`` +
+                    (a.expiresAt !== null
+                      ? ` (until ${a.expiresAt.slice(0, 16).replace('T', ' ')})`
+                      : '') +
+                    (a.endReason !== null ? ` - ${a.endReason}` : ' - active')
+                )
+                .join('\n');
+        await this.sendMessage(chatId, message);
+        return;
+      }
+
+      const profiles = await thresholdProfiles.listProfiles();
+      const active = thresholdProfiles.getActive();
+      const message =
+        `🎛️ *Threshold Profiles*\n\n` +
+        `Active: ${this.formatActiveProfile()}\n\n` +
+        (profiles.length === 0
+          ? 'No profiles saved yet'
+          : profiles
+              .map(
+                (p) =>
+                  `${active?.profileName === p.name ? '▶️' : '•'} \`${p.name}\` v${p.latestVersion}` +
+                  (p.description !== null ? ` - ${p.description}` : '')
+              )
+              .join('\n')) +
+        `\n\nSave with \`/profile save <name>\`, switch with \`/profile activate <name> [48h]\``;
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      logger.error({ error, action }, 'Failed to handle profile command');
+      await this.sendMessage(chatId, '❌ Failed to handle profile command');
+    }
+  }
+
+  /**
+   * Active threshold profile for status lines
+   */
+  private formatActiveProfile(): string {
+    const active = thresholdProfiles.getActive();
+    if (active === null) return 'none (env thresholds)';
+    return (
+      `\`${active.profileName}\` v${active.profileVersion}` +
+      (active.expiresAt !== null
+        ? ` until ${active.expiresAt.slice(0, 16).replace('T', ' ')} UTC`
+        : '')
+    );
+  }
+
+  /**
+   * Handle /events command
+   * `/events <market>` lists upcoming catalysts; `add <when> [type] <title>`
+   * schedules one (times without a zone are UTC) and `remove <id>` deletes it.
+   */
+  private async handleEvents(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    const [market, action, ...rest] = args
+      .split(/\s+/)
+      .filter((token) => token !== '');
+    const by = `telegram:${username ?? chatId}`;
+
+    if (!market) {
+      await this.sendMessage(
+        chatId,
+        '❌ Usage: `/events <slug|id> [add <when> [type] <title> | remove <id>]`'
+      );
+      return;
+    }
+
+    try {
+      const marketId = await marketEventService.resolveMarketId(market);
+      if (marketId === null) {
+        await this.sendMessage(chatId, `❌ Market not found: \`${market}\``);
+        return;
+      }
+
+      if (action === 'add') {
+        const [when, maybeType, ...titleWords] = rest;
+        const hasType = MARKET_EVENT_TYPES.includes(
+          maybeType as MarketEventType
+        );
+        const title = (
+          hasType ? titleWords : [maybeType ?? '', ...titleWords]
+        ).join(' ');
+        if (!when || title.trim() === '') {
+          await this.sendMessage(
+            chatId,
+            `❌ Usage: \`/events ${market} add <2026-11-04T21:00> [type] <title>\`\n` +
+              `Types: ${MARKET_EVENT_TYPES.join(', ')}`
+          );
+          return;
+        }
+
+        const scheduledAt = /(Z|[+-]\d{2}:?\d{2})$/.test(when)
+          ? when
+          : `${when}Z`;
+        const result = await marketEventService.create(
+          marketId,
+          {
+            title,
+            scheduledAt,
+            ...(hasType && { eventType: maybeType }),
+          },
+          by
+        );
+        if (!result.success) {
+          await this.sendMessage(chatId, `❌ ${result.error}`);
+          return;
+        }
+
+        await this.sendMessage(
+          chatId,
+          `✅ Scheduled ${result.data.eventType} \`${result.data.title}\` at ` +
+            `${result.data.scheduledAt.slice(0, 16).replace('T', ' ')} UTC\n` +
+            `ID: \`${result.data.id}\``
+        );
+        return;
+      }
+
+      if (action === 'remove') {
+        const [eventId] = rest;
+        const existing =
+          eventId !== undefined ? await marketEventService.get(eventId) : null;
+        if (existing === null || existing.marketId !== marketId) {
+          await this.sendMessage(
+            chatId,
+            `❌ Usage: \`/events ${market} remove <event-id>\` (see \`/events ${market}\`)`
+          );
+          return;
+        }
+
+        await marketEventService.delete(existing.id, by);
+        await this.sendMessage(
+          chatId,
+          `🗑️ Removed \`${existing.title}\` (${existing.scheduledAt.slice(0, 16).replace('T', ' ')} UTC)`
+        );
+        return;
+      }
+
+      const events = await marketEventService.list(marketId, {
+        upcomingOnly: true,
+        limit: 15,
+      });
+      if (events.length === 0) {
+        await this.sendMessage(
+          chatId,
+          `📅 No upcoming events for \`${market}\`.\n\nAdd one with \`/events ${market} add <when> [type] <title>\``
+        );
+        return;
+      }
+
+      let message = `📅 *Upcoming events* (\`${market}\`)\n\n`;
+      for (const event of events) {
+        message +=
+          `• ${event.scheduledAt.slice(0, 16).replace('T', ' ')} UTC - ` +
+          `${event.eventType} \`${event.title}\`\n` +
+          `  ID: \`${event.id}\`\n`;
+      }
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      logger.error({ error, market }, 'Failed to handle /events command');
+      await this.sendMessage(chatId, '❌ Failed to handle market events');
+    }
+  }
+
+  /**
+   * Handle /whoknew command
+   * Without arguments lists recent reports; with a market, reports on its
+   * upset resolution or latest price jump.
+   */
+  private async handleWhoKnew(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    try {
+      if (args === '') {
+        const reports = await whoKnewReport.listReports({ limit: 5 });
+        if (reports.length === 0) {
+          await this.sendMessage(chatId, '🕵️ No who-knew reports yet');
+          return;
+        }
+
+        let message = `🕵️ *Recent who-knew reports*\n\n`;
+        for (const report of reports) {
+          const question = stripMarkdown(report.market.question);
+          const top = report.wallets[0];
+          message +=
+            `• ${question}\n` +
+            `  ${report.side.toUpperCase()} · ${report.trigger} · ${report.moveAt.toISOString().slice(0, 10)} · ` +
+            `${report.wallets.length} wallet(s)` +
+            (top !== undefined
+              ? `, top \`${top.walletAddress.slice(0, 10)}...\` +$${Math.round(top.potentialProfit).toLocaleString('en-US')}`
+              : '') +
+            `\n  \`/whoknew ${report.market.slug}\`\n`;
+        }
+        await this.sendMessage(chatId, message);
+        return;
+      }
+
+      const marketId = await marketEventService.resolveMarketId(args);
+      if (marketId === null) {
+        await this.sendMessage(chatId, `❌ Market not found: \`${args}\``);
+        return;
+      }
+
+      await this.sendMessage(
+        chatId,
+        '⏳ Looking back over trades before the move...'
+      );
+      const result = await whoKnewReport.reportForMarket(
+        marketId,
+        `telegram:${username ?? chatId}`
+      );
+      if (!result.success) {
+        await this.sendMessage(chatId, `❌ ${result.error}`);
+        return;
+      }
+      await this.sendMessage(chatId, whoKnewReport.formatReport(result.data));
+    } catch (error) {
+      logger.error({ error, args }, 'Failed to handle /whoknew command');
+      await this.sendMessage(chatId, '❌ Failed to build who-knew report');
+    }
+  }
+
+  /**
+   * Handle /watch command
+   * Without arguments lists watched wallets; with an address, watches it.
+   */
+  private async handleWatch(
+    chatId: number,
+    args: string,
+    username: string | undefined
+  ): Promise<void> {
+    try {
+      if (args === '') {
+        const wallets = await walletWatchlist.list();
+        if (wallets.length === 0) {
+          await this.sendMessage(
+            chatId,
+            '👁️ No watched wallets\n\nUse `/watch <address> [label]` to add one.'
+          );
+          return;
+        }
+
+        let message = `👁️ *Watched Wallets (${wallets.length})*\n\n`;
+        for (const wallet of wallets.slice(0, 30)) {
+          const label =
+            wallet.label !== null ? ` ${stripMarkdown(wallet.label)}` : '';
+          const lastSeen =
+            wallet.lastActivityAt !== null
+              ? `last seen ${wallet.lastActivityAt.toISOString().slice(0, 10)}`
+              : 'no activity yet';
+          message += `• \`${wallet.address}\`${label}\n  ${wallet.source} · ${lastSeen}\n`;
+        }
+        if (wallets.length > 30) {
+          message += `\n…and ${wallets.length - 30} more`;
+        }
+        await this.sendMessage(chatId, message);
+        return;
+      }
+
+      const [address = '', ...labelWords] = args.split(/\s+/);
+      const label = labelWords.join(' ');
+      const result = await walletWatchlist.add({
+        address,
+        ...(label !== '' && { label }),
+        source: 'manual',
+        addedBy: `telegram:${username ?? chatId}`,
+      });
+      if (!result.success) {
+        await this.sendMessage(chatId, `❌ ${result.error}`);
+        return;
+      }
+
+      await this.sendMessage(
+        chatId,
+        `👁️ Watching \`${result.data.address}\`` +
+          (result.data.proxyAddress !== null
+            ? ` (proxy \`${result.data.proxyAddress}\`)`
+            : '') +
+          `\n\nEvery trade it makes, in any market, will be reported.`
+      );
+    } catch (error) {
+      logger.error({ error, args }, 'Failed to handle /watch command');
+      await this.sendMessage(chatId, '❌ Failed to update watchlist');
+    }
+  }
+
+  /**
+   * Handle /unwatch command
+   */
+  private async handleUnwatch(chatId: number, address: string): Promise<void> {
+    try {
+      const removed = await walletWatchlist.remove(address);
+      await this.sendMessage(
+        chatId,
+        removed
+          ? `✅ Stopped watching \`${address}\``
+          : `❌ Wallet not watched: \`${address}\``
+      );
+    } catch (error) {
+      logger.error({ error, address }, 'Failed to handle /unwatch command');
+      await this.sendMessage(chatId, '❌ Failed to update watchlist');
+    }
+  }
+
+  /**
+   * Handle /top command
+   * Most suspicious wallets, optionally for one category and a recent
+   * window ("7d", "24h")
+   */
+  private async handleTop(chatId: number, args: string): Promise<void> {
+    let category: MarketCategory | undefined;
+    let windowHours: number | undefined;
+    let windowLabel = '';
+    for (const arg of args.split(/\s+/).filter((part) => part !== '')) {
+      const window = /^(\d+)([hd])$/.exec(arg);
+      if (MARKET_CATEGORIES.includes(arg as MarketCategory)) {
+        category = arg as MarketCategory;
+      } else if (window !== null) {
+        windowHours = Number(window[1]) * (window[2] === 'd' ? 24 : 1);
+        windowLabel = `last ${arg}`;
+      } else {
+        await this.sendMessage(
+          chatId,
+          `❌ Usage: \`/top [${MARKET_CATEGORIES.join('|')}] [7d|24h]\``
+        );
+        return;
+      }
+    }
+
+    try {
+      const leaderboard = await walletLeaderboard.getLeaderboard({
+        ...(category !== undefined && { category }),
+        ...(windowHours !== undefined && {
+          from: new Date(Date.now() - windowHours * 60 * 60 * 1000),
+        }),
+        limit: 10,
+      });
+
+      const scope = [category ?? '', windowLabel]
+        .filter((part) => part !== '')
+        .join(', ');
+      if (leaderboard.entries.length === 0) {
+        await this.sendMessage(
+          chatId,
+          `🏆 No alerted wallets${scope !== '' ? ` (${scope})` : ''}`
+        );
+        return;
+      }
+
+      let message = `🏆 *Most suspicious wallets*${scope !== '' ? ` (${scope})` : ''}\n\n`;
+      for (const entry of leaderboard.entries) {
+        const accuracy =
+          entry.accuracy !== null
+            ? `${entry.won}/${entry.resolved} right (${(entry.accuracy * 100).toFixed(0)}%)`
+            : 'no resolved alerts';
+        message +=
+          `${entry.rank}. \`${entry.walletAddress.slice(0, 10)}...${entry.walletAddress.slice(-4)}\`` +
+          ` · ${entry.alerts} alert(s)` +
+          (entry.strongAlerts > 0 ? `, ${entry.strongAlerts} strong` : '') +
+          `\n   max ${entry.maxScore} · avg ${entry.avgScore.toFixed(0)} · ` +
+          `$${Math.round(entry.flaggedUsd).toLocaleString('en-US')} flagged · ` +
+          `${entry.markets} market(s)\n` +
+          `   ${accuracy}\n`;
+      }
+      if (leaderboard.wallets > leaderboard.entries.length) {
+        message += `\n…of ${leaderboard.wallets} alerted wallets`;
+      }
+      await this.sendMessage(chatId, message);
+    } catch (error) {
+      logger.error({ error, args }, 'Failed to handle /top command');
+      await this.sendMessage(chatId, '❌ Failed to build wallet leaderboard');
+    }
+  }
+
   /**
    * Handle /help command
    */
@@ -773,6 +1858,28 @@ class TelegramCommandHandler {
       `• \`/status\` - Show bot status\n` +
       `• \`/test <wallet>\` - Test wallet fingerprint\n` +
       `• \`/stats\` - Show filter funnel stats\n` +
+      `• \`/label <alert-id> <label> [notes]\` - Label an alert\n` +
+      `• \`/rescore <alert-id|trade-id>\` - Rescore with current settings\n` +
+      `• \`/rescore <from> [to]\` - Rescore alerts in a date range\n` +
+      `• \`/budget\` - Alert rate vs budget and threshold changes\n` +
+      `• \`/budget approve|reject <id>\` - Decide a threshold proposal\n` +
+      `• \`/thresholds\` - Show detection thresholds\n` +
+      `• \`/thresholds set|reset <key> [value]\` - Change a threshold live\n` +
+      `• \`/thresholds history\` - Recent threshold changes\n` +
+      `• \`/thresholds market|category|tier <value> [set|reset ...]\` - Per-market overrides\n` +
+      `• \`/profile\` - Threshold profiles and the active one\n` +
+      `• \`/profile save <name>\` - Save the thresholds in force as a profile\n` +
+      `• \`/profile activate <name> [48h|date]\` - Switch profile (optionally time-boxed)\n` +
+      `• \`/profile deactivate|history\` - Back to env thresholds / recent switches\n` +
+      `• \`/events <slug>\` - Upcoming scheduled catalysts for a market\n` +
+      `• \`/events <slug> add <when> [type] <title>\` - Schedule a catalyst\n` +
+      `• \`/events <slug> remove <id>\` - Delete a scheduled catalyst\n` +
+      `• \`/whoknew\` - Recent who-knew reports\n` +
+      `• \`/whoknew <slug>\` - Who bought the winning side before a big move\n` +
+      `• \`/watch\` - Watched wallets\n` +
+      `• \`/watch <address> [label]\` - Follow a wallet in every market\n` +
+      `• \`/unwatch <address>\` - Stop following a wallet\n` +
+      `• \`/top [category] [7d]\` - Most suspicious wallets by their alerts\n` +
       `• \`/help\` - Show this help\n\n` +
       `*Example:*\n` +
       `\`/add maduro-out-in-2025\``;
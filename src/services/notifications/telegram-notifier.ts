@@ -2,6 +2,7 @@ import axios, { type AxiosInstance, AxiosError } from 'axios';
 import { getEnv } from '../../config/env.js';
 import { logger } from '../../utils/logger.js';
 import type { AlertData } from '../alerts/alert-persistence.js';
+import { formatAlertHistory } from '../alerts/wallet-alert-history.js';
 
 const env = getEnv();
 
@@ -171,6 +172,12 @@ class TelegramNotifierService {
     message += `• Position: ${alert.tradeSide} ${outcome} @ ${bettingPrice}¢\n`;
     message += `• Size: $${alert.tradeSignal.tradeUsdValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}\n`;
     message += `• Impact: ${alert.tradeSignal.impactPercentage.toFixed(2)}% of ${alert.tradeSignal.impactMethod}\n`;
+    if (alert.eventPattern !== undefined && alert.eventPattern !== null) {
+      const title = alert.eventPattern.gammaEventTitle ?? 'event';
+      message += `• 🕸️ YES here, NO on ${alert.eventPattern.noLegs} other market(s) of \`${title.replace(/`/g, "'")}\`\n`;
+    } else if (alert.tradeSignal.componentTradeIds !== undefined) {
+      message += `• 🧩 Accumulated over ${alert.tradeSignal.componentTradeIds.length} fills (net position, avg price)\n`;
+    }
     message += `• Time: ${timestamp} UTC\n\n`;
 
     // Score breakdown with multipliers
@@ -185,6 +192,14 @@ class TelegramNotifierService {
         `⏰ Resolution +${alert.scoreBreakdown.resolutionProximityBonus}`
       );
     }
+    if (alert.scoreBreakdown.catalystProximityBonus > 0) {
+      bonuses.push(
+        `📅 Catalyst +${alert.scoreBreakdown.catalystProximityBonus}` +
+          (alert.nextCatalyst
+            ? ` (\`${alert.nextCatalyst.title.replace(/`/g, "'")}\`)`
+            : '')
+      );
+    }
     if (alert.scoreBreakdown.contrarianBonus > 0) {
       bonuses.push(`🎯 Contrarian +${alert.scoreBreakdown.contrarianBonus}`);
     }
@@ -194,9 +209,30 @@ class TelegramNotifierService {
     if (alert.scoreBreakdown.clusterBonus > 0) {
       bonuses.push(`🔗 Cluster +${alert.scoreBreakdown.clusterBonus}`);
     }
+    if (alert.scoreBreakdown.eventPatternBonus > 0) {
+      bonuses.push(`🕸️ Event +${alert.scoreBreakdown.eventPatternBonus}`);
+    }
+    if (alert.scoreBreakdown.repeatOffenderBonus > 0) {
+      bonuses.push(`🔁 Repeat +${alert.scoreBreakdown.repeatOffenderBonus}`);
+    }
+    if (alert.scoreBreakdown.timingBonus > 0) {
+      const active = (alert.timingWindows ?? [])
+        .filter((window) => window.isActive)
+        .map((window) => window.name)
+        .join('/');
+      bonuses.push(
+        `🌙 Timing +${alert.scoreBreakdown.timingBonus}${active !== '' ? ` (${active})` : ''}`
+      );
+    }
     if (bonuses.length > 0) {
       message += `• Bonuses: ${bonuses.join(', ')}\n`;
     }
+    if (alert.modelScore !== undefined) {
+      message += `• 🤖 Model ${alert.modelScore.version}: ${(alert.modelScore.probability * 100).toFixed(0)}% (rule score: ${alert.modelScore.ruleScore})\n`;
+    }
+    if (alert.thresholdProfile !== undefined) {
+      message += `• 🎛️ Profile: \`${alert.thresholdProfile}\`\n`;
+    }
 
     message += `\n`;
 
@@ -207,6 +243,22 @@ class TelegramNotifierService {
       : `• Address: \`${walletShort}\`\n`;
     message += `• Account Age: ${alert.walletFingerprint.metadata.walletAgeDays} days\n`;
     message += `• PM Trades: ${alert.walletFingerprint.subgraphMetadata.polymarketTradeCount} total\n`;
+    const performance = alert.walletFingerprint.walletMetadata.performance;
+    if (
+      performance !== undefined &&
+      performance !== null &&
+      performance.winRate !== null
+    ) {
+      message += `• Win Rate: ${(performance.winRate * 100).toFixed(0)}% (${performance.wins}/${performance.resolvedPositions} resolved)`;
+      if (performance.avgWinningEntry !== null) {
+        message += `, avg winning entry ${(performance.avgWinningEntry * 100).toFixed(0)}¢`;
+      }
+      message += `\n`;
+      message += `• Realized PnL: ${performance.realizedPnl < 0 ? '-' : '+'}$${Math.abs(performance.realizedPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}\n`;
+    }
+    if (alert.walletHistory !== undefined && alert.walletHistory !== null) {
+      message += `• Prior Alerts: ${formatAlertHistory(alert.walletHistory)}\n`;
+    }
     message += `• PM Volume: $${alert.walletFingerprint.subgraphMetadata.polymarketVolumeUSD.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })} lifetime\n`;
 
     // Position concentration (value is already 0-100 percentage)
@@ -230,7 +282,9 @@ class TelegramNotifierService {
       walletFlags.youngAccount ||
       walletFlags.freshFatBet ||
       walletFlags.highConcentration ||
-      walletFlags.lowDiversification;
+      walletFlags.lowDiversification ||
+      walletFlags.highWinRate ||
+      walletFlags.lowOddsWinner;
 
     if (hasFlags) {
       message += `\n🚩 *Suspicious Flags:*\n`;
@@ -241,11 +295,19 @@ class TelegramNotifierService {
       if (walletFlags.highConcentration) message += `• 🎲 High concentration\n`;
       if (walletFlags.lowDiversification)
         message += `• 🎯 Low diversification (insider signal)\n`;
+      if (walletFlags.highWinRate) message += `• 🏆 High win rate\n`;
+      if (walletFlags.lowOddsWinner)
+        message += `• 🎰 Keeps winning low-odds bets (insider signal)\n`;
     }
 
     // Data source indicator
     message += `\n_Data: ${alert.walletFingerprint.subgraphMetadata.dataSource}_`;
 
+    // Alert ID for /label feedback
+    if (alert.alertId !== undefined) {
+      message += `\n🏷️ Alert ID: \`${alert.alertId}\` (label with /label)`;
+    }
+
     return message;
   }
 
@@ -9,6 +9,10 @@ import { logger } from '../../utils/logger.js';
 
 const DATA_API_BASE_URL = 'https://data-api.polymarket.com';
 
+// Page size and cap for closed positions (the endpoint returns 50 at most)
+const CLOSED_POSITIONS_PAGE_SIZE = 50;
+const CLOSED_POSITIONS_MAX = 500;
+
 /**
  * User activity response from Data API
  */
@@ -91,13 +95,34 @@ export interface DataApiPosition {
   closed: boolean;
 }
 
+/**
+ * Closed position response (sold out or held to resolution)
+ */
+export interface DataApiClosedPosition {
+  proxyWallet: string;
+  asset: string;
+  conditionId: string;
+  avgPrice: number; // Average entry price
+  totalBought: number; // Shares bought
+  realizedPnl: number;
+  curPrice: number; // Settles at 1 or 0 once the market resolves
+  timestamp: number;
+  title: string;
+  slug: string;
+  eventSlug?: string;
+  outcome: string;
+  outcomeIndex: number;
+  endDate?: string;
+}
+
 /**
  * Aggregated user data from Data API
  */
 export interface DataApiUserData {
   activity: DataApiUserActivity | null;
   recentTrades: DataApiTrade[];
-  positions: DataApiPosition[];
+  positions: DataApiPosition[]; // Open positions
+  closedPositions: DataApiClosedPosition[]; // Most recent first
   queriedAt: Date;
 }
 
@@ -161,17 +186,19 @@ class PolymarketDataApiClient {
 
   /**
    * Get user's recent trades
+   * Pass takerOnly = false to include fills where the user was the maker
    */
   public async getUserTrades(
     address: string,
-    limit: number = 100
+    limit: number = 100,
+    takerOnly: boolean = true
   ): Promise<DataApiTrade[]> {
     try {
       const response = await this.client.get<DataApiTrade[]>('/trades', {
         params: {
           user: address,
           limit,
-          takerOnly: true,
+          takerOnly,
         },
       });
 
@@ -221,18 +248,34 @@ class PolymarketDataApiClient {
   }
 
   /**
-   * Get user's closed positions (P&L history)
+   * Get user's closed positions (P&L history), most recent first
+   * Pages through the endpoint up to `maxPositions`.
    */
-  public async getClosedPositions(address: string): Promise<DataApiPosition[]> {
+  public async getClosedPositions(
+    address: string,
+    maxPositions: number = CLOSED_POSITIONS_MAX
+  ): Promise<DataApiClosedPosition[]> {
     try {
-      const response = await this.client.get<DataApiPosition[]>(
-        '/closed-positions',
-        {
-          params: { user: address },
-        }
-      );
+      const positions: DataApiClosedPosition[] = [];
+      while (positions.length < maxPositions) {
+        const response = await this.client.get<DataApiClosedPosition[]>(
+          '/closed-positions',
+          {
+            params: {
+              user: address,
+              limit: CLOSED_POSITIONS_PAGE_SIZE,
+              offset: positions.length,
+              sortBy: 'TIMESTAMP',
+              sortDirection: 'DESC',
+            },
+          }
+        );
+        const page = response.data || [];
+        positions.push(...page);
+        if (page.length < CLOSED_POSITIONS_PAGE_SIZE) break;
+      }
 
-      return response.data || [];
+      return positions.slice(0, maxPositions);
     } catch (error) {
       if (isAxiosError(error) && error.response?.status === 404) {
         logger.debug({ address }, 'No closed positions found for user');
@@ -408,15 +451,13 @@ class PolymarketDataApiClient {
         this.getClosedPositions(normalizedAddress),
       ]);
 
-      // Combine open and closed positions
-      const allPositions = [...positions, ...closedPositions];
-
       logger.info(
         {
           address: normalizedAddress,
           hasActivity: !!activity,
           tradeCount: trades.length,
-          positionCount: allPositions.length,
+          positionCount: positions.length,
+          closedPositionCount: closedPositions.length,
           totalVolume: activity?.totalVolume || '0',
           winRate: activity?.winRate || 0,
         },
@@ -426,7 +467,8 @@ class PolymarketDataApiClient {
       return {
         activity,
         recentTrades: trades,
-        positions: allPositions,
+        positions,
+        closedPositions,
         queriedAt: new Date(),
       };
     } catch (error) {
@@ -443,6 +485,7 @@ class PolymarketDataApiClient {
         activity: null,
         recentTrades: [],
         positions: [],
+        closedPositions: [],
         queriedAt: new Date(),
       };
     }
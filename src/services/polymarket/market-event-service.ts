@@ -0,0 +1,567 @@
+import type { MarketEvent } from '@prisma/client';
+import { fromZonedTime } from 'date-fns-tz';
+
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import type { Result } from '../../types/index.js';
+
+/**
+ * Kinds of scheduled catalyst
+ */
+export const MARKET_EVENT_TYPES = [
+  'earnings',
+  'ruling',
+  'vote',
+  'game',
+  'announcement',
+  'other',
+] as const;
+export type MarketEventType = (typeof MARKET_EVENT_TYPES)[number];
+
+export type MarketEventSource = 'manual' | 'json' | 'ics';
+
+/**
+ * Next catalyst as seen by the scorer (captured in score snapshots)
+ */
+export interface MarketCatalyst {
+  id: string;
+  title: string;
+  eventType: string;
+  scheduledAt: string; // ISO
+}
+
+export interface MarketEventRecord {
+  id: string;
+  marketId: string;
+  title: string;
+  eventType: string;
+  scheduledAt: string;
+  notes: string | null;
+  source: string;
+  externalId: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MarketEventInput {
+  title: string;
+  eventType?: string; // Defaults to 'other'
+  scheduledAt: string; // ISO date
+  notes?: string | null;
+}
+
+/**
+ * One entry of a bulk import
+ * `market` is a market id or slug; `externalId` makes re-imports idempotent.
+ */
+export interface MarketEventImportEntry extends MarketEventInput {
+  market: string;
+  externalId?: string;
+}
+
+export interface MarketEventImportResult {
+  created: number;
+  updated: number;
+  skipped: Array<{ entry: number; reason: string }>;
+}
+
+const MAX_TITLE_LENGTH = 200;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse a JSON import file: an array of events, or `{ "events": [...] }`
+ * Entries without a `market` use the default market when one is given.
+ */
+export function parseEventsJson(
+  content: string,
+  defaultMarket?: string
+): Result<MarketEventImportEntry[], string> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const list = isPlainObject(raw) ? raw['events'] : raw;
+  if (!Array.isArray(list)) {
+    return {
+      success: false,
+      error: 'Event file must be an array of events or { "events": [...] }',
+    };
+  }
+
+  const entries: MarketEventImportEntry[] = [];
+  for (const [index, item] of list.entries()) {
+    if (!isPlainObject(item)) {
+      return { success: false, error: `Event ${index + 1} must be an object` };
+    }
+    const market = item['market'] ?? item['marketId'] ?? defaultMarket;
+    const { title, eventType, scheduledAt, notes, externalId } = item;
+    if (
+      typeof market !== 'string' ||
+      typeof title !== 'string' ||
+      typeof scheduledAt !== 'string'
+    ) {
+      return {
+        success: false,
+        error: `Event ${index + 1} needs string market, title and scheduledAt fields`,
+      };
+    }
+    entries.push({
+      market,
+      title,
+      scheduledAt,
+      ...(typeof eventType === 'string' && { eventType }),
+      ...(typeof notes === 'string' && { notes }),
+      ...(typeof externalId === 'string' && { externalId }),
+    });
+  }
+  return { success: true, data: entries };
+}
+
+/**
+ * Unescape an ICS TEXT value
+ */
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Convert an ICS DTSTART value to an ISO date
+ * Handles UTC (`...Z`), TZID-qualified local times and all-day dates;
+ * floating times without a TZID are read as UTC.
+ */
+function parseIcsDate(
+  value: string,
+  params: Record<string, string>
+): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(
+    value
+  );
+  if (match === null) return null;
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utc] =
+    match;
+  const local = `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+  const timezone = params['TZID'];
+
+  try {
+    const date =
+      utc === undefined && timezone !== undefined
+        ? fromZonedTime(local, timezone)
+        : new Date(`${local}Z`);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse an ICS calendar into events for one market
+ * SUMMARY is the title, DTSTART the time, UID the external id; a CATEGORIES
+ * value matching an event type sets the type.
+ */
+export function parseEventsIcs(
+  content: string,
+  market: string
+): Result<MarketEventImportEntry[], string> {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const entries: MarketEventImportEntry[] = [];
+  let current: Record<
+    string,
+    { value: string; params: Record<string, string> }
+  > | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (current === null) continue;
+      const summary = current['SUMMARY'];
+      const start = current['DTSTART'];
+      const scheduledAt =
+        start !== undefined ? parseIcsDate(start.value, start.params) : null;
+      if (summary === undefined || scheduledAt === null) {
+        return {
+          success: false,
+          error: `Calendar event ${entries.length + 1} needs a SUMMARY and a valid DTSTART`,
+        };
+      }
+
+      const category = current['CATEGORIES']?.value
+        .split(',')
+        .map((value) => value.trim().toLowerCase())
+        .find((value) => MARKET_EVENT_TYPES.includes(value as MarketEventType));
+      const description = current['DESCRIPTION'];
+      const uid = current['UID'];
+      entries.push({
+        market,
+        title: unescapeIcsText(summary.value),
+        scheduledAt,
+        ...(category !== undefined && { eventType: category }),
+        ...(description !== undefined && {
+          notes: unescapeIcsText(description.value),
+        }),
+        ...(uid !== undefined && { externalId: uid.value }),
+      });
+      current = null;
+      continue;
+    }
+    if (current === null) continue;
+
+    // NAME;PARAM=VALUE:value
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [name = '', ...rawParams] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const [key, paramValue] = param.split('=');
+      if (key !== undefined && paramValue !== undefined) {
+        params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, '');
+      }
+    }
+    current[name.toUpperCase()] = { value: line.slice(colon + 1), params };
+  }
+
+  if (entries.length === 0) {
+    return { success: false, error: 'Calendar contains no events' };
+  }
+  return { success: true, data: entries };
+}
+
+/**
+ * Market event service
+ * Stores scheduled catalysts per market (earnings calls, court rulings,
+ * votes, game starts). The scorer adds a proximity bonus for trades placed
+ * shortly before a market's next catalyst.
+ */
+class MarketEventService {
+  private static instance: MarketEventService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): MarketEventService {
+    if (MarketEventService.instance === null) {
+      MarketEventService.instance = new MarketEventService();
+    }
+    return MarketEventService.instance;
+  }
+
+  /**
+   * Resolve a market id or slug to the market id
+   */
+  public async resolveMarketId(identifier: string): Promise<string | null> {
+    const market = await db.getClient().market.findFirst({
+      where: { OR: [{ id: identifier }, { slug: identifier }] },
+      select: { id: true },
+    });
+    return market?.id ?? null;
+  }
+
+  /**
+   * Events for a market, soonest first
+   * `upcomingOnly` hides events that already happened.
+   */
+  public async list(
+    marketId: string,
+    options: { upcomingOnly?: boolean; limit?: number } = {}
+  ): Promise<MarketEventRecord[]> {
+    const rows = await db.getClient().marketEvent.findMany({
+      where: {
+        marketId,
+        ...(options.upcomingOnly === true && {
+          scheduledAt: { gte: new Date() },
+        }),
+      },
+      orderBy: { scheduledAt: 'asc' },
+      ...(options.limit !== undefined && { take: options.limit }),
+    });
+    return rows.map((row) => this.toRecord(row));
+  }
+
+  /**
+   * One event by id
+   */
+  public async get(eventId: string): Promise<MarketEventRecord | null> {
+    const row = await db
+      .getClient()
+      .marketEvent.findUnique({ where: { id: eventId } });
+    return row !== null ? this.toRecord(row) : null;
+  }
+
+  /**
+   * Next catalyst at or after a point in time
+   */
+  public async getNextEvent(
+    marketId: string,
+    timestamp: number
+  ): Promise<MarketCatalyst | null> {
+    const row = await db.getClient().marketEvent.findFirst({
+      where: { marketId, scheduledAt: { gte: new Date(timestamp) } },
+      orderBy: { scheduledAt: 'asc' },
+      select: { id: true, title: true, eventType: true, scheduledAt: true },
+    });
+    if (row === null) return null;
+    return { ...row, scheduledAt: row.scheduledAt.toISOString() };
+  }
+
+  /**
+   * Schedule a catalyst for a market
+   */
+  public async create(
+    marketId: string,
+    input: MarketEventInput,
+    createdBy: string,
+    source: MarketEventSource = 'manual'
+  ): Promise<Result<MarketEventRecord, string>> {
+    const error = this.validate(input);
+    if (error !== null) return { success: false, error };
+
+    const prisma = db.getClient();
+    const market = await prisma.market.findUnique({
+      where: { id: marketId },
+      select: { id: true },
+    });
+    if (market === null) {
+      return { success: false, error: 'Market not found' };
+    }
+
+    const row = await prisma.marketEvent.create({
+      data: {
+        marketId,
+        title: input.title.trim(),
+        eventType: input.eventType ?? 'other',
+        scheduledAt: new Date(input.scheduledAt),
+        ...(input.notes !== undefined &&
+          input.notes !== null && { notes: input.notes }),
+        source,
+        createdBy,
+      },
+    });
+
+    logger.info(
+      { eventId: row.id, marketId, title: row.title, createdBy },
+      '📅 Market event scheduled'
+    );
+    return { success: true, data: this.toRecord(row) };
+  }
+
+  /**
+   * Change an event's title, type, time or notes
+   */
+  public async update(
+    eventId: string,
+    changes: Partial<MarketEventInput>,
+    changedBy: string
+  ): Promise<Result<MarketEventRecord, string>> {
+    const prisma = db.getClient();
+    const existing = await prisma.marketEvent.findUnique({
+      where: { id: eventId },
+    });
+    if (existing === null) {
+      return { success: false, error: 'Event not found' };
+    }
+
+    const error = this.validate({
+      title: changes.title ?? existing.title,
+      eventType: changes.eventType ?? existing.eventType,
+      scheduledAt: changes.scheduledAt ?? existing.scheduledAt.toISOString(),
+    });
+    if (error !== null) return { success: false, error };
+
+    const row = await prisma.marketEvent.update({
+      where: { id: eventId },
+      data: {
+        ...(changes.title !== undefined && { title: changes.title.trim() }),
+        ...(changes.eventType !== undefined && {
+          eventType: changes.eventType,
+        }),
+        ...(changes.scheduledAt !== undefined && {
+          scheduledAt: new Date(changes.scheduledAt),
+        }),
+        ...(changes.notes !== undefined && { notes: changes.notes }),
+      },
+    });
+
+    logger.info(
+      { eventId, marketId: row.marketId, changedBy },
+      '📅 Market event updated'
+    );
+    return { success: true, data: this.toRecord(row) };
+  }
+
+  /**
+   * Delete an event
+   * Returns false if it did not exist.
+   */
+  public async delete(eventId: string, deletedBy: string): Promise<boolean> {
+    const { count } = await db
+      .getClient()
+      .marketEvent.deleteMany({ where: { id: eventId } });
+    if (count > 0) {
+      logger.info({ eventId, deletedBy }, '📅 Market event deleted');
+    }
+    return count > 0;
+  }
+
+  /**
+   * Bulk import parsed JSON/ICS entries
+   * Entries with an external id update the event imported earlier under
+   * that id; entries without one are skipped when the market already has an
+   * event with the same title and time. Invalid entries are skipped and
+   * reported, the rest are still imported.
+   */
+  public async importEvents(
+    entries: MarketEventImportEntry[],
+    source: MarketEventSource,
+    createdBy: string
+  ): Promise<MarketEventImportResult> {
+    const prisma = db.getClient();
+    const result: MarketEventImportResult = {
+      created: 0,
+      updated: 0,
+      skipped: [],
+    };
+    const marketIds = new Map<string, string | null>();
+
+    for (const [index, entry] of entries.entries()) {
+      const skip = (reason: string): void => {
+        result.skipped.push({ entry: index + 1, reason });
+      };
+
+      const error = this.validate(entry);
+      if (error !== null) {
+        skip(error);
+        continue;
+      }
+
+      if (!marketIds.has(entry.market)) {
+        marketIds.set(entry.market, await this.resolveMarketId(entry.market));
+      }
+      const marketId = marketIds.get(entry.market);
+      if (marketId === undefined || marketId === null) {
+        skip(`Market not found: ${entry.market}`);
+        continue;
+      }
+
+      const data = {
+        title: entry.title.trim(),
+        eventType: entry.eventType ?? 'other',
+        scheduledAt: new Date(entry.scheduledAt),
+        notes: entry.notes ?? null,
+      };
+
+      if (entry.externalId !== undefined) {
+        const existing = await prisma.marketEvent.findUnique({
+          where: {
+            marketId_externalId: { marketId, externalId: entry.externalId },
+          },
+          select: { id: true },
+        });
+        await prisma.marketEvent.upsert({
+          where: {
+            marketId_externalId: { marketId, externalId: entry.externalId },
+          },
+          create: {
+            ...data,
+            marketId,
+            externalId: entry.externalId,
+            source,
+            createdBy,
+          },
+          update: data,
+        });
+        if (existing !== null) result.updated++;
+        else result.created++;
+        continue;
+      }
+
+      const duplicate = await prisma.marketEvent.findFirst({
+        where: {
+          marketId,
+          title: data.title,
+          scheduledAt: data.scheduledAt,
+        },
+        select: { id: true },
+      });
+      if (duplicate !== null) {
+        skip('Already scheduled');
+        continue;
+      }
+      await prisma.marketEvent.create({
+        data: { ...data, marketId, source, createdBy },
+      });
+      result.created++;
+    }
+
+    logger.info(
+      {
+        source,
+        createdBy,
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped.length,
+      },
+      '📅 Market events imported'
+    );
+    return result;
+  }
+
+  /**
+   * Check an event's fields, returning an error message or null
+   */
+  private validate(input: MarketEventInput): string | null {
+    const title = input.title.trim();
+    if (title === '' || title.length > MAX_TITLE_LENGTH) {
+      return `Title must be 1-${MAX_TITLE_LENGTH} characters`;
+    }
+    if (
+      input.eventType !== undefined &&
+      !MARKET_EVENT_TYPES.includes(input.eventType as MarketEventType)
+    ) {
+      return `Event type must be one of: ${MARKET_EVENT_TYPES.join(', ')}`;
+    }
+    if (isNaN(new Date(input.scheduledAt).getTime())) {
+      return `Invalid date: ${input.scheduledAt}`;
+    }
+    return null;
+  }
+
+  private toRecord(row: MarketEvent): MarketEventRecord {
+    return {
+      id: row.id,
+      marketId: row.marketId,
+      title: row.title,
+      eventType: row.eventType,
+      scheduledAt: row.scheduledAt.toISOString(),
+      notes: row.notes,
+      source: row.source,
+      externalId: row.externalId,
+      createdBy: row.createdBy,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const marketEventService = MarketEventService.getInstance();
@@ -123,6 +123,9 @@ class MarketService {
           enabled: boolean;
           notes: string | null;
           endDate: Date | null;
+          gammaEventId: string | null;
+          gammaEventSlug: string | null;
+          gammaEventTitle: string | null;
           openInterest: { toString(): string };
           volume: { toString(): string };
         }): MarketConfig => {
@@ -149,6 +152,15 @@ class MarketService {
           if (m.endDate !== null) {
             config.endDate = m.endDate.toISOString();
           }
+          if (m.gammaEventId !== null) {
+            config.gammaEventId = m.gammaEventId;
+            if (m.gammaEventSlug !== null) {
+              config.gammaEventSlug = m.gammaEventSlug;
+            }
+            if (m.gammaEventTitle !== null) {
+              config.gammaEventTitle = m.gammaEventTitle;
+            }
+          }
           return config;
         }
       );
@@ -200,6 +212,13 @@ class MarketService {
     return this.getAllMarkets().filter((m) => m.tier === tier);
   }
 
+  /**
+   * Get the monitored markets of one Gamma event
+   */
+  public getMarketsByEvent(gammaEventId: string): MarketConfig[] {
+    return this.getAllMarkets().filter((m) => m.gammaEventId === gammaEventId);
+  }
+
   /**
    * Check if a market is being monitored (by id, conditionId, or clobTokenId)
    */
@@ -362,6 +381,13 @@ class MarketService {
       // Find markets to add
       const toAdd = markets.filter((m) => !currentIds.has(m.id));
 
+      // Pick up changed settings (e.g. event grouping) on markets already monitored
+      for (const market of markets) {
+        if (currentIds.has(market.id)) {
+          this.monitoredMarkets.set(market.id, market);
+        }
+      }
+
       // Find markets to remove
       const toRemove = Array.from(currentIds).filter((id) => !newIds.has(id));
 
@@ -6,11 +6,27 @@ import { walletForensicsService } from '../blockchain/wallet-forensics.js';
 import { polymarketSubgraph } from './subgraph-client.js';
 import { alertScorer } from '../alerts/alert-scorer.js';
 import { alertPersistence } from '../alerts/alert-persistence.js';
+import { shadowScorer } from '../alerts/shadow-scorer.js';
+import {
+  buildScoreSnapshot,
+  type ScoreSnapshotDetection,
+} from '../alerts/score-snapshot.js';
+import { walletAlertHistory } from '../alerts/wallet-alert-history.js';
+import { thresholdProfiles } from '../config/threshold-profiles.js';
+import { tradeDecisionLog } from '../signals/trade-decision-log.js';
+import { positionAccumulator } from '../signals/position-accumulator.js';
+import { asWalletTrade, walletWatchlist } from '../signals/wallet-watchlist.js';
+import {
+  eventPatternDetector,
+  type EventPattern,
+} from '../signals/event-pattern-detector.js';
+import { timingAnalyzer } from '../signals/timing-analyzer.js';
+import { marketEventService } from './market-event-service.js';
 import { marketService } from './market-service.js';
 import { redis } from '../cache/redis.js';
 import { logger } from '../../utils/logger.js';
 import { DecisionFramework } from '../data/decision-framework.js';
-import type { PolymarketTrade } from '../../types/index.js';
+import type { FilterDecision, PolymarketTrade } from '../../types/index.js';
 
 interface QueuedTrade {
   trade: PolymarketTrade;
@@ -335,7 +351,8 @@ class TradeService {
             tradeWithMarketId,
             market.question,
             market.slug,
-            market.endDate
+            market.endDate,
+            market.category
           );
           logger.debug(
             { tradeId: tradeWithMarketId.id },
@@ -525,8 +542,16 @@ class TradeService {
     trade: PolymarketTrade,
     marketQuestion: string,
     marketSlug: string,
-    marketEndDate?: string
+    marketEndDate?: string,
+    marketCategory?: string
   ): Promise<void> {
+    // Filter that stopped the trade, with measured value vs threshold
+    const filters: FilterDecision[] = [];
+    const recordFilter = (filter: FilterDecision): void => {
+      filters.push(filter);
+    };
+    let decisionRecorded = false;
+
     try {
       // Always update last trade timestamp for dormancy tracking
       await alertScorer.updateLastTradeTimestamp(
@@ -534,8 +559,73 @@ class TradeService {
         trade.timestamp
       );
 
+      // Step 0: Watched wallets are followed at any size - notify, then
+      // judge the fill from the watched wallet's side
+      const watched = walletWatchlist.match(trade);
+      if (watched !== null) {
+        await walletWatchlist.notifyTrade(watched.wallet, trade, watched.role, {
+          question: marketQuestion,
+          slug: marketSlug,
+        });
+        trade = asWalletTrade(trade, watched.role);
+      }
+
       // Step 1: Analyze trade for size/impact
-      const signal = await signalDetector.analyzeTrade(trade);
+      let signal = await signalDetector.analyzeTrade(trade, {
+        recordFilter,
+        ...(watched !== null && { bypassSizeGates: true }),
+      });
+      // Replayed by rescoring (accumulated and pattern signals below were
+      // detected without the bypass)
+      let detection: ScoreSnapshotDetection = {
+        role: watched?.role ?? 'taker',
+        bypassSizeGates: watched !== null && signal !== null,
+      };
+
+      // Wallet's position across the other markets of the Gamma event
+      const eventPattern = await eventPatternDetector.recordTrade(trade);
+
+      if (signal === null) {
+        // Too small alone - may complete a position built from small fills
+        const accumulated = await positionAccumulator.checkFill(
+          trade,
+          filters[0]
+        );
+        if (accumulated !== null) {
+          signal = accumulated.signal;
+          trade = accumulated.trade;
+          filters.length = 0;
+          detection = { ...detection, bypassSizeGates: false };
+        }
+      } else {
+        await positionAccumulator.reset(trade);
+      }
+
+      // Step 1b: YES on one market of the event and NO on others is judged
+      // as a single trade on the pick market. A fill that alerts on its own
+      // keeps its own signal; the position stays open for the next fill.
+      let scoredEventPattern: EventPattern | null = null;
+      const pickMarket =
+        signal === null && eventPattern !== null
+          ? marketService.getMarket(eventPattern.pickMarketId)
+          : undefined;
+      if (eventPattern !== null && pickMarket !== undefined) {
+        const patternResult = await eventPatternDetector.analyzePattern(
+          trade,
+          eventPattern
+        );
+        if (patternResult !== null) {
+          signal = patternResult.signal;
+          trade = patternResult.trade;
+          filters.length = 0;
+          marketQuestion = pickMarket.question;
+          marketSlug = pickMarket.slug;
+          marketEndDate = pickMarket.endDate;
+          marketCategory = pickMarket.category;
+          scoredEventPattern = eventPattern;
+          detection = { ...detection, bypassSizeGates: false };
+        }
+      }
 
       if (signal === null) {
         // Trade doesn't meet size/impact thresholds
@@ -549,6 +639,14 @@ class TradeService {
           },
           '🚫 Trade filtered out - no signal detected'
         );
+        await tradeDecisionLog.record(trade, {
+          stage: 'signal',
+          ...(filters[0] ?? {
+            reason: 'analysis_failed',
+            value: null,
+            threshold: null,
+          }),
+        });
         return;
       }
 
@@ -695,14 +793,35 @@ class TradeService {
 
       // Step 3b: Calculate confidence score (v2 - tiered with multipliers)
       const entryProbability = parseFloat(trade.price); // Price is the probability
-      const alertScore = await alertScorer.calculateScore({
+      const scoreInput = {
         tradeSignal: signal,
         walletFingerprint,
         entryProbability,
         marketEndDate,
+        marketCategory,
+        nextCatalyst: await marketEventService.getNextEvent(
+          trade.marketId,
+          trade.timestamp
+        ),
+        timingWindows: timingAnalyzer.evaluate(
+          trade.timestamp,
+          trade.marketId,
+          marketCategory
+        ),
         clusterWalletCount,
+        eventPattern: scoredEventPattern,
+        walletHistory: await walletAlertHistory.getHistory(
+          walletAddress,
+          trade.timestamp
+        ),
+      };
+      const alertScore = await alertScorer.calculateScore(scoreInput, {
+        recordFilter,
       });
 
+      // Step 3c: Score shadow configs (stored for comparison, never notified)
+      await shadowScorer.scoreTrade(trade.id, scoreInput, alertScore);
+
       // Check if filtered out by hard filters
       if (!alertScore.filtersPassed) {
         logger.debug(
@@ -712,6 +831,15 @@ class TradeService {
           },
           'Trade filtered out by hard filters'
         );
+        await tradeDecisionLog.record(trade, {
+          stage: 'hard_filter',
+          walletAddress,
+          ...(filters[0] ?? {
+            reason: alertScore.filterReason ?? 'unknown',
+            value: null,
+            threshold: null,
+          }),
+        });
         return;
       }
 
@@ -726,8 +854,22 @@ class TradeService {
         '📊 Alert score calculated (v2)'
       );
 
+      const shouldAlert = alertScorer.shouldAlert(alertScore);
+      const shouldLog = alertScorer.shouldLog(alertScore);
+      await tradeDecisionLog.record(trade, {
+        stage: 'scored',
+        reason: shouldAlert ? 'alerted' : shouldLog ? 'logged' : 'ignored',
+        value: alertScore.totalScore,
+        threshold: alertScorer.getConfig().alertThreshold,
+        walletAddress,
+        score: alertScore.totalScore,
+        classification: alertScore.classification,
+      });
+      decisionRecorded = true;
+
       // Step 4: Generate alert if score >= threshold
-      if (alertScorer.shouldAlert(alertScore)) {
+      if (shouldAlert) {
+        const thresholdProfile = thresholdProfiles.getActiveLabel();
         await alertPersistence.createAlert({
           tradeId: trade.id,
           marketId: trade.marketId,
@@ -743,6 +885,18 @@ class TradeService {
           tradeSignal: signal,
           walletFingerprint,
           scoreBreakdown: alertScore.breakdown,
+          ...(alertScore.features !== undefined && {
+            scoreFeatures: alertScore.features,
+          }),
+          ...(alertScore.model !== undefined && {
+            modelScore: alertScore.model,
+          }),
+          scoreSnapshot: buildScoreSnapshot(scoreInput, alertScore, detection),
+          timingWindows: scoreInput.timingWindows,
+          nextCatalyst: scoreInput.nextCatalyst,
+          eventPattern: scoreInput.eventPattern,
+          walletHistory: scoreInput.walletHistory,
+          ...(thresholdProfile !== null && { thresholdProfile }),
         });
 
         logger.warn(
@@ -755,7 +909,7 @@ class TradeService {
           },
           '🚨 INSIDER SIGNAL DETECTED - ALERT CREATED'
         );
-      } else if (alertScorer.shouldLog(alertScore)) {
+      } else if (shouldLog) {
         logger.info(
           {
             tradeId: trade.id,
@@ -782,6 +936,14 @@ class TradeService {
         },
         'Failed to detect signals'
       );
+      if (!decisionRecorded) {
+        await tradeDecisionLog.record(trade, {
+          stage: 'error',
+          reason: 'pipeline_error',
+          value: null,
+          threshold: null,
+        });
+      }
       // Don't throw - signal detection failure shouldn't break trade processing
     }
   }
@@ -0,0 +1,296 @@
+import { db } from '../database/prisma.js';
+import { alertScorer } from '../alerts/alert-scorer.js';
+import { notificationCoordinator } from '../notifications/notification-coordinator.js';
+import { NEAR_MISS_RATIO } from '../signals/trade-decision-log.js';
+import { logger } from '../../utils/logger.js';
+import { stripMarkdown } from '../../utils/markdown.js';
+
+// Filters measured in USD (formatted as dollars in the digest)
+const USD_FILTERS: ReadonlySet<string> = new Set([
+  'filtered_trade_size',
+  'filtered_low_oi',
+  'filtered_market_aware_minimum',
+]);
+
+// Detector gates measured as a percentage of OI, liquidity or volume
+const PERCENT_FILTERS: ReadonlySet<string> = new Set([
+  'filtered_oi_prefilter',
+  'filtered_oi_threshold',
+]);
+
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A borderline trade worth an analyst's look
+ */
+export interface NearMissCandidate {
+  tradeId: string;
+  marketId: string;
+  marketQuestion: string | null;
+  walletAddress: string;
+  tradeUsdValue: number;
+  reason: string;
+  value: number | null;
+  threshold: number | null;
+  thresholdRatio: number | null;
+  score: number | null;
+  classification: string | null;
+  createdAt: string;
+}
+
+export interface NearMissDigest {
+  from: string;
+  to: string;
+  alertThreshold: number;
+  // Highest scores that did not alert (LOG_ONLY and below)
+  belowAlert: NearMissCandidate[];
+  // Size/impact gate and hard filter misses within NEAR_MISS_RATIO of the
+  // threshold
+  filterNearMisses: NearMissCandidate[];
+}
+
+/**
+ * Near-miss digest
+ * Once a day, sends the top borderline trades from the last 24 hours to the
+ * notification channels as one summary message
+ */
+class NearMissDigestService {
+  private static instance: NearMissDigestService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  private readonly ENABLED: boolean;
+  private readonly HOUR_UTC: number;
+  private readonly SIZE: number;
+
+  private constructor() {
+    this.ENABLED = process.env['NEAR_MISS_DIGEST_ENABLED'] !== 'false';
+
+    const hour = Number(process.env['NEAR_MISS_DIGEST_HOUR_UTC'] ?? 14);
+    this.HOUR_UTC =
+      Number.isInteger(hour) && hour >= 0 && hour < 24 ? hour : 14;
+    this.SIZE = Number(process.env['NEAR_MISS_DIGEST_SIZE']) || 10;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): NearMissDigestService {
+    if (NearMissDigestService.instance === null) {
+      NearMissDigestService.instance = new NearMissDigestService();
+    }
+    return NearMissDigestService.instance;
+  }
+
+  /**
+   * Schedule the daily digest
+   */
+  public start(): void {
+    if (!this.ENABLED) {
+      logger.info('Near-miss digest disabled');
+      return;
+    }
+    if (this.timer !== null) {
+      logger.warn('Near-miss digest already running');
+      return;
+    }
+
+    this.scheduleNext();
+    logger.info(
+      { hourUtc: this.HOUR_UTC, size: this.SIZE },
+      '📋 Near-miss digest scheduled (daily)'
+    );
+  }
+
+  /**
+   * Stop the daily digest
+   */
+  public stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+      logger.info('Near-miss digest stopped');
+    }
+  }
+
+  /**
+   * Collect the borderline trades recorded in the 24 hours before `to`
+   */
+  public async buildDigest(
+    to: Date = new Date(),
+    size: number = this.SIZE
+  ): Promise<NearMissDigest> {
+    const prisma = db.getClient();
+    const from = new Date(to.getTime() - DIGEST_WINDOW_MS);
+    const createdAt = { gte: from, lte: to };
+
+    const [belowAlert, filterNearMisses] = await Promise.all([
+      prisma.tradeDecision.findMany({
+        where: { createdAt, stage: 'scored', reason: { not: 'alerted' } },
+        orderBy: [{ score: 'desc' }, { createdAt: 'desc' }],
+        take: size,
+      }),
+      prisma.tradeDecision.findMany({
+        where: {
+          createdAt,
+          // Detector size/impact gates and scorer hard filters
+          stage: { in: ['signal', 'hard_filter'] },
+          thresholdRatio: { gte: NEAR_MISS_RATIO, lt: 1 },
+        },
+        orderBy: [{ thresholdRatio: 'desc' }, { createdAt: 'desc' }],
+        take: size,
+      }),
+    ]);
+
+    const marketIds = [
+      ...new Set([...belowAlert, ...filterNearMisses].map((d) => d.marketId)),
+    ];
+    const markets =
+      marketIds.length > 0
+        ? await prisma.market.findMany({
+            where: { id: { in: marketIds } },
+            select: { id: true, question: true },
+          })
+        : [];
+    const questions = new Map(markets.map((m) => [m.id, m.question]));
+
+    const toCandidate = (
+      row: (typeof belowAlert)[number]
+    ): NearMissCandidate => ({
+      tradeId: row.tradeId,
+      marketId: row.marketId,
+      marketQuestion: questions.get(row.marketId) ?? null,
+      walletAddress: row.walletAddress,
+      tradeUsdValue: row.tradeUsdValue,
+      reason: row.reason,
+      value: row.value,
+      threshold: row.threshold,
+      thresholdRatio: row.thresholdRatio,
+      score: row.score,
+      classification: row.classification,
+      createdAt: row.createdAt.toISOString(),
+    });
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      alertThreshold: alertScorer.getConfig().alertThreshold,
+      belowAlert: belowAlert.map(toCandidate),
+      filterNearMisses: filterNearMisses.map(toCandidate),
+    };
+  }
+
+  /**
+   * Build and send the digest
+   * Returns false when there was nothing to send or no channel accepted it
+   */
+  public async sendDigest(): Promise<boolean> {
+    try {
+      const digest = await this.buildDigest();
+      if (
+        digest.belowAlert.length === 0 &&
+        digest.filterNearMisses.length === 0
+      ) {
+        logger.info(
+          '📋 Near-miss digest: no borderline trades in the last 24h'
+        );
+        return false;
+      }
+
+      const result = await notificationCoordinator.sendMessage(
+        this.formatDigest(digest)
+      );
+
+      logger.info(
+        {
+          belowAlert: digest.belowAlert.length,
+          filterNearMisses: digest.filterNearMisses.length,
+          ...result,
+        },
+        '📋 Near-miss digest sent'
+      );
+      return result.anySuccess;
+    } catch (error) {
+      logger.error({ error }, 'Failed to send near-miss digest');
+      return false;
+    }
+  }
+
+  /**
+   * Run the digest at the next HOUR_UTC, then reschedule
+   */
+  private scheduleNext(): void {
+    const now = new Date();
+    const next = new Date(now);
+    next.setUTCHours(this.HOUR_UTC, 0, 0, 0);
+    if (next <= now) next.setUTCDate(next.getUTCDate() + 1);
+
+    this.timer = setTimeout(() => {
+      void this.sendDigest().finally(() => {
+        if (this.timer !== null) this.scheduleNext();
+      });
+    }, next.getTime() - now.getTime());
+  }
+
+  /**
+   * Format the digest as one Markdown message (renders on every channel)
+   */
+  private formatDigest(digest: NearMissDigest): string {
+    const lines = [`🔍 *Near-miss digest* (last 24h)`];
+
+    if (digest.belowAlert.length > 0) {
+      lines.push(
+        '',
+        `*Top scores below alert threshold (${digest.alertThreshold})*`
+      );
+      digest.belowAlert.forEach((c, i) => {
+        lines.push(
+          `${i + 1}. ${c.score ?? '?'} \`${c.classification ?? 'unknown'}\` · ${this.formatUsd(c.tradeUsdValue)} · ${this.formatMarket(c)}`,
+          `    wallet \`${this.shortAddress(c.walletAddress)}\` · trade \`${c.tradeId}\``
+        );
+      });
+    }
+
+    if (digest.filterNearMisses.length > 0) {
+      const margin = Math.round((1 - NEAR_MISS_RATIO) * 100);
+      lines.push('', `*Missed a size or hard filter by under ${margin}%*`);
+      digest.filterNearMisses.forEach((c, i) => {
+        const ratio =
+          c.thresholdRatio !== null
+            ? ` (${Math.round(c.thresholdRatio * 100)}%)`
+            : '';
+        lines.push(
+          `${i + 1}. \`${c.reason}\` ${this.formatValue(c.reason, c.value)} / ${this.formatValue(c.reason, c.threshold)}${ratio} · ${this.formatUsd(c.tradeUsdValue)} · ${this.formatMarket(c)}`,
+          `    wallet \`${this.shortAddress(c.walletAddress)}\` · trade \`${c.tradeId}\``
+        );
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  private formatValue(reason: string, value: number | null): string {
+    if (value === null) return '?';
+    if (USD_FILTERS.has(reason)) return this.formatUsd(value);
+    if (PERCENT_FILTERS.has(reason)) return `${value.toFixed(2)}%`;
+    return value.toFixed(0);
+  }
+
+  private formatUsd(value: number): string {
+    return `$${Math.round(value).toLocaleString('en-US')}`;
+  }
+
+  private formatMarket(candidate: NearMissCandidate): string {
+    return candidate.marketQuestion !== null
+      ? stripMarkdown(candidate.marketQuestion)
+      : `\`${candidate.marketId}\``;
+  }
+
+  private shortAddress(address: string): string {
+    return address.length > 12
+      ? `${address.slice(0, 6)}…${address.slice(-4)}`
+      : address;
+  }
+}
+
+// Export singleton instance
+export const nearMissDigest = NearMissDigestService.getInstance();
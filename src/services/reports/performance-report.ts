@@ -0,0 +1,279 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat } from '../../utils/decimals.js';
+
+/**
+ * Performance metrics for one group of alerts
+ */
+export interface PerformanceBucket {
+  key: string;
+  alerts: number; // All alerts in the bucket
+  resolved: number; // Alerts with a won/lost outcome (void excluded)
+  won: number;
+  lost: number;
+  void: number;
+  pending: number; // Market not resolved yet
+  hitRate: number | null; // won / resolved
+  avgEntryProbability: number | null; // Implied probability of the alerted position at entry
+  realizedEdge: number | null; // hitRate - avgEntryProbability (profit per $1 of payout)
+  totalPnl: number; // USD
+  avgReturn: number | null; // Mean realizedReturn across resolved alerts
+}
+
+/**
+ * Performance report grouped by every dimension we score on
+ */
+export interface PerformanceReport {
+  generatedAt: string;
+  filters: {
+    from?: string;
+    to?: string;
+    scorerVersion?: string;
+    includeDismissed: boolean;
+  };
+  overall: PerformanceBucket;
+  byClassification: PerformanceBucket[];
+  byScorerVersion: PerformanceBucket[];
+  byCategory: PerformanceBucket[];
+  byImpactMethod: PerformanceBucket[];
+  byBonus: {
+    contrarian: PerformanceBucket[];
+    cluster: PerformanceBucket[];
+    resolutionProximity: PerformanceBucket[];
+    walletDormancy: PerformanceBucket[];
+  };
+}
+
+export interface PerformanceReportFilters {
+  from?: Date;
+  to?: Date;
+  scorerVersion?: string;
+  includeDismissed?: boolean;
+}
+
+/**
+ * Alert row reduced to what the report needs
+ */
+interface ReportRow {
+  classification: string;
+  scorerVersion: string | null;
+  category: string | null;
+  impactMethod: string | null;
+  contrarianBonus: number | null;
+  clusterBonus: number | null;
+  resolutionProximityBonus: number | null;
+  walletDormancyBonus: number | null;
+  outcome: string | null;
+  entryProbability: number;
+  realizedPnl: number | null;
+  realizedReturn: number | null;
+}
+
+// Alerts created before a field was persisted land in this bucket
+const UNKNOWN_KEY = 'unknown';
+
+/**
+ * Performance reporting service
+ * Measures how alerts performed once their markets resolved
+ */
+class PerformanceReportService {
+  private static instance: PerformanceReportService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PerformanceReportService {
+    if (PerformanceReportService.instance === null) {
+      PerformanceReportService.instance = new PerformanceReportService();
+    }
+    return PerformanceReportService.instance;
+  }
+
+  /**
+   * Build the performance report
+   */
+  public async getPerformanceReport(
+    filters: PerformanceReportFilters = {}
+  ): Promise<PerformanceReport> {
+    const includeDismissed = filters.includeDismissed ?? false;
+    const rows = await this.loadRows(filters, includeDismissed);
+
+    logger.debug({ alerts: rows.length }, 'Building performance report');
+
+    return {
+      generatedAt: new Date().toISOString(),
+      filters: {
+        ...(filters.from !== undefined && {
+          from: filters.from.toISOString(),
+        }),
+        ...(filters.to !== undefined && { to: filters.to.toISOString() }),
+        ...(filters.scorerVersion !== undefined && {
+          scorerVersion: filters.scorerVersion,
+        }),
+        includeDismissed,
+      },
+      overall: this.summarize('all', rows),
+      byClassification: this.groupBy(rows, (r) => r.classification),
+      byScorerVersion: this.groupBy(rows, (r) => r.scorerVersion),
+      byCategory: this.groupBy(rows, (r) => r.category),
+      byImpactMethod: this.groupBy(rows, (r) => r.impactMethod),
+      byBonus: {
+        contrarian: this.groupBy(rows, (r) => this.bonusKey(r.contrarianBonus)),
+        cluster: this.groupBy(rows, (r) => this.bonusKey(r.clusterBonus)),
+        resolutionProximity: this.groupBy(rows, (r) =>
+          this.bonusKey(r.resolutionProximityBonus)
+        ),
+        walletDormancy: this.groupBy(rows, (r) =>
+          this.bonusKey(r.walletDormancyBonus)
+        ),
+      },
+    };
+  }
+
+  /**
+   * Load alerts with their market category
+   */
+  private async loadRows(
+    filters: PerformanceReportFilters,
+    includeDismissed: boolean
+  ): Promise<ReportRow[]> {
+    const prisma = db.getClient();
+    const alerts = await prisma.alert.findMany({
+      where: {
+        ...(!includeDismissed && { dismissed: false }),
+        ...(filters.scorerVersion !== undefined && {
+          scorerVersion: filters.scorerVersion,
+        }),
+        ...((filters.from !== undefined || filters.to !== undefined) && {
+          timestamp: {
+            ...(filters.from !== undefined && { gte: filters.from }),
+            ...(filters.to !== undefined && { lte: filters.to }),
+          },
+        }),
+      },
+      select: {
+        classification: true,
+        scorerVersion: true,
+        impactMethod: true,
+        contrarianBonus: true,
+        clusterBonus: true,
+        resolutionProximityBonus: true,
+        walletDormancyBonus: true,
+        outcome: true,
+        tradeSide: true,
+        tradePrice: true,
+        realizedPnl: true,
+        realizedReturn: true,
+        market: { select: { category: true } },
+      },
+    });
+
+    return alerts.map((alert) => {
+      const price = safeParseFloat(alert.tradePrice);
+      return {
+        classification: alert.classification,
+        scorerVersion: alert.scorerVersion,
+        category: alert.market.category,
+        impactMethod: alert.impactMethod,
+        contrarianBonus: alert.contrarianBonus,
+        clusterBonus: alert.clusterBonus,
+        resolutionProximityBonus: alert.resolutionProximityBonus,
+        walletDormancyBonus: alert.walletDormancyBonus,
+        outcome: alert.outcome,
+        // A SELL is a bet against the traded outcome
+        entryProbability: alert.tradeSide === 'SELL' ? 1 - price : price,
+        realizedPnl: alert.realizedPnl,
+        realizedReturn: alert.realizedReturn,
+      };
+    });
+  }
+
+  /**
+   * Group rows by key and summarize each group (largest first)
+   */
+  private groupBy(
+    rows: ReportRow[],
+    keyOf: (row: ReportRow) => string | null
+  ): PerformanceBucket[] {
+    const groups = new Map<string, ReportRow[]>();
+    for (const row of rows) {
+      const key = keyOf(row) ?? UNKNOWN_KEY;
+      const group = groups.get(key);
+      if (group === undefined) {
+        groups.set(key, [row]);
+      } else {
+        group.push(row);
+      }
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, group]) => this.summarize(key, group))
+      .sort((a, b) => b.alerts - a.alerts);
+  }
+
+  /**
+   * Summarize a group of alerts
+   */
+  private summarize(key: string, rows: ReportRow[]): PerformanceBucket {
+    let won = 0;
+    let lost = 0;
+    let voided = 0;
+    let entryProbabilitySum = 0;
+    let returnSum = 0;
+    let totalPnl = 0;
+
+    for (const row of rows) {
+      if (row.outcome === 'void') {
+        voided++;
+      }
+      if (row.outcome !== 'won' && row.outcome !== 'lost') {
+        continue;
+      }
+
+      if (row.outcome === 'won') won++;
+      else lost++;
+
+      entryProbabilitySum += row.entryProbability;
+      returnSum += row.realizedReturn ?? 0;
+      totalPnl += row.realizedPnl ?? 0;
+    }
+
+    const resolved = won + lost;
+    const hitRate = resolved > 0 ? won / resolved : null;
+    const avgEntryProbability =
+      resolved > 0 ? entryProbabilitySum / resolved : null;
+
+    return {
+      key,
+      alerts: rows.length,
+      resolved,
+      won,
+      lost,
+      void: voided,
+      pending: rows.length - resolved - voided,
+      hitRate,
+      avgEntryProbability,
+      realizedEdge:
+        hitRate !== null && avgEntryProbability !== null
+          ? hitRate - avgEntryProbability
+          : null,
+      totalPnl,
+      avgReturn: resolved > 0 ? returnSum / resolved : null,
+    };
+  }
+
+  /**
+   * Bucket key for a bonus value (e.g. "+20", "0", "-5")
+   */
+  private bonusKey(bonus: number | null): string | null {
+    if (bonus === null) return null;
+    return bonus > 0 ? `+${bonus}` : bonus.toString();
+  }
+}
+
+// Export singleton instance
+export const performanceReport = PerformanceReportService.getInstance();
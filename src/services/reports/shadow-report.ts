@@ -0,0 +1,252 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+
+// Classifications that create an alert (see alertScorer.shouldAlert)
+const ALERTING_CLASSIFICATIONS: ReadonlySet<string> = new Set([
+  'ALERT_STRONG_INSIDER',
+  'ALERT_HIGH_CONFIDENCE',
+  'ALERT_MEDIUM_CONFIDENCE',
+]);
+
+/**
+ * A trade where production and shadow classified differently
+ */
+export interface ShadowDisagreement {
+  tradeId: string;
+  marketId: string;
+  walletAddress: string;
+  createdAt: string;
+  productionScore: number;
+  productionClassification: string;
+  shadowScore: number;
+  shadowClassification: string;
+  shadowFilterReason: string | null;
+}
+
+/**
+ * Production vs one shadow config
+ */
+export interface ShadowComparison {
+  shadowVersion: string;
+  productionVersions: string[];
+  trades: number;
+  agreed: number; // Same classification
+  agreementRate: number | null;
+  alertedByBoth: number;
+  alertedByProductionOnly: number; // Production alerted, shadow would not have
+  alertedByShadowOnly: number; // Shadow would have alerted, production did not
+  meanScoreDelta: number | null; // shadow - production
+  // confusion[productionClassification][shadowClassification] = trades
+  confusion: Record<string, Record<string, number>>;
+  disagreements: ShadowDisagreement[]; // Most recent first
+}
+
+export interface ShadowComparisonReport {
+  generatedAt: string;
+  filters: {
+    from?: string;
+    to?: string;
+    shadowVersion?: string;
+  };
+  shadows: ShadowComparison[];
+}
+
+export interface ShadowReportFilters {
+  from?: Date;
+  to?: Date;
+  shadowVersion?: string;
+  disagreementLimit?: number; // Per shadow (default: 50)
+}
+
+/**
+ * Shadow comparison reporting service
+ * Shows where shadow scorer configs would have classified trades differently
+ */
+class ShadowReportService {
+  private static instance: ShadowReportService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): ShadowReportService {
+    if (ShadowReportService.instance === null) {
+      ShadowReportService.instance = new ShadowReportService();
+    }
+    return ShadowReportService.instance;
+  }
+
+  /**
+   * Build the production vs shadow comparison report
+   */
+  public async getComparisonReport(
+    filters: ShadowReportFilters = {}
+  ): Promise<ShadowComparisonReport> {
+    const prisma = db.getClient();
+    const disagreementLimit = filters.disagreementLimit ?? 50;
+    const where = {
+      ...(filters.shadowVersion !== undefined && {
+        shadowVersion: filters.shadowVersion,
+      }),
+      ...((filters.from !== undefined || filters.to !== undefined) && {
+        createdAt: {
+          ...(filters.from !== undefined && { gte: filters.from }),
+          ...(filters.to !== undefined && { lte: filters.to }),
+        },
+      }),
+    };
+
+    // Counts per (shadow, production class, shadow class) cell
+    const cells = await prisma.shadowScore.groupBy({
+      by: [
+        'shadowVersion',
+        'productionVersion',
+        'productionClassification',
+        'shadowClassification',
+      ],
+      where,
+      _count: { _all: true },
+      _sum: { productionScore: true, shadowScore: true },
+    });
+
+    const comparisons = new Map<string, ShadowComparison>();
+    const scoreDeltaSums = new Map<string, number>();
+
+    for (const cell of cells) {
+      let comparison = comparisons.get(cell.shadowVersion);
+      if (comparison === undefined) {
+        comparison = {
+          shadowVersion: cell.shadowVersion,
+          productionVersions: [],
+          trades: 0,
+          agreed: 0,
+          agreementRate: null,
+          alertedByBoth: 0,
+          alertedByProductionOnly: 0,
+          alertedByShadowOnly: 0,
+          meanScoreDelta: null,
+          confusion: {},
+          disagreements: [],
+        };
+        comparisons.set(cell.shadowVersion, comparison);
+      }
+
+      const count = cell._count._all;
+      const productionAlerted = ALERTING_CLASSIFICATIONS.has(
+        cell.productionClassification
+      );
+      const shadowAlerted = ALERTING_CLASSIFICATIONS.has(
+        cell.shadowClassification
+      );
+
+      if (!comparison.productionVersions.includes(cell.productionVersion)) {
+        comparison.productionVersions.push(cell.productionVersion);
+      }
+      comparison.trades += count;
+      if (cell.productionClassification === cell.shadowClassification) {
+        comparison.agreed += count;
+      }
+      if (productionAlerted && shadowAlerted) comparison.alertedByBoth += count;
+      if (productionAlerted && !shadowAlerted) {
+        comparison.alertedByProductionOnly += count;
+      }
+      if (!productionAlerted && shadowAlerted) {
+        comparison.alertedByShadowOnly += count;
+      }
+
+      const row = (comparison.confusion[cell.productionClassification] ??= {});
+      row[cell.shadowClassification] =
+        (row[cell.shadowClassification] ?? 0) + count;
+
+      scoreDeltaSums.set(
+        cell.shadowVersion,
+        (scoreDeltaSums.get(cell.shadowVersion) ?? 0) +
+          (cell._sum.shadowScore ?? 0) -
+          (cell._sum.productionScore ?? 0)
+      );
+    }
+
+    for (const comparison of comparisons.values()) {
+      if (comparison.trades > 0) {
+        comparison.agreementRate = comparison.agreed / comparison.trades;
+        comparison.meanScoreDelta =
+          (scoreDeltaSums.get(comparison.shadowVersion) ?? 0) /
+          comparison.trades;
+      }
+      comparison.disagreements = await this.loadDisagreements(
+        comparison,
+        where,
+        disagreementLimit
+      );
+    }
+
+    logger.debug(
+      { shadows: comparisons.size },
+      'Built shadow comparison report'
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      filters: {
+        ...(filters.from !== undefined && {
+          from: filters.from.toISOString(),
+        }),
+        ...(filters.to !== undefined && { to: filters.to.toISOString() }),
+        ...(filters.shadowVersion !== undefined && {
+          shadowVersion: filters.shadowVersion,
+        }),
+      },
+      shadows: [...comparisons.values()].sort((a, b) =>
+        a.shadowVersion.localeCompare(b.shadowVersion)
+      ),
+    };
+  }
+
+  /**
+   * Load the most recent trades in the disagreeing confusion cells
+   */
+  private async loadDisagreements(
+    comparison: ShadowComparison,
+    where: { createdAt?: { gte?: Date; lte?: Date } },
+    limit: number
+  ): Promise<ShadowDisagreement[]> {
+    const pairs = Object.entries(comparison.confusion).flatMap(
+      ([productionClassification, row]) =>
+        Object.keys(row)
+          .filter((shadow) => shadow !== productionClassification)
+          .map((shadowClassification) => ({
+            productionClassification,
+            shadowClassification,
+          }))
+    );
+    if (pairs.length === 0 || limit <= 0) return [];
+
+    const rows = await db.getClient().shadowScore.findMany({
+      where: {
+        ...(where.createdAt !== undefined && { createdAt: where.createdAt }),
+        shadowVersion: comparison.shadowVersion,
+        OR: pairs,
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return rows.map((row) => ({
+      tradeId: row.tradeId,
+      marketId: row.marketId,
+      walletAddress: row.walletAddress,
+      createdAt: row.createdAt.toISOString(),
+      productionScore: row.productionScore,
+      productionClassification: row.productionClassification,
+      shadowScore: row.shadowScore,
+      shadowClassification: row.shadowClassification,
+      shadowFilterReason: row.shadowFilterReason,
+    }));
+  }
+}
+
+// Export singleton instance
+export const shadowReport = ShadowReportService.getInstance();
@@ -0,0 +1,307 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import { calculateUsdValue, safeParseFloat } from '../../utils/decimals.js';
+import type { MarketCategory } from '../alerts/scorer-config.js';
+
+/**
+ * Leaderboard orderings
+ * - alerts: most alerts (ties on max score, then flagged USD)
+ * - maxScore / avgScore: highest confidence score
+ * - flaggedUsd: most USD across alerted trades
+ * - accuracy: best won/resolved ratio (wallets with resolved alerts first)
+ */
+export type LeaderboardSort =
+  | 'alerts'
+  | 'maxScore'
+  | 'avgScore'
+  | 'flaggedUsd'
+  | 'accuracy';
+
+export const LEADERBOARD_SORTS: readonly LeaderboardSort[] = [
+  'alerts',
+  'maxScore',
+  'avgScore',
+  'flaggedUsd',
+  'accuracy',
+];
+
+/**
+ * One wallet's alerts in the leaderboard window
+ */
+export interface LeaderboardEntry {
+  rank: number;
+  walletAddress: string;
+  alerts: number;
+  strongAlerts: number; // ALERT_STRONG_INSIDER
+  maxScore: number;
+  avgScore: number;
+  flaggedUsd: number; // Trade USD across the alerts
+  markets: number; // Distinct markets alerted on
+  marketSlugs: string[]; // Most recent first
+  resolved: number; // Alerts with a won/lost outcome (void excluded)
+  won: number;
+  lost: number;
+  accuracy: number | null; // won / resolved
+  realizedPnl: number; // USD across resolved alerts
+  firstAlertAt: string;
+  lastAlertAt: string;
+  wallet: {
+    isSuspicious: boolean;
+    walletAgeDays: number | null;
+    totalTransactions: number;
+    analyzedAt: string;
+  };
+}
+
+export interface WalletLeaderboard {
+  generatedAt: string;
+  filters: {
+    from?: string;
+    to?: string;
+    category?: MarketCategory;
+    sort: LeaderboardSort;
+    minAlerts: number;
+  };
+  wallets: number; // Wallets with at least minAlerts alerts
+  entries: LeaderboardEntry[];
+}
+
+export interface LeaderboardFilters {
+  from?: Date;
+  to?: Date;
+  category?: MarketCategory;
+  sort?: LeaderboardSort;
+  minAlerts?: number; // Default 1
+  limit?: number; // Default 25
+}
+
+/**
+ * Alert row reduced to what the leaderboard needs
+ */
+interface LeaderboardRow {
+  walletAddress: string;
+  marketId: string;
+  marketSlug: string;
+  classification: string;
+  confidenceScore: number;
+  tradeUsd: number;
+  outcome: string | null;
+  realizedPnl: number | null;
+  timestamp: Date;
+  wallet: LeaderboardEntry['wallet'];
+}
+
+/**
+ * Suspicious wallet leaderboard
+ * Ranks wallets by their non-dismissed alerts, read straight from the
+ * Alert and Wallet tables so it is current on every request.
+ */
+class WalletLeaderboardService {
+  private static instance: WalletLeaderboardService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): WalletLeaderboardService {
+    if (WalletLeaderboardService.instance === null) {
+      WalletLeaderboardService.instance = new WalletLeaderboardService();
+    }
+    return WalletLeaderboardService.instance;
+  }
+
+  /**
+   * Build the leaderboard
+   */
+  public async getLeaderboard(
+    filters: LeaderboardFilters = {}
+  ): Promise<WalletLeaderboard> {
+    const sort = filters.sort ?? 'alerts';
+    const minAlerts = filters.minAlerts ?? 1;
+    const limit = filters.limit ?? 25;
+
+    const rows = await this.loadRows(filters);
+    const byWallet = new Map<string, LeaderboardRow[]>();
+    for (const row of rows) {
+      const group = byWallet.get(row.walletAddress);
+      if (group === undefined) {
+        byWallet.set(row.walletAddress, [row]);
+      } else {
+        group.push(row);
+      }
+    }
+
+    const entries = Array.from(byWallet.values())
+      .filter((group) => group.length >= minAlerts)
+      .map((group) => this.summarize(group))
+      .sort((a, b) => this.compare(a, b, sort));
+
+    logger.debug(
+      { alerts: rows.length, wallets: entries.length, sort },
+      'Built wallet leaderboard'
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      filters: {
+        ...(filters.from !== undefined && {
+          from: filters.from.toISOString(),
+        }),
+        ...(filters.to !== undefined && { to: filters.to.toISOString() }),
+        ...(filters.category !== undefined && { category: filters.category }),
+        sort,
+        minAlerts,
+      },
+      wallets: entries.length,
+      entries: entries
+        .slice(0, limit)
+        .map((entry, index) => ({ ...entry, rank: index + 1 })),
+    };
+  }
+
+  /**
+   * Load non-dismissed alerts with their market and wallet
+   */
+  private async loadRows(
+    filters: LeaderboardFilters
+  ): Promise<LeaderboardRow[]> {
+    const alerts = await db.getClient().alert.findMany({
+      where: {
+        dismissed: false,
+        ...(filters.category !== undefined && {
+          market: { category: filters.category },
+        }),
+        ...((filters.from !== undefined || filters.to !== undefined) && {
+          timestamp: {
+            ...(filters.from !== undefined && { gte: filters.from }),
+            ...(filters.to !== undefined && { lte: filters.to }),
+          },
+        }),
+      },
+      select: {
+        walletAddress: true,
+        marketId: true,
+        classification: true,
+        confidenceScore: true,
+        tradeSize: true,
+        tradePrice: true,
+        tradeUsdValue: true,
+        outcome: true,
+        realizedPnl: true,
+        timestamp: true,
+        market: { select: { slug: true } },
+        wallet: {
+          select: {
+            isSuspicious: true,
+            walletAgeDays: true,
+            totalTransactions: true,
+            analyzedAt: true,
+          },
+        },
+      },
+      orderBy: { timestamp: 'desc' },
+    });
+
+    return alerts.map((alert) => ({
+      walletAddress: alert.walletAddress,
+      marketId: alert.marketId,
+      marketSlug: alert.market.slug,
+      classification: alert.classification,
+      confidenceScore: alert.confidenceScore,
+      // Alerts created before tradeUsdValue was stored
+      tradeUsd:
+        alert.tradeUsdValue ??
+        calculateUsdValue(
+          safeParseFloat(alert.tradeSize),
+          safeParseFloat(alert.tradePrice)
+        ),
+      outcome: alert.outcome,
+      realizedPnl: alert.realizedPnl,
+      timestamp: alert.timestamp,
+      wallet: {
+        ...alert.wallet,
+        analyzedAt: alert.wallet.analyzedAt.toISOString(),
+      },
+    }));
+  }
+
+  /**
+   * Summarize one wallet's alerts (rows are newest first)
+   */
+  private summarize(rows: LeaderboardRow[]): LeaderboardEntry {
+    const newest = rows[0];
+    const oldest = rows[rows.length - 1];
+    if (newest === undefined || oldest === undefined) {
+      throw new Error('Cannot summarize a wallet without alerts');
+    }
+
+    const won = rows.filter((row) => row.outcome === 'won').length;
+    const lost = rows.filter((row) => row.outcome === 'lost').length;
+    const resolved = won + lost;
+    const marketSlugs = [...new Set(rows.map((row) => row.marketSlug))];
+
+    return {
+      rank: 0,
+      walletAddress: newest.walletAddress,
+      alerts: rows.length,
+      strongAlerts: rows.filter(
+        (row) => row.classification === 'ALERT_STRONG_INSIDER'
+      ).length,
+      maxScore: Math.max(...rows.map((row) => row.confidenceScore)),
+      avgScore:
+        rows.reduce((sum, row) => sum + row.confidenceScore, 0) / rows.length,
+      flaggedUsd: rows.reduce((sum, row) => sum + row.tradeUsd, 0),
+      markets: new Set(rows.map((row) => row.marketId)).size,
+      marketSlugs,
+      resolved,
+      won,
+      lost,
+      accuracy: resolved > 0 ? won / resolved : null,
+      realizedPnl: rows
+        .filter((row) => row.outcome === 'won' || row.outcome === 'lost')
+        .reduce((sum, row) => sum + (row.realizedPnl ?? 0), 0),
+      firstAlertAt: oldest.timestamp.toISOString(),
+      lastAlertAt: newest.timestamp.toISOString(),
+      wallet: newest.wallet,
+    };
+  }
+
+  /**
+   * Order two entries, most suspicious first
+   */
+  private compare(
+    a: LeaderboardEntry,
+    b: LeaderboardEntry,
+    sort: LeaderboardSort
+  ): number {
+    const primary = ((): number => {
+      switch (sort) {
+        case 'maxScore':
+          return b.maxScore - a.maxScore;
+        case 'avgScore':
+          return b.avgScore - a.avgScore;
+        case 'flaggedUsd':
+          return b.flaggedUsd - a.flaggedUsd;
+        case 'accuracy':
+          return (
+            (b.accuracy ?? -1) - (a.accuracy ?? -1) || b.resolved - a.resolved
+          );
+        case 'alerts':
+          return b.alerts - a.alerts;
+      }
+    })();
+
+    return (
+      primary ||
+      b.alerts - a.alerts ||
+      b.maxScore - a.maxScore ||
+      b.flaggedUsd - a.flaggedUsd
+    );
+  }
+}
+
+// Export singleton instance
+export const walletLeaderboard = WalletLeaderboardService.getInstance();
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  findPriceJump,
+  findPriceJumps,
+  rankWinningPositions,
+  type WhoKnewTrade,
+} from './who-knew-report.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let nextId = 0;
+function trade(
+  timestamp: number,
+  price: number,
+  overrides: Partial<WhoKnewTrade> = {}
+): WhoKnewTrade {
+  nextId++;
+  return {
+    id: `t${nextId}`,
+    side: 'buy',
+    outcome: 'yes',
+    size: 100,
+    price,
+    taker: '0xwallet',
+    timestamp,
+    ...overrides,
+  };
+}
+
+describe('findPriceJump', () => {
+  it('finds a rise in YES within the window', () => {
+    const jump = findPriceJump(
+      [trade(0, 0.2), trade(HOUR_MS, 0.22), trade(2 * HOUR_MS, 0.5)],
+      6 * HOUR_MS,
+      0.2
+    );
+    expect(jump).toEqual({
+      side: 'yes',
+      moveAt: 0,
+      priceBefore: 0.2,
+      priceAfter: 0.5,
+    });
+  });
+
+  it('reads NO fills as the implied YES price and reports NO rises', () => {
+    const jump = findPriceJump(
+      [trade(0, 0.2, { outcome: 'no' }), trade(HOUR_MS, 0.5)],
+      6 * HOUR_MS,
+      0.2
+    );
+    // NO at 0.2 implies YES at 0.8, so YES fell 30 points and NO rose
+    expect(jump?.side).toBe('no');
+    expect(jump?.priceBefore).toBeCloseTo(0.2);
+    expect(jump?.priceAfter).toBeCloseTo(0.5);
+  });
+
+  it('ignores moves spread over more than the window', () => {
+    expect(
+      findPriceJump(
+        [trade(0, 0.2), trade(4 * HOUR_MS, 0.3), trade(8 * HOUR_MS, 0.4)],
+        6 * HOUR_MS,
+        0.2
+      )
+    ).toBeNull();
+  });
+});
+
+describe('findPriceJumps', () => {
+  it('keeps scanning after each jump, in order', () => {
+    const jumps = findPriceJumps(
+      [
+        trade(0, 0.2),
+        trade(HOUR_MS, 0.5),
+        trade(20 * HOUR_MS, 0.5),
+        trade(21 * HOUR_MS, 0.2),
+        trade(40 * HOUR_MS, 0.2),
+        trade(41 * HOUR_MS, 0.6),
+      ],
+      6 * HOUR_MS,
+      0.2
+    );
+    expect(jumps.map((jump) => [jump.side, jump.moveAt])).toEqual([
+      ['yes', 0],
+      ['no', 20 * HOUR_MS],
+      ['yes', 40 * HOUR_MS],
+    ]);
+  });
+
+  it('returns no jumps for a flat market', () => {
+    expect(
+      findPriceJumps([trade(0, 0.4), trade(HOUR_MS, 0.45)], 6 * HOUR_MS, 0.2)
+    ).toEqual([]);
+  });
+});
+
+describe('rankWinningPositions', () => {
+  it('ranks cheap winning-side positions by potential profit', () => {
+    const positions = rankWinningPositions(
+      [
+        trade(0, 0.1, { taker: '0xSmall', size: 100 }),
+        trade(HOUR_MS, 0.2, { taker: '0xBig', size: 1000 }),
+        trade(2 * HOUR_MS, 0.3, { taker: '0xbig', size: 1000 }),
+      ],
+      'yes',
+      0.35,
+      5
+    );
+    expect(positions.map((position) => position.proxyAddress)).toEqual([
+      '0xBig',
+      '0xSmall',
+    ]);
+    const [big] = positions;
+    expect(big?.shares).toBe(2000);
+    expect(big?.avgEntryPrice).toBeCloseTo(0.25);
+    expect(big?.positionUsd).toBeCloseTo(500);
+    expect(big?.potentialProfit).toBeCloseTo(1500);
+    expect(big?.firstTradeAt).toBe(HOUR_MS);
+  });
+
+  it('counts selling the losing side towards the winning position', () => {
+    const [position] = rankWinningPositions(
+      [trade(0, 0.8, { side: 'sell', outcome: 'no', size: 200 })],
+      'yes',
+      0.35,
+      5
+    );
+    expect(position?.shares).toBe(200);
+    expect(position?.avgEntryPrice).toBeCloseTo(0.2);
+  });
+
+  it('nets exits and drops expensive, small or closed positions', () => {
+    const positions = rankWinningPositions(
+      [
+        trade(0, 0.1, { taker: '0xclosed', size: 100 }),
+        trade(HOUR_MS, 0.5, { taker: '0xclosed', side: 'sell', size: 100 }),
+        trade(0, 0.6, { taker: '0xexpensive', size: 1000 }),
+        trade(0, 0.1, { taker: '0xtiny', size: 10 }),
+        trade(0, 0.1, { taker: '0xpartial', size: 300 }),
+        trade(HOUR_MS, 0.5, {
+          taker: '0xpartial',
+          outcome: 'no',
+          size: 100,
+        }),
+      ],
+      'yes',
+      0.35,
+      5
+    );
+    expect(positions).toHaveLength(1);
+    expect(positions[0]?.proxyAddress).toBe('0xpartial');
+    expect(positions[0]?.shares).toBe(200);
+    expect(positions[0]?.positionUsd).toBeCloseTo(20);
+  });
+});
@@ -0,0 +1,759 @@
+import type { Prisma } from '@prisma/client';
+
+import { db } from '../database/prisma.js';
+import { marketService } from '../polymarket/market-service.js';
+import { polymarketSubgraph } from '../polymarket/subgraph-client.js';
+import { walletForensicsService } from '../blockchain/wallet-forensics.js';
+import { notificationCoordinator } from '../notifications/notification-coordinator.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat } from '../../utils/decimals.js';
+import { stripMarkdown } from '../../utils/markdown.js';
+import type { Result } from '../../types/index.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type WhoKnewTrigger = 'price_jump' | 'resolution' | 'manual';
+export type WhoKnewSide = 'yes' | 'no';
+
+/**
+ * Stored trade as the report reads it
+ */
+export interface WhoKnewTrade {
+  id: string;
+  side: 'buy' | 'sell';
+  outcome: WhoKnewSide;
+  size: number;
+  price: number;
+  taker: string;
+  timestamp: number;
+}
+
+/**
+ * A sharp move in one side's price
+ */
+export interface PriceJump {
+  side: WhoKnewSide; // Side whose price rose
+  moveAt: number; // Time (ms) of the last price before the rise
+  priceBefore: number;
+  priceAfter: number;
+}
+
+/**
+ * Winning-side position a wallet built before the move
+ */
+export interface WinningPosition {
+  proxyAddress: string;
+  positionUsd: number;
+  shares: number;
+  avgEntryPrice: number;
+  potentialProfit: number;
+  tradeIds: string[];
+  firstTradeAt: number;
+}
+
+export interface WhoKnewOptions {
+  marketId: string;
+  side: WhoKnewSide;
+  moveAt: Date;
+  trigger: WhoKnewTrigger;
+  priceBefore?: number | null;
+  priceAfter?: number | null;
+  lookbackHours?: number;
+  maxEntryPrice?: number;
+  minPositionUsd?: number;
+  limit?: number;
+  createdBy: string;
+}
+
+export type WhoKnewReportRecord = Prisma.WhoKnewReportGetPayload<{
+  include: {
+    wallets: true;
+    market: { select: { question: true; slug: true } };
+  };
+}>;
+
+/**
+ * Price of `side` implied by a fill (a NO fill at p implies YES at 1 - p)
+ */
+function sidePrice(trade: WhoKnewTrade, side: WhoKnewSide): number {
+  return trade.outcome === side ? trade.price : 1 - trade.price;
+}
+
+/**
+ * Find the first rise of at least `minPoints` in either side's price within
+ * `windowMs`, measured fill to fill. Returns the side that rose.
+ */
+export function findPriceJump(
+  trades: WhoKnewTrade[],
+  windowMs: number,
+  minPoints: number
+): PriceJump | null {
+  const points = [...trades]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((trade) => ({
+      timestamp: trade.timestamp,
+      yes: sidePrice(trade, 'yes'),
+    }));
+
+  let start = 0;
+  for (const [i, point] of points.entries()) {
+    while ((points[start]?.timestamp ?? 0) < point.timestamp - windowMs) {
+      start++;
+    }
+    for (let j = start; j < i; j++) {
+      const earlier = points[j];
+      if (earlier === undefined) continue;
+      const rise = point.yes - earlier.yes;
+      if (Math.abs(rise) >= minPoints) {
+        const side: WhoKnewSide = rise > 0 ? 'yes' : 'no';
+        return {
+          side,
+          moveAt: earlier.timestamp,
+          priceBefore: side === 'yes' ? earlier.yes : 1 - earlier.yes,
+          priceAfter: side === 'yes' ? point.yes : 1 - point.yes,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Every jump in order: after each one, scan again from the fills that came
+ * after its start
+ */
+export function findPriceJumps(
+  trades: WhoKnewTrade[],
+  windowMs: number,
+  minPoints: number
+): PriceJump[] {
+  const jumps: PriceJump[] = [];
+  let remaining = trades;
+  for (;;) {
+    const jump = findPriceJump(remaining, windowMs, minPoints);
+    if (jump === null) return jumps;
+    jumps.push(jump);
+    remaining = remaining.filter((trade) => trade.timestamp > jump.moveAt);
+  }
+}
+
+/**
+ * Volume-weighted price of `side` across fills
+ */
+export function sideVwap(
+  trades: WhoKnewTrade[],
+  side: WhoKnewSide
+): number | null {
+  const shares = trades.reduce((sum, trade) => sum + trade.size, 0);
+  if (shares <= 0) return null;
+  return (
+    trades.reduce(
+      (sum, trade) => sum + trade.size * sidePrice(trade, side),
+      0
+    ) / shares
+  );
+}
+
+/**
+ * Net each wallet's fills into a position on the winning side and keep the
+ * ones entered at or below `maxEntryPrice`, largest potential profit first.
+ * Buying the winning side or selling the losing side both build a position.
+ */
+export function rankWinningPositions(
+  trades: WhoKnewTrade[],
+  side: WhoKnewSide,
+  maxEntryPrice: number,
+  minPositionUsd: number
+): WinningPosition[] {
+  const byWallet = new Map<
+    string,
+    {
+      proxyAddress: string;
+      buyShares: number;
+      buyCost: number;
+      exitShares: number;
+      tradeIds: string[];
+      firstTradeAt: number;
+    }
+  >();
+
+  for (const trade of [...trades].sort((a, b) => a.timestamp - b.timestamp)) {
+    const wallet = trade.taker.toLowerCase();
+    const position = byWallet.get(wallet) ?? {
+      proxyAddress: trade.taker,
+      buyShares: 0,
+      buyCost: 0,
+      exitShares: 0,
+      tradeIds: [],
+      firstTradeAt: trade.timestamp,
+    };
+    const price = sidePrice(trade, side);
+    const forSide = (trade.outcome === side) === (trade.side === 'buy');
+    if (forSide) {
+      position.buyShares += trade.size;
+      position.buyCost += trade.size * price;
+      position.tradeIds.push(trade.id);
+    } else {
+      position.exitShares += trade.size;
+    }
+    byWallet.set(wallet, position);
+  }
+
+  const positions: WinningPosition[] = [];
+  for (const position of byWallet.values()) {
+    const shares = position.buyShares - position.exitShares;
+    if (shares <= 0 || position.buyShares <= 0) continue;
+
+    const avgEntryPrice = position.buyCost / position.buyShares;
+    const positionUsd = shares * avgEntryPrice;
+    if (avgEntryPrice > maxEntryPrice || positionUsd < minPositionUsd) continue;
+
+    positions.push({
+      proxyAddress: position.proxyAddress,
+      positionUsd,
+      shares,
+      avgEntryPrice,
+      potentialProfit: shares * (1 - avgEntryPrice),
+      tradeIds: position.tradeIds,
+      firstTradeAt: position.firstTradeAt,
+    });
+  }
+
+  return positions.sort((a, b) => b.potentialProfit - a.potentialProfit);
+}
+
+/**
+ * "Who knew" reports
+ * After a market jumps sharply or resolves against the prevailing odds,
+ * looks back over the stored trades before the move, ranks the wallets that
+ * built winning-side positions at low prices and runs them through wallet
+ * forensics. The threshold tuner reads the ranked wallets' fills as
+ * labeled positives (label `who_knew`).
+ */
+class WhoKnewReportService {
+  private static instance: WhoKnewReportService | null = null;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isScanning = false;
+
+  private readonly ENABLED: boolean;
+  private readonly INTERVAL_MINUTES: number;
+  private readonly LOOKBACK_HOURS: number;
+  private readonly JUMP_POINTS: number;
+  private readonly JUMP_WINDOW_HOURS: number;
+  private readonly UPSET_MAX_PRICE: number;
+  private readonly MAX_ENTRY_PRICE: number;
+  private readonly MIN_POSITION_USD: number;
+  private readonly TOP: number;
+
+  private constructor() {
+    this.ENABLED = process.env['WHO_KNEW_ENABLED'] !== 'false';
+    this.INTERVAL_MINUTES =
+      Number(process.env['WHO_KNEW_INTERVAL_MINUTES']) || 60;
+    this.LOOKBACK_HOURS = Number(process.env['WHO_KNEW_LOOKBACK_HOURS']) || 168;
+    this.JUMP_POINTS = Number(process.env['WHO_KNEW_JUMP_POINTS']) || 0.25;
+    this.JUMP_WINDOW_HOURS =
+      Number(process.env['WHO_KNEW_JUMP_WINDOW_HOURS']) || 6;
+    this.UPSET_MAX_PRICE =
+      Number(process.env['WHO_KNEW_UPSET_MAX_PRICE']) || 0.5;
+    this.MAX_ENTRY_PRICE =
+      Number(process.env['WHO_KNEW_MAX_ENTRY_PRICE']) || 0.35;
+    this.MIN_POSITION_USD =
+      Number(process.env['WHO_KNEW_MIN_POSITION_USD']) || 1000;
+    this.TOP = Number(process.env['WHO_KNEW_TOP']) || 10;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): WhoKnewReportService {
+    if (WhoKnewReportService.instance === null) {
+      WhoKnewReportService.instance = new WhoKnewReportService();
+    }
+    return WhoKnewReportService.instance;
+  }
+
+  /**
+   * Start the periodic scan for big moves
+   */
+  public start(): void {
+    if (!this.ENABLED) {
+      logger.info('Who-knew reports disabled');
+      return;
+    }
+    if (this.checkInterval !== null) {
+      logger.warn('Who-knew scan already running');
+      return;
+    }
+
+    this.checkInterval = setInterval(
+      () => {
+        void this.scan();
+      },
+      this.INTERVAL_MINUTES * 60 * 1000
+    );
+
+    logger.info(
+      {
+        intervalMinutes: this.INTERVAL_MINUTES,
+        jumpPoints: this.JUMP_POINTS,
+        jumpWindowHours: this.JUMP_WINDOW_HOURS,
+      },
+      '🕵️ Who-knew scan scheduled'
+    );
+  }
+
+  /**
+   * Stop the periodic scan
+   */
+  public stop(): void {
+    if (this.checkInterval !== null) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+      logger.info('Who-knew scan stopped');
+    }
+  }
+
+  /**
+   * Look for resolution upsets and price jumps since the last scan and
+   * build a report for each. Returns the number of reports created.
+   */
+  public async scan(): Promise<number> {
+    if (this.isScanning) {
+      logger.debug('Who-knew scan already in progress - skipping');
+      return 0;
+    }
+
+    this.isScanning = true;
+    let created = 0;
+    try {
+      const prisma = db.getClient();
+      const now = Date.now();
+
+      // Upsets: resolved recently, not yet reported
+      const resolved = await prisma.market.findMany({
+        where: {
+          resolvedOutcome: { in: ['yes', 'no'] },
+          resolvedAt: { gte: new Date(now - this.LOOKBACK_HOURS * HOUR_MS) },
+          whoKnewReports: { none: { trigger: 'resolution' } },
+        },
+        select: { id: true, resolvedOutcome: true, resolvedAt: true },
+      });
+      for (const market of resolved) {
+        if (market.resolvedAt === null) continue;
+        const report = await this.checkResolution(
+          market.id,
+          market.resolvedOutcome === 'no' ? 'no' : 'yes',
+          market.resolvedAt
+        );
+        if (report !== null) created++;
+      }
+
+      // Jumps on monitored markets that ended since the last scan
+      const since = now - this.INTERVAL_MINUTES * 60 * 1000;
+      for (const market of marketService.getAllMarkets()) {
+        const report = await this.checkPriceJump(market.id, since);
+        if (report !== null) created++;
+      }
+
+      logger.info(
+        { resolved: resolved.length, reportsCreated: created },
+        '🕵️ Who-knew scan complete'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Who-knew scan failed');
+    } finally {
+      this.isScanning = false;
+    }
+    return created;
+  }
+
+  /**
+   * Report on a resolved market if the winner was the underdog
+   * The move starts at the last jump towards the winner, or resolution.
+   */
+  public async checkResolution(
+    marketId: string,
+    winner: WhoKnewSide,
+    resolvedAt: Date,
+    createdBy = 'job'
+  ): Promise<WhoKnewReportRecord | null> {
+    const trades = await this.loadTrades(
+      marketId,
+      new Date(resolvedAt.getTime() - this.LOOKBACK_HOURS * HOUR_MS),
+      resolvedAt
+    );
+
+    const jump = findPriceJumps(
+      trades,
+      this.JUMP_WINDOW_HOURS * HOUR_MS,
+      this.JUMP_POINTS
+    )
+      .filter((candidate) => candidate.side === winner)
+      .pop();
+    const moveAt = jump !== undefined ? new Date(jump.moveAt) : resolvedAt;
+    const priceBefore = sideVwap(
+      trades.filter((trade) => trade.timestamp < moveAt.getTime()),
+      winner
+    );
+    if (priceBefore === null || priceBefore >= this.UPSET_MAX_PRICE) {
+      return null;
+    }
+
+    return this.buildReport({
+      marketId,
+      side: winner,
+      moveAt,
+      trigger: 'resolution',
+      priceBefore,
+      priceAfter: 1,
+      createdBy,
+    });
+  }
+
+  /**
+   * Report on the first jump that completed after `since` and was not
+   * already reported, scanning past moves that were
+   */
+  public async checkPriceJump(
+    marketId: string,
+    since: number
+  ): Promise<WhoKnewReportRecord | null> {
+    const windowMs = this.JUMP_WINDOW_HOURS * HOUR_MS;
+    const trades = await this.loadTrades(
+      marketId,
+      new Date(since - windowMs),
+      new Date()
+    );
+    for (const jump of findPriceJumps(trades, windowMs, this.JUMP_POINTS)) {
+      const existing = await db.getClient().whoKnewReport.findFirst({
+        where: {
+          marketId,
+          trigger: 'price_jump',
+          moveAt: { gte: new Date(jump.moveAt - windowMs) },
+        },
+        select: { id: true },
+      });
+      if (existing !== null) continue;
+
+      return this.buildReport({
+        marketId,
+        side: jump.side,
+        moveAt: new Date(jump.moveAt),
+        trigger: 'price_jump',
+        priceBefore: jump.priceBefore,
+        priceAfter: jump.priceAfter,
+        createdBy: 'job',
+      });
+    }
+    return null;
+  }
+
+  /**
+   * Detect the move for a market (resolution upset, then the latest jump)
+   * and report on it - for on-demand runs from the API and Telegram
+   */
+  public async reportForMarket(
+    marketId: string,
+    createdBy: string
+  ): Promise<Result<WhoKnewReportRecord, string>> {
+    const prisma = db.getClient();
+    const market = await prisma.market.findUnique({
+      where: { id: marketId },
+      select: { resolvedOutcome: true, resolvedAt: true },
+    });
+    if (market === null) {
+      return { success: false, error: 'Market not found' };
+    }
+
+    if (
+      (market.resolvedOutcome === 'yes' || market.resolvedOutcome === 'no') &&
+      market.resolvedAt !== null
+    ) {
+      const report = await this.checkResolution(
+        marketId,
+        market.resolvedOutcome,
+        market.resolvedAt,
+        createdBy
+      );
+      if (report !== null) return { success: true, data: report };
+    }
+
+    const trades = await this.loadTrades(
+      marketId,
+      new Date(Date.now() - this.LOOKBACK_HOURS * HOUR_MS),
+      new Date()
+    );
+    const latest = findPriceJumps(
+      trades,
+      this.JUMP_WINDOW_HOURS * HOUR_MS,
+      this.JUMP_POINTS
+    ).pop();
+    if (latest === undefined) {
+      return {
+        success: false,
+        error: `No upset resolution or move of ${Math.round(this.JUMP_POINTS * 100)} points within ${this.JUMP_WINDOW_HOURS}h in the last ${this.LOOKBACK_HOURS}h`,
+      };
+    }
+
+    return {
+      success: true,
+      data: await this.buildReport({
+        marketId,
+        side: latest.side,
+        moveAt: new Date(latest.moveAt),
+        trigger: 'manual',
+        priceBefore: latest.priceBefore,
+        priceAfter: latest.priceAfter,
+        createdBy,
+      }),
+    };
+  }
+
+  /**
+   * Rank the wallets positioned on the winning side before the move, run
+   * forensics on the top ones and store the report. Re-running the same
+   * move replaces the earlier report.
+   */
+  public async buildReport(
+    options: WhoKnewOptions
+  ): Promise<WhoKnewReportRecord> {
+    const lookbackHours = options.lookbackHours ?? this.LOOKBACK_HOURS;
+    const maxEntryPrice = options.maxEntryPrice ?? this.MAX_ENTRY_PRICE;
+    const prisma = db.getClient();
+
+    const trades = await this.loadTrades(
+      options.marketId,
+      new Date(options.moveAt.getTime() - lookbackHours * HOUR_MS),
+      options.moveAt
+    );
+    const positions = rankWinningPositions(
+      trades,
+      options.side,
+      maxEntryPrice,
+      options.minPositionUsd ?? this.MIN_POSITION_USD
+    ).slice(0, options.limit ?? this.TOP);
+
+    const market = await prisma.market.findUnique({
+      where: { id: options.marketId },
+      select: { openInterest: true },
+    });
+    const marketOI = safeParseFloat(market?.openInterest.toString() ?? '0');
+
+    const wallets: Prisma.WhoKnewWalletCreateWithoutReportInput[] = [];
+    for (const [i, position] of positions.entries()) {
+      const walletAddress = await this.resolveSigner(position.proxyAddress);
+      const fingerprint = await walletForensicsService
+        .analyzeWallet(walletAddress, {
+          tradeSizeUSD: position.positionUsd,
+          marketOI,
+        })
+        .catch((error: unknown) => {
+          logger.warn(
+            {
+              error: error instanceof Error ? error.message : String(error),
+              wallet: walletAddress,
+            },
+            'Who-knew forensics failed'
+          );
+          return null;
+        });
+      const alert = await prisma.alert.findFirst({
+        where: {
+          marketId: options.marketId,
+          walletAddress: { in: [walletAddress, position.proxyAddress] },
+          timestamp: { lte: options.moveAt },
+        },
+        orderBy: { timestamp: 'asc' },
+        select: { id: true },
+      });
+
+      wallets.push({
+        rank: i + 1,
+        walletAddress,
+        proxyAddress: position.proxyAddress,
+        positionUsd: position.positionUsd,
+        shares: position.shares,
+        avgEntryPrice: position.avgEntryPrice,
+        potentialProfit: position.potentialProfit,
+        tradeCount: position.tradeIds.length,
+        tradeIds: position.tradeIds,
+        firstTradeAt: new Date(position.firstTradeAt),
+        hoursBeforeMove:
+          (options.moveAt.getTime() - position.firstTradeAt) / HOUR_MS,
+        isSuspicious: fingerprint?.isSuspicious ?? null,
+        ...(fingerprint !== null && {
+          // Round-trip through JSON for Prisma's JSON input type
+          fingerprint: JSON.parse(JSON.stringify(fingerprint)),
+        }),
+        alertId: alert?.id ?? null,
+      });
+    }
+
+    const key = {
+      marketId: options.marketId,
+      trigger: options.trigger,
+      moveAt: options.moveAt,
+    };
+    const data = {
+      side: options.side,
+      priceBefore: options.priceBefore ?? null,
+      priceAfter: options.priceAfter ?? null,
+      lookbackHours,
+      maxEntryPrice,
+      tradesScanned: trades.length,
+      createdBy: options.createdBy,
+    };
+    const report = await db.executeTransaction(async (tx) => {
+      await tx.whoKnewReport.deleteMany({ where: key });
+      return tx.whoKnewReport.create({
+        data: { ...key, ...data, wallets: { create: wallets } },
+        include: {
+          wallets: { orderBy: { rank: 'asc' } },
+          market: { select: { question: true, slug: true } },
+        },
+      });
+    });
+
+    logger.info(
+      {
+        reportId: report.id,
+        marketId: options.marketId,
+        trigger: options.trigger,
+        side: options.side,
+        wallets: wallets.length,
+        alreadyAlerted: wallets.filter((w) => w.alertId !== null).length,
+      },
+      '🕵️ Who-knew report built'
+    );
+
+    if (options.createdBy === 'job' && wallets.length > 0) {
+      await notificationCoordinator.sendMessage(this.formatReport(report));
+    }
+
+    return report;
+  }
+
+  /**
+   * Most recent reports, newest first
+   */
+  public async listReports(
+    options: { marketId?: string; limit?: number } = {}
+  ): Promise<WhoKnewReportRecord[]> {
+    return db.getClient().whoKnewReport.findMany({
+      where: {
+        ...(options.marketId !== undefined && { marketId: options.marketId }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit ?? 20,
+      include: {
+        wallets: { orderBy: { rank: 'asc' } },
+        market: { select: { question: true, slug: true } },
+      },
+    });
+  }
+
+  /**
+   * One report with its ranked wallets
+   */
+  public async getReport(id: string): Promise<WhoKnewReportRecord | null> {
+    return db.getClient().whoKnewReport.findUnique({
+      where: { id },
+      include: {
+        wallets: { orderBy: { rank: 'asc' } },
+        market: { select: { question: true, slug: true } },
+      },
+    });
+  }
+
+  /**
+   * Format a report as one Markdown message (renders on every channel)
+   */
+  public formatReport(report: WhoKnewReportRecord): string {
+    const question = stripMarkdown(report.market.question);
+    const move =
+      report.priceBefore !== null && report.priceAfter !== null
+        ? `${Math.round(report.priceBefore * 100)}¢ → ${Math.round(report.priceAfter * 100)}¢`
+        : 'moved';
+    const lines = [
+      `🕵️ *Who knew?* ${question}`,
+      `${report.side.toUpperCase()} ${move} (${report.trigger}) · ${report.moveAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+      `Report \`${report.id}\``,
+    ];
+
+    if (report.wallets.length === 0) {
+      lines.push(
+        '',
+        `No wallet built a position at or below ${Math.round(report.maxEntryPrice * 100)}¢ in the ${report.lookbackHours}h before the move.`
+      );
+      return lines.join('\n');
+    }
+
+    lines.push('');
+    for (const wallet of report.wallets) {
+      const flags = [
+        wallet.isSuspicious === true ? '🚩 suspicious' : null,
+        wallet.alertId !== null ? '🔔 alerted' : null,
+      ].filter((flag) => flag !== null);
+      lines.push(
+        `${wallet.rank}. \`${this.shortAddress(wallet.walletAddress)}\` · $${Math.round(wallet.positionUsd).toLocaleString('en-US')} @ ${Math.round(wallet.avgEntryPrice * 100)}¢ · +$${Math.round(wallet.potentialProfit).toLocaleString('en-US')}`,
+        `    ${wallet.tradeCount} fill(s), ${wallet.hoursBeforeMove.toFixed(1)}h before${flags.length > 0 ? ` · ${flags.join(' · ')}` : ''}`
+      );
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Stored trades on a market in [from, to)
+   */
+  private async loadTrades(
+    marketId: string,
+    from: Date,
+    to: Date
+  ): Promise<WhoKnewTrade[]> {
+    const rows = await db.getClient().trade.findMany({
+      where: { marketId, timestamp: { gte: from, lt: to } },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        id: true,
+        side: true,
+        outcome: true,
+        size: true,
+        price: true,
+        taker: true,
+        timestamp: true,
+      },
+    });
+    return rows.map((row) => ({
+      id: row.id,
+      side: row.side === 'sell' ? 'sell' : 'buy',
+      outcome: row.outcome === 'no' ? 'no' : 'yes',
+      size: safeParseFloat(row.size.toString()),
+      price: safeParseFloat(row.price.toString()),
+      taker: row.taker,
+      timestamp: row.timestamp.getTime(),
+    }));
+  }
+
+  /**
+   * Proxy → signer, falling back to the proxy (as the live pipeline does)
+   */
+  private async resolveSigner(proxyAddress: string): Promise<string> {
+    try {
+      return (
+        (await polymarketSubgraph.getSignerFromProxy(proxyAddress)) ??
+        proxyAddress
+      );
+    } catch {
+      return proxyAddress;
+    }
+  }
+
+  private shortAddress(address: string): string {
+    return address.length > 12
+      ? `${address.slice(0, 6)}…${address.slice(-4)}`
+      : address;
+  }
+}
+
+// Export singleton instance
+export const whoKnewReport = WhoKnewReportService.getInstance();
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PolymarketTrade } from '../../types/index.js';
+import {
+  findEventPattern,
+  toEventPatternFill,
+  type EventPatternFill,
+} from './event-pattern-detector.js';
+
+const EVENT = { gammaEventId: 'event-1', gammaEventTitle: 'Who wins?' };
+
+function fill(
+  id: string,
+  marketId: string,
+  side: 'buy' | 'sell',
+  outcome: 'yes' | 'no',
+  size: number,
+  price: number,
+  timestamp: number
+): EventPatternFill {
+  const trade: PolymarketTrade = {
+    id,
+    marketId,
+    side,
+    outcome,
+    size: size.toString(),
+    price: price.toString(),
+    timestamp,
+    maker: '0xmaker',
+    taker: '0xwallet',
+    source: 'subgraph',
+  };
+  return toEventPatternFill(trade);
+}
+
+describe('toEventPatternFill', () => {
+  it('treats selling YES as a NO stance costing the NO price', () => {
+    const result = fill('t1', 'm1', 'sell', 'yes', 100, 0.7, 1000);
+    expect(result.stance).toBe('no');
+    expect(result.yesBuy).toBe(false);
+    expect(result.usd).toBeCloseTo(30);
+  });
+
+  it('treats selling NO as a YES stance that is not a YES buy', () => {
+    const result = fill('t1', 'm1', 'sell', 'no', 100, 0.8, 1000);
+    expect(result.stance).toBe('yes');
+    expect(result.yesBuy).toBe(false);
+    expect(result.usd).toBeCloseTo(20);
+  });
+});
+
+describe('findEventPattern', () => {
+  it('finds one YES pick backed by NO legs on the other markets', () => {
+    const pattern = findEventPattern(
+      [
+        fill('n1', 'm2', 'buy', 'no', 100, 0.9, 1000),
+        fill('y1', 'm1', 'buy', 'yes', 100, 0.1, 2000),
+        fill('n2', 'm3', 'sell', 'yes', 100, 0.2, 3000),
+        fill('y2', 'm1', 'buy', 'yes', 100, 0.2, 4000),
+      ],
+      2,
+      EVENT
+    );
+    expect(pattern).not.toBeNull();
+    expect(pattern).toMatchObject({
+      gammaEventId: 'event-1',
+      gammaEventTitle: 'Who wins?',
+      pickMarketId: 'm1',
+      pickTradeId: 'y2',
+      noLegs: 2,
+      detectedAt: 4000,
+    });
+    expect(pattern?.pickPrice).toBeCloseTo(0.15);
+    expect(pattern?.totalUsd).toBeCloseTo(200);
+    expect(pattern?.legs.map((leg) => leg.marketId)).toEqual([
+      'm1',
+      'm2',
+      'm3',
+    ]);
+    expect(pattern?.legs[0]?.tradeIds).toEqual(['y1', 'y2']);
+  });
+
+  it('needs enough NO legs', () => {
+    const fills = [
+      fill('y1', 'm1', 'buy', 'yes', 100, 0.1, 1000),
+      fill('n1', 'm2', 'buy', 'no', 100, 0.9, 2000),
+    ];
+    expect(findEventPattern(fills, 2, EVENT)).toBeNull();
+    expect(findEventPattern(fills, 1, EVENT)?.noLegs).toBe(1);
+  });
+
+  it('rejects more than one YES pick', () => {
+    expect(
+      findEventPattern(
+        [
+          fill('y1', 'm1', 'buy', 'yes', 100, 0.1, 1000),
+          fill('y2', 'm2', 'buy', 'yes', 100, 0.1, 2000),
+          fill('n1', 'm3', 'buy', 'no', 100, 0.9, 3000),
+        ],
+        1,
+        EVENT
+      )
+    ).toBeNull();
+  });
+
+  it('ignores markets the wallet is flat on', () => {
+    const pattern = findEventPattern(
+      [
+        fill('y1', 'm1', 'buy', 'yes', 100, 0.1, 1000),
+        fill('y2', 'm2', 'buy', 'yes', 100, 0.5, 2000),
+        fill('n2', 'm2', 'sell', 'yes', 100, 0.5, 3000),
+        fill('n1', 'm3', 'buy', 'no', 100, 0.9, 4000),
+      ],
+      1,
+      EVENT
+    );
+    expect(pattern?.pickMarketId).toBe('m1');
+    expect(pattern?.legs.map((leg) => leg.marketId)).toEqual(['m1', 'm3']);
+  });
+
+  it('needs a YES buy on the pick', () => {
+    expect(
+      findEventPattern(
+        [
+          fill('y1', 'm1', 'sell', 'no', 100, 0.9, 1000),
+          fill('n1', 'm2', 'buy', 'no', 100, 0.9, 2000),
+        ],
+        1,
+        EVENT
+      )
+    ).toBeNull();
+  });
+});
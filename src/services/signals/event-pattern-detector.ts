@@ -0,0 +1,324 @@
+import {
+  getThresholds,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
+import { redis } from '../cache/redis.js';
+import { thresholdManager } from '../config/threshold-manager.js';
+import { marketService } from '../polymarket/market-service.js';
+import { signalDetector } from './signal-detector.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat } from '../../utils/decimals.js';
+import type { PolymarketTrade, TradeSignal } from '../../types/index.js';
+
+const KEY_PREFIX = 'event-pattern';
+
+/**
+ * One fill, expressed as a bet for or against its market's candidate
+ * (buying NO and selling YES both bet against it)
+ */
+export interface EventPatternFill {
+  tradeId: string;
+  marketId: string;
+  stance: 'yes' | 'no';
+  yesBuy: boolean; // Bought YES (a NO sell has a YES stance but isn't one)
+  shares: number;
+  usd: number; // Cost of the stance (NO-equivalent for YES sells)
+  timestamp: number;
+}
+
+/**
+ * A wallet's net position on one market of the event
+ */
+export interface EventPatternLeg {
+  marketId: string;
+  stance: 'yes' | 'no';
+  netUsd: number;
+  tradeIds: string[]; // Oldest first
+}
+
+/**
+ * YES on one market of a Gamma event and NO on several of the others:
+ * every leg pays out if the pick wins
+ */
+export interface EventPattern {
+  gammaEventId: string;
+  gammaEventTitle: string | null;
+  pickMarketId: string; // The one market bet YES
+  pickTradeId: string; // Latest YES buy on the pick (the alert's trade)
+  pickPrice: number; // Average YES price paid on the pick
+  noLegs: number; // Other markets bet NO
+  totalUsd: number; // Net USD across all legs
+  legs: EventPatternLeg[]; // Pick first
+  detectedAt: number; // Time (ms) of the fill that completed the pattern
+}
+
+/**
+ * Express a fill as a stance on its market's candidate
+ */
+export function toEventPatternFill(trade: PolymarketTrade): EventPatternFill {
+  const shares = safeParseFloat(trade.size);
+  const price = safeParseFloat(trade.price);
+  const bought = trade.side === 'buy';
+  const stance = (trade.outcome === 'yes') === bought ? 'yes' : 'no';
+
+  return {
+    tradeId: trade.id,
+    marketId: trade.marketId,
+    stance,
+    yesBuy: bought && trade.outcome === 'yes',
+    shares,
+    // Selling a side costs the opposite side's price per share
+    usd: shares * (bought ? price : 1 - price),
+    timestamp: trade.timestamp,
+  };
+}
+
+/**
+ * Net a wallet's fills per market and look for one YES pick with at least
+ * `minNoLegs` NO legs. Markets the wallet is flat on are ignored. The pick
+ * needs at least one YES buy, since the alert is recorded against one and
+ * outcome tracking settles it by that trade's side and outcome.
+ */
+export function findEventPattern(
+  fills: EventPatternFill[],
+  minNoLegs: number,
+  event: { gammaEventId: string; gammaEventTitle: string | null }
+): EventPattern | null {
+  const byMarket = new Map<
+    string,
+    {
+      yesUsd: number;
+      yesShares: number;
+      noUsd: number;
+      tradeIds: string[];
+      lastYesBuyId: string | null;
+    }
+  >();
+  for (const fill of [...fills].sort((a, b) => a.timestamp - b.timestamp)) {
+    const market = byMarket.get(fill.marketId) ?? {
+      yesUsd: 0,
+      yesShares: 0,
+      noUsd: 0,
+      tradeIds: [],
+      lastYesBuyId: null,
+    };
+    if (fill.stance === 'yes') {
+      market.yesUsd += fill.usd;
+      market.yesShares += fill.shares;
+    } else {
+      market.noUsd += fill.usd;
+    }
+    market.tradeIds.push(fill.tradeId);
+    if (fill.yesBuy) {
+      market.lastYesBuyId = fill.tradeId;
+    }
+    byMarket.set(fill.marketId, market);
+  }
+
+  const detectedAt = Math.max(...fills.map((fill) => fill.timestamp));
+  const legs: EventPatternLeg[] = [];
+  for (const [marketId, market] of byMarket) {
+    const net = market.yesUsd - market.noUsd;
+    if (net === 0) continue;
+    legs.push({
+      marketId,
+      stance: net > 0 ? 'yes' : 'no',
+      netUsd: Math.abs(net),
+      tradeIds: market.tradeIds,
+    });
+  }
+
+  const yesLegs = legs.filter((leg) => leg.stance === 'yes');
+  const noLegs = legs.filter((leg) => leg.stance === 'no');
+  const pick = yesLegs[0];
+  if (yesLegs.length !== 1 || pick === undefined) return null;
+  if (noLegs.length < minNoLegs) return null;
+
+  const pickMarket = byMarket.get(pick.marketId);
+  if (pickMarket === undefined || pickMarket.yesShares <= 0) return null;
+  if (pickMarket.lastYesBuyId === null) return null;
+
+  return {
+    ...event,
+    pickMarketId: pick.marketId,
+    pickTradeId: pickMarket.lastYesBuyId,
+    pickPrice: pickMarket.yesUsd / pickMarket.yesShares,
+    noLegs: noLegs.length,
+    totalUsd: legs.reduce((sum, leg) => sum + leg.netUsd, 0),
+    legs: [pick, ...noLegs],
+    detectedAt,
+  };
+}
+
+/**
+ * Synthetic trade standing for an event pattern: the whole position as a
+ * YES buy on the pick at its average price, on the pick's latest YES buy
+ */
+export function buildEventPatternTrade(
+  trade: PolymarketTrade,
+  pattern: EventPattern
+): PolymarketTrade {
+  return {
+    ...trade,
+    id: pattern.pickTradeId,
+    marketId: pattern.pickMarketId,
+    timestamp: pattern.detectedAt,
+    side: 'buy',
+    outcome: 'yes',
+    size: (pattern.totalUsd / pattern.pickPrice).toString(),
+    price: pattern.pickPrice.toString(),
+  };
+}
+
+/**
+ * Event pattern detector
+ * Markets of one Gamma event (one market per candidate) are analyzed one
+ * at a time, so a wallet buying YES on one candidate and NO on the rest
+ * looks like several unrelated trades. This tracks each wallet's fills
+ * across an event's monitored markets in a Redis sorted set, scored by
+ * trade time, and judges a YES-on-one / NO-on-others position as a single
+ * trade on the pick.
+ */
+class EventPatternDetector {
+  private static instance: EventPatternDetector | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): EventPatternDetector {
+    if (EventPatternDetector.instance === null) {
+      EventPatternDetector.instance = new EventPatternDetector();
+    }
+    return EventPatternDetector.instance;
+  }
+
+  /**
+   * Add a fill to its wallet's event position
+   * Returns the pattern the position now forms, or null.
+   */
+  public async recordTrade(
+    trade: PolymarketTrade
+  ): Promise<EventPattern | null> {
+    const market = marketService.getMarket(trade.marketId);
+    const gammaEventId = market?.gammaEventId;
+    if (gammaEventId === undefined) return null;
+
+    const thresholds = getThresholds();
+    if (thresholds.eventPatternWindowHours <= 0) return null;
+    if (
+      marketService.getMarketsByEvent(gammaEventId).length <
+      thresholds.eventPatternMinNoLegs + 1
+    ) {
+      return null;
+    }
+
+    try {
+      const fills = await this.recordFill(trade, gammaEventId, thresholds);
+      return findEventPattern(fills, thresholds.eventPatternMinNoLegs, {
+        gammaEventId,
+        gammaEventTitle: market?.gammaEventTitle ?? null,
+      });
+    } catch (error) {
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          tradeId: trade.id,
+          gammaEventId,
+        },
+        'Failed to record event position'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Run signal detection on a pattern as one trade on the pick market
+   * Returns the signal (listing every leg's fills) and the synthetic trade
+   * it was detected on, or null.
+   */
+  public async analyzePattern(
+    trade: PolymarketTrade,
+    pattern: EventPattern
+  ): Promise<{ signal: TradeSignal; trade: PolymarketTrade } | null> {
+    const patternTrade = buildEventPatternTrade(trade, pattern);
+    const signal = await signalDetector.analyzeTrade(patternTrade, {
+      thresholds: thresholdManager.getThresholdsForMarket(pattern.pickMarketId),
+      recordStat: (field: string) =>
+        signalDetector.incrementStat(`event_pattern_${field}`),
+    });
+    if (signal === null) return null;
+
+    // The position is judged - later fills start a new one
+    await this.reset(pattern.gammaEventId, trade.taker);
+
+    logger.info(
+      {
+        tradeId: patternTrade.id,
+        gammaEventId: pattern.gammaEventId,
+        pickMarketId: pattern.pickMarketId,
+        wallet: trade.taker.substring(0, 10) + '...',
+        noLegs: pattern.noLegs,
+        totalUsd: pattern.totalUsd.toFixed(2),
+      },
+      `🕸️ Event pattern detected: YES on 1, NO on ${pattern.noLegs} markets, $${pattern.totalUsd.toFixed(0)} net`
+    );
+
+    return {
+      signal: {
+        ...signal,
+        componentTradeIds: pattern.legs.flatMap((leg) => leg.tradeIds),
+      },
+      trade: patternTrade,
+    };
+  }
+
+  /**
+   * Forget a wallet's position on an event
+   */
+  public async reset(gammaEventId: string, taker: string): Promise<void> {
+    try {
+      await redis.getClient().del(this.getKey(gammaEventId, taker));
+    } catch (error) {
+      logger.debug({ error, gammaEventId }, 'Failed to reset event position');
+    }
+  }
+
+  /**
+   * Store a fill and return the wallet's event fills inside the window
+   */
+  private async recordFill(
+    trade: PolymarketTrade,
+    gammaEventId: string,
+    thresholds: DetectionThresholds
+  ): Promise<EventPatternFill[]> {
+    const client = redis.getClient();
+    const key = this.getKey(gammaEventId, trade.taker);
+    const windowMs = thresholds.eventPatternWindowHours * 60 * 60 * 1000;
+
+    await client.zadd(
+      key,
+      trade.timestamp,
+      JSON.stringify(toEventPatternFill(trade))
+    );
+    await client.zremrangebyscore(key, '-inf', trade.timestamp - windowMs);
+    await client.expire(key, Math.ceil(windowMs / 1000));
+
+    const members = await client.zrangebyscore(
+      key,
+      trade.timestamp - windowMs,
+      '+inf'
+    );
+    return members.map((member) => JSON.parse(member) as EventPatternFill);
+  }
+
+  private getKey(gammaEventId: string, taker: string): string {
+    return `${KEY_PREFIX}:${gammaEventId}:${taker.toLowerCase()}`;
+  }
+}
+
+// Export singleton instance
+export const eventPatternDetector = EventPatternDetector.getInstance();
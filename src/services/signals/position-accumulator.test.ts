@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PolymarketTrade } from '../../types/index.js';
+import {
+  aggregateFills,
+  buildAggregateTrade,
+  type AccumulationFill,
+} from './position-accumulator.js';
+
+function fill(
+  tradeId: string,
+  shares: number,
+  price: number,
+  timestamp: number
+): AccumulationFill {
+  return { tradeId, shares, usd: shares * price, timestamp };
+}
+
+describe('aggregateFills', () => {
+  it('nets fills oldest first into one position', () => {
+    const position = aggregateFills([
+      fill('c', 200, 0.3, 3000),
+      fill('a', 100, 0.2, 1000),
+      fill('b', 100, 0.25, 2000),
+    ]);
+    expect(position).not.toBeNull();
+    expect(position?.componentTradeIds).toEqual(['a', 'b', 'c']);
+    expect(position?.netShares).toBe(400);
+    expect(position?.netUsd).toBeCloseTo(105);
+    expect(position?.averagePrice).toBeCloseTo(0.2625);
+    expect(position?.firstTimestamp).toBe(1000);
+    expect(position?.lastTimestamp).toBe(3000);
+  });
+
+  it('subtracts sells from the position', () => {
+    const position = aggregateFills([
+      fill('a', 300, 0.2, 1000),
+      fill('b', -100, 0.3, 2000),
+    ]);
+    expect(position?.netShares).toBe(200);
+    expect(position?.netUsd).toBeCloseTo(30);
+    expect(position?.componentTradeIds).toEqual(['a', 'b']);
+  });
+
+  it('returns null unless the fills add up to a net buy', () => {
+    expect(aggregateFills([])).toBeNull();
+    expect(
+      aggregateFills([fill('a', 100, 0.2, 1000), fill('b', -100, 0.4, 2000)])
+    ).toBeNull();
+    expect(aggregateFills([fill('a', -50, 0.5, 1000)])).toBeNull();
+  });
+});
+
+describe('buildAggregateTrade', () => {
+  it('keeps the completing fill and swaps in the net size and price', () => {
+    const trade: PolymarketTrade = {
+      id: 'c',
+      marketId: 'market-1',
+      side: 'buy',
+      size: '200',
+      price: '0.3',
+      timestamp: 3000,
+      maker: '0xmaker',
+      taker: '0xtaker',
+      outcome: 'yes',
+      source: 'subgraph',
+    };
+    const position = aggregateFills([
+      fill('a', 200, 0.2, 1000),
+      fill('c', 200, 0.3, 3000),
+    ]);
+    if (position === null) throw new Error('expected a position');
+
+    const aggregate = buildAggregateTrade(trade, position);
+    expect(aggregate).toMatchObject({
+      id: 'c',
+      timestamp: 3000,
+      side: 'buy',
+      outcome: 'yes',
+      size: '400',
+    });
+    expect(Number(aggregate.price)).toBeCloseTo(0.25);
+  });
+});
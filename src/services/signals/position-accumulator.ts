@@ -0,0 +1,231 @@
+import type { DetectionThresholds } from '../../config/thresholds.js';
+import { redis } from '../cache/redis.js';
+import { thresholdManager } from '../config/threshold-manager.js';
+import { signalDetector } from './signal-detector.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat, calculateUsdValue } from '../../utils/decimals.js';
+import type {
+  FilterDecision,
+  PolymarketTrade,
+  TradeSignal,
+} from '../../types/index.js';
+
+const KEY_PREFIX = 'accumulation';
+
+/**
+ * Signal filters a fill can fail and still count towards a position:
+ * the size and impact checks that judge each trade alone
+ */
+export const ACCUMULATION_FILTERS: readonly string[] = [
+  'filtered_oi_prefilter',
+  'filtered_market_aware_minimum',
+  'filtered_oi_threshold',
+];
+
+/**
+ * One fill in a wallet's rolling position (sells are negative)
+ */
+export interface AccumulationFill {
+  tradeId: string;
+  shares: number;
+  usd: number;
+  timestamp: number;
+}
+
+/**
+ * Net exposure built up across a wallet's fills
+ */
+export interface AccumulatedPosition {
+  componentTradeIds: string[]; // Oldest first
+  netShares: number;
+  netUsd: number;
+  averagePrice: number; // Net USD / net shares
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+/**
+ * Net a wallet's fills into one position
+ * Returns null unless the fills add up to a net buy.
+ */
+export function aggregateFills(
+  fills: AccumulationFill[]
+): AccumulatedPosition | null {
+  if (fills.length === 0) return null;
+
+  const sorted = [...fills].sort((a, b) => a.timestamp - b.timestamp);
+  const netShares = sorted.reduce((sum, fill) => sum + fill.shares, 0);
+  const netUsd = sorted.reduce((sum, fill) => sum + fill.usd, 0);
+  if (netShares <= 0 || netUsd <= 0) return null;
+
+  return {
+    componentTradeIds: sorted.map((fill) => fill.tradeId),
+    netShares,
+    netUsd,
+    averagePrice: netUsd / netShares,
+    firstTimestamp: sorted[0]?.timestamp ?? 0,
+    lastTimestamp: sorted[sorted.length - 1]?.timestamp ?? 0,
+  };
+}
+
+/**
+ * Synthetic trade standing for an accumulated position
+ * Keeps the id and timestamp of the fill that completed it.
+ */
+export function buildAggregateTrade(
+  trade: PolymarketTrade,
+  position: AccumulatedPosition
+): PolymarketTrade {
+  return {
+    ...trade,
+    side: 'buy',
+    size: position.netShares.toString(),
+    price: position.averagePrice.toString(),
+  };
+}
+
+/**
+ * Position accumulator
+ * Tracks each wallet's rolling net exposure per market and outcome so a
+ * position split into many small fills (each under absoluteMinUsd or the
+ * impact thresholds) is judged as one trade. Fills live in a Redis sorted
+ * set per wallet/market/outcome, scored by trade time.
+ */
+class PositionAccumulator {
+  private static instance: PositionAccumulator | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): PositionAccumulator {
+    if (PositionAccumulator.instance === null) {
+      PositionAccumulator.instance = new PositionAccumulator();
+    }
+    return PositionAccumulator.instance;
+  }
+
+  /**
+   * Add a fill the signal detector filtered for size and check whether the
+   * wallet's net position now clears the thresholds as a single trade.
+   * Returns the aggregated signal (listing every component trade) and the
+   * synthetic trade it was detected on, or null.
+   */
+  public async checkFill(
+    trade: PolymarketTrade,
+    filter: FilterDecision | undefined
+  ): Promise<{ signal: TradeSignal; trade: PolymarketTrade } | null> {
+    if (filter === undefined || !ACCUMULATION_FILTERS.includes(filter.reason)) {
+      return null;
+    }
+
+    const thresholds = thresholdManager.getThresholdsForMarket(trade.marketId);
+    if (thresholds.accumulationWindowHours <= 0) return null;
+
+    try {
+      const fills = await this.recordFill(trade, thresholds);
+      if (fills.length < thresholds.accumulationMinTrades) return null;
+
+      const position = aggregateFills(fills);
+      if (position === null) return null;
+
+      const aggregateTrade = buildAggregateTrade(trade, position);
+      const signal = await signalDetector.analyzeTrade(aggregateTrade, {
+        thresholds,
+        recordStat: (field: string) =>
+          signalDetector.incrementStat(`accumulation_${field}`),
+      });
+      if (signal === null) return null;
+
+      // The position is judged - later fills start a new one
+      await this.reset(trade);
+
+      logger.info(
+        {
+          tradeId: trade.id,
+          marketId: trade.marketId,
+          wallet: trade.taker.substring(0, 10) + '...',
+          fills: position.componentTradeIds.length,
+          netUsd: position.netUsd.toFixed(2),
+          windowMinutes: Math.round(
+            (position.lastTimestamp - position.firstTimestamp) / 60000
+          ),
+        },
+        `🧩 Accumulated position detected: ${position.componentTradeIds.length} fills, $${position.netUsd.toFixed(0)} net`
+      );
+
+      return {
+        signal: { ...signal, componentTradeIds: position.componentTradeIds },
+        trade: aggregateTrade,
+      };
+    } catch (error) {
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          tradeId: trade.id,
+          marketId: trade.marketId,
+        },
+        'Failed to check position accumulation'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Forget a wallet's open position on a market/outcome
+   * Called once a trade of that position has been judged on its own.
+   */
+  public async reset(trade: PolymarketTrade): Promise<void> {
+    try {
+      await redis.getClient().del(this.getKey(trade));
+    } catch (error) {
+      logger.debug(
+        { error, tradeId: trade.id },
+        'Failed to reset accumulated position'
+      );
+    }
+  }
+
+  /**
+   * Store a fill and return the wallet's fills inside the window
+   */
+  private async recordFill(
+    trade: PolymarketTrade,
+    thresholds: DetectionThresholds
+  ): Promise<AccumulationFill[]> {
+    const client = redis.getClient();
+    const key = this.getKey(trade);
+    const windowMs = thresholds.accumulationWindowHours * 60 * 60 * 1000;
+
+    const shares = safeParseFloat(trade.size);
+    const usd = calculateUsdValue(shares, safeParseFloat(trade.price));
+    const sign = trade.side === 'buy' ? 1 : -1;
+    const fill: AccumulationFill = {
+      tradeId: trade.id,
+      shares: sign * shares,
+      usd: sign * usd,
+      timestamp: trade.timestamp,
+    };
+
+    await client.zadd(key, trade.timestamp, JSON.stringify(fill));
+    await client.zremrangebyscore(key, '-inf', trade.timestamp - windowMs);
+    await client.expire(key, Math.ceil(windowMs / 1000));
+
+    const members = await client.zrangebyscore(
+      key,
+      trade.timestamp - windowMs,
+      '+inf'
+    );
+    return members.map((member) => JSON.parse(member) as AccumulationFill);
+  }
+
+  private getKey(trade: PolymarketTrade): string {
+    return `${KEY_PREFIX}:${trade.marketId}:${trade.outcome}:${trade.taker.toLowerCase()}`;
+  }
+}
+
+// Export singleton instance
+export const positionAccumulator = PositionAccumulator.getInstance();
@@ -1,12 +1,17 @@
 import { Decimal } from '@prisma/client/runtime/library';
 
-import { getThresholds } from '../../config/thresholds.js';
+import {
+  getThresholds,
+  type DetectionThresholds,
+} from '../../config/thresholds.js';
 import { db } from '../database/prisma.js';
 import { redis } from '../cache/redis.js';
+import { thresholdManager } from '../config/threshold-manager.js';
 import { logger } from '../../utils/logger.js';
 import {
   OiCalculationService,
   type LiquidityData,
+  type VolumeData,
 } from '../analysis/oi-calculator.js';
 import { safeParseFloat, calculateUsdValue } from '../../utils/decimals.js';
 import { DecisionFramework } from '../data/decision-framework.js';
@@ -14,11 +19,33 @@ import type {
   PolymarketTrade,
   TradeSignal,
   DormancyMetrics,
+  FilterDecision,
 } from '../../types/index.js';
 
 // Stats keys for tracking filter funnel
 const STATS_KEY = 'stats:signal_detector';
 
+/**
+ * Options for running analyzeTrade without live lookups or side effects.
+ * Everything is optional - omitting a field keeps the live behaviour.
+ */
+export interface AnalyzeTradeOptions {
+  /** Thresholds to apply instead of the market's resolved thresholds */
+  thresholds?: DetectionThresholds;
+  /** Market snapshot to use instead of the Redis/Data API/DB lookup */
+  marketData?: { openInterest: string; volume: string };
+  /** Orderbook liquidity to use (null = unknown, skips the CLOB fetch) */
+  liquidityData?: LiquidityData | null;
+  /** Lookback volume to use (null = unknown, skips the Data API fetch) */
+  volumeData?: VolumeData | null;
+  /** Stat sink replacing the Redis funnel counters */
+  recordStat?: (field: string) => void | Promise<void>;
+  /** Receives the filter that stopped the trade (decision log) */
+  recordFilter?: (filter: FilterDecision) => void;
+  /** Skip the OI prefilter, market-aware minimum and impact gates */
+  bypassSizeGates?: boolean;
+}
+
 /**
  * Signal detection service
  * Analyzes trades for insider signal patterns
@@ -87,17 +114,36 @@ class SignalDetector {
    * Returns null if trade doesn't meet criteria
    */
   public async analyzeTrade(
-    trade: PolymarketTrade
+    trade: PolymarketTrade,
+    options: AnalyzeTradeOptions = {}
   ): Promise<TradeSignal | null> {
+    const recordStat =
+      options.recordStat ??
+      ((field: string): Promise<void> => this.incrementStat(field));
+
     try {
       // Track total trades analyzed
-      await this.incrementStat('trades_analyzed');
-
-      // Get market data
-      const marketData = await this.getMarketData(trade.marketId);
+      await recordStat('trades_analyzed');
+
+      // Get market data; a trade past the size gates goes on without it
+      // (zero OI - no OI-based impact)
+      let marketData =
+        options.marketData ?? (await this.getMarketData(trade.marketId));
+      if (marketData === null && options.bypassSizeGates === true) {
+        logger.debug(
+          { tradeId: trade.id, marketId: trade.marketId },
+          'No market data available - size gates bypassed, using zero OI'
+        );
+        marketData = { openInterest: '0', volume: '0' };
+      }
       if (marketData === null) {
         logger.debug({ marketId: trade.marketId }, 'No market data available');
-        await this.incrementStat('filtered_no_market_data');
+        await recordStat('filtered_no_market_data');
+        options.recordFilter?.({
+          reason: 'filtered_no_market_data',
+          value: null,
+          threshold: null,
+        });
         return null;
       }
 
@@ -107,15 +153,21 @@ class SignalDetector {
         safeParseFloat(trade.price)
       );
 
-      // Get thresholds for market-aware filtering
-      const thresholds = getThresholds();
+      // Get thresholds for market-aware filtering (global + scoped overrides)
+      const thresholds =
+        options.thresholds ??
+        thresholdManager.getThresholdsForMarket(trade.marketId);
 
       // FAST PRE-FILTER: Quick OI percentage check before expensive calculations
       // This prevents subgraph calls for trades that don't meet minimum OI impact
       const minOiPrefilterPct =
         Number(process.env['MIN_OI_PREFILTER_PCT']) || 1.0;
       const marketOI = parseFloat(marketData.openInterest);
-      if (isFinite(marketOI) && marketOI > 0) {
+      if (
+        options.bypassSizeGates !== true &&
+        isFinite(marketOI) &&
+        marketOI > 0
+      ) {
         const quickOiPct = (tradeUsdValue / marketOI) * 100;
         if (quickOiPct < minOiPrefilterPct) {
           logger.debug(
@@ -128,7 +180,12 @@ class SignalDetector {
             },
             `🚫 Trade filtered: ${quickOiPct.toFixed(2)}% OI < ${minOiPrefilterPct}% prefilter`
           );
-          await this.incrementStat('filtered_oi_prefilter');
+          await recordStat('filtered_oi_prefilter');
+          options.recordFilter?.({
+            reason: 'filtered_oi_prefilter',
+            value: quickOiPct,
+            threshold: minOiPrefilterPct,
+          });
           return null;
         }
       }
@@ -137,7 +194,10 @@ class SignalDetector {
       let availableLiquidity: number | null = null;
       let liquidityData: LiquidityData | null = null;
 
-      if (thresholds.oiCalculationMethod === 'liquidity') {
+      if (options.liquidityData !== undefined) {
+        liquidityData = options.liquidityData;
+        availableLiquidity = liquidityData?.availableLiquidity ?? null;
+      } else if (thresholds.oiCalculationMethod === 'liquidity') {
         try {
           // Cache the liquidity data to avoid fetching twice
           liquidityData = await this.oiCalculator.getAvailableLiquidity(
@@ -166,7 +226,7 @@ class SignalDetector {
           : thresholds.absoluteMinUsd || 5000; // Fallback to absolute minimum if no liquidity data
 
       // Apply market-aware gate before expensive calculations
-      if (tradeUsdValue < minThreshold) {
+      if (options.bypassSizeGates !== true && tradeUsdValue < minThreshold) {
         logger.info(
           {
             tradeId: trade.id,
@@ -177,7 +237,12 @@ class SignalDetector {
           },
           `🚫 Trade filtered: $${tradeUsdValue.toFixed(0)} < $${minThreshold.toFixed(0)} minimum (market-aware threshold)`
         );
-        await this.incrementStat('filtered_market_aware_minimum');
+        await recordStat('filtered_market_aware_minimum');
+        options.recordFilter?.({
+          reason: 'filtered_market_aware_minimum',
+          value: tradeUsdValue,
+          threshold: minThreshold,
+        });
         return null;
       }
 
@@ -189,11 +254,20 @@ class SignalDetector {
         trade.marketId,
         parseFloat(marketData.openInterest),
         trade.outcome,
-        liquidityData // Pass cached data to avoid refetching
+        liquidityData, // Pass cached data to avoid refetching
+        {
+          thresholds,
+          ...(options.liquidityData !== undefined && {
+            liquidityData: options.liquidityData,
+          }),
+          ...(options.volumeData !== undefined && {
+            volumeData: options.volumeData,
+          }),
+        }
       );
 
       // Now check if trade meets impact threshold (it already passed minimum size)
-      if (!impactResult.meetsThreshold) {
+      if (options.bypassSizeGates !== true && !impactResult.meetsThreshold) {
         logger.info(
           {
             tradeId: trade.id,
@@ -207,12 +281,21 @@ class SignalDetector {
           },
           `🚫 Trade filtered: Impact too low (${impactResult.impactPercentage.toFixed(2)}% < ${impactResult.threshold}% threshold)`
         );
-        await this.incrementStat('filtered_oi_threshold');
+        await recordStat('filtered_oi_threshold');
+        options.recordFilter?.({
+          reason: 'filtered_oi_threshold',
+          value: impactResult.impactPercentage,
+          threshold: impactResult.threshold,
+        });
         return null;
       }
 
       // Track trades that passed OI filter
-      await this.incrementStat('passed_oi_filter');
+      await recordStat(
+        options.bypassSizeGates === true
+          ? 'bypassed_size_gates'
+          : 'passed_oi_filter'
+      );
 
       // Build trade signal
       const signal: TradeSignal = {
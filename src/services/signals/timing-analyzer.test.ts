@@ -0,0 +1,123 @@
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, expect, it } from 'vitest';
+
+import { loadTimingConfig, timingAnalyzer } from './timing-analyzer.js';
+
+function active(
+  iso: string,
+  category: string | undefined,
+  marketId = 'market-1'
+): string[] {
+  return timingAnalyzer
+    .evaluate(Date.parse(iso), marketId, category)
+    .filter((window) => window.isActive)
+    .map((window) => window.name);
+}
+
+function writeConfig(config: unknown): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'timing-')), 'timing.json');
+  writeFileSync(path, JSON.stringify(config));
+  return path;
+}
+
+describe('timingAnalyzer.evaluate', () => {
+  // January: New York is UTC-5
+  it('flags nothing during weekday business hours', () => {
+    expect(active('2026-01-13T15:00:00Z', 'politics')).toEqual([]);
+  });
+
+  it('judges off-hours in the market time zone, wrapping midnight', () => {
+    // 23:00 Tuesday in New York, 04:00 Wednesday UTC
+    expect(active('2026-01-14T04:00:00Z', 'politics')).toEqual(['offHours']);
+    // Unknown categories use the UTC misc rules (off-hours 0-6)
+    expect(active('2026-01-14T04:00:00Z', 'crypto')).toEqual(['offHours']);
+    expect(active('2026-01-14T04:00:00Z', undefined)).toEqual(['offHours']);
+  });
+
+  it('only flags weekends for categories that trade on weekdays', () => {
+    expect(active('2026-01-17T17:00:00Z', 'politics')).toEqual(['weekend']);
+    expect(active('2026-01-17T17:00:00Z', 'sports')).toEqual([]);
+  });
+
+  it('flags the run-up to a scheduled release', () => {
+    // 07:30 Tuesday, half an hour before the 08:00 earnings slot
+    const windows = timingAnalyzer.evaluate(
+      Date.parse('2026-01-13T12:30:00Z'),
+      'market-1',
+      'corporate'
+    );
+    const preAnnouncement = windows.find(
+      (window) => window.name === 'preAnnouncement'
+    );
+    expect(preAnnouncement?.isActive).toBe(true);
+    expect(preAnnouncement?.description).toContain('30 min before the 08:00');
+
+    // Two hours before the slot is outside the 60 minute window
+    expect(active('2026-01-13T11:00:00Z', 'corporate')).not.toContain(
+      'preAnnouncement'
+    );
+  });
+
+  it('skips releases that would fall on a weekend', () => {
+    // 17:00 Friday: the next 08:00 slot is on Saturday
+    const windows = timingAnalyzer.evaluate(
+      Date.parse('2026-01-16T22:00:00Z'),
+      'market-1',
+      'corporate'
+    );
+    const preAnnouncement = windows.find(
+      (window) => window.name === 'preAnnouncement'
+    );
+    expect(preAnnouncement?.isActive).toBe(false);
+    expect(preAnnouncement?.description).toBe('No scheduled release ahead');
+  });
+
+  it('has no pre-announcement window without scheduled releases', () => {
+    const names = timingAnalyzer
+      .evaluate(Date.parse('2026-01-13T15:00:00Z'), 'market-1', 'politics')
+      .map((window) => window.name);
+    expect(names).toEqual(['offHours', 'weekend']);
+  });
+});
+
+describe('loadTimingConfig', () => {
+  it('merges category overrides field by field over the defaults', () => {
+    const config = loadTimingConfig(
+      writeConfig({
+        categories: { sports: { weekends: true } },
+        marketTimezones: { 'market-1': 'Europe/London' },
+      })
+    );
+    expect(config.categories.sports.weekends).toBe(true);
+    expect(config.categories.sports.timezone).toBe('America/New_York');
+    expect(config.categories.corporate.announcementTimes).toEqual([
+      '08:00',
+      '16:00',
+    ]);
+    expect(config.marketTimezones).toEqual({ 'market-1': 'Europe/London' });
+  });
+
+  it('rejects unknown categories, time zones and release times', () => {
+    expect(() =>
+      loadTimingConfig(writeConfig({ categories: { crypto: {} } }))
+    ).toThrow(/Unknown category "crypto"/);
+    expect(() =>
+      loadTimingConfig(
+        writeConfig({ categories: { misc: { timezone: 'Mars/Olympus' } } })
+      )
+    ).toThrow(/unknown time zone/);
+    expect(() =>
+      loadTimingConfig(
+        writeConfig({
+          categories: { corporate: { announcementTimes: ['8am'] } },
+        })
+      )
+    ).toThrow(/announcementTimes/);
+    expect(() =>
+      loadTimingConfig(writeConfig({ marketTimezones: { m: 'Nowhere' } }))
+    ).toThrow(/unknown time zone/);
+  });
+});
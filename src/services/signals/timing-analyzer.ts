@@ -0,0 +1,341 @@
+import { readFileSync } from 'node:fs';
+
+import { formatInTimeZone } from 'date-fns-tz';
+
+import type { TimingWindow } from '../../types/index.js';
+import {
+  MARKET_CATEGORIES,
+  type MarketCategory,
+} from '../alerts/scorer-config.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Timing windows a trade is checked against
+ * (names match the scorer's `timingBonus` points)
+ */
+export type TimingWindowName = 'offHours' | 'weekend' | 'preAnnouncement';
+
+/**
+ * Timing rules for one market category
+ */
+export interface CategoryTimingConfig {
+  timezone: string; // IANA zone the market's hours are judged in
+  offHoursStart: number; // Local hour off-hours begin (0-23)
+  offHoursEnd: number; // Local hour off-hours end (0-23, may wrap midnight)
+  weekends: boolean; // Saturday/Sunday count as a suspicious window
+  announcementTimes: string[]; // Recurring weekday releases, local "HH:mm"
+  preAnnouncementMinutes: number; // Window before each release
+}
+
+export interface TimingConfig {
+  categories: Record<MarketCategory, CategoryTimingConfig>;
+  marketTimezones: Record<string, string>; // Market id → IANA zone override
+}
+
+/**
+ * Defaults: US hours for politics, corporate and sports; pre-market and
+ * post-close earnings slots for corporate; sports games run on weekends
+ */
+const DEFAULT_TIMING_CONFIG: TimingConfig = {
+  categories: {
+    politics: {
+      timezone: 'America/New_York',
+      offHoursStart: 22,
+      offHoursEnd: 6,
+      weekends: true,
+      announcementTimes: [],
+      preAnnouncementMinutes: 60,
+    },
+    corporate: {
+      timezone: 'America/New_York',
+      offHoursStart: 20, // Outside extended trading hours
+      offHoursEnd: 4,
+      weekends: true,
+      announcementTimes: ['08:00', '16:00'], // Earnings before open / after close
+      preAnnouncementMinutes: 60,
+    },
+    sports: {
+      timezone: 'America/New_York',
+      offHoursStart: 1,
+      offHoursEnd: 8,
+      weekends: false,
+      announcementTimes: [],
+      preAnnouncementMinutes: 60,
+    },
+    misc: {
+      timezone: 'UTC',
+      offHoursStart: 0,
+      offHoursEnd: 6,
+      weekends: true,
+      announcementTimes: [],
+      preAnnouncementMinutes: 60,
+    },
+  },
+  marketTimezones: {},
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const WEEKDAY_NAMES = [
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+  'Sunday',
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Throw unless the zone is a valid IANA time zone
+ */
+function assertTimezone(timezone: unknown, path: string): void {
+  if (typeof timezone !== 'string') {
+    throw new Error(`Timing config "${path}" must be a time zone name`);
+  }
+  try {
+    formatInTimeZone(new Date(0), timezone, 'H');
+  } catch {
+    throw new Error(`Timing config "${path}": unknown time zone ${timezone}`);
+  }
+}
+
+/**
+ * Check a category's timing rules
+ */
+function validateCategoryTiming(
+  config: CategoryTimingConfig,
+  category: string
+): void {
+  const path = `categories.${category}`;
+  assertTimezone(config.timezone, `${path}.timezone`);
+  for (const field of ['offHoursStart', 'offHoursEnd'] as const) {
+    const hour = config[field];
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+      throw new Error(`Timing config "${path}.${field}" must be an hour 0-23`);
+    }
+  }
+  if (typeof config.weekends !== 'boolean') {
+    throw new Error(`Timing config "${path}.weekends" must be a boolean`);
+  }
+  if (
+    !Array.isArray(config.announcementTimes) ||
+    !config.announcementTimes.every((time) => TIME_PATTERN.test(time))
+  ) {
+    throw new Error(
+      `Timing config "${path}.announcementTimes" must be a list of "HH:mm" times`
+    );
+  }
+  if (
+    typeof config.preAnnouncementMinutes !== 'number' ||
+    config.preAnnouncementMinutes <= 0 ||
+    config.preAnnouncementMinutes > 24 * 60
+  ) {
+    throw new Error(
+      `Timing config "${path}.preAnnouncementMinutes" must be between 1 and 1440`
+    );
+  }
+}
+
+/**
+ * Load timing rules from a JSON file over the defaults
+ * Category entries merge field by field; marketTimezones is replaced.
+ */
+export function loadTimingConfig(path: string): TimingConfig {
+  const raw: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  if (!isPlainObject(raw)) {
+    throw new Error('Timing config file must contain a JSON object');
+  }
+
+  const categories = { ...DEFAULT_TIMING_CONFIG.categories };
+  const rawCategories = raw['categories'] ?? {};
+  if (!isPlainObject(rawCategories)) {
+    throw new Error('Timing config "categories" must be an object');
+  }
+  for (const [category, overrides] of Object.entries(rawCategories)) {
+    if (!MARKET_CATEGORIES.includes(category as MarketCategory)) {
+      throw new Error(
+        `Unknown category "${category}" in timing config - use one of: ${MARKET_CATEGORIES.join(', ')}`
+      );
+    }
+    if (!isPlainObject(overrides)) {
+      throw new Error(
+        `Timing config "categories.${category}" must be an object`
+      );
+    }
+    const merged = {
+      ...categories[category as MarketCategory],
+      ...overrides,
+    } as CategoryTimingConfig;
+    validateCategoryTiming(merged, category);
+    categories[category as MarketCategory] = merged;
+  }
+
+  const marketTimezones = raw['marketTimezones'] ?? {};
+  if (!isPlainObject(marketTimezones)) {
+    throw new Error('Timing config "marketTimezones" must be an object');
+  }
+  for (const [marketId, timezone] of Object.entries(marketTimezones)) {
+    assertTimezone(timezone, `marketTimezones.${marketId}`);
+  }
+
+  return {
+    categories,
+    marketTimezones: marketTimezones as Record<string, string>,
+  };
+}
+
+/**
+ * Timing analyzer
+ * Checks when a trade happened against its market's timing windows:
+ * off-hours and weekends in the market's time zone, and the run-up to
+ * recurring scheduled releases. The scorer turns active windows into the
+ * timing bonus.
+ */
+class TimingAnalyzerService {
+  private static instance: TimingAnalyzerService | null = null;
+  private config: TimingConfig = DEFAULT_TIMING_CONFIG;
+
+  private constructor() {
+    const path = process.env['TIMING_CONFIG_PATH'];
+    if (path !== undefined && path !== '') {
+      try {
+        this.config = loadTimingConfig(path);
+        logger.info(
+          {
+            path,
+            marketTimezones: Object.keys(this.config.marketTimezones).length,
+          },
+          '🕒 Timing windows loaded'
+        );
+      } catch (error) {
+        logger.error(
+          {
+            path,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          'Failed to load timing config - using default timing windows'
+        );
+      }
+    }
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TimingAnalyzerService {
+    if (TimingAnalyzerService.instance === null) {
+      TimingAnalyzerService.instance = new TimingAnalyzerService();
+    }
+    return TimingAnalyzerService.instance;
+  }
+
+  /**
+   * Timing rules in force
+   */
+  public getConfig(): TimingConfig {
+    return this.config;
+  }
+
+  /**
+   * Evaluate a trade's timestamp against its market's windows
+   * Unknown categories use the `misc` rules.
+   */
+  public evaluate(
+    timestamp: number,
+    marketId: string,
+    category: string | undefined
+  ): TimingWindow[] {
+    const rules =
+      category !== undefined &&
+      MARKET_CATEGORIES.includes(category as MarketCategory)
+        ? this.config.categories[category as MarketCategory]
+        : this.config.categories.misc;
+    const timezone = this.config.marketTimezones[marketId] ?? rules.timezone;
+
+    const [isoDay = 1, hour = 0, minute = 0] = formatInTimeZone(
+      new Date(timestamp),
+      timezone,
+      'i H m'
+    )
+      .split(' ')
+      .map(Number);
+    const localTime = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+    const isWeekend = isoDay >= 6;
+
+    const offHours =
+      rules.offHoursStart <= rules.offHoursEnd
+        ? hour >= rules.offHoursStart && hour < rules.offHoursEnd
+        : hour >= rules.offHoursStart || hour < rules.offHoursEnd;
+
+    const nextRelease = this.minutesToNextRelease(
+      rules,
+      isoDay,
+      hour * 60 + minute
+    );
+
+    const windows: TimingWindow[] = [
+      {
+        name: 'offHours',
+        isActive: offHours,
+        description: `${localTime} ${timezone} (off-hours ${rules.offHoursStart}:00-${rules.offHoursEnd}:00)`,
+      },
+      {
+        name: 'weekend',
+        isActive: rules.weekends && isWeekend,
+        description: rules.weekends
+          ? `${WEEKDAY_NAMES[isoDay - 1] ?? 'Unknown'} in ${timezone}`
+          : 'Weekends are normal trading time for this category',
+      },
+    ];
+
+    if (rules.announcementTimes.length > 0) {
+      windows.push({
+        name: 'preAnnouncement',
+        isActive:
+          nextRelease !== null &&
+          nextRelease.minutes <= rules.preAnnouncementMinutes,
+        description:
+          nextRelease !== null
+            ? `${nextRelease.minutes} min before the ${nextRelease.time} ${timezone} release`
+            : 'No scheduled release ahead',
+      });
+    }
+
+    return windows;
+  }
+
+  /**
+   * Minutes until the next weekday release (today or tomorrow)
+   */
+  private minutesToNextRelease(
+    rules: CategoryTimingConfig,
+    isoDay: number,
+    minuteOfDay: number
+  ): { minutes: number; time: string } | null {
+    let best: { minutes: number; time: string } | null = null;
+    for (const time of rules.announcementTimes) {
+      const [releaseHour = 0, releaseMinute = 0] = time.split(':').map(Number);
+      const releaseMinuteOfDay = releaseHour * 60 + releaseMinute;
+
+      // Today's release if still ahead, otherwise tomorrow's
+      const today = releaseMinuteOfDay >= minuteOfDay;
+      const day = today ? isoDay : (isoDay % 7) + 1;
+      if (day >= 6) continue; // Releases run on weekdays only
+
+      const minutes = today
+        ? releaseMinuteOfDay - minuteOfDay
+        : releaseMinuteOfDay + 24 * 60 - minuteOfDay;
+      if (best === null || minutes < best.minutes) {
+        best = { minutes, time };
+      }
+    }
+    return best;
+  }
+}
+
+// Export singleton instance
+export const timingAnalyzer = TimingAnalyzerService.getInstance();
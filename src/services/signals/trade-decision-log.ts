@@ -0,0 +1,288 @@
+import { db } from '../database/prisma.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat, calculateUsdValue } from '../../utils/decimals.js';
+import type { FilterDecision, PolymarketTrade } from '../../types/index.js';
+
+/**
+ * Pipeline stage where a trade's processing ended
+ * - signal: size/impact filters in signalDetector.analyzeTrade
+ * - hard_filter: alert scorer hard filters and input validation
+ * - scored: passed every filter (reason is alerted, logged or ignored)
+ * - error: processing failed before a decision was reached
+ */
+export type DecisionStage = 'signal' | 'hard_filter' | 'scored' | 'error';
+
+export const DECISION_STAGES: readonly DecisionStage[] = [
+  'signal',
+  'hard_filter',
+  'scored',
+  'error',
+];
+
+/**
+ * Decision for one trade, as passed to record()
+ */
+export interface TradeDecisionEntry extends FilterDecision {
+  stage: DecisionStage;
+  walletAddress?: string; // Resolved signer (defaults to the trade taker)
+  score?: number;
+  classification?: string;
+}
+
+/**
+ * Stored decision, as returned by the query API
+ */
+export interface TradeDecisionRecord {
+  id: string;
+  tradeId: string;
+  marketId: string;
+  walletAddress: string;
+  tradeTimestamp: string;
+  tradeUsdValue: number;
+  stage: string;
+  reason: string;
+  value: number | null;
+  threshold: number | null;
+  thresholdRatio: number | null;
+  score: number | null;
+  classification: string | null;
+  createdAt: string;
+}
+
+export interface TradeDecisionFilters {
+  from?: Date;
+  to?: Date;
+  stage?: DecisionStage;
+  reason?: string;
+  marketId?: string;
+  walletAddress?: string;
+  minRatio?: number; // thresholdRatio >= minRatio
+  maxRatio?: number; // thresholdRatio < maxRatio
+  limit?: number; // Default: 100
+  offset?: number;
+}
+
+/**
+ * Decision counts per stage and reason
+ */
+export interface TradeDecisionSummary {
+  generatedAt: string;
+  filters: { from?: string; to?: string };
+  total: number;
+  stages: Array<{
+    stage: string;
+    reason: string;
+    count: number;
+    nearMisses: number; // Within NEAR_MISS_RATIO of the threshold
+  }>;
+}
+
+// thresholdRatio at or above this (and below 1) counts as a near-miss
+export const NEAR_MISS_RATIO = 0.8;
+
+/**
+ * Trade decision log
+ * Persists where each analyzed trade left the pipeline and by how much it
+ * missed the threshold, so near-misses and missed insiders can be traced
+ */
+class TradeDecisionLogService {
+  private static instance: TradeDecisionLogService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): TradeDecisionLogService {
+    if (TradeDecisionLogService.instance === null) {
+      TradeDecisionLogService.instance = new TradeDecisionLogService();
+    }
+    return TradeDecisionLogService.instance;
+  }
+
+  /**
+   * Record the decision for a trade
+   * Never throws - the decision log must not affect trade processing
+   */
+  public async record(
+    trade: PolymarketTrade,
+    entry: TradeDecisionEntry
+  ): Promise<void> {
+    const value = this.finiteOrNull(entry.value);
+    const threshold = this.finiteOrNull(entry.threshold);
+
+    try {
+      await db.getClient().tradeDecision.create({
+        data: {
+          tradeId: trade.id,
+          marketId: trade.marketId,
+          walletAddress: entry.walletAddress ?? trade.taker,
+          tradeTimestamp: new Date(trade.timestamp),
+          tradeUsdValue: calculateUsdValue(
+            safeParseFloat(trade.size),
+            safeParseFloat(trade.price)
+          ),
+          stage: entry.stage,
+          reason: entry.reason,
+          value,
+          threshold,
+          thresholdRatio:
+            value !== null && threshold !== null && threshold > 0
+              ? value / threshold
+              : null,
+          score: entry.score ?? null,
+          classification: entry.classification ?? null,
+        },
+      });
+    } catch (error) {
+      logger.error(
+        { error, tradeId: trade.id, stage: entry.stage, reason: entry.reason },
+        'Failed to record trade decision'
+      );
+    }
+  }
+
+  /**
+   * Query decisions, most recent first
+   */
+  public async query(
+    filters: TradeDecisionFilters = {}
+  ): Promise<{ decisions: TradeDecisionRecord[]; total: number }> {
+    const prisma = db.getClient();
+    const where = {
+      ...this.buildDateWhere(filters),
+      ...(filters.stage !== undefined && { stage: filters.stage }),
+      ...(filters.reason !== undefined && { reason: filters.reason }),
+      ...(filters.marketId !== undefined && { marketId: filters.marketId }),
+      ...(filters.walletAddress !== undefined && {
+        walletAddress: filters.walletAddress,
+      }),
+      ...((filters.minRatio !== undefined ||
+        filters.maxRatio !== undefined) && {
+        thresholdRatio: {
+          ...(filters.minRatio !== undefined && { gte: filters.minRatio }),
+          ...(filters.maxRatio !== undefined && { lt: filters.maxRatio }),
+        },
+      }),
+    };
+
+    const [rows, total] = await Promise.all([
+      prisma.tradeDecision.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit ?? 100,
+        skip: filters.offset ?? 0,
+      }),
+      prisma.tradeDecision.count({ where }),
+    ]);
+
+    return {
+      decisions: rows.map((row) => ({
+        id: row.id,
+        tradeId: row.tradeId,
+        marketId: row.marketId,
+        walletAddress: row.walletAddress,
+        tradeTimestamp: row.tradeTimestamp.toISOString(),
+        tradeUsdValue: row.tradeUsdValue,
+        stage: row.stage,
+        reason: row.reason,
+        value: row.value,
+        threshold: row.threshold,
+        thresholdRatio: row.thresholdRatio,
+        score: row.score,
+        classification: row.classification,
+        createdAt: row.createdAt.toISOString(),
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Count decisions per stage and reason (persistent filter funnel)
+   */
+  public async getSummary(
+    filters: { from?: Date; to?: Date } = {}
+  ): Promise<TradeDecisionSummary> {
+    const prisma = db.getClient();
+    const where = this.buildDateWhere(filters);
+
+    const [cells, nearMissCells] = await Promise.all([
+      prisma.tradeDecision.groupBy({
+        by: ['stage', 'reason'],
+        where,
+        _count: { _all: true },
+      }),
+      prisma.tradeDecision.groupBy({
+        by: ['stage', 'reason'],
+        where: {
+          ...where,
+          thresholdRatio: { gte: NEAR_MISS_RATIO, lt: 1 },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const nearMisses = new Map(
+      nearMissCells.map((cell) => [
+        `${cell.stage}:${cell.reason}`,
+        cell._count._all,
+      ])
+    );
+    const stages = cells
+      .map((cell) => ({
+        stage: cell.stage,
+        reason: cell.reason,
+        count: cell._count._all,
+        nearMisses: nearMisses.get(`${cell.stage}:${cell.reason}`) ?? 0,
+      }))
+      .sort(
+        (a, b) =>
+          DECISION_STAGES.indexOf(a.stage as DecisionStage) -
+            DECISION_STAGES.indexOf(b.stage as DecisionStage) ||
+          b.count - a.count
+      );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      filters: {
+        ...(filters.from !== undefined && {
+          from: filters.from.toISOString(),
+        }),
+        ...(filters.to !== undefined && { to: filters.to.toISOString() }),
+      },
+      total: stages.reduce((sum, cell) => sum + cell.count, 0),
+      stages,
+    };
+  }
+
+  /**
+   * Delete decisions recorded before the cutoff
+   */
+  public async pruneBefore(cutoff: Date): Promise<number> {
+    const result = await db.getClient().tradeDecision.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+    return result.count;
+  }
+
+  private buildDateWhere(filters: { from?: Date; to?: Date }): {
+    createdAt?: { gte?: Date; lte?: Date };
+  } {
+    if (filters.from === undefined && filters.to === undefined) return {};
+    return {
+      createdAt: {
+        ...(filters.from !== undefined && { gte: filters.from }),
+        ...(filters.to !== undefined && { lte: filters.to }),
+      },
+    };
+  }
+
+  private finiteOrNull(value: number | null): number | null {
+    return value !== null && isFinite(value) ? value : null;
+  }
+}
+
+// Export singleton instance
+export const tradeDecisionLog = TradeDecisionLogService.getInstance();
@@ -0,0 +1,480 @@
+import type { WatchedWallet } from '@prisma/client';
+
+import { db } from '../database/prisma.js';
+import { redis } from '../cache/redis.js';
+import { marketService } from '../polymarket/market-service.js';
+import { polymarketDataApi } from '../polymarket/data-api-client.js';
+import { polymarketSubgraph } from '../polymarket/subgraph-client.js';
+import { notificationCoordinator } from '../notifications/notification-coordinator.js';
+import { logger } from '../../utils/logger.js';
+import { safeParseFloat } from '../../utils/decimals.js';
+import { stripMarkdown } from '../../utils/markdown.js';
+import type { PolymarketTrade, Result } from '../../types/index.js';
+
+const SEEN_KEY_PREFIX = 'watchlist:seen';
+const SEEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+export type WatchedRole = 'taker' | 'maker';
+
+/**
+ * One trade by a watched wallet, from the live pipeline or the Data API
+ */
+export interface WatchedActivity {
+  side: 'buy' | 'sell';
+  outcome: string;
+  shares: number;
+  price: number;
+  marketTitle: string;
+  marketSlug: string | null; // Polymarket event slug for the link
+  monitored: boolean;
+  role: WatchedRole | null; // Unknown for Data API trades
+  timestamp: number;
+}
+
+export interface WatchWalletInput {
+  address: string;
+  label?: string;
+  source: 'alert' | 'manual';
+  alertId?: string;
+  addedBy: string;
+}
+
+/**
+ * The fill as the watched wallet made it: for a maker match the taker and
+ * maker swap and the side flips (the maker took the other side of the fill)
+ */
+export function asWalletTrade(
+  trade: PolymarketTrade,
+  role: WatchedRole
+): PolymarketTrade {
+  if (role === 'taker') return trade;
+  return {
+    ...trade,
+    taker: trade.maker,
+    maker: trade.taker,
+    side: trade.side === 'buy' ? 'sell' : 'buy',
+  };
+}
+
+/**
+ * Format watched wallet activity as one Markdown message
+ */
+export function formatWatchedActivity(
+  wallet: WatchedWallet,
+  activity: WatchedActivity
+): string {
+  const name =
+    wallet.label !== null
+      ? `${stripMarkdown(wallet.label)} (\`${wallet.address}\`)`
+      : `\`${wallet.address}\``;
+  const usd = activity.shares * activity.price;
+
+  const lines = [
+    `👁️ *Watched wallet activity*`,
+    name,
+    `${activity.side.toUpperCase()} ${stripMarkdown(activity.outcome).toUpperCase()} · $${Math.round(usd).toLocaleString('en-US')} @ ${Math.round(activity.price * 100)}¢` +
+      (activity.role !== null ? ` (${activity.role})` : ''),
+    `${stripMarkdown(activity.marketTitle)}${activity.monitored ? '' : ' _(not monitored)_'}`,
+  ];
+  if (activity.marketSlug !== null) {
+    lines.push(`https://polymarket.com/event/${activity.marketSlug}`);
+  }
+  lines.push(
+    wallet.source === 'alert' && wallet.alertId !== null
+      ? `Watched since STRONG_INSIDER alert \`${wallet.alertId}\``
+      : `Watched since ${wallet.createdAt.toISOString().slice(0, 10)} (${wallet.addedBy})`
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Wallet watchlist
+ * Wallets added here (automatically from STRONG_INSIDER alerts, or by hand)
+ * are followed in every market at any size. On monitored markets their
+ * fills skip the size and impact gates; everywhere else the Data API user
+ * trades endpoint is polled. Each trade sends one "watched wallet activity"
+ * notification.
+ */
+class WalletWatchlist {
+  private static instance: WalletWatchlist | null = null;
+  private wallets = new Map<string, WatchedWallet>(); // By address and proxy
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  private readonly AUTO_ADD: boolean;
+  private readonly POLL_ENABLED: boolean;
+  private readonly POLL_MINUTES: number;
+  private readonly POLL_LOOKBACK_HOURS = 24;
+
+  private constructor() {
+    this.AUTO_ADD = process.env['WATCHLIST_AUTO_ADD'] !== 'false';
+    this.POLL_ENABLED = process.env['WATCHLIST_POLL_ENABLED'] !== 'false';
+    this.POLL_MINUTES = Number(process.env['WATCHLIST_POLL_MINUTES']) || 5;
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): WalletWatchlist {
+    if (WalletWatchlist.instance === null) {
+      WalletWatchlist.instance = new WalletWatchlist();
+    }
+    return WalletWatchlist.instance;
+  }
+
+  /**
+   * Load the watchlist and start polling the Data API
+   */
+  public async start(): Promise<void> {
+    await this.load();
+
+    if (!this.POLL_ENABLED) {
+      logger.info('Watched wallet polling disabled');
+      return;
+    }
+    if (this.pollInterval !== null) {
+      logger.warn('Watched wallet polling already running');
+      return;
+    }
+
+    this.pollInterval = setInterval(
+      () => {
+        void this.poll();
+      },
+      this.POLL_MINUTES * 60 * 1000
+    );
+
+    logger.info(
+      { wallets: this.countWallets(), pollMinutes: this.POLL_MINUTES },
+      '👁️ Wallet watchlist started'
+    );
+  }
+
+  /**
+   * Stop polling
+   */
+  public stop(): void {
+    if (this.pollInterval !== null) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      logger.info('Watched wallet polling stopped');
+    }
+  }
+
+  /**
+   * Reload the watchlist from the database
+   */
+  public async load(): Promise<void> {
+    try {
+      const rows = await db.getClient().watchedWallet.findMany();
+      const wallets = new Map<string, WatchedWallet>();
+      for (const row of rows) {
+        wallets.set(row.address, row);
+        if (row.proxyAddress !== null) wallets.set(row.proxyAddress, row);
+      }
+      this.wallets = wallets;
+    } catch (error) {
+      logger.error({ error }, 'Failed to load wallet watchlist');
+    }
+  }
+
+  /**
+   * Watched wallet on either side of a fill (taker first), or null
+   */
+  public match(
+    trade: PolymarketTrade
+  ): { wallet: WatchedWallet; role: WatchedRole } | null {
+    const taker = this.wallets.get(trade.taker.toLowerCase());
+    if (taker !== undefined) return { wallet: taker, role: 'taker' };
+
+    const maker =
+      trade.maker !== ''
+        ? this.wallets.get(trade.maker.toLowerCase())
+        : undefined;
+    if (maker !== undefined) return { wallet: maker, role: 'maker' };
+
+    return null;
+  }
+
+  /**
+   * Watch a wallet (or update its label)
+   * A proxy address is stored alongside its signer when the mapping is known.
+   */
+  public async add(
+    input: WatchWalletInput
+  ): Promise<Result<WatchedWallet, string>> {
+    if (!ADDRESS_PATTERN.test(input.address)) {
+      return { success: false, error: `Invalid address: ${input.address}` };
+    }
+
+    const given = input.address.toLowerCase();
+    let address = given;
+    let proxyAddress: string | null = null;
+    try {
+      const signer = await polymarketSubgraph.getSignerFromProxy(given);
+      if (signer !== null && signer.toLowerCase() !== given) {
+        address = signer.toLowerCase();
+        proxyAddress = given;
+      }
+    } catch (error) {
+      logger.debug({ error, address: given }, 'Proxy lookup failed');
+    }
+
+    const wallet = await db.getClient().watchedWallet.upsert({
+      where: { address },
+      create: {
+        address,
+        proxyAddress,
+        label: input.label ?? null,
+        source: input.source,
+        alertId: input.alertId ?? null,
+        addedBy: input.addedBy,
+      },
+      update: {
+        ...(proxyAddress !== null && { proxyAddress }),
+        ...(input.label !== undefined && { label: input.label }),
+      },
+    });
+    await this.load();
+
+    logger.info(
+      {
+        address,
+        proxyAddress,
+        source: input.source,
+        addedBy: input.addedBy,
+      },
+      '👁️ Wallet added to watchlist'
+    );
+    return { success: true, data: wallet };
+  }
+
+  /**
+   * Watch the wallet behind a STRONG_INSIDER alert (WATCHLIST_AUTO_ADD)
+   */
+  public async addFromAlert(
+    walletAddress: string,
+    proxyAddress: string,
+    alertId: string | undefined
+  ): Promise<void> {
+    if (!this.AUTO_ADD || this.wallets.has(walletAddress.toLowerCase())) {
+      return;
+    }
+
+    try {
+      const wallet = await db.getClient().watchedWallet.upsert({
+        where: { address: walletAddress.toLowerCase() },
+        create: {
+          address: walletAddress.toLowerCase(),
+          proxyAddress:
+            proxyAddress.toLowerCase() !== walletAddress.toLowerCase()
+              ? proxyAddress.toLowerCase()
+              : null,
+          source: 'alert',
+          alertId: alertId ?? null,
+          addedBy: 'alert',
+        },
+        update: {},
+      });
+      await this.load();
+
+      logger.info(
+        { address: wallet.address, alertId },
+        '👁️ STRONG_INSIDER wallet added to watchlist'
+      );
+    } catch (error) {
+      logger.warn(
+        {
+          error: error instanceof Error ? error.message : String(error),
+          wallet: walletAddress.substring(0, 10) + '...',
+        },
+        'Failed to add alerted wallet to watchlist'
+      );
+    }
+  }
+
+  /**
+   * Stop watching a wallet (by signer or proxy address)
+   * Returns false when it was not watched.
+   */
+  public async remove(address: string): Promise<boolean> {
+    const normalized = address.toLowerCase();
+    const { count } = await db.getClient().watchedWallet.deleteMany({
+      where: {
+        OR: [{ address: normalized }, { proxyAddress: normalized }],
+      },
+    });
+    await this.load();
+
+    if (count > 0) {
+      logger.info({ address: normalized }, '👁️ Wallet removed from watchlist');
+    }
+    return count > 0;
+  }
+
+  /**
+   * Watched wallets, most recently added first
+   */
+  public async list(): Promise<WatchedWallet[]> {
+    return db.getClient().watchedWallet.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Notify a watched wallet's fill on a monitored market (once per fill)
+   */
+  public async notifyTrade(
+    wallet: WatchedWallet,
+    trade: PolymarketTrade,
+    role: WatchedRole,
+    market: { question: string; slug: string }
+  ): Promise<void> {
+    const walletTrade = asWalletTrade(trade, role);
+    await this.notify(wallet, `trade:${trade.id}:${role}`, {
+      side: walletTrade.side,
+      outcome: walletTrade.outcome,
+      shares: safeParseFloat(walletTrade.size),
+      price: safeParseFloat(walletTrade.price),
+      marketTitle: market.question,
+      marketSlug: market.slug,
+      monitored: true,
+      role,
+      timestamp: walletTrade.timestamp,
+    });
+  }
+
+  /**
+   * Check each watched wallet's recent Data API trades for markets we
+   * don't monitor (monitored markets go through the live pipeline)
+   */
+  public async poll(): Promise<number> {
+    if (this.isPolling) {
+      logger.debug('Watched wallet poll already in progress - skipping');
+      return 0;
+    }
+
+    this.isPolling = true;
+    let notified = 0;
+    try {
+      // Pick up wallets added on other instances
+      await this.load();
+
+      const since = Date.now() - this.POLL_LOOKBACK_HOURS * 60 * 60 * 1000;
+      const wallets = new Set(this.wallets.values());
+
+      for (const wallet of wallets) {
+        const trades = await polymarketDataApi.getUserTrades(
+          wallet.proxyAddress ?? wallet.address,
+          50,
+          false
+        );
+
+        for (const trade of trades) {
+          const timestamp = trade.timestamp * 1000;
+          if (timestamp < Math.max(since, wallet.createdAt.getTime())) {
+            continue;
+          }
+          if (marketService.getMarketByConditionId(trade.conditionId)) {
+            continue;
+          }
+
+          const sent = await this.notify(
+            wallet,
+            `data-api:${trade.transactionHash}:${trade.asset}:${trade.side}:${trade.size}`,
+            {
+              side: trade.side === 'SELL' ? 'sell' : 'buy',
+              outcome: trade.outcome,
+              shares: trade.size,
+              price: trade.price,
+              marketTitle: trade.title,
+              marketSlug: trade.eventSlug !== '' ? trade.eventSlug : null,
+              monitored: false,
+              role: null,
+              timestamp,
+            }
+          );
+          if (sent) notified++;
+        }
+      }
+
+      logger.debug(
+        { wallets: wallets.size, notified },
+        'Watched wallet poll complete'
+      );
+    } catch (error) {
+      logger.error({ error }, 'Watched wallet poll failed');
+    } finally {
+      this.isPolling = false;
+    }
+    return notified;
+  }
+
+  /**
+   * Send one activity notification per trade and record the activity
+   * Returns false when the trade was already notified.
+   */
+  private async notify(
+    wallet: WatchedWallet,
+    tradeKey: string,
+    activity: WatchedActivity
+  ): Promise<boolean> {
+    try {
+      const claimed = await redis
+        .getClient()
+        .set(
+          `${SEEN_KEY_PREFIX}:${wallet.id}:${tradeKey}`,
+          '1',
+          'EX',
+          SEEN_TTL_SECONDS,
+          'NX'
+        );
+      if (claimed !== 'OK') return false;
+    } catch {
+      // Redis unavailable - a repeat notification beats a missed one
+    }
+
+    const result = await notificationCoordinator.sendMessage(
+      formatWatchedActivity(wallet, activity)
+    );
+    if (!result.anySuccess) {
+      logger.warn(
+        { address: wallet.address, tradeKey },
+        'Watched wallet activity notification failed on all channels'
+      );
+    }
+
+    await db
+      .getClient()
+      .watchedWallet.update({
+        where: { id: wallet.id },
+        data: {
+          lastActivityAt: new Date(activity.timestamp),
+          lastMarket: activity.marketTitle,
+        },
+      })
+      .catch((error: unknown) => {
+        logger.debug({ error }, 'Failed to record watched wallet activity');
+      });
+
+    logger.info(
+      {
+        address: wallet.address,
+        market: activity.marketTitle,
+        side: activity.side,
+        outcome: activity.outcome,
+        monitored: activity.monitored,
+      },
+      '👁️ Watched wallet activity'
+    );
+    return true;
+  }
+
+  private countWallets(): number {
+    return new Set(this.wallets.values()).size;
+  }
+}
+
+// Export singleton instance
+export const walletWatchlist = WalletWatchlist.getInstance();
@@ -87,6 +87,17 @@ export interface TradeSignal {
   outcome: 'yes' | 'no';
   absoluteSizeTier?: string; // 'whale', 'large', 'significant', 'notable', 'small'
   passedViaAbsoluteSize?: boolean; // true if passed due to size despite low impact
+  componentTradeIds?: string[]; // Set on aggregated signals: every fill of the accumulated position
+}
+
+/**
+ * A pipeline filter that stopped a trade
+ * value/threshold are null when the check is not numeric (e.g. missing data)
+ */
+export interface FilterDecision {
+  reason: string; // Funnel stat name, e.g. 'filtered_oi_threshold'
+  value: number | null; // Measured value
+  threshold: number | null; // Minimum it was compared against
 }
 
 export interface DormancyMetrics {
@@ -147,6 +158,9 @@ export interface MarketConfig {
   endDate?: string;
   openInterest: string;
   volume: string;
+  gammaEventId?: string; // Gamma event grouping (one market per candidate/outcome)
+  gammaEventSlug?: string;
+  gammaEventTitle?: string;
 }
 
 // ============================================================================
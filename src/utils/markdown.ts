@@ -0,0 +1,11 @@
+/**
+ * Markdown helpers for notification text
+ */
+
+/**
+ * Strip Markdown control characters so free text (market questions and the
+ * like) can't break message parsing
+ */
+export function stripMarkdown(text: string): string {
+  return text.replace(/[*_`[\]]/g, '');
+}
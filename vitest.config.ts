@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Modules validate env on import - unit tests never reach these services
+    env: {
+      NODE_ENV: 'test',
+      LOG_LEVEL: 'fatal',
+      DATABASE_URL: 'postgresql://localhost:5432/test',
+      REDIS_URL: 'redis://localhost:6379',
+      ALCHEMY_API_KEY: 'test',
+      POLYGONSCAN_API_KEY: 'test',
+    },
+  },
+});